@@ -35,6 +35,8 @@ const filesToCopy = [
   'README.zh-CN.md',
   'config.example.yaml',
   'config.example.json',
+  'qcr.schema.json',
+  'builtin-provider.yaml',
   'INSTALL.md',
   'INSTALL.zh-CN.md',
   'CROSS_PLATFORM_SUMMARY.md',
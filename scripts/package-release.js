@@ -138,6 +138,7 @@ class ReleasePackager {
             'README.zh-CN.md',
             'config.example.yaml',
             'config.example.json',
+            'builtin-provider.yaml',
             'INSTALL.md',
             'INSTALL.zh-CN.md',
             'CROSS_PLATFORM_SUMMARY.md',
@@ -48,6 +48,40 @@ export function parseFlags(
   return { parsedFlags, remainingArgs };
 }
 
+/**
+ * 提取带值的选项参数 (--tag value 或 --tag=value)
+ * @param args - 参数数组
+ * @param option - 选项名称，例如 '--tag'
+ * @returns 解析结果，包含选项值（未指定时为undefined）和剩余参数；缺少值时返回错误
+ */
+export function extractOption(
+  args: string[],
+  option: string
+): {
+  value?: string;
+  remainingArgs: string[];
+  error?: string;
+} {
+  let value: string | undefined;
+  const remainingArgs: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === undefined) continue;
+
+    if (arg === option || arg.startsWith(`${option}=`)) {
+      value = arg === option ? args[++i] : arg.substring(option.length + 1);
+      if (!value || !value.trim()) {
+        return { remainingArgs, error: `${option} requires a value` };
+      }
+    } else {
+      remainingArgs.push(arg);
+    }
+  }
+
+  return value === undefined ? { remainingArgs } : { value, remainingArgs };
+}
+
 /**
  * 验证参数数量
  * @param args - 参数数组
@@ -2,6 +2,9 @@ import {
   discoverAndLoadConfig,
 } from './persistence';
 import { ConfigFile } from './types';
+import { findConfigurationByName, findProviderByName } from './resolver';
+import { applyConfigOverrides } from './environment';
+import { unlockVaultFor } from './vault';
 import {
   createErrorResult,
   configFileNotFoundError,
@@ -51,4 +54,16 @@ export async function loadConfigFile(currentDir?: string): Promise<{
       throw error;
     }
   }
-}
\ No newline at end of file
+}
+/**
+ * Prompts for the vault passphrase when a configuration (or its provider) keeps
+ * its API key in the vault (`api_key: vault:name`)
+ * @param configName - Configuration about to be activated
+ * @param config - Loaded configuration file
+ * @returns Promise that resolves once the vault can be read (or cannot be unlocked interactively)
+ */
+export async function unlockVaultForConfiguration(configName: string, config: ConfigFile): Promise<void> {
+  const configEntry = findConfigurationByName(configName, config);
+  const provider = configEntry ? findProviderByName(configEntry.provider, config) : null;
+  await unlockVaultFor(configEntry && provider ? applyConfigOverrides(configEntry, provider).api_key : undefined);
+}
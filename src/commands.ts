@@ -5,17 +5,29 @@
  */
 
 import {
-  getAllConfigurationNames,
+  findConfigurationByName,
+  findConfigurationsByTag,
   getCurrentDefaultConfiguration
 } from './resolver';
 import { validateEnvironmentVariables } from './environment';
-import { ConfigFile } from './types';
+import { Config, ConfigEntry, ConfigFile } from './types';
 
 // Export handler functions from individual command files
+export { handleInitCommand } from './commands/init';
 export { handleUseCommand } from './commands/use';
+export { handleEnvCommand } from './commands/env';
 export { handleRunCommand } from './commands/run';
+export { handleExecCommand } from './commands/exec';
+export { handleShellCommand } from './commands/shell';
+export { handleHookCommand } from './commands/hook';
+export { handleSecretCommand } from './commands/secret';
 export { handleSetDefaultCommand } from './commands/set-default';
 export { handleListCommand } from './commands/list';
+export { handleConfigCommand } from './commands/config';
+export { handleProviderCommand } from './commands/provider';
+export { handleSchemaCommand } from './commands/schema';
+export { handleMigrateCommand } from './commands/migrate';
+export { handleConvertCommand } from './commands/convert';
 export { handleChkCommand } from './commands/chk';
 export { handleRouterCommand } from './commands/router';
 
@@ -35,47 +47,66 @@ export interface CommandResult {
 
 /**
  * Lists all available configurations
+ * Configurations of named groups are listed in a section per group.
  * @param configFile - Configuration file to list from
- * @param options - Display options
+ * @param options - Display options (activeConfig marks the currently active configuration, tag limits the list to tagged configurations)
  * @returns CommandResult with configuration list
  */
 export function listConfigurations(
   configFile: ConfigFile,
-  options: { verbose?: boolean } = {}
+  options: { verbose?: boolean; activeConfig?: string | null; tag?: string } = {}
 ): CommandResult {
   try {
-    const configNames = getAllConfigurationNames(configFile);
-    const defaultConfig = getCurrentDefaultConfiguration(configFile);
+    const tagged = options.tag ? findConfigurationsByTag(options.tag, configFile) : null;
+    const groups: Array<{ configGroup: Config; entries: ConfigEntry[] }> = [];
+    for (const configGroup of configFile.configs) {
+      const entries = configGroup.config.filter(entry => !tagged || tagged.includes(entry));
+      if (entries.length > 0) {
+        groups.push({ configGroup, entries });
+      }
+    }
+    const defaultName = getCurrentDefaultConfiguration(configFile);
+    const defaultEntry = defaultName ? findConfigurationByName(defaultName, configFile) : null;
+    const activeEntry = options.activeConfig ? findConfigurationByName(options.activeConfig, configFile) : null;
 
-    if (configNames.length === 0) {
+    if (groups.length === 0) {
       return {
         success: true,
-        message: 'No configurations found',
-        details: 'Add configurations to your configuration file to get started.',
+        message: options.tag ? `No configurations tagged '${options.tag}'` : 'No configurations found',
+        details: options.tag
+          ? 'Add tags to configuration entries to filter them, e.g. tags: [cheap, local].'
+          : 'Add configurations to your configuration file to get started.',
         exitCode: 0
       };
     }
 
-    let message = 'Available configurations:';
+    let message = options.tag ? `Available configurations tagged '${options.tag}':` : 'Available configurations:';
     let details = '';
 
-    for (const configName of configNames) {
-      const isDefault = configName === defaultConfig;
-      const marker = isDefault ? ' (default)' : '';
-
-      if (options.verbose) {
-        // Find the configuration details
-        const configEntry = configFile.configs
-          .flatMap(c => c.config)
-          .find(c => c.name === configName);
+    for (const { configGroup, entries } of groups) {
+      // Entries of a named group are indented under the group heading
+      let indent = '  ';
+      if (configGroup.group) {
+        details += `\n  ${configGroup.group}:${configGroup.description ? ` ${configGroup.description}` : ''}`;
+        indent = '    ';
+      }
 
-        if (configEntry) {
-          details += `\n  ${configName}${marker} - Provider: ${configEntry.provider}, Model: ${configEntry.model}`;
+      for (const configEntry of entries) {
+        const isDefault = configEntry === defaultEntry;
+        const isActive = configEntry === activeEntry;
+        const marker = (isDefault ? ' (default)' : '') + (isActive ? ' (active)' : '');
+
+        if (options.verbose) {
+          details += `\n${indent}${configEntry.name}${marker} - Provider: ${configEntry.provider}, Model: ${configEntry.model}`;
+          if (configEntry.description) {
+            details += `\n${indent}  ${configEntry.description}`;
+          }
+          if (configEntry.tags && configEntry.tags.length > 0) {
+            details += `\n${indent}  Tags: ${configEntry.tags.join(', ')}`;
+          }
         } else {
-          details += `\n  ${configName}${marker}`;
+          details += `\n${indent}${configEntry.name}${marker}`;
         }
-      } else {
-        details += `\n  ${configName}${marker}`;
       }
     }
 
@@ -3,10 +3,32 @@
  */
 
 import { loadConfigFile } from '../command-utils';
-import { getAllConfigurationNames, getCurrentDefaultConfiguration, BUILT_IN_PROVIDERS } from '../resolver';
+import {
+  findConfigurationByName,
+  findConfigurationMatches,
+  findConfigurationsByTag,
+  getAllConfigurationNames,
+  getConfigurationReference,
+  getCurrentDefaultConfiguration,
+  getModelMetadata,
+  withCanonicalNames
+} from '../resolver';
+import { getBuiltInProvider } from '../provider-registry';
+import { findMissingCapabilities, REQUIRED_CAPABILITIES } from '../model-metadata';
 import { CommandResult } from '../commands';
 import { ConfigFile } from '../types';
-import { parseFlags } from '../command-args';
+import { extractOption, parseFlags } from '../command-args';
+import {
+  findUnresolvedReferences,
+  hasLazyApiKey,
+  expandPath,
+  resolveProviderApiKey,
+  resolveProviderBaseUrl
+} from '../interpolation';
+import { getVaultFilePath, hasSecret, parseVaultReference, unlockVaultFor } from '../vault';
+import { applyConfigOverrides } from '../environment';
+import { HealthStatus, tryRecordHealthStatuses } from '../health';
+import * as fs from 'fs';
 
 /**
  * Options for the chk command
@@ -20,6 +42,10 @@ export interface ChkCommandOptions {
   verbose?: boolean;
   /** Whether to test actual API connectivity */
   testApi?: boolean;
+  /** Only validate configurations carrying this tag (--tag) */
+  tag?: string;
+  /** Only validate configurations of this group (--group) */
+  group?: string;
 }
 
 /**
@@ -45,6 +71,37 @@ export interface ConfigValidationResult {
     name: string;
     isSupported: boolean;
   };
+  /** Provider and model as written, if they are aliases ("ds/fast") */
+  resolvedFrom?: string;
+}
+
+/**
+ * Records the results of --test-api, which the configuration picker shows
+ * @param filePath - Configuration file the configurations belong to
+ * @param results - Validation results keyed by configuration reference
+ */
+function recordApiTestResults(filePath: string, results: Array<[string, ConfigValidationResult]>): void {
+  const checkedAt = new Date().toISOString();
+  const statuses: Record<string, HealthStatus> = {};
+  for (const [reference, result] of results) {
+    const error = result.errors[0];
+    statuses[reference] = { ok: result.isValid, checkedAt, ...(error !== undefined && { error }) };
+  }
+  tryRecordHealthStatuses(filePath, statuses);
+}
+
+/**
+ * Formats the warnings about the configuration file as a whole, such as
+ * unknown keys, which no single configuration reports
+ * @param warnings - Warnings of the file validation
+ * @param indent - Indentation of the heading
+ * @returns Details section, or an empty string if there are no warnings
+ */
+function formatFileWarnings(warnings: string[], indent: string): string {
+  if (warnings.length === 0) {
+    return '';
+  }
+  return `\n\n${indent}File warnings:\n${warnings.map(w => `${indent}  - ${w}`).join('\n')}`;
 }
 
 /**
@@ -68,22 +125,25 @@ export async function validateConfigurationWithApi(
   }
 
   // Get the configuration and provider for API testing
-  const configEntry = configFile.configs
-    .flatMap(c => c.config)
-    .find(c => c.name === configName);
+  const declaredEntry = findConfigurationByName(configName, configFile);
+  const configEntry = declaredEntry && withCanonicalNames(declaredEntry, configFile);
   
-  const provider = configFile.providers.find(p => p.provider === configEntry!.provider);
+  const provider = configEntry && configFile.providers.find(p => p.provider === configEntry.provider);
   
   if (!provider || !configEntry) {
     return result;
   }
 
   // Test API connectivity
+  const providerEnv = applyConfigOverrides(configEntry, provider);
   try {
-    const response = await fetch(`${provider.env.base_url}/models`, {
+    // api_key_cmd / api_key_file / vault secrets are only read when the API is actually tested
+    await unlockVaultFor(providerEnv.api_key);
+    const apiKey = resolveProviderApiKey(providerEnv);
+    const response = await fetch(`${resolveProviderBaseUrl(providerEnv)}/models`, {
       method: 'GET',
       headers: {
-        'Authorization': `Bearer ${provider.env.api_key}`,
+        'Authorization': `Bearer ${apiKey}`,
         'Content-Type': 'application/json'
       },
       signal: AbortSignal.timeout(10000) // 10 second timeout
@@ -110,7 +170,7 @@ export async function validateConfigurationWithApi(
     result.isValid = false;
     if (error instanceof Error) {
       if (error.name === 'AbortError') {
-        result.errors.push(`API test timeout: Unable to connect to ${provider.env.base_url}`);
+        result.errors.push(`API test timeout: Unable to connect to ${providerEnv.base_url}`);
       } else {
         result.errors.push(`API test failed: ${error.message}`);
       }
@@ -137,64 +197,64 @@ export function validateConfiguration(configName: string, configFile: ConfigFile
   };
 
   // Find the configuration entry
-  const configEntry = configFile.configs
-    .flatMap(c => c.config)
-    .find(c => c.name === configName);
+  const declaredEntry = findConfigurationByName(configName, configFile);
 
-  if (!configEntry) {
+  if (!declaredEntry) {
     result.isValid = false;
     result.errors.push(`Configuration '${configName}' not found`);
     return result;
   }
 
+  // Aliases are checked under the provider and model they select
+  const configEntry = withCanonicalNames(declaredEntry, configFile);
+  if (configEntry !== declaredEntry) {
+    result.resolvedFrom = `${declaredEntry.provider}/${declaredEntry.model}`;
+  }
+
   // Validate provider exists
   const provider = configFile.providers?.find(p => p.provider === configEntry.provider);
   if (!provider) {
     // Check if it's a built-in provider
     const normalizedProvider = configEntry.provider.toLowerCase();
-    const isBuiltInProvider = Object.keys(BUILT_IN_PROVIDERS).includes(normalizedProvider);
-    if (!isBuiltInProvider) {
+    const builtInProvider = getBuiltInProvider(normalizedProvider);
+    if (!builtInProvider) {
       result.isValid = false;
       result.errors.push(`Provider '${configEntry.provider}' not found in providers section`);
       return result; // Early return when provider is missing
+    }
+
+    // For built-in providers, use built-in defaults
+    result.provider = {
+      name: configEntry.provider,
+      baseUrl: builtInProvider.baseUrl,
+      modelCount: builtInProvider.models.length
+    };
+    
+    // Validate model exists in built-in provider
+    const modelSupported = builtInProvider.models.includes(configEntry.model);
+    if (!modelSupported) {
+      result.isValid = false;
+      result.errors.push(`Model '${configEntry.model}' not found in built-in provider '${configEntry.provider}'. Supported models: ${builtInProvider.models.join(', ')}`);
     } else {
-      // For built-in providers, use built-in defaults
-      const builtInProvider = BUILT_IN_PROVIDERS[normalizedProvider];
-      if (builtInProvider) {
-        result.provider = {
-          name: configEntry.provider,
-          baseUrl: builtInProvider.baseUrl,
-          modelCount: builtInProvider.models.length
-        };
-        
-        // Validate model exists in built-in provider
-        const modelSupported = builtInProvider.models.includes(configEntry.model);
-        if (!modelSupported) {
-          result.isValid = false;
-          result.errors.push(`Model '${configEntry.model}' not found in built-in provider '${configEntry.provider}'. Supported models: ${builtInProvider.models.join(', ')}`);
-        } else {
-          result.model = {
-            name: configEntry.model,
-            isSupported: true
-          };
-        }
-        
-        // Add warning about API key
-        result.warnings.push(`Using built-in provider '${configEntry.provider}'. API key must be set via environment variable at runtime.`);
-      } else {
-        result.isValid = false;
-        result.errors.push(`Built-in provider '${configEntry.provider}' found but configuration is invalid`);
-      }
+      result.model = {
+        name: configEntry.model,
+        isSupported: true
+      };
     }
+    
+    // Add warning about API key
+    result.warnings.push(`Using built-in provider '${configEntry.provider}'. API key must be set via environment variable at runtime.`);
   } else {
     // Check if it's a built-in provider
     const normalizedProvider = provider.provider.toLowerCase();
-    const isBuiltInProvider = Object.keys(BUILT_IN_PROVIDERS).includes(normalizedProvider);
-    const builtInProvider = isBuiltInProvider ? BUILT_IN_PROVIDERS[normalizedProvider] : undefined;
+    const builtInProvider = getBuiltInProvider(normalizedProvider);
+    const isBuiltInProvider = builtInProvider !== null;
+    // The configuration's own api_key / base_url take precedence over the provider's
+    const providerEnv = applyConfigOverrides(configEntry, provider);
     
     result.provider = {
       name: provider.provider,
-      baseUrl: provider.env.base_url || builtInProvider?.baseUrl || '',
+      baseUrl: providerEnv.base_url || builtInProvider?.baseUrl || '',
       modelCount: provider.env.models?.length || builtInProvider?.models.length || 0
     };
 
@@ -208,19 +268,16 @@ export function validateConfiguration(configName: string, configFile: ConfigFile
       }
       // If provider has no models defined but is a built-in provider, 
       // check against built-in models
-      else if (isBuiltInProvider) {
-        const builtInProvider = BUILT_IN_PROVIDERS[normalizedProvider];
-        if (builtInProvider) {
-          const modelSupported = builtInProvider.models.includes(configEntry.model);
-          if (!modelSupported) {
-            result.isValid = false;
-            result.errors.push(`Model '${configEntry.model}' not found in built-in provider '${configEntry.provider}'. Supported models: ${builtInProvider.models.join(', ')}`);
-          } else {
-            result.model = {
-              name: configEntry.model,
-              isSupported: true
-            };
-          }
+      else if (builtInProvider) {
+        const modelSupported = builtInProvider.models.includes(configEntry.model);
+        if (!modelSupported) {
+          result.isValid = false;
+          result.errors.push(`Model '${configEntry.model}' not found in built-in provider '${configEntry.provider}'. Supported models: ${builtInProvider.models.join(', ')}`);
+        } else {
+          result.model = {
+            name: configEntry.model,
+            isSupported: true
+          };
         }
       }
       // If provider has no models defined and is not built-in, it's an error
@@ -235,8 +292,26 @@ export function validateConfiguration(configName: string, configFile: ConfigFile
       };
     }
 
-    // Check for API key configuration
-    if (!provider.env.api_key || !provider.env.api_key.trim()) {
+    // Check for API key configuration; unresolved ${VAR} references are reported
+    // separately from empty keys because they only fail on this machine
+    const unresolvedApiKey = findUnresolvedReferences(providerEnv.api_key);
+    const unresolvedBaseUrl = findUnresolvedReferences(providerEnv.base_url);
+    const vaultSecret = parseVaultReference(providerEnv.api_key);
+    if (vaultSecret) {
+      // Only the presence of the secret is checked; it is decrypted on activation
+      if (!hasSecret(vaultSecret)) {
+        result.isValid = false;
+        result.errors.push(`Vault secret '${vaultSecret}' for provider '${configEntry.provider}' not found in ${getVaultFilePath()}`);
+      }
+    } else if (unresolvedApiKey.length > 0) {
+      result.isValid = false;
+      result.errors.push(`Unresolved API key for provider '${configEntry.provider}': environment variable(s) not set: ${unresolvedApiKey.join(', ')}`);
+    } else if (hasLazyApiKey(providerEnv)) {
+      if (providerEnv.api_key_file && !fs.existsSync(expandPath(providerEnv.api_key_file))) {
+        result.isValid = false;
+        result.errors.push(`API key file for provider '${configEntry.provider}' not found: ${expandPath(providerEnv.api_key_file)}`);
+      }
+    } else if (!providerEnv.api_key || !providerEnv.api_key.trim()) {
       // For built-in providers, we add a warning about API key that must be set at runtime
       if (isBuiltInProvider) {
         result.warnings.push(`Using built-in provider '${configEntry.provider}'. API key must be set via environment variable at runtime.`);
@@ -246,7 +321,10 @@ export function validateConfiguration(configName: string, configFile: ConfigFile
     }
 
     // Check for base URL configuration
-    if (!provider.env.base_url) {
+    if (unresolvedBaseUrl.length > 0) {
+      result.isValid = false;
+      result.errors.push(`Unresolved base URL for provider '${configEntry.provider}': environment variable(s) not set: ${unresolvedBaseUrl.join(', ')}`);
+    } else if (!providerEnv.base_url) {
       // For built-in providers, we don't warn about missing base URL as we use the built-in one
       if (!isBuiltInProvider) {
         result.warnings.push(`No base URL configured for provider '${configEntry.provider}'`);
@@ -259,6 +337,14 @@ export function validateConfiguration(configName: string, configFile: ConfigFile
     }
   }
 
+  // Warn about models known to lack capabilities Qwen Code needs
+  if (result.model) {
+    const metadata = getModelMetadata(configEntry.provider, configEntry.model, configFile);
+    for (const capability of findMissingCapabilities(metadata)) {
+      result.warnings.push(`Model '${configEntry.model}' does not support ${REQUIRED_CAPABILITIES[capability]}`);
+    }
+  }
+
   // Note: Being the default configuration is not a warning condition
   // It's normal and expected behavior, so we don't add any warning for this
 
@@ -281,14 +367,24 @@ export async function chkCommand(options: ChkCommandOptions = {}): Promise<Comma
       return loadResult.errorResult;
     }
     
-    const { config, filePath } = loadResult;
+    const { config, filePath, validation } = loadResult;
+    const fileWarnings: string[] = validation?.warnings || [];
 
     // Get all available configurations
     const availableConfigs = getAllConfigurationNames(config);
 
     // For single configuration validation, we don't need the entire config file to be valid
     if (options.configName) {
-      if (!availableConfigs.includes(options.configName)) {
+      const matches = findConfigurationMatches(options.configName, config);
+      if (matches.length > 1) {
+        return {
+          success: false,
+          message: `Configuration '${options.configName}' is ambiguous`,
+          details: `Use a qualified name: ${matches.map(entry => getConfigurationReference(entry, config)).join(', ')}`,
+          exitCode: 1
+        };
+      }
+      if (matches.length === 0) {
         return {
           success: false,
           message: `Configuration '${options.configName}' does not exist`,
@@ -299,6 +395,9 @@ export async function chkCommand(options: ChkCommandOptions = {}): Promise<Comma
       
       // Validate just this configuration, regardless of overall config file validity
       const result = await validateConfigurationWithApi(options.configName, config, options.testApi || false);
+      if (options.testApi && filePath) {
+        recordApiTestResults(filePath, [[getConfigurationReference(matches[0]!, config), result]]);
+      }
       
       // Build result message for single configuration
       let message: string;
@@ -326,6 +425,7 @@ export async function chkCommand(options: ChkCommandOptions = {}): Promise<Comma
         }
         success = false;
       }
+      details += formatFileWarnings(fileWarnings, '');
 
       // Add detailed information in verbose mode
       if (options.verbose) {
@@ -340,6 +440,9 @@ export async function chkCommand(options: ChkCommandOptions = {}): Promise<Comma
           details += `\n  Name: ${result.model.name || 'undefined'}`;
           details += `\n  Supported: ${result.model.isSupported ? 'Yes' : 'No'}`;
         }
+        if (result.resolvedFrom && result.provider && result.model) {
+          details += `\n\nResolved: ${result.resolvedFrom} → ${result.provider.name}/${result.model.name}`;
+        }
         details += `\n\nConfiguration file: ${filePath || 'undefined'}`;
       }
       
@@ -362,12 +465,45 @@ export async function chkCommand(options: ChkCommandOptions = {}): Promise<Comma
       };
     }
 
+    let checkedEntries = config.configs.flatMap(c => c.config);
+    if (options.group) {
+      const group = config.configs.find(c => c.group === options.group);
+      if (!group) {
+        const groups = config.configs.map(c => c.group).filter((name): name is string => !!name);
+        return {
+          success: false,
+          message: `Configuration group '${options.group}' does not exist`,
+          details: groups.length > 0 ? `Available groups: ${groups.join(', ')}` : 'No configuration groups are named; add group: <name> to a configs entry.',
+          exitCode: 1
+        };
+      }
+      checkedEntries = group.config;
+    }
+    if (options.tag) {
+      const tagged = findConfigurationsByTag(options.tag, config);
+      checkedEntries = checkedEntries.filter(entry => tagged.includes(entry));
+    }
+
+    const scope = (options.group ? ` in group '${options.group}'` : '') + (options.tag ? ` tagged '${options.tag}'` : '');
+    const checkedConfigs = checkedEntries.map(entry => getConfigurationReference(entry, config));
+    if (checkedConfigs.length === 0) {
+      return {
+        success: false,
+        message: `No configurations${scope}`,
+        details: `Available configurations: ${availableConfigs.join(', ')}`,
+        exitCode: 1
+      };
+    }
+
     // Validate configurations
     const validationResults: ConfigValidationResult[] = [];
-    for (const configName of availableConfigs) {
+    for (const configName of checkedConfigs) {
       const result = await validateConfigurationWithApi(configName, config, options.testApi || false);
       validationResults.push(result);
     }
+    if (options.testApi && filePath) {
+      recordApiTestResults(filePath, checkedConfigs.map((name, index) => [name, validationResults[index]!]));
+    }
 
     // Build result message
     const validConfigs = validationResults.filter(r => r.isValid && r.warnings.length === 0);
@@ -379,16 +515,17 @@ export async function chkCommand(options: ChkCommandOptions = {}): Promise<Comma
 
     // Multiple configuration validation
     if (invalidConfigs.length === 0) {
-      message = `All ${validConfigs.length} configurations are valid`;
+      message = `All ${validConfigs.length} configurations${scope} are valid`;
     } else {
       const validCount = validConfigs.length;
       const totalCount = validationResults.length;
-      message = `${validCount} of ${totalCount} configurations are valid`;
+      message = `${validCount} of ${totalCount} configurations${scope} are valid`;
       success = false;
     }
 
     // Get default configuration for marking
-    const defaultConfig = getCurrentDefaultConfiguration(config);
+    const defaultName = getCurrentDefaultConfiguration(config);
+    const defaultEntry = defaultName ? findConfigurationByName(defaultName, config) : null;
 
     // Build compact configuration list on same line
     const configList: string[] = [];
@@ -406,15 +543,18 @@ export async function chkCommand(options: ChkCommandOptions = {}): Promise<Comma
         status = '✓'; // Valid with no warnings or errors
       }
       
-      const defaultMarker = result.configName === defaultConfig ? ' (default)' : '';
+      const defaultMarker = !!defaultEntry && findConfigurationByName(result.configName, config) === defaultEntry ? ' (default)' : '';
       
       // Always add to configList for non-verbose mode
       configList.push(`${status} ${result.configName}${defaultMarker}`);
 
       // For verbose mode, add all configurations with their status and details
       if (result.isValid && result.warnings.length === 0) {
-        // Valid configurations
-        errorDetails.push(`  ${status} ${result.configName}${defaultMarker}`);
+        // Valid configurations, with the names their aliases resolved to
+        const resolved = result.resolvedFrom && result.provider && result.model
+          ? ` (${result.resolvedFrom} → ${result.provider.name}/${result.model.name})`
+          : '';
+        errorDetails.push(`  ${status} ${result.configName}${defaultMarker}${resolved}`);
       } else if (result.errors.length > 0) {
         // Configurations with errors
         const firstError = result.errors[0];
@@ -436,6 +576,7 @@ export async function chkCommand(options: ChkCommandOptions = {}): Promise<Comma
         details += '\n  ' + configList.join('\n  ');
       }
     }
+    details += formatFileWarnings(fileWarnings, '  ');
 
     if (options.verbose) {
       details += `\n\nConfiguration file: ${filePath}`;
@@ -466,22 +607,27 @@ export function chkCommandHelp(): CommandResult {
 qcr chk - Validate configuration
 
 USAGE:
-  qcr chk [config_name]
+  qcr chk [config_name | --group <group>] [--tag <tag>]
 
 ARGUMENTS:
   config_name    Name of the configuration to validate (optional)
                  If not provided, validates all configurations
+                 Use group/name for a name that more than one group uses
 
 OPTIONS:
-  -v, --verbose  Show detailed validation information
-  --test-api     Test actual API connectivity (slower but more thorough)
-  -h, --help     Show this help message
+  -v, --verbose    Show detailed validation information
+  --test-api       Test actual API connectivity (slower but more thorough)
+  --tag <tag>      Only validate configurations carrying the tag
+  --group <group>  Only validate the configurations of the group
+  -h, --help       Show this help message
 
 EXAMPLES:
   qcr chk                    # Validate all configurations (static validation only)
   qcr chk openai-gpt4        # Validate specific configuration
   qcr chk azure-gpt35 -v     # Validate configuration with detailed output
   qcr chk --test-api         # Validate all configurations with API testing
+  qcr chk --tag prod         # Validate the configurations tagged 'prod'
+  qcr chk --group work       # Validate the configurations of group 'work'
 
 DESCRIPTION:
   The 'chk' command validates configurations to ensure they are properly
@@ -493,6 +639,7 @@ DESCRIPTION:
   - Referenced provider exists in the providers section
   - Referenced model exists in the provider's model list
   - Provider has required settings (API key, base URL)
+  - Model supports tool calling, if its metadata says whether it does
   
   API Validation (with --test-api):
   - All static validation checks
@@ -500,6 +647,8 @@ DESCRIPTION:
   - Verify model availability through API call
   - Provider has required settings (API key, base URL)
   - Provider has at least one model configured
+  - The result is recorded in health.json next to the active configuration
+    state, and shown by the configuration picker of 'qcr use'
   
   VALIDATION RESULTS:
   ✓ Success - Configuration is valid and ready to use
@@ -510,6 +659,9 @@ DESCRIPTION:
   configuration from working, and warnings for potential issues or
   missing optional settings.
   
+  Warnings about the file as a whole, such as keys the schema does not know
+  (e.g. 'base-url' instead of 'base_url'), are listed under 'File warnings'.
+  
   When validating all configurations, the command will show a summary
   of validation results and exit with code 1 if any configuration is invalid.
 `;
@@ -532,6 +684,16 @@ export function parseChkCommandArgs(args: string[]): {
   error?: string;
   showHelp?: boolean;
 } {
+  const tagOption = extractOption(args, '--tag');
+  if (tagOption.error) {
+    return { valid: false, error: tagOption.error };
+  }
+  const groupOption = extractOption(tagOption.remainingArgs, '--group');
+  if (groupOption.error) {
+    return { valid: false, error: groupOption.error };
+  }
+  args = groupOption.remainingArgs;
+
   const { parsedFlags, remainingArgs } = parseFlags(args, {
     help: ['-h', '--help'],
     verbose: ['-v', '--verbose'],
@@ -577,6 +739,26 @@ export function parseChkCommandArgs(args: string[]): {
     options.configName = remainingArgs[0];
   }
 
+  if (tagOption.value !== undefined) {
+    if (options.configName) {
+      return {
+        valid: false,
+        error: 'A configuration name cannot be combined with --tag'
+      };
+    }
+    options.tag = tagOption.value;
+  }
+
+  if (groupOption.value !== undefined) {
+    if (options.configName) {
+      return {
+        valid: false,
+        error: 'A configuration name cannot be combined with --group'
+      };
+    }
+    options.group = groupOption.value;
+  }
+
   return {
     valid: true,
     options
@@ -0,0 +1,479 @@
+/**
+ * 'config' command implementation for Qwen Code Router CLI
+ */
+
+import * as yaml from 'yaml';
+import {
+  atomicSaveConfigFile,
+  backupConfigFile,
+  discoverConfigLayers,
+  loadConfigFile,
+  loadConfigLayers
+} from '../persistence';
+import { loadConfigFile as loadResolvedConfigFile } from '../command-utils';
+import { findConfigurationByName, findProviderByName, getAllConfigurationNames, withCanonicalNames } from '../resolver';
+import { getDeclaredConfigEntry, getDeclaredProvider } from '../inheritance';
+import {
+  ConfigEditResult,
+  addConfigEntry,
+  copyConfigEntry,
+  removeConfigEntry,
+  renameConfigEntry
+} from '../config-entries';
+import { applyConfigOverrides } from '../environment';
+import { parseVaultReference } from '../vault';
+import { findUnresolvedReferences } from '../interpolation';
+import { ProviderEnv } from '../types';
+import {
+  ConfigLayer,
+  LayerOrigins,
+  MERGE_CONFIGS_ENV_VAR,
+  isLayerMergeEnabled,
+  mergeConfigLayers
+} from '../layers';
+import { getConfigPaths } from '../platform';
+import {
+  createErrorResult,
+  createSuccessResult,
+  configEditError,
+  configFileNotFoundError,
+  configNotFoundError,
+  configValidationError,
+  fileOperationError,
+  unexpectedError,
+  invalidArgumentsError
+} from '../errors';
+import { CommandResult } from '../commands';
+import { extractOption, parseFlags } from '../command-args';
+
+/**
+ * Subcommands of the config command
+ */
+export const CONFIG_SUBCOMMANDS = ['layers', 'show', 'add', 'remove', 'rename', 'copy'] as const;
+
+/**
+ * Config subcommand
+ */
+export type ConfigSubcommand = typeof CONFIG_SUBCOMMANDS[number];
+
+/**
+ * Options for the config command
+ */
+export interface ConfigCommandOptions {
+  /** Subcommand to run */
+  subcommand: ConfigSubcommand;
+  /** Configuration or provider name ('show'), or the configuration to edit */
+  name?: string | undefined;
+  /** New name ('rename', 'copy') */
+  newName?: string;
+  /** Whether to show the values after inheritance and overrides are applied ('show') */
+  resolved?: boolean;
+  /** Provider of the new configuration ('add') */
+  provider?: string;
+  /** Model of the new configuration ('add') */
+  model?: string;
+  /** Group of the new configuration ('add', 'copy') */
+  group?: string;
+  /** Description of the new configuration ('add') */
+  description?: string;
+  /** Tags of the new configuration ('add') */
+  tags?: string[];
+  /** New default configuration when the default is removed ('remove') */
+  newDefault?: string;
+  /** Whether to remove the default configuration without a new default ('remove') */
+  force?: boolean;
+  /** Current working directory (optional - defaults to process.cwd()) */
+  currentDir?: string;
+  /** Whether to show verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Formats origin rows as aligned "name  scope, scope" lines
+ * @param rows - Names with the files they come from
+ * @param layers - Layers used to label files by scope
+ * @returns Formatted lines
+ */
+function formatOriginRows(rows: Array<[string, string[]]>, layers: ConfigLayer[]): string[] {
+  const label = (filePath: string) => layers.find(layer => layer.filePath === filePath)?.scope || filePath;
+  const width = Math.max(0, ...rows.map(([name]) => name.length));
+  return rows.map(([name, files]) => `  ${name.padEnd(width)}  ${files.map(label).join(', ')}`);
+}
+
+/**
+ * Implements 'qcr config layers'
+ * Shows the configuration files that apply to the current directory and which
+ * file contributed each provider, configuration and default
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult>
+ */
+async function configLayersCommand(options: ConfigCommandOptions): Promise<CommandResult> {
+  const discovered = discoverConfigLayers(options.currentDir);
+  if (discovered.length === 0) {
+    return createErrorResult(configFileNotFoundError(getConfigPaths(options.currentDir).searchPaths));
+  }
+
+  const top = discovered[0]!;
+  let layers: ConfigLayer[];
+  let mergeEnabled: boolean;
+  try {
+    const topConfig = await loadConfigFile(top.filePath, top.format!);
+    mergeEnabled = isLayerMergeEnabled(topConfig);
+    layers = mergeEnabled
+      ? await loadConfigLayers(top.filePath, top.format!)
+      : [{ filePath: top.filePath, scope: top.scope, config: topConfig }];
+  } catch (error) {
+    return createErrorResult(fileOperationError('load', top.filePath, error instanceof Error ? error.message : 'Unknown error'));
+  }
+
+  const origins: LayerOrigins = mergeConfigLayers(layers).origins;
+  const lines: string[] = ['Configuration layers (highest precedence first):'];
+  const scopeWidth = Math.max(...discovered.map(layer => layer.scope.length));
+  for (const layer of discovered) {
+    const used = layers.some(l => l.filePath === layer.filePath);
+    lines.push(`  ${layer.scope.padEnd(scopeWidth)}  ${layer.filePath}${used ? '' : ' (not merged)'}`);
+  }
+
+  lines.push('', 'Providers:');
+  lines.push(...formatOriginRows(Object.entries(origins.providers), layers));
+  lines.push('', 'Configurations:');
+  lines.push(...formatOriginRows(Object.entries(origins.configs).map(([name, file]) => [name, [file]]), layers));
+  lines.push('', 'Default:');
+  const mergedDefault = layers.find(layer => layer.filePath === origins.default)?.config.default_config?.[0]?.name;
+  lines.push(mergedDefault && origins.default
+    ? formatOriginRows([[mergedDefault, [origins.default]]], layers)[0]!
+    : '  (none)');
+
+  const message = mergeEnabled
+    ? `Layered merging is enabled (${layers.length} file${layers.length === 1 ? '' : 's'} merged)`
+    : `Layered merging is disabled; only ${top.filePath} is used`;
+
+  if (!mergeEnabled && (discovered.length > 1 || options.verbose)) {
+    lines.push('', `Set 'merge: true' in ${top.filePath} or ${MERGE_CONFIGS_ENV_VAR}=1 to merge all layers`);
+  }
+
+  return createSuccessResult(message, lines.join('\n'));
+}
+
+/**
+ * Masks an API key for display; references are shown as written
+ * @param apiKey - API key value
+ * @returns Displayable value
+ */
+function maskApiKey(apiKey: string): string {
+  if (parseVaultReference(apiKey) || findUnresolvedReferences(apiKey).length > 0) {
+    return apiKey;
+  }
+  return `${apiKey.substring(0, 8)}...`;
+}
+
+/**
+ * Prepares a provider environment for display
+ * @param env - Provider environment
+ * @returns Environment with the API key masked
+ */
+function displayProviderEnv(env: ProviderEnv): ProviderEnv {
+  return typeof env.api_key === 'string' && env.api_key ? { ...env, api_key: maskApiKey(env.api_key) } : env;
+}
+
+/**
+ * Implements 'qcr config show [--resolved] <name>'
+ * Shows a configuration (or provider) as declared, or with `extends` and the
+ * configuration's overrides applied
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult>
+ */
+async function configShowCommand(options: ConfigCommandOptions): Promise<CommandResult> {
+  const loadResult = await loadResolvedConfigFile(options.currentDir);
+  if (!loadResult.success) {
+    return loadResult.errorResult;
+  }
+
+  const { config, filePath } = loadResult;
+  const name = options.name || '';
+  const configEntry = findConfigurationByName(name, config);
+  const suffix = options.resolved ? ' (resolved)' : '';
+  const footer = options.verbose ? `\n\nConfiguration file: ${filePath}` : '';
+
+  if (configEntry) {
+    let view: object = getDeclaredConfigEntry(configEntry);
+    if (options.resolved) {
+      const provider = findProviderByName(configEntry.provider, config);
+      const { extends: _extends, api_key: _apiKey, base_url: _baseUrl, ...entry } = withCanonicalNames(configEntry, config);
+      view = provider
+        ? { ...entry, provider_env: displayProviderEnv(applyConfigOverrides(configEntry, provider)) }
+        : entry;
+    }
+    return createSuccessResult(`Configuration '${name}'${suffix}`, yaml.stringify(view).trimEnd() + footer);
+  }
+
+  const provider = findProviderByName(name, config);
+  if (provider) {
+    const view = options.resolved ? { ...provider, env: displayProviderEnv(provider.env) } : getDeclaredProvider(provider);
+    return createSuccessResult(`Provider '${name}'${suffix}`, yaml.stringify(view).trimEnd() + footer);
+  }
+
+  return createErrorResult(configNotFoundError(name, getAllConfigurationNames(config)));
+}
+
+/**
+ * Implements 'qcr config add|remove|rename|copy'
+ * Edits the configurations of the configuration file in use; the file is
+ * backed up and only rewritten if the edited file is valid
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult>
+ */
+async function configEditCommand(options: ConfigCommandOptions): Promise<CommandResult> {
+  const loadResult = await loadResolvedConfigFile(options.currentDir);
+  if (!loadResult.success) {
+    return loadResult.errorResult;
+  }
+
+  const { config, validation, filePath } = loadResult;
+  if (!validation.isValid) {
+    return createErrorResult(configValidationError(validation.errors, validation.warnings));
+  }
+
+  const name = options.name || '';
+  const newName = options.newName || '';
+  let result: ConfigEditResult;
+  let message: string;
+  switch (options.subcommand) {
+    case 'add':
+      result = addConfigEntry(config, {
+        name,
+        provider: options.provider || '',
+        model: options.model || '',
+        ...(options.group !== undefined && { group: options.group }),
+        ...(options.description !== undefined && { description: options.description }),
+        ...(options.tags !== undefined && { tags: options.tags })
+      });
+      message = `Added configuration '${name}'`;
+      break;
+    case 'remove':
+      result = removeConfigEntry(config, name, {
+        ...(options.newDefault !== undefined && { newDefault: options.newDefault }),
+        ...(options.force !== undefined && { force: options.force })
+      });
+      message = `Removed configuration '${name}'`;
+      break;
+    case 'rename':
+      result = renameConfigEntry(config, name, newName);
+      message = `Renamed configuration '${name}' to '${newName}'`;
+      break;
+    default:
+      result = copyConfigEntry(config, name, newName, options.group);
+      message = `Copied configuration '${name}' to '${newName}'`;
+      break;
+  }
+
+  if (result.errors.length > 0) {
+    return createErrorResult(configEditError(`Cannot ${options.subcommand} configuration '${name}'`, result.errors));
+  }
+
+  let backupPath: string;
+  try {
+    backupPath = backupConfigFile(filePath);
+    await atomicSaveConfigFile(config, filePath);
+  } catch (error) {
+    return createErrorResult(fileOperationError('save', filePath, error instanceof Error ? error.message : 'Unknown error'));
+  }
+
+  const lines = [...result.changes, `Backup: ${backupPath}`];
+  if (options.verbose) {
+    lines.push(`Configuration file: ${filePath}`);
+  }
+  return createSuccessResult(message, lines.join('\n'));
+}
+
+/**
+ * Implements the 'qcr config <subcommand>' command
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult> with execution status and message
+ */
+export async function configCommand(options: ConfigCommandOptions): Promise<CommandResult> {
+  try {
+    switch (options.subcommand) {
+      case 'layers':
+        return await configLayersCommand(options);
+      case 'show':
+        return await configShowCommand(options);
+      default:
+        return await configEditCommand(options);
+    }
+  } catch (error) {
+    return createErrorResult(unexpectedError('config command execution', error));
+  }
+}
+
+/**
+ * Shows help information for the config command
+ * @returns CommandResult with help information
+ */
+export function configCommandHelp(): CommandResult {
+  // Import here to avoid circular dependency
+  const { getConfigCommandHelp } = require('../help');
+  return getConfigCommandHelp();
+}
+
+/**
+ * Options of the config command that take a value
+ */
+const CONFIG_VALUE_OPTIONS = ['--provider', '--model', '--group', '--description', '--tags', '--default'];
+
+/**
+ * Options of the config command and the subcommands that accept them
+ */
+const CONFIG_OPTION_SUBCOMMANDS: Record<string, ConfigSubcommand[]> = {
+  '--provider': ['add'],
+  '--model': ['add'],
+  '--group': ['add', 'copy'],
+  '--description': ['add'],
+  '--tags': ['add'],
+  '--default': ['remove'],
+  '--resolved': ['show'],
+  '--force': ['remove']
+};
+
+/**
+ * Validates command arguments for the config command
+ * @param args - Command line arguments
+ * @returns Validation result with parsed options or error
+ */
+export function parseConfigCommandArgs(args: string[]): {
+  valid: boolean;
+  options?: ConfigCommandOptions;
+  error?: string;
+  showHelp?: boolean;
+} {
+  const { parsedFlags, remainingArgs: flagArgs } = parseFlags(args, {
+    help: ['-h', '--help'],
+    verbose: ['-v', '--verbose'],
+    resolved: ['--resolved'],
+    force: ['--force']
+  });
+
+  if (parsedFlags['help']) {
+    return { valid: true, showHelp: true };
+  }
+
+  let remainingArgs = flagArgs;
+  const values: Record<string, string> = {};
+  for (const option of CONFIG_VALUE_OPTIONS) {
+    const extracted = extractOption(remainingArgs, option);
+    if (extracted.error) {
+      return { valid: false, error: extracted.error };
+    }
+    remainingArgs = extracted.remainingArgs;
+    if (extracted.value !== undefined) {
+      values[option] = extracted.value;
+    }
+  }
+
+  const unknownFlag = remainingArgs.find(arg => arg.startsWith('-'));
+  if (unknownFlag) {
+    return { valid: false, error: `Unknown option: ${unknownFlag}` };
+  }
+
+  const [subcommand, name, newName, ...extra] = remainingArgs;
+  if (!subcommand) {
+    return { valid: false, error: `Subcommand is required (${CONFIG_SUBCOMMANDS.join(', ')})` };
+  }
+  if (!(CONFIG_SUBCOMMANDS as readonly string[]).includes(subcommand)) {
+    return { valid: false, error: `Unknown subcommand: ${subcommand}. Available subcommands: ${CONFIG_SUBCOMMANDS.join(', ')}` };
+  }
+  const argCount = subcommand === 'layers' ? 0 : subcommand === 'rename' || subcommand === 'copy' ? 2 : 1;
+  if (argCount >= 1 && !name) {
+    return { valid: false, error: `Configuration name is required for 'config ${subcommand}'` };
+  }
+  if (argCount === 2 && !newName) {
+    return { valid: false, error: `New name is required for 'config ${subcommand}'` };
+  }
+  if ((argCount < 1 && name) || (argCount < 2 && newName) || extra.length > 0) {
+    return { valid: false, error: `Too many arguments for 'config ${subcommand}'` };
+  }
+
+  const used = [
+    ...Object.keys(values),
+    ...(parsedFlags['resolved'] ? ['--resolved'] : []),
+    ...(parsedFlags['force'] ? ['--force'] : [])
+  ];
+  for (const option of used) {
+    const supported = CONFIG_OPTION_SUBCOMMANDS[option]!;
+    if (!supported.includes(subcommand as ConfigSubcommand)) {
+      return { valid: false, error: `${option} is only supported by ${supported.map(s => `'config ${s}'`).join(' and ')}` };
+    }
+  }
+  if (subcommand === 'add') {
+    const missing = ['--provider', '--model'].find(option => !values[option]);
+    if (missing) {
+      return { valid: false, error: `${missing} is required for 'config add'` };
+    }
+  }
+
+  const options: ConfigCommandOptions = {
+    subcommand: subcommand as ConfigSubcommand,
+    verbose: parsedFlags['verbose'] || false
+  };
+  if (name) {
+    options.name = name;
+  }
+  if (newName) {
+    options.newName = newName;
+  }
+  if (subcommand === 'show') {
+    options.resolved = parsedFlags['resolved'] || false;
+  }
+  if (subcommand === 'remove') {
+    options.force = parsedFlags['force'] || false;
+  }
+  const provider = values['--provider'];
+  const model = values['--model'];
+  const group = values['--group'];
+  const description = values['--description'];
+  const tags = values['--tags'];
+  const newDefault = values['--default'];
+  if (provider !== undefined) {
+    options.provider = provider;
+  }
+  if (model !== undefined) {
+    options.model = model;
+  }
+  if (group !== undefined) {
+    options.group = group;
+  }
+  if (description !== undefined) {
+    options.description = description;
+  }
+  if (tags !== undefined) {
+    options.tags = tags.split(',').map(tag => tag.trim()).filter(tag => tag !== '');
+  }
+  if (newDefault !== undefined) {
+    options.newDefault = newDefault;
+  }
+
+  return { valid: true, options };
+}
+
+/**
+ * Main entry point for the config command from CLI
+ * @param args - Command line arguments (excluding 'qcr config')
+ * @returns Promise<CommandResult>
+ */
+export async function handleConfigCommand(args: string[]): Promise<CommandResult> {
+  const parseResult = parseConfigCommandArgs(args);
+
+  if (!parseResult.valid) {
+    return createErrorResult(invalidArgumentsError('config', parseResult.error || 'Invalid arguments', 'qcr config <layers|show [--resolved] <name>|add <name> --provider <p> --model <m>|remove <name>|rename <name> <new>|copy <name> <new>> [-v|--verbose]'));
+  }
+
+  if (parseResult.showHelp) {
+    return configCommandHelp();
+  }
+
+  return await configCommand(parseResult.options!);
+}
@@ -0,0 +1,212 @@
+/**
+ * 'convert' command implementation for Qwen Code Router CLI
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  migrateConfigFile,
+  parseConfigContent,
+  serializeConfigFile
+} from '../persistence';
+import { restoreRawValues } from '../interpolation';
+import { validateConfigFile } from '../validation';
+import { ConfigFile, ConfigFileFormat } from '../types';
+import {
+  createErrorResult,
+  createSuccessResult,
+  configValidationError,
+  fileOperationError,
+  unexpectedError,
+  invalidArgumentsError
+} from '../errors';
+import { CommandResult } from '../commands';
+import { parseFlags } from '../command-args';
+
+/**
+ * File extensions of each configuration file format
+ */
+const FORMAT_EXTENSIONS: Record<string, ConfigFileFormat> = {
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.json': 'json',
+  '.toml': 'toml'
+};
+
+/**
+ * Options for the convert command
+ */
+export interface ConvertCommandOptions {
+  /** File to convert */
+  source: string;
+  /** File to write */
+  destination: string;
+  /** Whether to overwrite an existing destination */
+  force?: boolean;
+  /** Current working directory (optional - defaults to process.cwd()) */
+  currentDir?: string;
+}
+
+/**
+ * Gets the configuration file format of a path from its extension
+ * @param filePath - File path
+ * @returns Format, or null if the extension is not a configuration format
+ */
+function getFormatFromExtension(filePath: string): ConfigFileFormat | null {
+  return FORMAT_EXTENSIONS[path.extname(filePath).toLowerCase()] || null;
+}
+
+/**
+ * Serializes a value with object keys sorted
+ * TOML writes plain values before tables, so key order is not compared.
+ * @param value - Value to serialize
+ * @returns Canonical JSON
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, child: unknown) =>
+    child && typeof child === 'object' && !Array.isArray(child)
+      ? Object.fromEntries(Object.entries(child as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)))
+      : child);
+}
+
+/**
+ * Implements the 'qcr convert <src> <dest>' command
+ * Converts a configuration file between YAML, JSON and TOML. The file is
+ * converted as written (includes are kept as directives) and at the newest
+ * version; it is validated before the destination is written.
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult> with execution status and message
+ */
+export async function convertCommand(options: ConvertCommandOptions): Promise<CommandResult> {
+  try {
+    const cwd = options.currentDir || process.cwd();
+    const source = path.resolve(cwd, options.source);
+    const destination = path.resolve(cwd, options.destination);
+    const sourceFormat = getFormatFromExtension(source);
+    const destinationFormat = getFormatFromExtension(destination);
+
+    if (!sourceFormat || !destinationFormat) {
+      const file = sourceFormat ? options.destination : options.source;
+      return createErrorResult(invalidArgumentsError('convert',
+        `Cannot tell the format of '${file}' from its extension (use ${Object.keys(FORMAT_EXTENSIONS).join(', ')})`,
+        'qcr convert <src> <dest> [--force]'));
+    }
+    if (source === destination) {
+      return createErrorResult(invalidArgumentsError('convert', 'Source and destination are the same file', 'qcr convert <src> <dest> [--force]'));
+    }
+    if (fs.existsSync(destination) && !options.force) {
+      return createErrorResult(fileOperationError('write', destination, 'File already exists; use --force to overwrite it'));
+    }
+
+    let config: ConfigFile;
+    try {
+      config = migrateConfigFile(parseConfigContent(fs.readFileSync(source, 'utf-8'), source, sourceFormat)).config;
+    } catch (error) {
+      return createErrorResult(fileOperationError('load', source, error instanceof Error ? error.message : 'Unknown error'));
+    }
+
+    const validation = validateConfigFile(config);
+    if (!validation.isValid) {
+      return createErrorResult(configValidationError(validation.errors, validation.warnings));
+    }
+
+    const content = serializeConfigFile(config, destinationFormat);
+
+    // The converted file must read back as the same configuration
+    const converted = restoreRawValues(parseConfigContent(content, destination, destinationFormat));
+    if (canonicalJson(converted) !== canonicalJson(restoreRawValues(config))) {
+      return createErrorResult(fileOperationError('convert', source,
+        `The configuration cannot be represented in ${destinationFormat.toUpperCase()} without changes`));
+    }
+
+    try {
+      fs.writeFileSync(destination, content, {
+        encoding: 'utf-8',
+        mode: 0o644 // Read/write for owner, read for group and others
+      });
+    } catch (error) {
+      return createErrorResult(fileOperationError('write', destination, error instanceof Error ? error.message : 'Unknown error'));
+    }
+
+    const lines = validation.warnings.map(warning => `⚠ ${warning}`);
+    return createSuccessResult(
+      `Converted ${source} (${sourceFormat.toUpperCase()}) to ${destination} (${destinationFormat.toUpperCase()})`,
+      lines.length > 0 ? lines.join('\n') : undefined
+    );
+  } catch (error) {
+    return createErrorResult(unexpectedError('convert command execution', error));
+  }
+}
+
+/**
+ * Shows help information for the convert command
+ * @returns CommandResult with help information
+ */
+export function convertCommandHelp(): CommandResult {
+  // Import here to avoid circular dependency
+  const { getConvertCommandHelp } = require('../help');
+  return getConvertCommandHelp();
+}
+
+/**
+ * Validates command arguments for the convert command
+ * @param args - Command line arguments
+ * @returns Validation result with parsed options or error
+ */
+export function parseConvertCommandArgs(args: string[]): {
+  valid: boolean;
+  options?: ConvertCommandOptions;
+  error?: string;
+  showHelp?: boolean;
+} {
+  const { parsedFlags, remainingArgs } = parseFlags(args, {
+    help: ['-h', '--help'],
+    force: ['-f', '--force']
+  });
+
+  if (parsedFlags['help']) {
+    return { valid: true, showHelp: true };
+  }
+
+  const unknownFlag = remainingArgs.find(arg => arg.startsWith('-'));
+  if (unknownFlag) {
+    return { valid: false, error: `Unknown option: ${unknownFlag}` };
+  }
+
+  const [source, destination, ...extra] = remainingArgs;
+  if (!source || !destination) {
+    return { valid: false, error: 'Source and destination files are required' };
+  }
+  if (extra.length > 0) {
+    return { valid: false, error: `Unexpected argument: ${extra[0]}` };
+  }
+
+  return {
+    valid: true,
+    options: {
+      source,
+      destination,
+      force: parsedFlags['force'] || false
+    }
+  };
+}
+
+/**
+ * Main entry point for the convert command from CLI
+ * @param args - Command line arguments (excluding 'qcr convert')
+ * @returns Promise<CommandResult>
+ */
+export async function handleConvertCommand(args: string[]): Promise<CommandResult> {
+  const parseResult = parseConvertCommandArgs(args);
+
+  if (!parseResult.valid) {
+    return createErrorResult(invalidArgumentsError('convert', parseResult.error || 'Invalid arguments', 'qcr convert <src> <dest> [--force]'));
+  }
+
+  if (parseResult.showHelp) {
+    return convertCommandHelp();
+  }
+
+  return await convertCommand(parseResult.options!);
+}
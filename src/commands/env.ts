@@ -0,0 +1,327 @@
+/**
+ * 'env' command implementation for Qwen Code Router CLI
+ */
+
+import {
+  createErrorResult,
+  createSuccessResult,
+  unexpectedError,
+  invalidArgumentsError
+} from '../errors';
+import { CommandResult } from '../commands';
+import { useCommand, parseShellOption, UseCommandOptions } from './use';
+import { resolveConfigEnvironment } from './run';
+import {
+  ShellType,
+  detectShellType,
+  formatEnvironmentUnsets,
+  getEnvironmentStatements,
+  formatShellComment,
+  formatShellScript
+} from '../shell';
+import {
+  findPinFile,
+  findPinnedConfiguration,
+  PinnedConfiguration,
+  PINNED_CONFIG_ENV_VAR,
+  PIN_FILE_ENV_VAR,
+  PIN_ERROR_ENV_VAR,
+  PREVIOUS_VARS_ENV_VAR,
+  PREVIOUS_VALUE_PREFIX
+} from '../pin';
+
+/**
+ * Options for the env command
+ */
+export interface EnvCommandOptions {
+  /** Configuration name to print (optional - uses default if not provided) */
+  configName?: string | undefined;
+  /** Current working directory (optional - defaults to process.cwd()) */
+  currentDir?: string;
+  /** Target shell (optional - auto-detected if not provided) */
+  shell?: ShellType;
+  /** Whether to print unset statements instead of export statements */
+  unset?: boolean;
+  /** Whether to follow the pin file of the current directory (used by 'qcr hook') */
+  auto?: boolean;
+}
+
+/**
+ * Implements the 'qcr env [config_name]' command
+ * Prints evaluable shell statements for a configuration so the caller's shell can apply them
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult> with the shell script as details
+ */
+export async function envCommand(options: EnvCommandOptions = {}): Promise<CommandResult> {
+  try {
+    const shell = options.shell || detectShellType();
+
+    if (options.unset) {
+      return createSuccessResult(
+        formatShellComment('Clearing Qwen Code environment variables', shell),
+        formatEnvironmentUnsets(shell)
+      );
+    }
+
+    if (options.auto) {
+      return await pinnedEnvironment(shell, options.currentDir);
+    }
+
+    // Printing the statements does not activate anything, so the state file is left alone
+    const useOptions: UseCommandOptions = {
+      configName: options.configName,
+      shell,
+      recordState: false
+    };
+    if (options.currentDir) {
+      useOptions.currentDir = options.currentDir;
+    }
+
+    return await useCommand(useOptions);
+  } catch (error) {
+    return createErrorResult(unexpectedError('env command execution', error));
+  }
+}
+
+/**
+ * Gets the variables whose values from before the pin are saved
+ * @returns Variable names listed in QCR_PREV_VARS
+ */
+function getSavedVariables(): string[] {
+  return (process.env[PREVIOUS_VARS_ENV_VAR] || '').split(',').filter(name => name !== '');
+}
+
+/**
+ * Builds the statements that save the values a pin is about to replace
+ * Values saved when entering a pinned project are kept when moving on to
+ * another one, so leaving restores what the shell had before the first.
+ * Saved variables the new pin does not set get their saved values back.
+ * @param variables - Variables the pin sets
+ * @returns Variables to set (a variable that was not set is only listed)
+ */
+function savePreviousValues(variables: string[]): Record<string, string | undefined> {
+  const saved = getSavedVariables();
+  const added = variables.filter(name => !saved.includes(name));
+  const dropped = saved.filter(name => !variables.includes(name));
+  if (added.length === 0 && dropped.length === 0) {
+    return {};
+  }
+
+  const statements: Record<string, string | undefined> = {};
+  for (const name of dropped) {
+    statements[name] = process.env[`${PREVIOUS_VALUE_PREFIX}${name}`];
+    statements[`${PREVIOUS_VALUE_PREFIX}${name}`] = undefined;
+  }
+  for (const name of added) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      statements[`${PREVIOUS_VALUE_PREFIX}${name}`] = value;
+    }
+  }
+  statements[PREVIOUS_VARS_ENV_VAR] = [...saved.filter(name => variables.includes(name)), ...added].join(',');
+  return statements;
+}
+
+/**
+ * Builds the statements that restore the values saved by savePreviousValues
+ * @returns Variables to set back, or to unset if they were not set before
+ */
+function restorePreviousValues(): Record<string, string | undefined> {
+  const statements: Record<string, string | undefined> = {};
+  for (const name of getSavedVariables()) {
+    statements[name] = process.env[`${PREVIOUS_VALUE_PREFIX}${name}`];
+    statements[`${PREVIOUS_VALUE_PREFIX}${name}`] = undefined;
+  }
+  statements[PREVIOUS_VARS_ENV_VAR] = undefined;
+  return statements;
+}
+
+/**
+ * Reports a pin that cannot be applied, once per pin file
+ * The hook runs on every directory change, so the warning is written to
+ * stderr the first time only and QCR_PIN_ERROR keeps it quiet afterwards.
+ * @param pinFile - Pin file that cannot be applied
+ * @param reason - Why it cannot be applied
+ * @param shell - Target shell
+ * @returns CommandResult recording the pin file, or printing nothing if it was reported already
+ */
+function reportPinError(pinFile: string, reason: string, shell: ShellType): CommandResult {
+  if (process.env[PIN_ERROR_ENV_VAR] === pinFile) {
+    return createSuccessResult('');
+  }
+
+  process.stderr.write(`qcr: ${pinFile} cannot be applied: ${reason}\n`);
+  return createSuccessResult(
+    formatShellComment(`Pin ${pinFile} cannot be applied`, shell),
+    formatShellScript({ [PIN_ERROR_ENV_VAR]: pinFile }, shell)
+  );
+}
+
+/**
+ * Builds the statement that forgets a pin reported by reportPinError
+ * @returns QCR_PIN_ERROR to unset, or nothing if it is not set
+ */
+function clearPinError(): Record<string, string | undefined> {
+  return process.env[PIN_ERROR_ENV_VAR] !== undefined ? { [PIN_ERROR_ENV_VAR]: undefined } : {};
+}
+
+/**
+ * Prints the statements that bring the shell in line with the pin file of a directory
+ * Nothing is printed when the applied pin is already current, so the shell hook
+ * stays cheap. Entering a pinned project saves the values it replaces, and
+ * leaving restores them.
+ * @param shell - Target shell
+ * @param currentDir - Directory to look for a pin file from (defaults to process.cwd())
+ * @returns CommandResult with the shell script as details
+ */
+async function pinnedEnvironment(shell: ShellType, currentDir?: string): Promise<CommandResult> {
+  let pinned: PinnedConfiguration | null;
+  try {
+    pinned = findPinnedConfiguration(currentDir);
+  } catch (error) {
+    return reportPinError(findPinFile(currentDir) || '', error instanceof Error ? error.message : 'Unknown error', shell);
+  }
+  const appliedConfig = process.env[PINNED_CONFIG_ENV_VAR];
+  const appliedPinFile = process.env[PIN_FILE_ENV_VAR];
+
+  if (!pinned) {
+    if (!appliedConfig) {
+      // Forget a pin that could not be applied, so that it is reported again on return
+      const script = formatShellScript(clearPinError(), shell);
+      return script ? createSuccessResult('', script) : createSuccessResult('');
+    }
+
+    // Pins applied before the previous values were saved only unset the variables
+    const restore = process.env[PREVIOUS_VARS_ENV_VAR] !== undefined ? restorePreviousValues() : null;
+    return createSuccessResult(
+      formatShellComment(`Leaving project pinned to '${appliedConfig}'`, shell),
+      [
+        restore ? formatShellScript(restore, shell) : formatEnvironmentUnsets(shell),
+        formatShellScript({ [PINNED_CONFIG_ENV_VAR]: undefined, [PIN_FILE_ENV_VAR]: undefined, ...clearPinError() }, shell)
+      ].join('\n')
+    );
+  }
+
+  if (appliedConfig === pinned.configName && appliedPinFile === pinned.pinFile) {
+    return createSuccessResult('');
+  }
+
+  // The configuration file is discovered from the project root, where the pin lives
+  const resolution = await resolveConfigEnvironment(pinned.configName, pinned.projectDir);
+  if (!resolution.success) {
+    return reportPinError(pinned.pinFile, resolution.errorResult.message || 'Configuration resolution failed', shell);
+  }
+
+  const statements = getEnvironmentStatements(resolution.environmentVariables);
+  return createSuccessResult(
+    formatShellComment(`Using configuration '${pinned.configName}' pinned by ${pinned.pinFile}`, shell),
+    [
+      formatShellScript(savePreviousValues(Object.keys(statements)), shell),
+      formatShellScript(statements, shell),
+      formatShellScript({ [PINNED_CONFIG_ENV_VAR]: pinned.configName, [PIN_FILE_ENV_VAR]: pinned.pinFile, ...clearPinError() }, shell)
+    ].filter(script => script !== '').join('\n')
+  );
+}
+
+/**
+ * Shows help information for the env command
+ * @returns CommandResult with help information
+ */
+export function envCommandHelp(): CommandResult {
+  // Import here to avoid circular dependency
+  const { getEnvCommandHelp } = require('../help');
+  return getEnvCommandHelp();
+}
+
+/**
+ * Validates command arguments for the env command
+ * @param args - Command line arguments
+ * @returns Validation result with parsed options or error
+ */
+export function parseEnvCommandArgs(args: string[]): {
+  valid: boolean;
+  options?: EnvCommandOptions;
+  error?: string;
+  showHelp?: boolean;
+} {
+  const options: EnvCommandOptions = {};
+  const remainingArgs: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (!arg) continue; // Skip undefined/empty arguments
+
+    if (arg === '-h' || arg === '--help') {
+      return { valid: true, showHelp: true };
+    } else if (arg === '--unset') {
+      options.unset = true;
+    } else if (arg === '--auto') {
+      options.auto = true;
+    } else if (arg === '--shell' || arg.startsWith('--shell=')) {
+      const shellName = arg === '--shell' ? args[++i] : arg.substring('--shell='.length);
+      const shellResult = parseShellOption(shellName);
+      if (!shellResult.valid) {
+        return { valid: false, error: shellResult.error || 'Invalid shell' };
+      }
+      options.shell = shellResult.shell!;
+    } else if (arg.startsWith('-')) {
+      return {
+        valid: false,
+        error: `Unknown option: ${arg}`
+      };
+    } else {
+      remainingArgs.push(arg);
+    }
+  }
+
+  if (remainingArgs.length > 1) {
+    return {
+      valid: false,
+      error: `Too many arguments. Expected at most one configuration name, got: ${remainingArgs.join(', ')}`
+    };
+  }
+
+  if (options.unset && remainingArgs.length > 0) {
+    return {
+      valid: false,
+      error: '--unset cannot be combined with a configuration name'
+    };
+  }
+
+  if (options.auto && (options.unset || remainingArgs.length > 0)) {
+    return {
+      valid: false,
+      error: '--auto cannot be combined with --unset or a configuration name'
+    };
+  }
+
+  if (remainingArgs.length > 0) {
+    options.configName = remainingArgs[0];
+  }
+
+  return {
+    valid: true,
+    options
+  };
+}
+
+/**
+ * Main entry point for the env command from CLI
+ * @param args - Command line arguments (excluding 'qcr env')
+ * @returns Promise<CommandResult>
+ */
+export async function handleEnvCommand(args: string[]): Promise<CommandResult> {
+  const parseResult = parseEnvCommandArgs(args);
+
+  if (!parseResult.valid) {
+    return createErrorResult(invalidArgumentsError('env', parseResult.error || 'Invalid arguments', 'qcr env [config_name] [--shell <shell>] [--unset|--auto]'));
+  }
+
+  if (parseResult.showHelp) {
+    return envCommandHelp();
+  }
+
+  return await envCommand(parseResult.options);
+}
@@ -0,0 +1,180 @@
+/**
+ * 'exec' command implementation for Qwen Code Router CLI
+ */
+
+import {
+  createErrorResult,
+  createSuccessResult,
+  processLaunchError,
+  unexpectedError,
+  invalidArgumentsError
+} from '../errors';
+import { CommandResult } from '../commands';
+import { getPlatformInfo } from '../platform';
+import { resolveConfigEnvironment, launchChildProcess } from './run';
+
+/**
+ * Options for the exec command
+ */
+export interface ExecCommandOptions {
+  /** Configuration whose variables are passed to the command */
+  configName: string;
+  /** Command to execute */
+  command: string;
+  /** Arguments for the command */
+  commandArgs?: string[];
+  /** Current working directory (optional - defaults to process.cwd()) */
+  currentDir?: string;
+  /** Whether to show verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Implements the 'qcr exec <config_name> -- <command>' command
+ * Runs an arbitrary command with a configuration's environment variables
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult> carrying the command's exit code
+ */
+export async function execCommand(options: ExecCommandOptions): Promise<CommandResult> {
+  try {
+    const resolution = await resolveConfigEnvironment(options.configName, options.currentDir);
+    if (!resolution.success) {
+      return resolution.errorResult;
+    }
+
+    const childEnv = { ...process.env, ...resolution.environmentVariables };
+    const commandArgs = options.commandArgs || [];
+
+    if (options.verbose) {
+      console.log(`Using configuration '${options.configName}' from ${resolution.filePath}`);
+      console.log(`  OPENAI_API_KEY: ${childEnv['OPENAI_API_KEY']?.substring(0, 8)}...`);
+      console.log(`  OPENAI_BASE_URL: ${childEnv['OPENAI_BASE_URL']}`);
+      console.log(`  OPENAI_MODEL: ${childEnv['OPENAI_MODEL']}`);
+      console.log(`  Command: ${[options.command, ...commandArgs].join(' ')}`);
+    }
+
+    // Arguments are passed verbatim on Unix; Windows needs a shell to resolve .cmd/.bat wrappers
+    const status = await launchChildProcess(options.command, commandArgs, {
+      env: childEnv,
+      useShell: getPlatformInfo().isWindows,
+      verbose: options.verbose || false
+    });
+
+    if (status.error) {
+      return createErrorResult(processLaunchError(options.command, status.error.message));
+    }
+
+    // The command's own output is the result; qcr only reports in verbose mode or on signals
+    if (status.signal) {
+      return createSuccessResult(`${options.command} terminated by signal ${status.signal}`, undefined, status.exitCode);
+    }
+
+    const message = options.verbose ? `${options.command} exited with code ${status.exitCode}` : '';
+    return createSuccessResult(message, undefined, status.exitCode);
+  } catch (error) {
+    return createErrorResult(unexpectedError('exec command execution', error));
+  }
+}
+
+/**
+ * Shows help information for the exec command
+ * @returns CommandResult with help information
+ */
+export function execCommandHelp(): CommandResult {
+  // Import here to avoid circular dependency
+  const { getExecCommandHelp } = require('../help');
+  return getExecCommandHelp();
+}
+
+/**
+ * Validates command arguments for the exec command
+ * Options are only recognized before the command; everything after '--'
+ * (or after the first argument following the configuration name) belongs to the command.
+ * @param args - Command line arguments
+ * @returns Validation result with parsed options or error
+ */
+export function parseExecCommandArgs(args: string[]): {
+  valid: boolean;
+  options?: ExecCommandOptions;
+  error?: string;
+  showHelp?: boolean;
+} {
+  let configName: string | undefined;
+  let verbose = false;
+  let commandLine: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (!arg) continue; // Skip undefined/empty arguments
+
+    if (arg === '--') {
+      commandLine = args.slice(i + 1).filter((a): a is string => !!a);
+      break;
+    } else if (arg === '-h' || arg === '--help') {
+      return { valid: true, showHelp: true };
+    } else if (arg === '-v' || arg === '--verbose') {
+      verbose = true;
+    } else if (arg.startsWith('-')) {
+      return {
+        valid: false,
+        error: `Unknown option: ${arg}. Put the command after '--'`
+      };
+    } else if (!configName) {
+      configName = arg;
+    } else {
+      commandLine = args.slice(i).filter((a): a is string => !!a);
+      break;
+    }
+  }
+
+  if (!configName) {
+    return {
+      valid: false,
+      error: 'Configuration name is required'
+    };
+  }
+
+  const [command, ...commandArgs] = commandLine;
+  if (!command) {
+    return {
+      valid: false,
+      error: 'Command is required'
+    };
+  }
+
+  const options: ExecCommandOptions = {
+    configName,
+    command,
+    commandArgs
+  };
+
+  if (verbose) {
+    options.verbose = true;
+  }
+
+  return {
+    valid: true,
+    options
+  };
+}
+
+/**
+ * Main entry point for the exec command from CLI
+ * @param args - Command line arguments (excluding 'qcr exec')
+ * @returns Promise<CommandResult>
+ */
+export async function handleExecCommand(args: string[]): Promise<CommandResult> {
+  const parseResult = parseExecCommandArgs(args);
+
+  if (!parseResult.valid) {
+    return createErrorResult(invalidArgumentsError('exec', parseResult.error || 'Invalid arguments', 'qcr exec <config_name> [-v|--verbose] -- <command> [args...]'));
+  }
+
+  if (parseResult.showHelp) {
+    return execCommandHelp();
+  }
+
+  return await execCommand(parseResult.options!);
+}
@@ -0,0 +1,114 @@
+/**
+ * 'hook' command implementation for Qwen Code Router CLI
+ */
+
+import {
+  createErrorResult,
+  createSuccessResult,
+  unexpectedError,
+  invalidArgumentsError
+} from '../errors';
+import { CommandResult } from '../commands';
+import { HookShellType, HOOK_SHELLS, getShellHookScript } from '../shell';
+
+/**
+ * Options for the hook command
+ */
+export interface HookCommandOptions {
+  /** Shell to print the hook for */
+  shell: HookShellType;
+}
+
+/**
+ * Implements the 'qcr hook <shell>' command
+ * Prints a hook that applies project pin files (.qcr, .qcr.yaml) whenever the
+ * working directory changes
+ *
+ * @param options - Command options
+ * @returns CommandResult with the hook script as message
+ */
+export async function hookCommand(options: HookCommandOptions): Promise<CommandResult> {
+  try {
+    return createSuccessResult(getShellHookScript(options.shell));
+  } catch (error) {
+    return createErrorResult(unexpectedError('hook command execution', error));
+  }
+}
+
+/**
+ * Shows help information for the hook command
+ * @returns CommandResult with help information
+ */
+export function hookCommandHelp(): CommandResult {
+  // Import here to avoid circular dependency
+  const { getHookCommandHelp } = require('../help');
+  return getHookCommandHelp();
+}
+
+/**
+ * Validates command arguments for the hook command
+ * @param args - Command line arguments
+ * @returns Validation result with parsed options or error
+ */
+export function parseHookCommandArgs(args: string[]): {
+  valid: boolean;
+  options?: HookCommandOptions;
+  error?: string;
+  showHelp?: boolean;
+} {
+  const remainingArgs: string[] = [];
+
+  for (const arg of args) {
+    if (!arg) continue; // Skip undefined/empty arguments
+
+    if (arg === '-h' || arg === '--help') {
+      return { valid: true, showHelp: true };
+    } else if (arg.startsWith('-')) {
+      return {
+        valid: false,
+        error: `Unknown option: ${arg}`
+      };
+    } else {
+      remainingArgs.push(arg);
+    }
+  }
+
+  if (remainingArgs.length !== 1) {
+    return {
+      valid: false,
+      error: `Expected exactly one shell (${HOOK_SHELLS.join(', ')})`
+    };
+  }
+
+  const shell = remainingArgs[0]!.toLowerCase();
+  if (!(HOOK_SHELLS as readonly string[]).includes(shell)) {
+    return {
+      valid: false,
+      error: `Unsupported shell: ${remainingArgs[0]}. Supported shells: ${HOOK_SHELLS.join(', ')}`
+    };
+  }
+
+  return {
+    valid: true,
+    options: { shell: shell as HookShellType }
+  };
+}
+
+/**
+ * Main entry point for the hook command from CLI
+ * @param args - Command line arguments (excluding 'qcr hook')
+ * @returns Promise<CommandResult>
+ */
+export async function handleHookCommand(args: string[]): Promise<CommandResult> {
+  const parseResult = parseHookCommandArgs(args);
+
+  if (!parseResult.valid) {
+    return createErrorResult(invalidArgumentsError('hook', parseResult.error || 'Invalid arguments', 'qcr hook <bash|zsh|fish>'));
+  }
+
+  if (parseResult.showHelp) {
+    return hookCommandHelp();
+  }
+
+  return await hookCommand(parseResult.options!);
+}
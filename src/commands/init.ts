@@ -0,0 +1,437 @@
+/**
+ * 'init' command implementation for Qwen Code Router CLI
+ */
+
+import * as fs from 'fs';
+import { backupConfigFile, getRecommendedConfigPath, saveConfigFile } from '../persistence';
+import { getConfigPaths } from '../platform';
+import { getBuiltInProviders } from '../provider-registry';
+import { isInteractiveInput, promptHidden, promptLine } from '../prompt';
+import {
+  createInitConfig,
+  detectApiKeyVariables,
+  DetectedApiKey,
+  findProviderPreset,
+  getApiKeyVariable,
+  getInitConfigName,
+  InitSelection,
+  isBaseUrlTemplate
+} from '../init';
+import {
+  createErrorResult,
+  createSuccessResult,
+  initError,
+  fileOperationError,
+  unexpectedError,
+  invalidArgumentsError
+} from '../errors';
+import { CommandResult } from '../commands';
+import { extractOption, parseFlags } from '../command-args';
+
+/**
+ * Options for the init command
+ */
+export interface InitCommandOptions {
+  /** Whether to take the default of every question instead of asking */
+  yes?: boolean;
+  /** Provider to set up (name or alias; asked for or taken from the detected keys when omitted) */
+  provider?: string;
+  /** Environment variable holding the provider's API key */
+  keyEnv?: string;
+  /** Base URL of the provider (required for providers that are not in the catalog) */
+  baseUrl?: string;
+  /** Models to create configurations for */
+  models?: string[];
+  /** Default configuration (defaults to the first one) */
+  defaultConfig?: string;
+  /** Where to write the file; asked for, or the current directory with --yes */
+  location?: 'local' | 'user';
+  /** Whether to replace an existing file (a backup is kept) */
+  force?: boolean;
+  /** Current working directory (optional - defaults to process.cwd()) */
+  currentDir?: string;
+  /** Whether to show verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Asks a question, or takes its default when the wizard is not interactive
+ * @param interactive - Whether the user can be asked
+ * @param question - Question, without the default
+ * @param defaultValue - Answer to use for an empty reply (optional)
+ * @param check - Returns a problem with the answer ('' for no answer), which asks again (optional)
+ * @returns The answer, or undefined if there is neither an answer nor a default
+ */
+async function ask(
+  interactive: boolean,
+  question: string,
+  defaultValue?: string,
+  check?: (answer: string) => string | null
+): Promise<string | undefined> {
+  if (!interactive) {
+    return defaultValue;
+  }
+  for (;;) {
+    const suffix = defaultValue ? ` [${defaultValue}]` : '';
+    const answer = (await promptLine(`${question}${suffix}: `)).trim() || defaultValue || '';
+    const problem = check ? check(answer) : null;
+    if (!problem) {
+      return answer || undefined;
+    }
+    process.stderr.write(`${problem}\n`);
+  }
+}
+
+/**
+ * Splits a comma-separated answer into names, replacing list numbers by the items
+ * @param answer - Answer (e.g. "1, gpt-4o")
+ * @param items - Numbered items
+ * @returns Names, or null if a number is out of range
+ */
+function pickItems(answer: string, items: string[]): string[] | null {
+  const picked: string[] = [];
+  for (const part of answer.split(',').map(p => p.trim()).filter(p => p !== '')) {
+    if (/^\d+$/.test(part)) {
+      const item = items[Number(part) - 1];
+      if (item === undefined) {
+        return null;
+      }
+      picked.push(item);
+    } else {
+      picked.push(part);
+    }
+  }
+  return [...new Set(picked)];
+}
+
+/**
+ * Checks an environment variable name
+ * @param name - Variable name
+ * @returns Problem, or null if the name is valid
+ */
+function checkVariableName(name: string): string | null {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? null : `Invalid environment variable name: ${name}`;
+}
+
+/**
+ * Chooses the providers to set up
+ * @param options - Command options
+ * @param interactive - Whether the user can be asked
+ * @param detected - API keys found in the environment
+ * @returns Provider names, or an error message
+ */
+async function chooseProviders(options: InitCommandOptions, interactive: boolean, detected: DetectedApiKey[]): Promise<string[] | string> {
+  if (options.provider !== undefined) {
+    return [options.provider];
+  }
+
+  const presets = Object.values(getBuiltInProviders());
+  const detectedProviders = [...new Set(detected.map(key => key.provider))];
+  if (interactive) {
+    process.stderr.write('Providers:\n');
+    presets.forEach((preset, index) => {
+      const key = detected.find(k => k.provider === preset.provider);
+      process.stderr.write(`  ${index + 1}. ${preset.name} (${preset.provider})${key ? ` - ${key.variable} is set` : ''}\n`);
+    });
+    process.stderr.write('Other OpenAI-compatible services can be entered by name.\n');
+  }
+
+  const numbers = detectedProviders.map(name => presets.findIndex(preset => preset.provider === name) + 1);
+  const answer = await ask(
+    interactive,
+    'Providers to set up (numbers or names, comma-separated)',
+    numbers.length > 0 ? numbers.join(', ') : (interactive ? '1' : undefined),
+    reply => pickItems(reply, presets.map(preset => preset.provider))?.length ? null : 'Enter provider numbers or names'
+  );
+  if (answer === undefined) {
+    return 'No provider given and no API key of a built-in provider found in the environment. Use --provider <name> --key-env <VAR>';
+  }
+  return pickItems(answer, presets.map(preset => preset.provider)) || [];
+}
+
+/**
+ * Works out the base URL, models and API key of a provider
+ * @param name - Provider name or alias
+ * @param options - Command options
+ * @param interactive - Whether the user can be asked
+ * @param detected - API keys found in the environment
+ * @returns Selection, or an error message
+ */
+async function configureProvider(
+  name: string,
+  options: InitCommandOptions,
+  interactive: boolean,
+  detected: DetectedApiKey[]
+): Promise<InitSelection | string> {
+  const preset = findProviderPreset(name);
+  const provider = preset ? preset.provider : name;
+
+  let baseUrl = options.baseUrl;
+  if (baseUrl === undefined) {
+    const presetUrl = preset?.baseUrl;
+    baseUrl = presetUrl !== undefined && !isBaseUrlTemplate(presetUrl)
+      ? presetUrl
+      : await ask(
+        interactive,
+        `Base URL of ${provider}${presetUrl !== undefined ? ` (${presetUrl})` : ''}`,
+        undefined,
+        reply => /^https?:\/\/\S+$/.test(reply) && !isBaseUrlTemplate(reply) ? null : 'Enter the http(s) URL of the API'
+      );
+  }
+  if (!baseUrl) {
+    return preset
+      ? `Provider '${provider}' needs --base-url (${preset.baseUrl})`
+      : `Provider '${provider}' is not in the built-in catalog. Use --base-url and --models, or add it to builtin-providers.yaml`;
+  }
+
+  let models = options.models;
+  if (models === undefined) {
+    const known = preset ? preset.models : [];
+    if (interactive && known.length > 0) {
+      process.stderr.write(`Models of ${provider}:\n`);
+      known.forEach((model, index) => process.stderr.write(`  ${index + 1}. ${model}\n`));
+    }
+    const answer = await ask(
+      interactive,
+      `Models for ${provider} (${known.length > 0 ? 'numbers or names' : 'names'}, comma-separated)`,
+      known.length > 0 ? '1' : undefined,
+      reply => pickItems(reply, known)?.length ? null : 'Enter model numbers or names'
+    );
+    models = answer !== undefined ? pickItems(answer, known) || [] : [];
+  }
+  if (models.length === 0) {
+    return `Provider '${provider}' needs --models`;
+  }
+
+  let apiKey: string;
+  const keyEnv = options.keyEnv ?? await ask(
+    interactive,
+    `Environment variable with the API key of ${provider}${interactive && !detected.some(k => k.provider === provider) ? ' (leave empty to enter the key)' : ''}`,
+    detected.find(key => key.provider === provider)?.variable ?? (interactive ? undefined : getApiKeyVariable(provider)),
+    reply => reply === '' ? null : checkVariableName(reply)
+  );
+  if (keyEnv !== undefined) {
+    apiKey = `\${${keyEnv}}`;
+  } else {
+    apiKey = (await promptHidden(`API key for provider '${provider}': `)).trim();
+    if (!apiKey) {
+      return `No API key given for provider '${provider}'`;
+    }
+  }
+
+  return { provider, baseUrl, apiKey, models };
+}
+
+/**
+ * Implements the 'qcr init' command
+ * Asks which providers, models and keys to use and writes a new configuration
+ * file. With --yes (or without a terminal) every question takes its default:
+ * the providers whose *_API_KEY variables are set, the first catalog model and
+ * the current directory.
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult> with execution status and message
+ */
+export async function initCommand(options: InitCommandOptions = {}): Promise<CommandResult> {
+  try {
+    const interactive = !options.yes && isInteractiveInput();
+    const detected = detectApiKeyVariables();
+    if (interactive && detected.length > 0) {
+      process.stderr.write(`Found API keys: ${detected.map(key => `${key.variable} (${key.provider})`).join(', ')}\n`);
+    }
+
+    const providers = await chooseProviders(options, interactive, detected);
+    if (typeof providers === 'string') {
+      return createErrorResult(initError([providers]));
+    }
+
+    const selections: InitSelection[] = [];
+    for (const name of providers) {
+      const selection = await configureProvider(name, options, interactive, detected);
+      if (typeof selection === 'string') {
+        return createErrorResult(initError([selection]));
+      }
+      selections.push(selection);
+    }
+
+    const names = selections.flatMap(selection => selection.models.map(model => getInitConfigName(selection.provider, model)));
+    const defaultConfig = options.defaultConfig ?? await ask(
+      interactive && names.length > 1,
+      `Default configuration (${names.join(', ')})`,
+      names[0],
+      reply => names.includes(reply) ? null : `Unknown configuration: ${reply}`
+    );
+    const { config, errors } = createInitConfig(selections, defaultConfig);
+    if (errors.length > 0) {
+      return createErrorResult(initError(errors));
+    }
+
+    let location = options.location;
+    if (location === undefined) {
+      const userDir = getConfigPaths(options.currentDir).userConfigDir;
+      if (interactive) {
+        process.stderr.write(`Locations:\n  1. This directory\n  2. Your user directory (${userDir})\n`);
+      }
+      const answer = await ask(interactive, 'Where to write the file', '1', reply => ['1', '2'].includes(reply) ? null : 'Enter 1 or 2');
+      location = answer === '2' ? 'user' : 'local';
+    }
+    const filePath = getRecommendedConfigPath(location === 'local', 'yaml', options.currentDir);
+
+    let backupPath: string | null = null;
+    if (fs.existsSync(filePath)) {
+      const overwrite = options.force || (await ask(interactive, `${filePath} already exists. Replace it? (y/N)`, 'n'))?.toLowerCase().startsWith('y');
+      if (!overwrite) {
+        return createErrorResult(initError([`${filePath} already exists. Use --force to replace it`]));
+      }
+    }
+
+    try {
+      if (fs.existsSync(filePath)) {
+        backupPath = backupConfigFile(filePath);
+        fs.unlinkSync(filePath);
+      }
+      await saveConfigFile(config, filePath);
+    } catch (error) {
+      return createErrorResult(fileOperationError('save', filePath, error instanceof Error ? error.message : 'Unknown error'));
+    }
+
+    const lines = [
+      `Configurations: ${names.join(', ')}`,
+      `Default configuration: ${config.default_config?.[0]?.name}`
+    ];
+    for (const selection of selections) {
+      const variable = /^\$\{(.+)\}$/.exec(selection.apiKey)?.[1];
+      if (variable !== undefined && !process.env[variable]) {
+        lines.push(`${variable} is not set; set it before using ${selection.provider}`);
+      }
+    }
+    if (backupPath) {
+      lines.push(`Backup: ${backupPath}`);
+    }
+    if (options.verbose) {
+      lines.push(`Providers: ${selections.map(selection => selection.provider).join(', ')}`);
+    }
+    lines.push(`Run 'qcr chk' to test the configuration`);
+    return createSuccessResult(`Created configuration file ${filePath}`, lines.join('\n'));
+  } catch (error) {
+    return createErrorResult(unexpectedError('init command execution', error));
+  }
+}
+
+/**
+ * Shows help information for the init command
+ * @returns CommandResult with help information
+ */
+export function initCommandHelp(): CommandResult {
+  // Import here to avoid circular dependency
+  const { getInitCommandHelp } = require('../help');
+  return getInitCommandHelp();
+}
+
+/**
+ * Validates command arguments for the init command
+ * @param args - Command line arguments
+ * @returns Validation result with parsed options or error
+ */
+export function parseInitCommandArgs(args: string[]): {
+  valid: boolean;
+  options?: InitCommandOptions;
+  error?: string;
+  showHelp?: boolean;
+} {
+  const { parsedFlags, remainingArgs: flagArgs } = parseFlags(args, {
+    help: ['-h', '--help'],
+    verbose: ['-v', '--verbose'],
+    yes: ['-y', '--yes'],
+    local: ['--local'],
+    user: ['--user'],
+    force: ['-f', '--force']
+  });
+
+  if (parsedFlags['help']) {
+    return { valid: true, showHelp: true };
+  }
+
+  let remainingArgs = flagArgs;
+  const values: Record<string, string> = {};
+  for (const option of ['--provider', '--key-env', '--base-url', '--models', '--default']) {
+    const extracted = extractOption(remainingArgs, option);
+    if (extracted.error) {
+      return { valid: false, error: extracted.error };
+    }
+    remainingArgs = extracted.remainingArgs;
+    if (extracted.value !== undefined) {
+      values[option] = extracted.value;
+    }
+  }
+
+  const unknownFlag = remainingArgs.find(arg => arg.startsWith('-'));
+  if (unknownFlag) {
+    return { valid: false, error: `Unknown option: ${unknownFlag}` };
+  }
+  if (remainingArgs.length > 0) {
+    return { valid: false, error: `Unexpected argument: ${remainingArgs[0]}` };
+  }
+  if (parsedFlags['local'] && parsedFlags['user']) {
+    return { valid: false, error: '--local and --user cannot be used together' };
+  }
+
+  const provider = values['--provider'];
+  const needsProvider = ['--key-env', '--base-url', '--models'].find(option => values[option] !== undefined);
+  if (needsProvider && provider === undefined) {
+    return { valid: false, error: `${needsProvider} requires --provider` };
+  }
+  const keyEnv = values['--key-env'];
+  const keyEnvProblem = keyEnv !== undefined ? checkVariableName(keyEnv) : null;
+  if (keyEnvProblem) {
+    return { valid: false, error: keyEnvProblem };
+  }
+
+  const options: InitCommandOptions = {
+    yes: parsedFlags['yes'] || false,
+    force: parsedFlags['force'] || false,
+    verbose: parsedFlags['verbose'] || false
+  };
+  if (provider !== undefined) {
+    options.provider = provider;
+  }
+  if (keyEnv !== undefined) {
+    options.keyEnv = keyEnv;
+  }
+  const baseUrl = values['--base-url'];
+  const models = values['--models'];
+  const defaultConfig = values['--default'];
+  if (baseUrl !== undefined) {
+    options.baseUrl = baseUrl;
+  }
+  if (models !== undefined) {
+    options.models = models.split(',').map(m => m.trim()).filter(m => m !== '');
+  }
+  if (defaultConfig !== undefined) {
+    options.defaultConfig = defaultConfig;
+  }
+  if (parsedFlags['local'] || parsedFlags['user']) {
+    options.location = parsedFlags['user'] ? 'user' : 'local';
+  }
+
+  return { valid: true, options };
+}
+
+/**
+ * Main entry point for the init command from CLI
+ * @param args - Command line arguments (excluding 'qcr init')
+ * @returns Promise<CommandResult>
+ */
+export async function handleInitCommand(args: string[]): Promise<CommandResult> {
+  const parseResult = parseInitCommandArgs(args);
+
+  if (!parseResult.valid) {
+    return createErrorResult(invalidArgumentsError('init', parseResult.error || 'Invalid arguments', 'qcr init [--yes] [--provider <name>] [--key-env <VAR>] [--local|--user]'));
+  }
+
+  if (parseResult.showHelp) {
+    return initCommandHelp();
+  }
+
+  return await initCommand(parseResult.options!);
+}
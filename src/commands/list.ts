@@ -5,61 +5,11 @@
 import { loadConfigFile } from '../command-utils';
 import { CommandResult, listConfigurations } from '../commands';
 import { ConfigFile } from '../types';
-import { parseFlags } from '../command-args';
-
-/**
- * Built-in provider definitions with their known models
- */
-export const BUILTIN_PROVIDERS = {
-  openai: {
-    name: 'OpenAI',
-    base_url: 'https://api.openai.com/v1',
-    models: [
-      'gpt-4',
-      'gpt-4-turbo',
-      'gpt-4-turbo-preview',
-      'gpt-4-0125-preview',
-      'gpt-4-1106-preview',
-      'gpt-3.5-turbo',
-      'gpt-3.5-turbo-0125',
-      'gpt-3.5-turbo-1106',
-      'gpt-3.5-turbo-16k'
-    ]
-  },
-  azure: {
-    name: 'Azure OpenAI',
-    base_url: 'https://[resource].openai.azure.com/openai',
-    models: [
-      'gpt-4',
-      'gpt-4-turbo',
-      'gpt-4-32k',
-      'gpt-35-turbo',
-      'gpt-35-turbo-16k'
-    ]
-  },
-  anthropic: {
-    name: 'Anthropic',
-    base_url: 'https://api.anthropic.com/v1',
-    models: [
-      'claude-3-opus-20240229',
-      'claude-3-sonnet-20240229',
-      'claude-3-haiku-20240307',
-      'claude-2.1',
-      'claude-2.0',
-      'claude-instant-1.2'
-    ]
-  },
-  google: {
-    name: 'Google AI',
-    base_url: 'https://generativelanguage.googleapis.com/v1',
-    models: [
-      'gemini-pro',
-      'gemini-pro-vision',
-      'gemini-1.5-pro',
-      'gemini-1.5-flash'
-    ]
-  }
-} as const;
+import { extractOption, parseFlags } from '../command-args';
+import { getActiveConfigurationName } from '../state';
+import { getBuiltInProvider, getBuiltInProviders } from '../provider-registry';
+import { findProviderByName, getModelAliases, getModelMetadata, resolveAliases } from '../resolver';
+import { formatModelTable } from '../model-metadata';
 
 /**
  * Options for the list command
@@ -81,6 +31,40 @@ export interface ListCommandOptions {
   shortForm?: boolean;
   /** Whether to list built-in providers (-f flag) */
   builtinProviders?: boolean;
+  /** Only list configurations carrying this tag (--tag) */
+  tag?: string;
+}
+
+/**
+ * Formats a model name followed by its aliases
+ * @param model - Model name
+ * @param modelAliases - Aliases keyed by model name
+ * @returns Model name, with its aliases in parentheses if it has any
+ */
+function formatModel(model: string, modelAliases: Record<string, string[]>): string {
+  const aliases = modelAliases[model];
+  return aliases && aliases.length > 0 ? `${model} (${aliases.join(', ')})` : model;
+}
+
+/**
+ * Formats the models of a provider, one per line
+ * Verbose output is a table of the models' context window, pricing and
+ * capabilities.
+ * @param models - Model names
+ * @param providerName - Canonical provider name
+ * @param configFile - Configuration file (optional, for configured providers)
+ * @param verbose - Whether to show model metadata
+ * @returns Lines, each starting with a newline
+ */
+function formatModels(models: string[], providerName: string, configFile: ConfigFile | undefined, verbose?: boolean): string {
+  const modelAliases = getModelAliases(providerName, configFile);
+  const lines = verbose
+    ? formatModelTable(models.map(model => ({
+      label: formatModel(model, modelAliases),
+      metadata: getModelMetadata(providerName, model, configFile)
+    })))
+    : models.map(model => formatModel(model, modelAliases));
+  return lines.map(line => `\n  ${line}`).join('');
 }
 
 /**
@@ -112,7 +96,11 @@ export async function listConfigCommand(options: ListCommandOptions = {}): Promi
     }
 
     // Use the existing listConfigurations function
-    const result = listConfigurations(config, { verbose: options.verbose || false });
+    const result = listConfigurations(config, {
+      verbose: options.verbose || false,
+      activeConfig: getActiveConfigurationName(filePath),
+      ...(options.tag ? { tag: options.tag } : {})
+    });
 
     // Add configuration file path to verbose output
     if (options.verbose && result.success && result.details) {
@@ -139,13 +127,13 @@ export function listBuiltinProviders(
   options: { verbose?: boolean; provider?: string } = {}
 ): CommandResult {
   try {
-    const providerKeys = Object.keys(BUILTIN_PROVIDERS) as (keyof typeof BUILTIN_PROVIDERS)[];
+    const builtinProviders = getBuiltInProviders();
+    const providerKeys = Object.keys(builtinProviders);
 
     // If specific provider requested
     if (options.provider) {
-      const providerKey = providerKeys.find(key =>
-        key.toLowerCase() === options.provider!.toLowerCase()
-      );
+      const requested = resolveAliases(options.provider, undefined).provider.toLowerCase();
+      const providerKey = providerKeys.find(key => key === requested);
 
       if (!providerKey) {
         return {
@@ -156,18 +144,17 @@ export function listBuiltinProviders(
         };
       }
 
-      const provider = BUILTIN_PROVIDERS[providerKey];
+      const provider = builtinProviders[providerKey]!;
       let message = `Models for built-in provider '${providerKey}' (${provider.name}):`;
-      let details = '';
-
-      for (const model of provider.models) {
-        details += `\n  ${model}`;
-      }
+      let details = formatModels(provider.models, providerKey, undefined, options.verbose);
 
       if (options.verbose) {
         details += `\n\nProvider details:`;
         details += `\n  Name: ${provider.name}`;
-        details += `\n  Base URL: ${provider.base_url}`;
+        if (provider.aliases.length > 0) {
+          details += `\n  Aliases: ${provider.aliases.join(', ')}`;
+        }
+        details += `\n  Base URL: ${provider.baseUrl}`;
         details += `\n  Total models: ${provider.models.length}`;
       }
 
@@ -184,10 +171,10 @@ export function listBuiltinProviders(
     let details = '';
 
     for (const providerKey of providerKeys) {
-      const provider = BUILTIN_PROVIDERS[providerKey];
+      const provider = builtinProviders[providerKey]!;
       if (options.verbose) {
         details += `\n  ${providerKey} (${provider.name}) - ${provider.models.length} models`;
-        details += `\n    Base URL: ${provider.base_url}`;
+        details += `\n    Base URL: ${provider.baseUrl}`;
       } else {
         details += `\n  ${providerKey} (${provider.name})`;
       }
@@ -235,17 +222,17 @@ export function listProviders(
 
     // If specific provider requested
     if (options.provider) {
-      const provider = configFile.providers.find(p => p.provider.toLowerCase() === options.provider!.toLowerCase());
+      const names = resolveAliases(options.provider, undefined, configFile);
+      const provider = findProviderByName(names.provider, configFile);
 
       // If comprehensive flag is set, merge with built-in providers
       if (options.comprehensive) {
-        const providerKey = options.provider.toLowerCase();
-        const builtinProvider = BUILTIN_PROVIDERS[providerKey as keyof typeof BUILTIN_PROVIDERS];
+        const builtinProvider = getBuiltInProvider(names.provider);
 
         if (!provider && !builtinProvider) {
           const availableProviders = [
             ...configFile.providers.map(p => p.provider),
-            ...Object.keys(BUILTIN_PROVIDERS)
+            ...Object.keys(getBuiltInProviders())
           ];
           return {
             success: false,
@@ -258,7 +245,7 @@ export function listProviders(
         // Merge models from both sources
         const allModels = new Set<string>();
         let baseUrl = '';
-        let providerName = options.provider;  // Keep original case
+        let providerName = names.aliased ? names.provider : options.provider;  // Keep original case unless aliased
 
         // Add models from configuration file
         if (provider) {
@@ -271,17 +258,13 @@ export function listProviders(
         if (builtinProvider) {
           builtinProvider.models.forEach(model => allModels.add(model));
           if (!baseUrl) {
-            baseUrl = builtinProvider.base_url;
+            baseUrl = builtinProvider.baseUrl;
           }
         }
 
         let message = `All available models for provider '${providerName}':`;
-        let details = '';
-
         const sortedModels = Array.from(allModels).sort();
-        for (const model of sortedModels) {
-          details += `\n  ${model}`;
-        }
+        let details = formatModels(sortedModels, names.provider, configFile, options.verbose);
 
         if (options.verbose) {
           details += `\n\nProvider details:`;
@@ -316,11 +299,7 @@ export function listProviders(
       }
 
       let message = `Models for provider '${provider.provider}':`;
-      let details = '';
-
-      for (const model of provider.env.models) {
-        details += `\n  ${model.model}`;
-      }
+      let details = formatModels(provider.env.models.map(model => model.model), provider.provider, configFile, options.verbose);
 
       if (options.verbose) {
         details += `\n\nProvider details:`;
@@ -360,11 +339,11 @@ export function listProviders(
         }
 
         // Add built-in providers
-        for (const [providerKey, builtinProvider] of Object.entries(BUILTIN_PROVIDERS)) {
+        for (const [providerKey, builtinProvider] of Object.entries(getBuiltInProviders())) {
           if (!allProviders.has(providerKey)) {
             allProviders.set(providerKey, {
               models: new Set(),
-              baseUrl: builtinProvider.base_url,
+              baseUrl: builtinProvider.baseUrl,
               source: 'builtin'
             });
           }
@@ -428,7 +407,7 @@ export function listProviders(
       }
 
       // Add built-in providers
-      for (const [providerKey, builtinProvider] of Object.entries(BUILTIN_PROVIDERS)) {
+      for (const [providerKey, builtinProvider] of Object.entries(getBuiltInProviders())) {
         if (allProviders.has(providerKey)) {
           // Provider exists in both, merge model counts
           const existing = allProviders.get(providerKey)!;
@@ -441,7 +420,7 @@ export function listProviders(
           // Only built-in provider
           allProviders.set(providerKey, {
             modelCount: builtinProvider.models.length,
-            baseUrl: builtinProvider.base_url,
+            baseUrl: builtinProvider.baseUrl,
             source: 'builtin'
           });
         }
@@ -582,11 +561,13 @@ OPTIONS:
   -h, --help           Show this help message
   --all                 Show providers and models in tree structure (with -p)
   --tree                Show providers and models in tree structure (with provider)
+  --tag <tag>           Only list configurations carrying the tag (with config)
   [provider_name]       Show models for specific provider (with -p or -f)
 
 EXAMPLES:
   qcr list config              # List all configurations
   qcr list config -v           # List configurations with detailed information
+  qcr list config --tag cheap  # List configurations tagged 'cheap'
   qcr list provider            # List all providers from configuration file
   qcr list -p                  # List all providers from configuration file (short form)
   qcr list -p --all            # List providers and models in tree structure
@@ -603,24 +584,50 @@ DESCRIPTION:
   and providers. Use the appropriate subcommand to list the desired information.
   
   The 'config' subcommand shows all available configurations from the
-  configuration file, highlighting the default configuration if one is set.
+  configuration file, highlighting the default configuration if one is set
+  and the configuration most recently activated with 'use', '/router' or
+  'set-default' (marked "(active)"). With -v, each configuration is shown with
+  its description and tags; --tag limits the list to configurations carrying
+  a tag (matched case-insensitively). Configurations of named groups
+  (group: <name> next to config:) are listed under a heading per group.
   
   The 'provider' subcommand (or '-p' short form) shows providers from the
   configuration file. Use --all or --tree to see a tree structure of providers and
   their models, or specify a provider name to see models for that provider.
   
-  The '-f' flag shows built-in known providers (OpenAI, Azure, Anthropic, Google)
-  with their predefined models. This doesn't require a configuration file.
+  The '-f' (or --builtin) flag shows built-in known providers (OpenAI, Azure,
+  Anthropic, Google, DeepSeek, Qwen, Mistral, Groq) with their predefined
+  models. This doesn't require a configuration file.
   
   Use the verbose option (-v) to see additional details including base URLs
   and model counts for providers.
 
+  A provider can be given by one of its aliases (e.g. 'qcr list provider claude');
+  model aliases and latest pointers are shown in parentheses after each model.
+
+  With -v, the models of a single provider are shown as a table of their context
+  window, maximum output, price per million tokens, speed and capabilities
+  (tools, vision, reasoning, streaming); '-' marks values that are not known.
+
 BUILT-IN PROVIDERS:
   The built-in providers are:
   - openai: OpenAI models (gpt-4, gpt-3.5-turbo, etc.)
   - azure: Azure OpenAI models (gpt-4, gpt-35-turbo, etc.)
   - anthropic: Anthropic models (claude-3-opus, claude-3-sonnet, etc.)
   - google: Google AI models (gemini-pro, gemini-1.5-pro, etc.)
+
+  They are defined in builtin-provider.yaml, shipped with qcr. To change their
+  models or base URLs or to add providers, create builtin-providers.yaml in the
+  user configuration directory (e.g. ~/.config/qcr/builtin-providers.yaml) with
+  the same layout:
+
+    providers:
+      - provider: deepseek
+        name: DeepSeek
+        env:
+          base_url: https://api.deepseek.com/v1
+          models:
+            - model: deepseek-chat
 `;
 
   return {
@@ -641,13 +648,19 @@ export function parseListCommandArgs(args: string[]): {
   error?: string;
   showHelp?: boolean;
 } {
+  const tagOption = extractOption(args, '--tag');
+  if (tagOption.error) {
+    return { valid: false, error: tagOption.error };
+  }
+  args = tagOption.remainingArgs;
+
   // Check for unknown flags first
   for (const arg of args) {
     if (arg && arg.startsWith('-') && 
         arg !== '-h' && arg !== '--help' && 
         arg !== '-v' && arg !== '--verbose' &&
         arg !== '-p' && 
-        arg !== '-f' &&
+        arg !== '-f' && arg !== '--builtin' &&
         arg !== '--all' && 
         arg !== '--tree') {
       return {
@@ -663,7 +676,7 @@ export function parseListCommandArgs(args: string[]): {
     all: ['--all'],
     tree: ['--tree'],
     shortForm: ['-p'],
-    builtinProviders: ['-f']
+    builtinProviders: ['-f', '--builtin']
   });
 
   if (parsedFlags['help']) {
@@ -706,7 +719,8 @@ export function parseListCommandArgs(args: string[]): {
         providerName = arg;
       } 
       // Special handling for when -f is used - 'arg' is actually a provider name, not a subcommand
-      else if (options.builtinProviders) {
+      // ('qcr list provider --builtin' names the subcommand as well)
+      else if (options.builtinProviders && arg !== 'provider') {
         subcommand = 'provider';
         providerName = arg;
       } else {
@@ -770,10 +784,22 @@ export function parseListCommandArgs(args: string[]): {
     };
   }
 
+  // Validate --tag usage
+  if (tagOption.value !== undefined && subcommand !== 'config') {
+    return {
+      valid: false,
+      error: '--tag can only be used with config subcommand'
+    };
+  }
+
   if (subcommand !== undefined) {
     options.subcommand = subcommand;
   }
 
+  if (tagOption.value !== undefined) {
+    options.tag = tagOption.value;
+  }
+
   if (providerName !== undefined) {
     options.provider = providerName;
   }
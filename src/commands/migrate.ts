@@ -0,0 +1,166 @@
+/**
+ * 'migrate' command implementation for Qwen Code Router CLI
+ */
+
+import * as fs from 'fs';
+import {
+  CURRENT_CONFIG_VERSION,
+  discoverConfigFileHierarchical,
+  migrateConfigFile,
+  parseConfigContent,
+  serializeConfigFile,
+  updateConfigFile,
+  ConfigMigrationResult
+} from '../persistence';
+import { getConfigPaths } from '../platform';
+import {
+  createErrorResult,
+  createSuccessResult,
+  configFileNotFoundError,
+  fileOperationError,
+  unexpectedError,
+  invalidArgumentsError
+} from '../errors';
+import { CommandResult } from '../commands';
+import { parseFlags } from '../command-args';
+
+/**
+ * Options for the migrate command
+ */
+export interface MigrateCommandOptions {
+  /** Whether to rewrite the configuration file */
+  write?: boolean;
+  /** Whether to print the migrated file instead of writing it */
+  dryRun?: boolean;
+  /** Current working directory (optional - defaults to process.cwd()) */
+  currentDir?: string;
+}
+
+/**
+ * Implements the 'qcr migrate' command
+ * Upgrades the configuration file of the current directory to the newest
+ * version. Without --write the pending migrations are only listed.
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult> with execution status and message
+ */
+export async function migrateCommand(options: MigrateCommandOptions = {}): Promise<CommandResult> {
+  try {
+    const discovery = discoverConfigFileHierarchical(options.currentDir);
+    if (!discovery.found || !discovery.filePath) {
+      return createErrorResult(configFileNotFoundError(getConfigPaths(options.currentDir).searchPaths));
+    }
+    const filePath = discovery.filePath;
+
+    let result: ConfigMigrationResult;
+    try {
+      // The file itself, without includes, layers or inheritance
+      result = migrateConfigFile(parseConfigContent(fs.readFileSync(filePath, 'utf-8'), filePath, discovery.format || undefined));
+    } catch (error) {
+      return createErrorResult(fileOperationError('load', filePath, error instanceof Error ? error.message : 'Unknown error'));
+    }
+
+    if (result.fromVersion === CURRENT_CONFIG_VERSION) {
+      return createSuccessResult(`${filePath} is already at version ${CURRENT_CONFIG_VERSION}`);
+    }
+
+    const lines = result.applied.map(migration => `  ${migration.from} → ${migration.from + 1}  ${migration.description}`);
+
+    if (options.dryRun || !options.write) {
+      if (options.dryRun) {
+        const content = serializeConfigFile(result.config, discovery.format || 'yaml');
+        lines.push('', content.trimEnd());
+      } else {
+        lines.push('', `Run 'qcr migrate --write' to rewrite the file (a backup is kept)`);
+      }
+      return createSuccessResult(
+        `${filePath} is at version ${result.fromVersion} and can be migrated to version ${CURRENT_CONFIG_VERSION}`,
+        lines.join('\n')
+      );
+    }
+
+    let backupPath: string | null;
+    try {
+      backupPath = await updateConfigFile(result.config, filePath, true);
+    } catch (error) {
+      return createErrorResult(fileOperationError('save', filePath, error instanceof Error ? error.message : 'Unknown error'));
+    }
+    if (backupPath) {
+      lines.push('', `Backup: ${backupPath}`);
+    }
+
+    return createSuccessResult(
+      `Migrated ${filePath} from version ${result.fromVersion} to version ${CURRENT_CONFIG_VERSION}`,
+      lines.join('\n')
+    );
+  } catch (error) {
+    return createErrorResult(unexpectedError('migrate command execution', error));
+  }
+}
+
+/**
+ * Shows help information for the migrate command
+ * @returns CommandResult with help information
+ */
+export function migrateCommandHelp(): CommandResult {
+  // Import here to avoid circular dependency
+  const { getMigrateCommandHelp } = require('../help');
+  return getMigrateCommandHelp();
+}
+
+/**
+ * Validates command arguments for the migrate command
+ * @param args - Command line arguments
+ * @returns Validation result with parsed options or error
+ */
+export function parseMigrateCommandArgs(args: string[]): {
+  valid: boolean;
+  options?: MigrateCommandOptions;
+  error?: string;
+  showHelp?: boolean;
+} {
+  const { parsedFlags, remainingArgs } = parseFlags(args, {
+    help: ['-h', '--help'],
+    write: ['--write'],
+    dryRun: ['--dry-run']
+  });
+
+  if (parsedFlags['help']) {
+    return { valid: true, showHelp: true };
+  }
+
+  const unknownFlag = remainingArgs.find(arg => arg.startsWith('-'));
+  if (unknownFlag) {
+    return { valid: false, error: `Unknown option: ${unknownFlag}` };
+  }
+  if (remainingArgs.length > 0) {
+    return { valid: false, error: `Unexpected argument: ${remainingArgs[0]}` };
+  }
+
+  return {
+    valid: true,
+    options: {
+      write: parsedFlags['write'] || false,
+      dryRun: parsedFlags['dryRun'] || false
+    }
+  };
+}
+
+/**
+ * Main entry point for the migrate command from CLI
+ * @param args - Command line arguments (excluding 'qcr migrate')
+ * @returns Promise<CommandResult>
+ */
+export async function handleMigrateCommand(args: string[]): Promise<CommandResult> {
+  const parseResult = parseMigrateCommandArgs(args);
+
+  if (!parseResult.valid) {
+    return createErrorResult(invalidArgumentsError('migrate', parseResult.error || 'Invalid arguments', 'qcr migrate [--write] [--dry-run]'));
+  }
+
+  if (parseResult.showHelp) {
+    return migrateCommandHelp();
+  }
+
+  return await migrateCommand(parseResult.options!);
+}
@@ -0,0 +1,373 @@
+/**
+ * 'provider' command implementation for Qwen Code Router CLI
+ */
+
+import { loadConfigFile } from '../command-utils';
+import * as path from 'path';
+import { atomicSaveConfigFile, backupConfigFile, loadConfigFileWithoutIncludes } from '../persistence';
+import { findApiKeyOrigin } from '../layers';
+import { isInteractiveInput, promptHidden, readStdin } from '../prompt';
+import { findProviderByName } from '../resolver';
+import { ConfigEditResult } from '../config-entries';
+import {
+  RemovalOptions,
+  addProviderEntry,
+  addProviderModel,
+  removeProviderEntry,
+  removeProviderModel,
+  replaceApiKey,
+  setProviderKey
+} from '../provider-entries';
+import {
+  createErrorResult,
+  createSuccessResult,
+  configEditError,
+  configValidationError,
+  fileOperationError,
+  unexpectedError,
+  invalidArgumentsError
+} from '../errors';
+import { CommandResult } from '../commands';
+import { extractOption, parseFlags } from '../command-args';
+
+/**
+ * Subcommands of the provider command
+ */
+export const PROVIDER_SUBCOMMANDS = ['add', 'remove', 'set-key', 'add-model', 'rm-model'] as const;
+
+/**
+ * Provider subcommand
+ */
+export type ProviderSubcommand = typeof PROVIDER_SUBCOMMANDS[number];
+
+/**
+ * Options for the provider command
+ */
+export interface ProviderCommandOptions {
+  /** Subcommand to run */
+  subcommand: ProviderSubcommand;
+  /** Provider name or alias */
+  name: string;
+  /** Model name ('add-model', 'rm-model') */
+  model?: string;
+  /** Base URL of a new provider ('add') */
+  baseUrl?: string;
+  /** Models of a new provider ('add') */
+  models?: string[];
+  /** Environment variable to reference as the API key instead of storing it ('add', 'set-key') */
+  keyEnv?: string;
+  /** API key for 'add' and 'set-key' (read from stdin or a prompt when omitted, never from arguments) */
+  apiKey?: string | undefined;
+  /** Whether to remove the configurations that use a removed provider or model ('remove', 'rm-model') */
+  cascade?: boolean;
+  /** New default configuration when a cascade removes the default ('remove', 'rm-model') */
+  newDefault?: string;
+  /** Whether a cascade may remove the default configuration without a new default ('remove', 'rm-model') */
+  force?: boolean;
+  /** Current working directory (optional - defaults to process.cwd()) */
+  currentDir?: string;
+  /** Whether to show verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Reads an API key from stdin (piped) or a hidden prompt
+ * Keys are not accepted as arguments so that they stay out of the shell history.
+ * @param providerName - Provider the key is for
+ * @returns API key without the trailing newline
+ */
+export async function readApiKey(providerName: string): Promise<string> {
+  if (isInteractiveInput()) {
+    return (await promptHidden(`API key for provider '${providerName}': `)).trim();
+  }
+  return (await readStdin()).trim();
+}
+
+/**
+ * Gets the API key to write for 'add' and 'set-key'
+ * @param options - Command options
+ * @param providerName - Provider the key is for
+ * @returns API key, or a ${VAR} reference with --key-env
+ */
+async function obtainApiKey(options: ProviderCommandOptions, providerName: string): Promise<string> {
+  if (options.keyEnv !== undefined) {
+    return `\${${options.keyEnv}}`;
+  }
+  return options.apiKey !== undefined ? options.apiKey : await readApiKey(providerName);
+}
+
+/**
+ * Describes an edit for error messages
+ * @param options - Command options
+ * @returns Description (e.g. "add model 'x' to provider 'y'")
+ */
+function describeEdit(options: ProviderCommandOptions): string {
+  switch (options.subcommand) {
+    case 'set-key':
+      return `set the API key of provider '${options.name}'`;
+    case 'add-model':
+      return `add model '${options.model}' to provider '${options.name}'`;
+    case 'rm-model':
+      return `remove model '${options.model}' from provider '${options.name}'`;
+    default:
+      return `${options.subcommand} provider '${options.name}'`;
+  }
+}
+
+/**
+ * Implements the 'qcr provider <subcommand>' command
+ * Edits the providers of the configuration file in use; the file is backed up
+ * and only rewritten if the edited file is valid
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult> with execution status and message
+ */
+export async function providerCommand(options: ProviderCommandOptions): Promise<CommandResult> {
+  try {
+    const loadResult = await loadConfigFile(options.currentDir);
+    if (!loadResult.success) {
+      return loadResult.errorResult;
+    }
+
+    const { config, validation, filePath } = loadResult;
+    if (!validation.isValid) {
+      return createErrorResult(configValidationError(validation.errors, validation.warnings));
+    }
+
+    const name = options.name;
+    const model = options.model || '';
+    const action = describeEdit(options);
+    const removal: RemovalOptions = {
+      ...(options.newDefault !== undefined && { newDefault: options.newDefault }),
+      ...(options.force !== undefined && { force: options.force })
+    };
+
+    // Check the provider before asking for a key
+    const existing = findProviderByName(name, config);
+    if (options.subcommand === 'add' && existing) {
+      return createErrorResult(configEditError(`Cannot ${action}`, [`Provider '${existing.provider}' already exists`]));
+    }
+    if (options.subcommand === 'set-key' && !existing) {
+      return createErrorResult(configEditError(`Cannot ${action}`, [`Provider '${name}' does not exist`]));
+    }
+
+    let result: ConfigEditResult;
+    let message: string;
+    // A key defined in an included file (or another layer) is replaced in that file
+    let keyFile: { path: string; apiKey: string } | null = null;
+    switch (options.subcommand) {
+      case 'add':
+      case 'set-key': {
+        const apiKey = await obtainApiKey(options, name);
+        if (!apiKey) {
+          return createErrorResult(configEditError(`Cannot ${action}`, ['API key cannot be empty']));
+        }
+        if (options.subcommand === 'add') {
+          result = addProviderEntry(config, {
+            name,
+            baseUrl: options.baseUrl || '',
+            apiKey,
+            ...(options.models !== undefined && { models: options.models })
+          });
+          message = `Added provider '${name}'`;
+        } else {
+          result = setProviderKey(config, name, apiKey);
+          message = `Updated the API key of provider '${existing!.provider}'`;
+          const origin = findApiKeyOrigin(config, existing!.provider);
+          if (origin && path.resolve(origin) !== path.resolve(filePath)) {
+            keyFile = { path: origin, apiKey };
+          }
+        }
+        break;
+      }
+      case 'remove':
+        result = removeProviderEntry(config, name, options.cascade || false, removal);
+        message = `Removed provider '${existing?.provider || name}'`;
+        break;
+      case 'add-model':
+        result = addProviderModel(config, name, model);
+        message = `Added model '${model}' to provider '${existing?.provider || name}'`;
+        break;
+      default:
+        result = removeProviderModel(config, name, model, options.cascade || false, removal);
+        message = `Removed model '${model}' from provider '${existing?.provider || name}'`;
+        break;
+    }
+
+    if (result.errors.length > 0) {
+      return createErrorResult(configEditError(`Cannot ${action}`, result.errors));
+    }
+
+    const savedPath = keyFile ? keyFile.path : filePath;
+    let backupPath: string;
+    try {
+      backupPath = backupConfigFile(savedPath);
+      if (keyFile) {
+        const own = await loadConfigFileWithoutIncludes(keyFile.path);
+        replaceApiKey(own.providers.find(provider => provider.provider === existing!.provider)!, keyFile.apiKey);
+        await atomicSaveConfigFile(own, keyFile.path);
+      } else {
+        await atomicSaveConfigFile(config, filePath);
+      }
+    } catch (error) {
+      return createErrorResult(fileOperationError('save', savedPath, error instanceof Error ? error.message : 'Unknown error'));
+    }
+
+    const lines = [...result.changes, ...(keyFile ? [`Key file: ${keyFile.path}`] : []), `Backup: ${backupPath}`];
+    if (options.verbose) {
+      lines.push(`Configuration file: ${filePath}`);
+    }
+    return createSuccessResult(message, lines.join('\n'));
+  } catch (error) {
+    return createErrorResult(unexpectedError('provider command execution', error));
+  }
+}
+
+/**
+ * Shows help information for the provider command
+ * @returns CommandResult with help information
+ */
+export function providerCommandHelp(): CommandResult {
+  // Import here to avoid circular dependency
+  const { getProviderCommandHelp } = require('../help');
+  return getProviderCommandHelp();
+}
+
+/**
+ * Options of the provider command and the subcommands that accept them
+ */
+const PROVIDER_OPTION_SUBCOMMANDS: Record<string, ProviderSubcommand[]> = {
+  '--base-url': ['add'],
+  '--models': ['add'],
+  '--key-env': ['add', 'set-key'],
+  '--cascade': ['remove', 'rm-model'],
+  '--default': ['remove', 'rm-model'],
+  '--force': ['remove', 'rm-model']
+};
+
+/**
+ * Validates command arguments for the provider command
+ * @param args - Command line arguments
+ * @returns Validation result with parsed options or error
+ */
+export function parseProviderCommandArgs(args: string[]): {
+  valid: boolean;
+  options?: ProviderCommandOptions;
+  error?: string;
+  showHelp?: boolean;
+} {
+  const { parsedFlags, remainingArgs: flagArgs } = parseFlags(args, {
+    help: ['-h', '--help'],
+    verbose: ['-v', '--verbose'],
+    cascade: ['--cascade'],
+    force: ['--force']
+  });
+
+  if (parsedFlags['help']) {
+    return { valid: true, showHelp: true };
+  }
+
+  let remainingArgs = flagArgs;
+  const values: Record<string, string> = {};
+  for (const option of ['--base-url', '--models', '--key-env', '--default']) {
+    const extracted = extractOption(remainingArgs, option);
+    if (extracted.error) {
+      return { valid: false, error: extracted.error };
+    }
+    remainingArgs = extracted.remainingArgs;
+    if (extracted.value !== undefined) {
+      values[option] = extracted.value;
+    }
+  }
+
+  const unknownFlag = remainingArgs.find(arg => arg.startsWith('-'));
+  if (unknownFlag) {
+    return { valid: false, error: `Unknown option: ${unknownFlag}` };
+  }
+
+  const [subcommand, name, model, ...extra] = remainingArgs;
+  if (!subcommand) {
+    return { valid: false, error: `Subcommand is required (${PROVIDER_SUBCOMMANDS.join(', ')})` };
+  }
+  if (!(PROVIDER_SUBCOMMANDS as readonly string[]).includes(subcommand)) {
+    return { valid: false, error: `Unknown subcommand: ${subcommand}. Available subcommands: ${PROVIDER_SUBCOMMANDS.join(', ')}` };
+  }
+  if (!name) {
+    return { valid: false, error: `Provider name is required for 'provider ${subcommand}'` };
+  }
+  const takesModel = subcommand === 'add-model' || subcommand === 'rm-model';
+  if (takesModel && !model) {
+    return { valid: false, error: `Model name is required for 'provider ${subcommand}'` };
+  }
+  if ((!takesModel && model) || extra.length > 0) {
+    return { valid: false, error: `Too many arguments for 'provider ${subcommand}'` };
+  }
+
+  const used = [
+    ...Object.keys(values),
+    ...(parsedFlags['cascade'] ? ['--cascade'] : []),
+    ...(parsedFlags['force'] ? ['--force'] : [])
+  ];
+  for (const option of used) {
+    const supported = PROVIDER_OPTION_SUBCOMMANDS[option]!;
+    if (!supported.includes(subcommand as ProviderSubcommand)) {
+      return { valid: false, error: `${option} is only supported by ${supported.map(s => `'provider ${s}'`).join(' and ')}` };
+    }
+  }
+  if (subcommand === 'add' && !values['--base-url']) {
+    return { valid: false, error: `--base-url is required for 'provider add'` };
+  }
+  const keyEnv = values['--key-env'];
+  if (keyEnv !== undefined && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(keyEnv)) {
+    return { valid: false, error: `Invalid environment variable name: ${keyEnv}` };
+  }
+
+  const options: ProviderCommandOptions = {
+    subcommand: subcommand as ProviderSubcommand,
+    name,
+    verbose: parsedFlags['verbose'] || false
+  };
+  if (model) {
+    options.model = model;
+  }
+  const baseUrl = values['--base-url'];
+  const models = values['--models'];
+  if (baseUrl !== undefined) {
+    options.baseUrl = baseUrl;
+  }
+  if (models !== undefined) {
+    options.models = models.split(',').map(m => m.trim()).filter(m => m !== '');
+  }
+  if (keyEnv !== undefined) {
+    options.keyEnv = keyEnv;
+  }
+  if (subcommand === 'remove' || subcommand === 'rm-model') {
+    options.cascade = parsedFlags['cascade'] || false;
+    options.force = parsedFlags['force'] || false;
+  }
+  const newDefault = values['--default'];
+  if (newDefault !== undefined) {
+    options.newDefault = newDefault;
+  }
+
+  return { valid: true, options };
+}
+
+/**
+ * Main entry point for the provider command from CLI
+ * @param args - Command line arguments (excluding 'qcr provider')
+ * @returns Promise<CommandResult>
+ */
+export async function handleProviderCommand(args: string[]): Promise<CommandResult> {
+  const parseResult = parseProviderCommandArgs(args);
+
+  if (!parseResult.valid) {
+    return createErrorResult(invalidArgumentsError('provider', parseResult.error || 'Invalid arguments', 'qcr provider <add|remove|set-key|add-model|rm-model> <provider> [model]'));
+  }
+
+  if (parseResult.showHelp) {
+    return providerCommandHelp();
+  }
+
+  return await providerCommand(parseResult.options!);
+}
@@ -4,22 +4,28 @@
 
 import {
   resolveConfigurationByName,
+  resolveAliases,
+  getConfigurationReference
 } from '../resolver';
 import { loadConfigFile } from '../command-utils';
 import { validateEnvironmentVariables } from '../environment';
 import { CommandResult } from '../commands';
 import { ConfigFile } from '../types';
 import { parseFlags } from '../command-args';
-import { BUILTIN_PROVIDERS } from './list';
+import { getBuiltInProvider, getBuiltInProviders } from '../provider-registry';
+import { tryWriteActiveState } from '../state';
+import { resolveProviderApiKey, resolveProviderBaseUrl } from '../interpolation';
+import { unlockVaultFor } from '../vault';
+import { getModelPickerItems, getProviderPickerItems, isPickerAvailable, pickItem } from '../picker';
 
 /**
  * Options for the router command
  */
 export interface RouterCommandOptions {
-  /** Provider name */
-  provider: string;
-  /** Model name */
-  model: string;
+  /** Provider name (picked in a terminal when omitted) */
+  provider?: string;
+  /** Model name (picked in a terminal when omitted) */
+  model?: string;
   /** Current working directory (optional - defaults to process.cwd()) */
   currentDir?: string;
   /** Whether to show verbose output */
@@ -35,9 +41,6 @@ export interface RouterCommandOptions {
  */
 export async function routerCommand(options: RouterCommandOptions): Promise<CommandResult> {
   try {
-    const { provider: inputProvider, model: inputModel } = options;
-    const providerKey = inputProvider.toLowerCase();
-
     // First, try to find a matching configuration in the config file
     let config: ConfigFile;
     let validation: any;
@@ -76,6 +79,23 @@ export async function routerCommand(options: RouterCommandOptions): Promise<Comm
       config = { configs: [], providers: [] };
     }
 
+    // A missing provider and model are picked from the configured and built-in ones
+    const inputProvider = options.provider
+      || (isPickerAvailable() ? (await pickItem('Provider', getProviderPickerItems(config)))?.value : undefined);
+    if (!inputProvider) {
+      return { success: false, message: 'Provider name is required. Use --help for usage information.', exitCode: 1 };
+    }
+    const inputModel = options.model
+      || (isPickerAvailable() ? (await pickItem(`Model of ${inputProvider}`, getModelPickerItems(config, inputProvider)))?.value : undefined);
+    if (!inputModel) {
+      return { success: false, message: 'Model name is required. Use --help for usage information.', exitCode: 1 };
+    }
+
+    // Provider and model aliases resolve to canonical names before matching
+    const names = resolveAliases(inputProvider, inputModel, config);
+    const providerKey = names.provider.toLowerCase();
+    const modelKey = names.model.toLowerCase();
+
     // Look for matching provider and model in configuration file
     let matchingConfig: { name: string; provider: string; model: string } | undefined;
     let configProvider: any;
@@ -85,24 +105,35 @@ export async function routerCommand(options: RouterCommandOptions): Promise<Comm
       configProvider = config.providers.find(p => p.provider.toLowerCase() === providerKey);
 
       if (configProvider) {
+        await unlockVaultFor(configProvider.env.api_key);
+
         // Check if the model exists in this provider
-        const modelExists = configProvider.env.models.some((m: any) => m.model.toLowerCase() === inputModel.toLowerCase());
+        const modelExists = configProvider.env.models.some((m: any) => m.model.toLowerCase() === modelKey);
 
         if (modelExists) {
           // Look for existing configuration that matches this provider/model combination
-          matchingConfig = config.configs
+          // Entries can name the provider and model by alias; the canonical names are reported and recorded
+          const matchingEntry = config.configs
             .flatMap(c => c.config)
-            .find(c => c.provider.toLowerCase() === providerKey && c.model.toLowerCase() === inputModel.toLowerCase());
+            .map(entry => ({ entry, entryNames: resolveAliases(entry.provider, entry.model, config) }))
+            .find(({ entryNames }) => entryNames.provider.toLowerCase() === providerKey && entryNames.model.toLowerCase() === modelKey);
+          if (matchingEntry) {
+            matchingConfig = {
+              name: getConfigurationReference(matchingEntry.entry, config),
+              provider: matchingEntry.entryNames.provider,
+              model: matchingEntry.entryNames.model
+            };
+          }
         }
       }
     }
 
     // Check built-in providers
-    const builtinProvider = BUILTIN_PROVIDERS[providerKey as keyof typeof BUILTIN_PROVIDERS];
+    const builtinProvider = getBuiltInProvider(providerKey);
     let builtinModelExists = false;
 
     if (builtinProvider) {
-      builtinModelExists = builtinProvider.models.some(m => m.toLowerCase() === inputModel.toLowerCase());
+      builtinModelExists = builtinProvider.models.some(m => m.toLowerCase() === modelKey);
     }
 
     // Determine the best match and set environment variables
@@ -128,27 +159,42 @@ export async function routerCommand(options: RouterCommandOptions): Promise<Comm
       resolvedModel = matchingConfig.model;
       baseUrl = configProvider.env.base_url;
       source = `configuration '${matchingConfig.name}'`;
-    } else if (configProvider && configProvider.env.models.some((m: any) => m.model.toLowerCase() === inputModel.toLowerCase())) {
+    } else if (configProvider && configProvider.env.models.some((m: any) => m.model.toLowerCase() === modelKey)) {
       // Use config file provider with direct model match
-      const exactModel = configProvider.env.models.find((m: any) => m.model.toLowerCase() === inputModel.toLowerCase());
+      const exactModel = configProvider.env.models.find((m: any) => m.model.toLowerCase() === modelKey);
+
+      // Resolve api_key_cmd / api_key_file and ${VAR} references before activating
+      let apiKey: string;
+      let providerBaseUrl: string;
+      try {
+        apiKey = resolveProviderApiKey(configProvider.env);
+        providerBaseUrl = resolveProviderBaseUrl(configProvider.env);
+      } catch (error) {
+        return {
+          success: false,
+          message: `Failed to activate provider '${configProvider.provider}'`,
+          details: error instanceof Error ? error.message : 'Unknown error',
+          exitCode: 1
+        };
+      }
 
       // Set environment variables directly
-      process.env['OPENAI_API_KEY'] = configProvider.env.api_key;
-      process.env['OPENAI_BASE_URL'] = configProvider.env.base_url;
+      process.env['OPENAI_API_KEY'] = apiKey;
+      process.env['OPENAI_BASE_URL'] = providerBaseUrl;
       process.env['OPENAI_MODEL'] = exactModel.model;
 
       resolvedProvider = configProvider.provider;
       resolvedModel = exactModel.model;
-      baseUrl = configProvider.env.base_url;
+      baseUrl = providerBaseUrl;
       source = 'configuration file provider';
     } else if (builtinProvider && builtinModelExists) {
       // Use built-in provider
-      const exactModel = builtinProvider.models.find(m => m.toLowerCase() === inputModel.toLowerCase());
+      const exactModel = builtinProvider.models.find(m => m.toLowerCase() === modelKey);
 
       if (!exactModel) {
         return {
           success: false,
-          message: `Model '${inputModel}' not found in built-in provider '${inputProvider}'`,
+          message: `Model '${inputModel}' not found in built-in provider '${builtinProvider.provider}'`,
           details: `Available models: ${builtinProvider.models.join(', ')}`,
           exitCode: 1
         };
@@ -156,19 +202,19 @@ export async function routerCommand(options: RouterCommandOptions): Promise<Comm
 
       // Set environment variables for built-in provider
       // Note: API key needs to be set by user separately
-      process.env['OPENAI_BASE_URL'] = builtinProvider.base_url;
+      process.env['OPENAI_BASE_URL'] = builtinProvider.baseUrl;
       process.env['OPENAI_MODEL'] = exactModel;
 
-      resolvedProvider = inputProvider;
+      resolvedProvider = builtinProvider.provider;
       resolvedModel = exactModel;
-      baseUrl = builtinProvider.base_url;
+      baseUrl = builtinProvider.baseUrl;
       source = `built-in provider '${builtinProvider.name}'`;
 
       // Warning about API key
       if (!process.env['OPENAI_API_KEY']) {
         return {
           success: false,
-          message: `API key not set for built-in provider '${inputProvider}'`,
+          message: `API key not set for built-in provider '${builtinProvider.provider}'`,
           details: `Please set the OPENAI_API_KEY environment variable or configure this provider in your configuration file.`,
           exitCode: 1
         };
@@ -184,7 +230,7 @@ export async function routerCommand(options: RouterCommandOptions): Promise<Comm
       }
 
       // Collect available providers from built-in
-      availableProviders.push(...Object.keys(BUILTIN_PROVIDERS));
+      availableProviders.push(...Object.keys(getBuiltInProviders()));
 
       // If provider exists, collect available models
       if (configProvider) {
@@ -198,10 +244,11 @@ export async function routerCommand(options: RouterCommandOptions): Promise<Comm
       const uniqueModels = [...new Set(availableModels)];
 
       if (uniqueModels.length > 0) {
+        const knownProvider = configProvider ? configProvider.provider : builtinProvider!.provider;
         return {
           success: false,
-          message: `Model '${inputModel}' not found in provider '${inputProvider}'`,
-          details: `Available models for '${inputProvider}': ${uniqueModels.join(', ')}`,
+          message: `Model '${inputModel}' not found in provider '${knownProvider}'`,
+          details: `Available models for '${knownProvider}': ${uniqueModels.join(', ')}`,
           exitCode: 1
         };
       } else {
@@ -225,9 +272,21 @@ export async function routerCommand(options: RouterCommandOptions): Promise<Comm
       };
     }
 
+    // Record the activation so that later 'run' and 'list' invocations can see it
+    const stateWarning = tryWriteActiveState({
+      name: matchingConfig ? matchingConfig.name : `${resolvedProvider}/${resolvedModel}`,
+      provider: resolvedProvider,
+      model: resolvedModel,
+      sourceFile: hasConfigFile && filePath ? filePath : null,
+      activatedBy: 'router'
+    });
+
     // Build success message
     let message = `Successfully activated provider '${resolvedProvider}' with model '${resolvedModel}'`;
     let details = `Source: ${source}`;
+    if (names.aliased) {
+      details += `\nResolved: ${inputProvider}/${inputModel} → ${resolvedProvider}/${resolvedModel}`;
+    }
 
     if (options.verbose) {
       details += `\nProvider: ${resolvedProvider}`;
@@ -245,6 +304,10 @@ export async function routerCommand(options: RouterCommandOptions): Promise<Comm
       if (envValidation.warnings.length > 0) {
         details += `\nWarnings: ${envValidation.warnings.join(', ')}`;
       }
+
+      if (stateWarning) {
+        details += `\n⚠ ${stateWarning}`;
+      }
     }
 
     return {
@@ -275,8 +338,8 @@ USAGE:
   /router <provider> <model>
 
 ARGUMENTS:
-  provider       Name of the provider (required)
-  model          Name of the model (required)
+  provider       Name of the provider (required; picked in a terminal when omitted)
+  model          Name of the model (required; picked in a terminal when omitted)
 
 OPTIONS:
   -v, --verbose  Show detailed output including environment variables
@@ -287,6 +350,8 @@ EXAMPLES:
   /router azure gpt-35-turbo     # Use Azure GPT-3.5 Turbo
   /router anthropic claude-3-opus # Use Anthropic Claude 3 Opus
   /router google gemini-pro -v    # Use Google Gemini Pro with verbose output
+  /router claude opus             # Aliases of anthropic and claude-3-opus-20240229
+  /router                         # Pick a provider, then one of its models
 
 DESCRIPTION:
   The '/router' command provides a quick way to activate a provider and model
@@ -310,13 +375,21 @@ DESCRIPTION:
   The command searches for the provider/model combination in the following order:
   1. Existing named configuration in the configuration file
   2. Direct provider/model match in configuration file providers
-  3. Built-in provider definitions (OpenAI, Azure, Anthropic, Google)
+  3. Built-in provider definitions (OpenAI, Azure, Anthropic, Google, DeepSeek, ...)
   
   For built-in providers, you must have the OPENAI_API_KEY environment variable
   set, or configure the provider in your configuration file with API credentials.
   
   The command is case-insensitive for both provider and model names, but will
   preserve the exact case from the configuration when setting environment variables.
+  Provider and model aliases (such as 'claude' or 'opus') and latest pointers
+  (such as 'claude-3-opus') are resolved to the canonical names first.
+
+  PICKING IN A TERMINAL:
+  Without a provider, a terminal shows a searchable list of the configured and
+  built-in providers, and then of the chosen provider's models. Type to search,
+  use the arrow keys to move, Enter to pick and Esc to cancel. Without a
+  terminal, the provider and model stay required.
 `;
 
   return {
@@ -329,9 +402,10 @@ DESCRIPTION:
 /**
  * Validates command arguments for the router command
  * @param args - Command line arguments
+ * @param allowMissingNames - Whether the provider and model may be left out to be picked (default: false)
  * @returns Validation result with parsed options or error
  */
-export function parseRouterCommandArgs(args: string[]): {
+export function parseRouterCommandArgs(args: string[], allowMissingNames: boolean = false): {
   valid: boolean;
   options?: RouterCommandOptions;
   error?: string;
@@ -357,7 +431,7 @@ export function parseRouterCommandArgs(args: string[]): {
   }
 
   // Validate argument count
-  if (remainingArgs.length < 2) {
+  if (remainingArgs.length < 2 && !allowMissingNames) {
     if (remainingArgs.length === 0) {
       return {
         valid: false,
@@ -378,10 +452,13 @@ export function parseRouterCommandArgs(args: string[]): {
     };
   }
 
-  const options: RouterCommandOptions = {
-    provider: remainingArgs[0]!,
-    model: remainingArgs[1]!,
-  };
+  const options: RouterCommandOptions = {};
+  if (remainingArgs[0] !== undefined) {
+    options.provider = remainingArgs[0];
+  }
+  if (remainingArgs[1] !== undefined) {
+    options.model = remainingArgs[1];
+  }
   
   // Only add verbose property if it was explicitly set
   if (parsedFlags['verbose']) {
@@ -400,7 +477,7 @@ export function parseRouterCommandArgs(args: string[]): {
  * @returns Promise<CommandResult>
  */
 export async function handleRouterCommand(args: string[]): Promise<CommandResult> {
-  const parseResult = parseRouterCommandArgs(args);
+  const parseResult = parseRouterCommandArgs(args, isPickerAvailable());
 
   if (!parseResult.valid) {
     return {
@@ -5,10 +5,23 @@
 import { ChildProcess } from 'child_process';
 import { spawnCrossPlatform } from '../platform';
 import { validateEnvironmentVariables } from '../environment';
+import { ActiveStateResolution, resolveActiveState } from '../state';
+import { ACTIVE_CONFIG_ENV_VAR } from '../shell';
+import { PINNED_CONFIG_ENV_VAR } from '../pin';
+import {
+  resolveConfigurationByName,
+  findConfigurationByName,
+  findConfigurationMatches,
+  getAllConfigurationNames
+} from '../resolver';
+import { loadConfigFile, unlockVaultForConfiguration } from '../command-utils';
 import {
   createErrorResult,
   createSuccessResult,
+  configValidationError,
+  configNotFoundError,
   environmentNotSetError,
+  configResolutionError,
   processLaunchError,
   unexpectedError,
   invalidArgumentsError,
@@ -16,11 +29,16 @@ import {
 } from '../errors';
 import { CommandResult } from '../commands';
 import { parseFlags } from '../command-args';
+import { EnvironmentVariables } from '../types';
 
 /**
  * Options for the run command
  */
 export interface RunCommandOptions {
+  /** Configuration to launch with (optional - uses the active configuration if not provided) */
+  configName?: string;
+  /** Current working directory (optional - defaults to process.cwd()) */
+  currentDir?: string;
   /** Additional arguments to pass to the qwen command */
   additionalArgs?: string[];
   /** Whether to show verbose output */
@@ -28,84 +46,208 @@ export interface RunCommandOptions {
 }
 
 /**
- * Implements the 'qcr run' command
- * Launches Qwen Code with the currently active configuration
+ * Exit status of a launched child process
+ */
+export interface ChildExitStatus {
+  /** Exit code of the child (0 if it was terminated by a signal) */
+  exitCode: number;
+  /** Signal that terminated the child, if any */
+  signal?: NodeJS.Signals;
+  /** Error raised while launching the child, if any */
+  error?: Error;
+}
+
+/**
+ * Resolves a named configuration to environment variables without touching process.env
+ * @param configName - Configuration name
+ * @param currentDir - Directory to search for the configuration file
+ * @returns Resolved environment variables and default qwen arguments, or an error result
+ */
+export async function resolveConfigEnvironment(
+  configName: string,
+  currentDir?: string
+): Promise<{ success: true; environmentVariables: EnvironmentVariables; args: string[]; filePath: string } | { success: false; errorResult: CommandResult }> {
+  const loadResult = await loadConfigFile(currentDir);
+
+  if (!loadResult.success) {
+    return loadResult;
+  }
+
+  const { config, validation, filePath } = loadResult;
+
+  if (!validation.isValid) {
+    return { success: false, errorResult: createErrorResult(configValidationError(validation.errors, validation.warnings)) };
+  }
+
+  const configEntry = findConfigurationByName(configName, config);
+  if (!configEntry) {
+    return { success: false, errorResult: createErrorResult(configNotFoundError(configName, getAllConfigurationNames(config))) };
+  }
+
+  await unlockVaultForConfiguration(configName, config);
+  const resolutionResult = resolveConfigurationByName(configName, config, false);
+  if (!resolutionResult.success || !resolutionResult.environmentVariables) {
+    return {
+      success: false,
+      errorResult: createErrorResult(configResolutionError(configName, resolutionResult.error || 'Configuration resolution failed'))
+    };
+  }
+
+  return { success: true, environmentVariables: resolutionResult.environmentVariables, args: configEntry.args || [], filePath };
+}
+
+/**
+ * Launches a child process with inherited stdio and forwards SIGINT/SIGTERM to it
+ * @param command - Command to execute
+ * @param args - Command arguments
+ * @param options - Child environment, shell usage and verbosity
+ * @returns Promise resolving with the exit status once the child exits or fails to launch
+ */
+export function launchChildProcess(
+  command: string,
+  args: string[],
+  options: { env: NodeJS.ProcessEnv; useShell: boolean; verbose?: boolean }
+): Promise<ChildExitStatus> {
+  return new Promise<ChildExitStatus>((resolve) => {
+    const child: ChildProcess = spawnCrossPlatform(command, args, {
+      stdio: 'inherit', // Pass through stdin/stdout/stderr
+      env: options.env,
+      useShell: options.useShell
+    });
+
+    // Handle process errors
+    child.on('error', (error) => {
+      resolve({ exitCode: EXIT_CODES.GENERAL_ERROR, error });
+    });
+
+    // Handle process exit
+    child.on('exit', (code, signal) => {
+      if (signal) {
+        const exitCode = signal === 'SIGINT' ? EXIT_CODES.INTERRUPTED : EXIT_CODES.GENERAL_ERROR;
+        resolve({ exitCode, signal });
+      } else {
+        resolve({ exitCode: code || 0 });
+      }
+    });
+
+    // Handle signals to forward them to the child process
+    const signalHandler = (signal: NodeJS.Signals) => {
+      if (child.pid) {
+        try {
+          process.kill(child.pid, signal);
+        } catch (error) {
+          // Child process may have already exited
+          if (options.verbose) {
+            console.warn(`Failed to send ${signal} to child process:`, error);
+          }
+        }
+      }
+    };
+
+    process.on('SIGINT', signalHandler);
+    process.on('SIGTERM', signalHandler);
+
+    // Clean up signal handlers when child exits
+    child.on('exit', () => {
+      process.removeListener('SIGINT', signalHandler);
+      process.removeListener('SIGTERM', signalHandler);
+    });
+  });
+}
+
+/**
+ * Implements the 'qcr run [config_name]' command
+ * Launches Qwen Code with the given configuration, or the currently active one
  * 
  * @param options - Command options
  * @returns Promise<CommandResult> with execution status and message
  */
 export async function runCommand(options: RunCommandOptions = {}): Promise<CommandResult> {
   try {
-    // Validate that required environment variables are set
-    const envValidation = validateEnvironmentVariables();
-    if (!envValidation.isValid) {
-      return createErrorResult(environmentNotSetError(envValidation.errors));
-    }
+    let childEnv: NodeJS.ProcessEnv;
+    let sourceDescription: string | undefined;
+    let configArgs: string[] = [];
+
+    if (options.configName) {
+      // One-shot launch: the configuration only reaches the child's environment
+      const resolution = await resolveConfigEnvironment(options.configName, options.currentDir);
+      if (!resolution.success) {
+        return resolution.errorResult;
+      }
+
+      childEnv = { ...process.env, ...resolution.environmentVariables };
+      configArgs = resolution.args;
+      sourceDescription = `Using configuration '${options.configName}' from ${resolution.filePath}`;
+    } else {
+      // Inside a 'qcr shell' subshell or a pinned directory, the environment
+      // already holds that configuration and must win over the recorded one.
+      // Otherwise prefer the configuration recorded by 'use', '/router' or
+      // 'set-default', and fall back to the variables of the current environment
+      const scopedConfig = process.env[ACTIVE_CONFIG_ENV_VAR] || process.env[PINNED_CONFIG_ENV_VAR];
+      const activeState: ActiveStateResolution = scopedConfig ? { success: false } : await resolveActiveState();
+
+      if (activeState.success && activeState.environmentVariables) {
+        childEnv = { ...process.env, ...activeState.environmentVariables };
+        configArgs = activeState.args || [];
+        if (activeState.state) {
+          sourceDescription = `Using active configuration '${activeState.state.name}' (activated ${activeState.state.activatedAt})`;
+        }
+      } else {
+        if (activeState.state && options.verbose) {
+          console.warn(`Active configuration '${activeState.state.name}' could not be resolved: ${activeState.error}`);
+          console.warn('Falling back to the current environment variables');
+        }
+
+        // Validate that required environment variables are set
+        const envValidation = validateEnvironmentVariables();
+        if (!envValidation.isValid) {
+          return createErrorResult(environmentNotSetError(envValidation.errors));
+        }
 
-    // Show warnings if any
-    if (envValidation.warnings.length > 0 && options.verbose) {
-      console.warn(`Warnings:\n${envValidation.warnings.map(w => `  ⚠ ${w}`).join('\n')}`);
+        // Show warnings if any
+        if (envValidation.warnings.length > 0 && options.verbose) {
+          console.warn(`Warnings:\n${envValidation.warnings.map(w => `  ⚠ ${w}`).join('\n')}`);
+        }
+
+        childEnv = process.env;
+        if (scopedConfig) {
+          sourceDescription = `Using configuration '${scopedConfig}' of the current shell`;
+        }
+      }
     }
 
-    // Prepare command arguments
-    const qwenArgs = options.additionalArgs || [];
+    // Prepare command arguments: the configuration's args come first, so
+    // arguments given after '--' can add to or override them
+    const qwenArgs = [...configArgs, ...(options.additionalArgs || [])];
 
     if (options.verbose) {
+      if (sourceDescription) {
+        console.log(sourceDescription);
+      }
       console.log(`Launching Qwen Code with environment:`);
-      console.log(`  OPENAI_API_KEY: ${process.env['OPENAI_API_KEY']?.substring(0, 8)}...`);
-      console.log(`  OPENAI_BASE_URL: ${process.env['OPENAI_BASE_URL']}`);
-      console.log(`  OPENAI_MODEL: ${process.env['OPENAI_MODEL']}`);
+      console.log(`  OPENAI_API_KEY: ${childEnv['OPENAI_API_KEY']?.substring(0, 8)}...`);
+      console.log(`  OPENAI_BASE_URL: ${childEnv['OPENAI_BASE_URL']}`);
+      console.log(`  OPENAI_MODEL: ${childEnv['OPENAI_MODEL']}`);
       console.log(`  Command: qwen ${qwenArgs.join(' ')}`);
     }
 
     // Launch Qwen Code process using cross-platform spawning
-    return new Promise<CommandResult>((resolve) => {
-      const child: ChildProcess = spawnCrossPlatform('qwen', qwenArgs, {
-        stdio: 'inherit', // Pass through stdin/stdout/stderr
-        env: process.env, // Use current environment (including our set variables)
-        useShell: true // Use shell to handle command resolution
-      });
-
-      // Handle process errors
-      child.on('error', (error) => {
-        resolve(createErrorResult(processLaunchError('Qwen Code', error.message)));
-      });
-
-      // Handle process exit
-      child.on('exit', (code, signal) => {
-        if (signal) {
-          const exitCode = signal === 'SIGINT' ? EXIT_CODES.INTERRUPTED : EXIT_CODES.GENERAL_ERROR;
-          resolve(createSuccessResult(`Qwen Code terminated by signal ${signal}`, undefined, exitCode));
-        } else {
-          const exitCode = code || 0;
-          const message = exitCode === 0 ? 'Qwen Code completed successfully' : `Qwen Code exited with code ${exitCode}`;
-          resolve(createSuccessResult(message, undefined, exitCode));
-        }
-      });
-
-      // Handle signals to forward them to the child process
-      const signalHandler = (signal: NodeJS.Signals) => {
-        if (child.pid) {
-          try {
-            process.kill(child.pid, signal);
-          } catch (error) {
-            // Child process may have already exited
-            if (options.verbose) {
-              console.warn(`Failed to send ${signal} to child process:`, error);
-            }
-          }
-        }
-      };
+    const status = await launchChildProcess('qwen', qwenArgs, {
+      env: childEnv, // Current environment plus the selected configuration
+      useShell: true, // Use shell to handle command resolution
+      verbose: options.verbose || false
+    });
 
-      process.on('SIGINT', signalHandler);
-      process.on('SIGTERM', signalHandler);
+    if (status.error) {
+      return createErrorResult(processLaunchError('Qwen Code', status.error.message));
+    }
 
-      // Clean up signal handlers when child exits
-      child.on('exit', () => {
-        process.removeListener('SIGINT', signalHandler);
-        process.removeListener('SIGTERM', signalHandler);
-      });
-    });
+    if (status.signal) {
+      return createSuccessResult(`Qwen Code terminated by signal ${status.signal}`, undefined, status.exitCode);
+    }
+
+    const message = status.exitCode === 0 ? 'Qwen Code completed successfully' : `Qwen Code exited with code ${status.exitCode}`;
+    return createSuccessResult(message, undefined, status.exitCode);
   } catch (error) {
     return createErrorResult(unexpectedError('run command execution', error));
   }
@@ -132,7 +274,12 @@ export function parseRunCommandArgs(args: string[]): {
   error?: string;
   showHelp?: boolean;
 } {
-  const { parsedFlags, remainingArgs } = parseFlags(args, {
+  // Everything after '--' is passed to qwen untouched
+  const separatorIndex = args.indexOf('--');
+  const ownArgs = separatorIndex === -1 ? args : args.slice(0, separatorIndex);
+  const passthroughArgs = separatorIndex === -1 ? [] : args.slice(separatorIndex + 1).filter((arg): arg is string => !!arg);
+
+  const { parsedFlags, remainingArgs } = parseFlags(ownArgs, {
     help: ['-h', '--help'],
     verbose: ['-v', '--verbose']
   });
@@ -141,9 +288,22 @@ export function parseRunCommandArgs(args: string[]): {
     return { valid: true, showHelp: true };
   }
 
+  // A leading argument that is not an option names the configuration to launch with
+  let configName: string | undefined;
+  let qwenArgs = remainingArgs;
+  const firstArg = remainingArgs[0];
+  if (firstArg && !firstArg.startsWith('-')) {
+    configName = firstArg;
+    qwenArgs = remainingArgs.slice(1);
+  }
+
   const options: RunCommandOptions = {
-    additionalArgs: remainingArgs
+    additionalArgs: [...qwenArgs, ...passthroughArgs]
   };
+
+  if (configName) {
+    options.configName = configName;
+  }
   
   // Only add verbose property if it was explicitly set
   if (parsedFlags['verbose']) {
@@ -156,6 +316,23 @@ export function parseRunCommandArgs(args: string[]): {
   };
 }
 
+/**
+ * Checks whether the leading argument of 'qcr run' names a configuration
+ * Other leading arguments are passed to qwen, as they were before 'run' took
+ * a configuration name (e.g. 'qcr run some prompt').
+ * @param name - Leading argument
+ * @param currentDir - Directory to search for the configuration file
+ * @returns True if the configuration file has a configuration by that name
+ */
+async function isConfigurationName(name: string, currentDir?: string): Promise<boolean> {
+  try {
+    const loadResult = await loadConfigFile(currentDir);
+    return loadResult.success && findConfigurationMatches(name, loadResult.config).length > 0;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Main entry point for the run command from CLI
  * @param args - Command line arguments (excluding 'qcr run')
@@ -165,12 +342,18 @@ export async function handleRunCommand(args: string[]): Promise<CommandResult> {
   const parseResult = parseRunCommandArgs(args);
 
   if (!parseResult.valid) {
-    return createErrorResult(invalidArgumentsError('run', parseResult.error || 'Invalid arguments', 'qcr run [additional_args...] [-v|--verbose]'));
+    return createErrorResult(invalidArgumentsError('run', parseResult.error || 'Invalid arguments', 'qcr run [config_name] [-v|--verbose] [-- qwen_args...]'));
   }
 
   if (parseResult.showHelp) {
     return runCommandHelp();
   }
 
-  return await runCommand(parseResult.options);
+  let options = parseResult.options || {};
+  if (options.configName && !(await isConfigurationName(options.configName))) {
+    const { configName, ...rest } = options;
+    options = { ...rest, additionalArgs: [configName, ...(rest.additionalArgs || [])] };
+  }
+
+  return await runCommand(options);
 }
\ No newline at end of file
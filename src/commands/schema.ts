@@ -0,0 +1,80 @@
+/**
+ * 'schema' command implementation for Qwen Code Router CLI
+ */
+
+import { getConfigSchema } from '../schema';
+import {
+  createErrorResult,
+  createSuccessResult,
+  unexpectedError,
+  invalidArgumentsError
+} from '../errors';
+import { CommandResult } from '../commands';
+
+/**
+ * Implements the 'qcr schema' command
+ * Prints the JSON Schema of configuration files
+ *
+ * @returns CommandResult with the schema as message
+ */
+export async function schemaCommand(): Promise<CommandResult> {
+  try {
+    return createSuccessResult(JSON.stringify(getConfigSchema(), null, 2));
+  } catch (error) {
+    return createErrorResult(unexpectedError('schema command execution', error));
+  }
+}
+
+/**
+ * Shows help information for the schema command
+ * @returns CommandResult with help information
+ */
+export function schemaCommandHelp(): CommandResult {
+  // Import here to avoid circular dependency
+  const { getSchemaCommandHelp } = require('../help');
+  return getSchemaCommandHelp();
+}
+
+/**
+ * Validates command arguments for the schema command
+ * @param args - Command line arguments
+ * @returns Validation result or error
+ */
+export function parseSchemaCommandArgs(args: string[]): {
+  valid: boolean;
+  error?: string;
+  showHelp?: boolean;
+} {
+  for (const arg of args) {
+    if (!arg) continue; // Skip undefined/empty arguments
+
+    if (arg === '-h' || arg === '--help') {
+      return { valid: true, showHelp: true };
+    } else if (arg.startsWith('-')) {
+      return { valid: false, error: `Unknown option: ${arg}` };
+    } else {
+      return { valid: false, error: `Unexpected argument: ${arg}` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Main entry point for the schema command from CLI
+ * @param args - Command line arguments (excluding 'qcr schema')
+ * @returns Promise<CommandResult>
+ */
+export async function handleSchemaCommand(args: string[]): Promise<CommandResult> {
+  const parseResult = parseSchemaCommandArgs(args);
+
+  if (!parseResult.valid) {
+    return createErrorResult(invalidArgumentsError('schema', parseResult.error || 'Invalid arguments', 'qcr schema'));
+  }
+
+  if (parseResult.showHelp) {
+    return schemaCommandHelp();
+  }
+
+  return await schemaCommand();
+}
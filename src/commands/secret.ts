@@ -0,0 +1,365 @@
+/**
+ * 'secret' command implementation for Qwen Code Router CLI
+ */
+
+import { loadConfigFile } from '../command-utils';
+import * as path from 'path';
+import { loadConfigFileWithoutIncludes, saveConfigFile } from '../persistence';
+import { resolveIncludedFiles } from '../includes';
+import { ConfigFile } from '../types';
+import { isInterpolatedValue } from '../interpolation';
+import { isInteractiveInput, promptHidden, readStdin } from '../prompt';
+import {
+  VAULT_PASSPHRASE_ENV_VAR,
+  VAULT_REFERENCE_PREFIX,
+  getAvailablePassphrase,
+  getSecret,
+  getVaultFilePath,
+  hasSecret,
+  isValidSecretName,
+  listSecretNames,
+  parseVaultReference,
+  removeSecret,
+  setSecret,
+  setSessionPassphrase,
+  vaultExists
+} from '../vault';
+import {
+  createErrorResult,
+  createSuccessResult,
+  configValidationError,
+  fileOperationError,
+  vaultError,
+  unexpectedError,
+  invalidArgumentsError
+} from '../errors';
+import { CommandResult } from '../commands';
+import { parseFlags } from '../command-args';
+
+/**
+ * Subcommands of the secret command
+ */
+export const SECRET_SUBCOMMANDS = ['set', 'get', 'list', 'rm', 'migrate'] as const;
+
+/**
+ * Secret subcommand
+ */
+export type SecretSubcommand = typeof SECRET_SUBCOMMANDS[number];
+
+/**
+ * Options for the secret command
+ */
+export interface SecretCommandOptions {
+  /** Subcommand to run */
+  subcommand: SecretSubcommand;
+  /** Secret name (set, get, rm) */
+  name?: string | undefined;
+  /** Secret value for 'set' (read from stdin or a prompt when omitted) */
+  value?: string | undefined;
+  /** Current working directory (optional - defaults to process.cwd()) */
+  currentDir?: string;
+  /** Whether to show verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Gets the vault passphrase from QCR_VAULT_PASSPHRASE or an interactive prompt
+ * @param creating - Whether a new vault is created (the passphrase is asked twice)
+ * @returns Passphrase
+ * @throws Error if no passphrase is available
+ */
+async function obtainPassphrase(creating: boolean): Promise<string> {
+  const available = getAvailablePassphrase();
+  if (available) {
+    return available;
+  }
+
+  if (!isInteractiveInput()) {
+    throw new Error(`No vault passphrase available. Set ${VAULT_PASSPHRASE_ENV_VAR} when stdin is not a terminal`);
+  }
+
+  const passphrase = await promptHidden(creating ? 'New vault passphrase: ' : 'Vault passphrase: ');
+  if (!passphrase) {
+    throw new Error('Vault passphrase cannot be empty');
+  }
+  if (creating && (await promptHidden('Repeat passphrase: ')) !== passphrase) {
+    throw new Error('Passphrases do not match');
+  }
+
+  setSessionPassphrase(passphrase);
+  return passphrase;
+}
+
+/**
+ * Reads the value for 'qcr secret set' from stdin (piped) or a hidden prompt
+ * @param name - Secret name
+ * @returns Secret value
+ */
+async function readSecretValue(name: string): Promise<string> {
+  if (isInteractiveInput()) {
+    return await promptHidden(`Value for secret '${name}': `);
+  }
+  return (await readStdin()).replace(/\r?\n$/, '');
+}
+
+/**
+ * Converts a provider name into a valid secret name
+ * @param providerName - Provider name
+ * @returns Secret name
+ */
+function toSecretName(providerName: string): string {
+  return providerName.replace(/[^A-Za-z0-9._-]+/g, '-');
+}
+
+/**
+ * Loads a configuration file and the files it includes, each on its own
+ * @param filePath - Configuration file
+ * @param chain - Files currently being loaded (for cycle detection)
+ * @returns The files as written, the including file first
+ */
+async function loadFileWithIncludedFiles(filePath: string, chain: string[] = []): Promise<Array<{ filePath: string; config: ConfigFile }>> {
+  const config = await loadConfigFileWithoutIncludes(filePath);
+  const resolvedPath = path.resolve(filePath);
+  const files = [{ filePath, config }];
+  for (const includedFile of resolveIncludedFiles(config, resolvedPath, [...chain, resolvedPath])) {
+    files.push(...await loadFileWithIncludedFiles(includedFile, [...chain, resolvedPath]));
+  }
+  return files.filter((file, index) => files.findIndex(other => path.resolve(other.filePath) === path.resolve(file.filePath)) === index);
+}
+
+/**
+ * Moves plaintext API keys of the current configuration file into the vault
+ * @param options - Command options
+ * @returns CommandResult
+ */
+async function migrateSecrets(options: SecretCommandOptions): Promise<CommandResult> {
+  const loadResult = await loadConfigFile(options.currentDir);
+  if (!loadResult.success) {
+    return loadResult.errorResult;
+  }
+
+  const { validation, filePath } = loadResult;
+  if (!validation.isValid) {
+    return createErrorResult(configValidationError(validation.errors, validation.warnings));
+  }
+
+  // Keys are moved where they are written: in the discovered file and the files
+  // it includes (e.g. a key file); inherited layers keep theirs
+  const files = await loadFileWithIncludedFiles(filePath);
+
+  // Keys from ${VAR} references, api_key_cmd, api_key_file or the vault are not in the file
+  const candidates = files.flatMap(file => (file.config.providers || [])
+    .filter(provider =>
+      typeof provider.env?.api_key === 'string' &&
+      provider.env.api_key.trim() !== '' &&
+      !parseVaultReference(provider.env.api_key) &&
+      !isInterpolatedValue(provider.env, 'api_key')
+    )
+    .map(provider => ({ file, provider })));
+
+  if (candidates.length === 0) {
+    return createSuccessResult(`No plaintext API keys found in ${filePath}`);
+  }
+
+  const passphrase = await obtainPassphrase(!vaultExists());
+  const migrated: string[] = [];
+  const skipped: string[] = [];
+  const changedFiles = new Set<{ filePath: string; config: ConfigFile }>();
+
+  for (const { file, provider } of candidates) {
+    const secretName = toSecretName(provider.provider);
+    const apiKey = provider.env.api_key!;
+    const location = file.filePath === filePath ? '' : ` (in ${file.filePath})`;
+
+    if (hasSecret(secretName) && getSecret(secretName, passphrase) !== apiKey) {
+      skipped.push(`${provider.provider}${location}: vault already has a different secret '${secretName}'`);
+      continue;
+    }
+
+    setSecret(secretName, apiKey, passphrase);
+    provider.env.api_key = `${VAULT_REFERENCE_PREFIX}${secretName}`;
+    migrated.push(`${provider.provider} → ${VAULT_REFERENCE_PREFIX}${secretName}${location}`);
+    changedFiles.add(file);
+  }
+
+  for (const file of changedFiles) {
+    try {
+      await saveConfigFile(file.config, file.filePath);
+    } catch (error) {
+      return createErrorResult(fileOperationError('save', file.filePath, error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  const lines = [...migrated];
+  if (skipped.length > 0) {
+    lines.push(...skipped.map(line => `⚠ Skipped ${line}`));
+  }
+  if (options.verbose) {
+    lines.push(`Configuration file: ${filePath}`, `Vault: ${getVaultFilePath()}`);
+  }
+
+  return createSuccessResult(
+    `Moved ${migrated.length} API key${migrated.length === 1 ? '' : 's'} into the vault`,
+    lines.join('\n')
+  );
+}
+
+/**
+ * Implements the 'qcr secret <set|get|list|rm|migrate>' command
+ * Manages API keys in the encrypted local vault
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult> with execution status and message
+ */
+export async function secretCommand(options: SecretCommandOptions): Promise<CommandResult> {
+  try {
+    const name = options.name || '';
+
+    switch (options.subcommand) {
+      case 'list': {
+        const names = listSecretNames();
+        const details = options.verbose ? `Vault: ${getVaultFilePath()}` : undefined;
+        if (names.length === 0) {
+          return createSuccessResult('No secrets stored in the vault', details);
+        }
+        return createSuccessResult(names.join('\n'), details);
+      }
+
+      case 'set': {
+        let passphrase: string;
+        try {
+          passphrase = await obtainPassphrase(!vaultExists());
+        } catch (error) {
+          return createErrorResult(vaultError(`store secret '${name}'`, error instanceof Error ? error.message : 'Unknown error'));
+        }
+
+        const value = options.value !== undefined ? options.value : await readSecretValue(name);
+        if (!value) {
+          return createErrorResult(vaultError(`store secret '${name}'`, 'Secret value cannot be empty'));
+        }
+
+        try {
+          setSecret(name, value, passphrase);
+        } catch (error) {
+          return createErrorResult(vaultError(`store secret '${name}'`, error instanceof Error ? error.message : 'Unknown error'));
+        }
+
+        return createSuccessResult(
+          `Stored secret '${name}' in the vault`,
+          `Reference it from a provider with: api_key: ${VAULT_REFERENCE_PREFIX}${name}`
+        );
+      }
+
+      case 'get': {
+        try {
+          if (!hasSecret(name)) {
+            throw new Error(`Secret "${name}" not found in vault`);
+          }
+          return createSuccessResult(getSecret(name, await obtainPassphrase(false)));
+        } catch (error) {
+          return createErrorResult(vaultError(`read secret '${name}'`, error instanceof Error ? error.message : 'Unknown error'));
+        }
+      }
+
+      case 'rm': {
+        if (!removeSecret(name)) {
+          return createErrorResult(vaultError(`remove secret '${name}'`, `Secret "${name}" not found in vault`));
+        }
+        return createSuccessResult(`Removed secret '${name}' from the vault`);
+      }
+
+      case 'migrate': {
+        try {
+          return await migrateSecrets(options);
+        } catch (error) {
+          return createErrorResult(vaultError('migrate API keys', error instanceof Error ? error.message : 'Unknown error'));
+        }
+      }
+    }
+  } catch (error) {
+    return createErrorResult(unexpectedError('secret command execution', error));
+  }
+}
+
+/**
+ * Shows help information for the secret command
+ * @returns CommandResult with help information
+ */
+export function secretCommandHelp(): CommandResult {
+  // Import here to avoid circular dependency
+  const { getSecretCommandHelp } = require('../help');
+  return getSecretCommandHelp();
+}
+
+/**
+ * Validates command arguments for the secret command
+ * @param args - Command line arguments
+ * @returns Validation result with parsed options or error
+ */
+export function parseSecretCommandArgs(args: string[]): {
+  valid: boolean;
+  options?: SecretCommandOptions;
+  error?: string;
+  showHelp?: boolean;
+} {
+  const { parsedFlags, remainingArgs } = parseFlags(args, {
+    help: ['-h', '--help'],
+    verbose: ['-v', '--verbose']
+  });
+
+  if (parsedFlags['help']) {
+    return { valid: true, showHelp: true };
+  }
+
+  const unknownFlag = remainingArgs.find(arg => arg.startsWith('-'));
+  if (unknownFlag) {
+    return { valid: false, error: `Unknown option: ${unknownFlag}` };
+  }
+
+  const [subcommand, name, ...extra] = remainingArgs;
+  if (!subcommand) {
+    return { valid: false, error: `Subcommand is required (${SECRET_SUBCOMMANDS.join(', ')})` };
+  }
+  if (!(SECRET_SUBCOMMANDS as readonly string[]).includes(subcommand)) {
+    return { valid: false, error: `Unknown subcommand: ${subcommand}. Available subcommands: ${SECRET_SUBCOMMANDS.join(', ')}` };
+  }
+
+  const takesName = subcommand === 'set' || subcommand === 'get' || subcommand === 'rm';
+  if (takesName && !name) {
+    return { valid: false, error: `Secret name is required for 'secret ${subcommand}'` };
+  }
+  if (takesName && !isValidSecretName(name!)) {
+    return { valid: false, error: `Invalid secret name: ${name}. Use letters, digits, ".", "_" and "-"` };
+  }
+  if ((!takesName && name) || extra.length > 0) {
+    return { valid: false, error: `Too many arguments for 'secret ${subcommand}'` };
+  }
+
+  return {
+    valid: true,
+    options: {
+      subcommand: subcommand as SecretSubcommand,
+      name,
+      verbose: parsedFlags['verbose'] || false
+    }
+  };
+}
+
+/**
+ * Main entry point for the secret command from CLI
+ * @param args - Command line arguments (excluding 'qcr secret')
+ * @returns Promise<CommandResult>
+ */
+export async function handleSecretCommand(args: string[]): Promise<CommandResult> {
+  const parseResult = parseSecretCommandArgs(args);
+
+  if (!parseResult.valid) {
+    return createErrorResult(invalidArgumentsError('secret', parseResult.error || 'Invalid arguments', 'qcr secret <set|get|list|rm|migrate> [name]'));
+  }
+
+  if (parseResult.showHelp) {
+    return secretCommandHelp();
+  }
+
+  return await secretCommand(parseResult.options!);
+}
@@ -3,8 +3,15 @@
  */
 
 import { loadConfigFile } from '../command-utils';
-import { getAllConfigurationNames, getCurrentDefaultConfiguration } from '../resolver';
+import {
+  findConfigurationByName,
+  getAllConfigurationNames,
+  getConfigurationReference,
+  getCurrentDefaultConfiguration
+} from '../resolver';
 import { saveConfigFile } from '../persistence';
+import { tryWriteActiveState } from '../state';
+import { getConfigurationPickerItems, isPickerAvailable, pickItem } from '../picker';
 import {
   createErrorResult,
   createSuccessResult,
@@ -21,8 +28,8 @@ import { parseFlags } from '../command-args';
  * Options for the set-default command
  */
 export interface SetDefaultCommandOptions {
-  /** Configuration name to set as default */
-  configName: string;
+  /** Configuration name to set as default (picked in a terminal when omitted) */
+  configName?: string;
   /** Current working directory (optional - defaults to process.cwd()) */
   currentDir?: string;
   /** Whether to show verbose output */
@@ -52,10 +59,21 @@ export async function setDefaultCommand(options: SetDefaultCommandOptions): Prom
       return createErrorResult(configValidationError(validation.errors, validation.warnings));
     }
 
-    // Validate that the specified configuration exists
-    const availableConfigs = getAllConfigurationNames(config);
-    if (!availableConfigs.includes(options.configName)) {
-      return createErrorResult(configNotFoundError(options.configName, availableConfigs));
+    let configName = options.configName;
+    if (!configName) {
+      const picked = isPickerAvailable()
+        ? await pickItem('Default configuration', getConfigurationPickerItems(config, filePath))
+        : null;
+      if (!picked) {
+        return createErrorResult(invalidArgumentsError('set-default', 'Configuration name is required', 'qcr set-default <config_name> [-v|--verbose]'));
+      }
+      configName = picked.value;
+    }
+
+    // Validate that the specified configuration exists (by name or as group/name)
+    const configEntry = findConfigurationByName(configName, config);
+    if (!configEntry) {
+      return createErrorResult(configNotFoundError(configName, getAllConfigurationNames(config)));
     }
 
     // Get current default configuration
@@ -67,7 +85,7 @@ export async function setDefaultCommand(options: SetDefaultCommandOptions): Prom
     }
 
     // Clear existing default configurations and set the new one
-    config.default_config = [{ name: options.configName }];
+    config.default_config = [{ name: configName }];
 
     // Save the updated configuration file
     try {
@@ -76,21 +94,33 @@ export async function setDefaultCommand(options: SetDefaultCommandOptions): Prom
       return createErrorResult(fileOperationError('save', filePath, error instanceof Error ? error.message : 'Unknown error'));
     }
 
+    // The new default becomes the active configuration for subsequent 'run' invocations
+    const stateWarning = tryWriteActiveState({
+      name: getConfigurationReference(configEntry, config),
+      provider: configEntry.provider,
+      model: configEntry.model,
+      sourceFile: filePath,
+      activatedBy: 'set-default'
+    });
+
     // Build success message
-    let message = `Successfully set '${options.configName}' as the default configuration`;
+    let message = `Successfully set '${configName}' as the default configuration`;
     let details = '';
 
-    if (currentDefault && currentDefault !== options.configName) {
+    if (currentDefault && currentDefault !== configName) {
       details = `Previous default: ${currentDefault}`;
     } else if (!currentDefault) {
       details = 'No previous default configuration was set';
     } else {
-      details = `'${options.configName}' was already the default configuration`;
+      details = `'${configName}' was already the default configuration`;
     }
 
     if (options.verbose) {
       details += `\nConfiguration file: ${filePath}`;
-      details += `\nAvailable configurations: ${availableConfigs.join(', ')}`;
+      details += `\nAvailable configurations: ${getAllConfigurationNames(config).join(', ')}`;
+      if (stateWarning) {
+        details += `\n⚠ ${stateWarning}`;
+      }
     }
 
     return createSuccessResult(message, details);
@@ -112,9 +142,10 @@ export function setDefaultCommandHelp(): CommandResult {
 /**
  * Validates command arguments for the set-default command
  * @param args - Command line arguments
+ * @param allowMissingName - Whether the name may be left out to be picked (default: false)
  * @returns Validation result with parsed options or error
  */
-export function parseSetDefaultCommandArgs(args: string[]): {
+export function parseSetDefaultCommandArgs(args: string[], allowMissingName: boolean = false): {
   valid: boolean;
   options?: SetDefaultCommandOptions;
   error?: string;
@@ -141,7 +172,7 @@ export function parseSetDefaultCommandArgs(args: string[]): {
   }
 
   // 验证参数数量
-  if (remainingArgs.length === 0) {
+  if (remainingArgs.length === 0 && !allowMissingName) {
     return {
       valid: false,
       error: 'Configuration name is required'
@@ -155,9 +186,10 @@ export function parseSetDefaultCommandArgs(args: string[]): {
     };
   }
 
-  const options: SetDefaultCommandOptions = {
-    configName: remainingArgs[0]!,
-  };
+  const options: SetDefaultCommandOptions = {};
+  if (remainingArgs.length > 0) {
+    options.configName = remainingArgs[0]!;
+  }
   
   // Only add verbose property if it was explicitly set
   if (parsedFlags['verbose']) {
@@ -176,7 +208,7 @@ export function parseSetDefaultCommandArgs(args: string[]): {
  * @returns Promise<CommandResult>
  */
 export async function handleSetDefaultCommand(args: string[]): Promise<CommandResult> {
-  const parseResult = parseSetDefaultCommandArgs(args);
+  const parseResult = parseSetDefaultCommandArgs(args, isPickerAvailable());
 
   if (!parseResult.valid) {
     return createErrorResult(invalidArgumentsError('set-default', parseResult.error || 'Invalid arguments', 'qcr set-default <config_name> [-v|--verbose]'));
@@ -0,0 +1,169 @@
+/**
+ * 'shell' command implementation for Qwen Code Router CLI
+ */
+
+import {
+  createErrorResult,
+  createSuccessResult,
+  processLaunchError,
+  unexpectedError,
+  invalidArgumentsError
+} from '../errors';
+import { CommandResult } from '../commands';
+import { getDefaultShell } from '../platform';
+import { ACTIVE_CONFIG_ENV_VAR } from '../shell';
+import { parseFlags } from '../command-args';
+import { resolveConfigEnvironment, launchChildProcess } from './run';
+
+/**
+ * Options for the shell command
+ */
+export interface ShellCommandOptions {
+  /** Configuration to apply to the subshell */
+  configName: string;
+  /** Current working directory (optional - defaults to process.cwd()) */
+  currentDir?: string;
+  /** Shell executable to start (optional - defaults to the user's shell) */
+  shellPath?: string;
+  /** Whether to show verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Implements the 'qcr shell <config_name>' command
+ * Starts the user's interactive shell with a configuration applied; the
+ * configuration disappears again when the subshell exits
+ *
+ * @param options - Command options
+ * @returns Promise<CommandResult> carrying the subshell's exit code
+ */
+export async function shellCommand(options: ShellCommandOptions): Promise<CommandResult> {
+  try {
+    const resolution = await resolveConfigEnvironment(options.configName, options.currentDir);
+    if (!resolution.success) {
+      return resolution.errorResult;
+    }
+
+    const parentConfig = process.env[ACTIVE_CONFIG_ENV_VAR];
+    if (parentConfig) {
+      console.warn(`Warning: already inside a qcr shell for '${parentConfig}'; starting a nested shell for '${options.configName}'`);
+    }
+
+    const shellPath = options.shellPath || getDefaultShell();
+    const childEnv: NodeJS.ProcessEnv = {
+      ...process.env,
+      ...resolution.environmentVariables,
+      [ACTIVE_CONFIG_ENV_VAR]: options.configName
+    };
+
+    if (options.verbose) {
+      console.log(`Configuration file: ${resolution.filePath}`);
+      console.log(`  OPENAI_API_KEY: ${childEnv['OPENAI_API_KEY']?.substring(0, 8)}...`);
+      console.log(`  OPENAI_BASE_URL: ${childEnv['OPENAI_BASE_URL']}`);
+      console.log(`  OPENAI_MODEL: ${childEnv['OPENAI_MODEL']}`);
+      console.log(`  Shell: ${shellPath}`);
+    }
+    console.log(`Entering qcr shell for configuration '${options.configName}' (type 'exit' to leave)`);
+
+    // The shell itself is the command, so no intermediate shell is needed
+    const status = await launchChildProcess(shellPath, [], {
+      env: childEnv,
+      useShell: false,
+      verbose: options.verbose || false
+    });
+
+    if (status.error) {
+      return createErrorResult(processLaunchError(shellPath, status.error.message));
+    }
+
+    const message = status.signal
+      ? `qcr shell for configuration '${options.configName}' terminated by signal ${status.signal}`
+      : `Left qcr shell for configuration '${options.configName}'`;
+    return createSuccessResult(message, undefined, status.exitCode);
+  } catch (error) {
+    return createErrorResult(unexpectedError('shell command execution', error));
+  }
+}
+
+/**
+ * Shows help information for the shell command
+ * @returns CommandResult with help information
+ */
+export function shellCommandHelp(): CommandResult {
+  // Import here to avoid circular dependency
+  const { getShellCommandHelp } = require('../help');
+  return getShellCommandHelp();
+}
+
+/**
+ * Validates command arguments for the shell command
+ * @param args - Command line arguments
+ * @returns Validation result with parsed options or error
+ */
+export function parseShellCommandArgs(args: string[]): {
+  valid: boolean;
+  options?: ShellCommandOptions;
+  error?: string;
+  showHelp?: boolean;
+} {
+  const { parsedFlags, remainingArgs } = parseFlags(args, {
+    help: ['-h', '--help'],
+    verbose: ['-v', '--verbose']
+  });
+
+  if (parsedFlags['help']) {
+    return { valid: true, showHelp: true };
+  }
+
+  const unknownOption = remainingArgs.find(arg => arg.startsWith('-'));
+  if (unknownOption) {
+    return { valid: false, error: `Unknown option: ${unknownOption}` };
+  }
+
+  if (remainingArgs.length === 0) {
+    return {
+      valid: false,
+      error: 'Configuration name is required'
+    };
+  }
+
+  if (remainingArgs.length > 1) {
+    return {
+      valid: false,
+      error: `Too many arguments. Expected exactly one configuration name, got: ${remainingArgs.join(', ')}`
+    };
+  }
+
+  const options: ShellCommandOptions = {
+    configName: remainingArgs[0]!
+  };
+
+  // Only add verbose property if it was explicitly set
+  if (parsedFlags['verbose']) {
+    options.verbose = true;
+  }
+
+  return {
+    valid: true,
+    options
+  };
+}
+
+/**
+ * Main entry point for the shell command from CLI
+ * @param args - Command line arguments (excluding 'qcr shell')
+ * @returns Promise<CommandResult>
+ */
+export async function handleShellCommand(args: string[]): Promise<CommandResult> {
+  const parseResult = parseShellCommandArgs(args);
+
+  if (!parseResult.valid) {
+    return createErrorResult(invalidArgumentsError('shell', parseResult.error || 'Invalid arguments', 'qcr shell <config_name> [-v|--verbose]'));
+  }
+
+  if (parseResult.showHelp) {
+    return shellCommandHelp();
+  }
+
+  return await shellCommand(parseResult.options!);
+}
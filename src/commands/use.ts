@@ -4,22 +4,54 @@
 
 import {
   resolveConfigurationByName,
+  findConfigurationByName,
+  findProviderByName,
+  withCanonicalNames,
   getAllConfigurationNames,
-  getCurrentDefaultConfiguration
+  getCurrentDefaultConfiguration,
+  findConfigurationsByTag,
+  findConfigurationMatches,
+  getConfigurationReference
 } from '../resolver';
-import { loadConfigFile } from '../command-utils';
+import { loadConfigFile, unlockVaultForConfiguration } from '../command-utils';
 import { validateEnvironmentVariables } from '../environment';
 import {
   createErrorResult,
   createSuccessResult,
   configValidationError,
   configNotFoundError,
+  configResolutionError,
   noDefaultConfigError,
+  noMatchingConfigError,
+  noTaggedConfigError,
+  ambiguousTagError,
+  ambiguousConfigError,
   unexpectedError,
   invalidArgumentsError,
   environmentValidationError
 } from '../errors';
 import { CommandResult } from '../commands';
+import { tryWriteActiveState } from '../state';
+import { getConfigurationPickerItems, isPickerAvailable, pickItem } from '../picker';
+import {
+  ShellType,
+  SUPPORTED_SHELLS,
+  normalizeShellName,
+  detectShellType,
+  isInteractiveOutput,
+  formatEnvironmentExports,
+  formatShellComment,
+  getShellEvalHint
+} from '../shell';
+import {
+  ModelRequirements,
+  SelectionPolicy,
+  SELECTION_POLICIES,
+  parseModelRequirements,
+  formatModelRequirements,
+  selectConfigurations,
+  formatSelection
+} from '../selection';
 
 /**
  * Options for the use command
@@ -31,6 +63,16 @@ export interface UseCommandOptions {
   currentDir?: string;
   /** Whether to show verbose output */
   verbose?: boolean;
+  /** Shell to print evaluable export statements for (optional - activates in-process only if not set) */
+  shell?: ShellType;
+  /** Requirements to select a configuration by (optional - instead of a configuration name) */
+  need?: ModelRequirements;
+  /** How configurations that meet the requirements are ranked (default: 'default') */
+  prefer?: SelectionPolicy;
+  /** Tag of the configuration to use; with need, limits the selection to tagged configurations */
+  tag?: string;
+  /** Whether to record the activation in the state file (default: true; 'qcr env' only prints) */
+  recordState?: boolean;
 }
 
 /**
@@ -59,25 +101,70 @@ export async function useCommand(options: UseCommandOptions = {}): Promise<Comma
     // Determine which configuration to use
     let targetConfigName: string;
     let useDefault = false;
+    let selectionLines: string[] = [];
+
+    const taggedConfigs = options.tag
+      ? findConfigurationsByTag(options.tag, config).map(c => getConfigurationReference(c, config))
+      : undefined;
+    if (options.tag && taggedConfigs!.length === 0) {
+      return createErrorResult(noTaggedConfigError(options.tag, getAllConfigurationNames(config)));
+    }
 
-    if (options.configName) {
+    if (options.need) {
+      // Select by the capabilities and context window of the models
+      const policy = options.prefer || 'default';
+      const selection = selectConfigurations(config, options.need, policy, taggedConfigs);
+      selectionLines = formatSelection(selection, policy);
+      if (selection.candidates.length === 0) {
+        return createErrorResult(noMatchingConfigError(formatModelRequirements(options.need), selectionLines));
+      }
+      targetConfigName = selection.candidates[0]!.name;
+    } else if (options.tag) {
+      // Use the only configuration carrying the tag
+      if (taggedConfigs!.length > 1) {
+        return createErrorResult(ambiguousTagError(options.tag, taggedConfigs!));
+      }
+      targetConfigName = taggedConfigs![0]!;
+    } else if (options.configName) {
       // Use specified configuration
       targetConfigName = options.configName;
     } else {
       // Use default configuration
       const defaultConfig = getCurrentDefaultConfiguration(config);
-      if (!defaultConfig) {
+      if (defaultConfig) {
+        targetConfigName = defaultConfig;
+        useDefault = true;
+      } else {
+        // Without a default, a terminal offers the configurations to pick from
         const availableConfigs = getAllConfigurationNames(config);
-        return createErrorResult(noDefaultConfigError(availableConfigs));
+        if (!isPickerAvailable()) {
+          return createErrorResult(noDefaultConfigError(availableConfigs));
+        }
+        const picked = await pickItem('Configuration', getConfigurationPickerItems(config, filePath));
+        if (!picked) {
+          return createErrorResult(noDefaultConfigError(availableConfigs));
+        }
+        targetConfigName = picked.value;
       }
-      targetConfigName = defaultConfig;
-      useDefault = true;
     }
 
     // Resolve the configuration
+    await unlockVaultForConfiguration(targetConfigName, config);
     const resolutionResult = resolveConfigurationByName(targetConfigName, config);
 
     if (!resolutionResult.success) {
+      const matches = findConfigurationMatches(targetConfigName, config);
+      if (matches.length > 1) {
+        return createErrorResult(ambiguousConfigError(targetConfigName, matches.map(c => getConfigurationReference(c, config))));
+      }
+
+      // A well-formed entry that still fails could not resolve its values
+      // (unset ${VAR} references, api_key_cmd or api_key_file errors)
+      const configEntry = findConfigurationByName(targetConfigName, config);
+      const provider = configEntry && findProviderByName(configEntry.provider, config);
+      if (configEntry && provider && provider.env.models.some(m => m.model === withCanonicalNames(configEntry, config).model)) {
+        return createErrorResult(configResolutionError(targetConfigName, resolutionResult.error || 'Configuration resolution failed'));
+      }
       const availableConfigs = getAllConfigurationNames(config);
       return createErrorResult(configNotFoundError(targetConfigName, availableConfigs));
     }
@@ -88,14 +175,45 @@ export async function useCommand(options: UseCommandOptions = {}): Promise<Comma
       return createErrorResult(environmentValidationError(envValidation.errors, envValidation.warnings));
     }
 
+    // Record the activation so that later 'run' and 'list' invocations can see it
+    const stateWarning = options.recordState === false ? null : tryWriteActiveState({
+      name: targetConfigName,
+      provider: resolutionResult.configEntry?.provider || 'unknown',
+      model: resolutionResult.configEntry?.model || 'unknown',
+      sourceFile: filePath,
+      activatedBy: 'use'
+    });
+
     // Build success message
-    const configSource = useDefault ? 'default configuration' : 'specified configuration';
+    const configSource = options.need ? 'selected configuration'
+      : options.tag ? 'tagged configuration'
+      : useDefault ? 'default configuration' : 'specified configuration';
     const provider = resolutionResult.provider?.provider || 'unknown';
     const model = resolutionResult.configEntry?.model || 'unknown';
 
-    let message = `Successfully activated ${configSource} '${targetConfigName}'`;
+    // 'qcr env' only prints the statements, so it does not claim an activation
+    let message = options.recordState === false
+      ? `Environment for '${targetConfigName}'; eval this output to apply`
+      : `Successfully activated ${configSource} '${targetConfigName}'`;
     let details = `Provider: ${provider}, Model: ${model}`;
 
+    // In shell mode, stdout must stay evaluable: the message becomes a comment
+    // and the details are the export statements
+    if (options.shell && resolutionResult.environmentVariables) {
+      const shell = options.shell;
+      return createSuccessResult(
+        formatShellComment(`${message} (${details})`, shell),
+        [
+          ...selectionLines.map(line => formatShellComment(line.trim(), shell)),
+          formatEnvironmentExports(resolutionResult.environmentVariables, shell)
+        ].join('\n')
+      );
+    }
+
+    if (selectionLines.length > 0) {
+      details += `\n${selectionLines.join('\n')}`;
+    }
+
     if (options.verbose) {
       details += `\nConfiguration file: ${filePath}`;
       details += `\nEnvironment variables set:`;
@@ -106,6 +224,12 @@ export async function useCommand(options: UseCommandOptions = {}): Promise<Comma
       if (envValidation.warnings.length > 0) {
         details += `\nWarnings:\n${envValidation.warnings.map(w => `  ⚠ ${w}`).join('\n')}`;
       }
+
+      if (stateWarning) {
+        details += `\n⚠ ${stateWarning}`;
+      }
+
+      details += `\nTo apply to the current shell: ${getShellEvalHint(`qcr env ${targetConfigName}`, detectShellType())}`;
     }
 
     return createSuccessResult(message, details);
@@ -148,6 +272,34 @@ export function parseUseCommandArgs(args: string[]): {
       return { valid: true, showHelp: true };
     } else if (arg === '-v' || arg === '--verbose') {
       options.verbose = true;
+    } else if (arg === '--shell' || arg.startsWith('--shell=')) {
+      const shellName = arg === '--shell' ? args[++i] : arg.substring('--shell='.length);
+      const shellResult = parseShellOption(shellName);
+      if (!shellResult.valid) {
+        return { valid: false, error: shellResult.error };
+      }
+      options.shell = shellResult.shell!;
+    } else if (arg === '--need' || arg.startsWith('--need=')) {
+      const needResult = parseModelRequirements(arg === '--need' ? args[++i] : arg.substring('--need='.length));
+      if (!needResult.valid) {
+        return { valid: false, error: needResult.error };
+      }
+      options.need = needResult.requirements!;
+    } else if (arg === '--prefer' || arg.startsWith('--prefer=')) {
+      const policy = arg === '--prefer' ? args[++i] : arg.substring('--prefer='.length);
+      if (!SELECTION_POLICIES.includes(policy as SelectionPolicy)) {
+        return {
+          valid: false,
+          error: `${policy ? `Unknown --prefer policy: ${policy}` : '--prefer requires a value'}. Supported policies: ${SELECTION_POLICIES.join(', ')}`
+        };
+      }
+      options.prefer = policy as SelectionPolicy;
+    } else if (arg === '--tag' || arg.startsWith('--tag=')) {
+      const tag = arg === '--tag' ? args[++i] : arg.substring('--tag='.length);
+      if (!tag || !tag.trim()) {
+        return { valid: false, error: '--tag requires a value' };
+      }
+      options.tag = tag;
     } else if (arg.startsWith('-')) {
       return {
         valid: false,
@@ -170,12 +322,50 @@ export function parseUseCommandArgs(args: string[]): {
     options.configName = remainingArgs[0];
   }
 
+  if (options.need && options.configName) {
+    return { valid: false, error: 'A configuration name cannot be combined with --need' };
+  }
+  if (options.tag && options.configName) {
+    return { valid: false, error: 'A configuration name cannot be combined with --tag' };
+  }
+  if (options.prefer && !options.need) {
+    return { valid: false, error: '--prefer requires --need' };
+  }
+
   return {
     valid: true,
     options
   };
 }
 
+/**
+ * Parses the value of a --shell option
+ * @param value - Shell name given on the command line
+ * @returns Parsed shell type or error
+ */
+export function parseShellOption(value: string | undefined): {
+  valid: boolean;
+  shell?: ShellType;
+  error?: string;
+} {
+  if (!value) {
+    return {
+      valid: false,
+      error: `--shell requires a value. Supported shells: ${SUPPORTED_SHELLS.join(', ')}`
+    };
+  }
+
+  const shell = normalizeShellName(value);
+  if (!shell) {
+    return {
+      valid: false,
+      error: `Unsupported shell: ${value}. Supported shells: ${SUPPORTED_SHELLS.join(', ')}`
+    };
+  }
+
+  return { valid: true, shell };
+}
+
 /**
  * Main entry point for the use command from CLI
  * @param args - Command line arguments (excluding 'qcr use')
@@ -185,12 +375,19 @@ export async function handleUseCommand(args: string[]): Promise<CommandResult> {
   const parseResult = parseUseCommandArgs(args);
 
   if (!parseResult.valid) {
-    return createErrorResult(invalidArgumentsError('use', parseResult.error || 'Invalid arguments', 'qcr use [config_name] [-v|--verbose]'));
+    return createErrorResult(invalidArgumentsError('use', parseResult.error || 'Invalid arguments', 'qcr use [config_name | --tag <tag>] [--need <requirements> [--prefer <policy>]] [--shell <shell>] [-v|--verbose]'));
   }
 
   if (parseResult.showHelp) {
     return useCommandHelp();
   }
 
-  return await useCommand(parseResult.options);
+  const options = parseResult.options || {};
+
+  // When stdout is captured (e.g. eval "$(qcr use x)"), emit the shell form automatically
+  if (!options.shell && !isInteractiveOutput()) {
+    options.shell = detectShellType();
+  }
+
+  return await useCommand(options);
 }
\ No newline at end of file
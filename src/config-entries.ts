@@ -0,0 +1,331 @@
+/**
+ * Configuration entry editing for Qwen Code Router
+ *
+ * `qcr config add|remove|rename|copy` change the `configs` of a loaded
+ * configuration file in memory; the command saves the result. Each edit is
+ * checked with the same validation as loading, and keeps `default_config` and
+ * `extends` pointing at the entries they referred to.
+ */
+
+import { Config, ConfigEntry, ConfigFile } from './types';
+import {
+  findConfigurationByName,
+  findConfigurationGroup,
+  findConfigurationMatches,
+  getConfigurationReference,
+  getCurrentDefaultConfiguration
+} from './resolver';
+import { getDeclaredConfigEntry } from './inheritance';
+import {
+  validateConfigEntry,
+  validateDefaultConfig,
+  validateProviderModelCrossReferences,
+  validateUniqueConfigNames
+} from './validation';
+
+/**
+ * Result of an edit
+ */
+export interface ConfigEditResult {
+  /** Why the edit cannot be made (empty if it was made) */
+  errors: string[];
+  /** Other changes the edit made (e.g. updated references) */
+  changes: string[];
+}
+
+/**
+ * Values of a new configuration entry
+ */
+export interface NewConfigEntry {
+  /** Configuration name */
+  name: string;
+  /** Provider name or alias */
+  provider: string;
+  /** Model name or alias */
+  model: string;
+  /** Group to add the entry to (created if it does not exist) */
+  group?: string;
+  /** What the configuration is for */
+  description?: string;
+  /** Labels to filter configurations by */
+  tags?: string[];
+}
+
+/**
+ * Finds the entry an edit applies to
+ * @param reference - Configuration name or group/name
+ * @param configFile - Configuration file
+ * @returns Entry, or an error message if there is no single entry
+ */
+function findEditedEntry(reference: string, configFile: ConfigFile): ConfigEntry | string {
+  const matches = findConfigurationMatches(reference, configFile);
+  if (matches.length > 1) {
+    return `Configuration '${reference}' is ambiguous. Use a qualified name: ${matches.map(entry => getConfigurationReference(entry, configFile)).join(', ')}`;
+  }
+  return matches[0] || `Configuration '${reference}' does not exist`;
+}
+
+/**
+ * Finds the group entries are added to
+ * @param configFile - Configuration file
+ * @param group - Group name (optional - the first unnamed group if not set)
+ * @returns Existing group, or a new group appended to the file
+ */
+function findOrCreateGroup(configFile: ConfigFile, group?: string): Config {
+  const existing = configFile.configs.find(configGroup => configGroup.group === group);
+  if (existing) {
+    return existing;
+  }
+  const created: Config = group === undefined ? { config: [] } : { group, config: [] };
+  configFile.configs.push(created);
+  return created;
+}
+
+/**
+ * Checks whether a reference names an entry
+ * @param reference - Configuration name or group/name
+ * @param entry - Entry
+ * @param group - Group of the entry
+ * @returns True if the reference names the entry
+ */
+function refersTo(reference: string | undefined, entry: ConfigEntry, group: Config | null): boolean {
+  return reference === entry.name || (!!group?.group && reference === `${group.group}/${entry.name}`);
+}
+
+/**
+ * Finds the entries that extend an entry
+ * @param entry - Entry
+ * @param configFile - Configuration file
+ * @returns Entries whose `extends` names the entry
+ */
+function findChildren(entry: ConfigEntry, configFile: ConfigFile): ConfigEntry[] {
+  const group = findConfigurationGroup(entry, configFile);
+  return configFile.configs.flatMap(configGroup => configGroup.config)
+    .filter(other => other !== entry && refersTo(getDeclaredConfigEntry(other).extends, entry, group));
+}
+
+/**
+ * Takes an entry out of its group, and the group out of the file if it becomes empty
+ * @param entry - Entry
+ * @param configFile - Configuration file (changed in place)
+ * @returns Changes besides the removal
+ */
+function detachEntry(entry: ConfigEntry, configFile: ConfigFile): string[] {
+  const group = findConfigurationGroup(entry, configFile)!;
+  group.config.splice(group.config.indexOf(entry), 1);
+  if (group.config.length > 0) {
+    return [];
+  }
+  configFile.configs.splice(configFile.configs.indexOf(group), 1);
+  return [group.group ? `Removed the empty group '${group.group}'` : 'Removed the empty configuration group'];
+}
+
+/**
+ * Validates an added or changed entry and the names of the file
+ * @param entry - Entry (with inherited values)
+ * @param configFile - Configuration file after the edit
+ * @returns Error messages
+ */
+function validateEditedEntry(entry: ConfigEntry, configFile: ConfigFile): string[] {
+  const label = `Configuration '${entry.name}'`;
+  const errors = [
+    ...validateConfigEntry(entry, label).errors,
+    ...validateProviderModelCrossReferences([{ config: [entry] }], configFile.providers).errors
+      .map(error => error.replace('configs[0].config[0]', label)),
+    ...validateUniqueConfigNames(configFile.configs).errors
+  ];
+  if (configFile.default_config) {
+    errors.push(...validateDefaultConfig(configFile.default_config, configFile.configs).errors);
+  }
+  return [...new Set(errors)];
+}
+
+/**
+ * Adds a configuration entry
+ * @param configFile - Configuration file (changed in place)
+ * @param values - Values of the new entry
+ * @returns ConfigEditResult
+ */
+export function addConfigEntry(configFile: ConfigFile, values: NewConfigEntry): ConfigEditResult {
+  const entry: ConfigEntry = { name: values.name, provider: values.provider, model: values.model };
+  if (values.description !== undefined) {
+    entry.description = values.description;
+  }
+  if (values.tags !== undefined) {
+    entry.tags = values.tags;
+  }
+
+  findOrCreateGroup(configFile, values.group).config.push(entry);
+  return { errors: validateEditedEntry(entry, configFile), changes: [] };
+}
+
+/**
+ * Removes a configuration entry
+ * Removing the default configuration requires a new default or `force`,
+ * which leaves the file without a default. Entries that other entries
+ * extend cannot be removed.
+ * @param configFile - Configuration file (changed in place)
+ * @param reference - Configuration name or group/name
+ * @param options - New default configuration, or force to remove the default anyway
+ * @returns ConfigEditResult
+ */
+export function removeConfigEntry(
+  configFile: ConfigFile,
+  reference: string,
+  options: { newDefault?: string; force?: boolean } = {}
+): ConfigEditResult {
+  const entry = findEditedEntry(reference, configFile);
+  if (typeof entry === 'string') {
+    return { errors: [entry], changes: [] };
+  }
+
+  const children = findChildren(entry, configFile);
+  if (children.length > 0) {
+    return { errors: [`Configuration '${reference}' is extended by ${children.map(child => `'${child.name}'`).join(', ')}`], changes: [] };
+  }
+
+  const defaultName = getCurrentDefaultConfiguration(configFile);
+  const isDefault = !!defaultName && findConfigurationByName(defaultName, configFile) === entry;
+  let newDefault: ConfigEntry | null = null;
+  if (options.newDefault !== undefined) {
+    newDefault = findConfigurationByName(options.newDefault, configFile);
+    if (!newDefault || newDefault === entry) {
+      return { errors: [`New default configuration '${options.newDefault}' must be another existing configuration`], changes: [] };
+    }
+  }
+  if (isDefault && !newDefault && !options.force) {
+    return {
+      errors: [`Configuration '${reference}' is the default configuration. Name a new default with --default <name>, or use --force to remove it anyway`],
+      changes: []
+    };
+  }
+
+  const changes = detachEntry(entry, configFile);
+  if (newDefault) {
+    const name = getConfigurationReference(newDefault, configFile);
+    configFile.default_config = [{ name }];
+    changes.push(`Default configuration: ${name}`);
+  } else if (isDefault) {
+    delete configFile.default_config;
+    changes.push('The file no longer has a default configuration');
+  }
+
+  return { errors: [], changes };
+}
+
+/**
+ * Removes configuration entries that depend on a removed provider or model
+ * As with removeConfigEntry, removing the default configuration requires a
+ * new default or `force`. Entries that remaining entries extend cannot be removed.
+ * @param configFile - Configuration file (changed in place)
+ * @param entries - Entries to remove
+ * @param options - New default configuration, or force to remove the default anyway
+ * @returns ConfigEditResult (changes include each removed entry)
+ */
+export function removeConfigEntries(
+  configFile: ConfigFile,
+  entries: ConfigEntry[],
+  options: { newDefault?: string; force?: boolean } = {}
+): ConfigEditResult {
+  const errors = entries.flatMap(entry => {
+    const children = findChildren(entry, configFile).filter(child => !entries.includes(child));
+    return children.length > 0
+      ? [`Configuration '${getConfigurationReference(entry, configFile)}' is extended by ${children.map(child => `'${child.name}'`).join(', ')}`]
+      : [];
+  });
+  if (errors.length > 0) {
+    return { errors, changes: [] };
+  }
+
+  const defaultName = getCurrentDefaultConfiguration(configFile);
+  const defaultEntry = defaultName ? findConfigurationByName(defaultName, configFile) : null;
+  const isDefault = !!defaultEntry && entries.includes(defaultEntry);
+  let newDefault: ConfigEntry | null = null;
+  if (options.newDefault !== undefined) {
+    newDefault = findConfigurationByName(options.newDefault, configFile);
+    if (!newDefault || entries.includes(newDefault)) {
+      return { errors: [`New default configuration '${options.newDefault}' must be another existing configuration`], changes: [] };
+    }
+  }
+  if (isDefault && !newDefault && !options.force) {
+    return {
+      errors: [`Configuration '${getConfigurationReference(defaultEntry!, configFile)}' is the default configuration. Name a new default with --default <name>, or use --force to remove it anyway`],
+      changes: []
+    };
+  }
+
+  const newDefaultName = newDefault ? getConfigurationReference(newDefault, configFile) : null;
+  const changes = entries.map(entry => `Removed configuration '${getConfigurationReference(entry, configFile)}'`);
+  for (const entry of entries) {
+    changes.push(...detachEntry(entry, configFile));
+  }
+  if (newDefaultName) {
+    configFile.default_config = [{ name: newDefaultName }];
+    changes.push(`Default configuration: ${newDefaultName}`);
+  } else if (isDefault) {
+    delete configFile.default_config;
+    changes.push('The file no longer has a default configuration');
+  }
+
+  return { errors: [], changes };
+}
+
+/**
+ * Renames a configuration entry
+ * `default_config` and the `extends` of other entries follow the new name.
+ * @param configFile - Configuration file (changed in place)
+ * @param reference - Configuration name or group/name
+ * @param newName - New name
+ * @returns ConfigEditResult
+ */
+export function renameConfigEntry(configFile: ConfigFile, reference: string, newName: string): ConfigEditResult {
+  const entry = findEditedEntry(reference, configFile);
+  if (typeof entry === 'string') {
+    return { errors: [entry], changes: [] };
+  }
+
+  const group = findConfigurationGroup(entry, configFile);
+  const defaultConfig = configFile.default_config?.[0];
+  const renameReference = (value: string) =>
+    value === entry.name ? newName : `${group!.group}/${newName}`;
+
+  const changes: string[] = [];
+  for (const child of findChildren(entry, configFile)) {
+    const declared = getDeclaredConfigEntry(child);
+    const parent = renameReference(declared.extends!);
+    declared.extends = parent;
+    child.extends = parent;
+    changes.push(`Updated 'extends' of '${child.name}'`);
+  }
+  if (defaultConfig && refersTo(defaultConfig.name, entry, group)) {
+    defaultConfig.name = renameReference(defaultConfig.name);
+    changes.push(`Default configuration: ${defaultConfig.name}`);
+  }
+
+  getDeclaredConfigEntry(entry).name = newName;
+  entry.name = newName;
+  return { errors: validateEditedEntry(entry, configFile), changes };
+}
+
+/**
+ * Copies a configuration entry under a new name
+ * The copy keeps the `extends` of the original rather than its inherited values.
+ * @param configFile - Configuration file (changed in place)
+ * @param reference - Configuration name or group/name of the original
+ * @param newName - Name of the copy
+ * @param group - Group of the copy (optional - the group of the original if not set)
+ * @returns ConfigEditResult
+ */
+export function copyConfigEntry(configFile: ConfigFile, reference: string, newName: string, group?: string): ConfigEditResult {
+  const entry = findEditedEntry(reference, configFile);
+  if (typeof entry === 'string') {
+    return { errors: [entry], changes: [] };
+  }
+
+  const copy: ConfigEntry = { ...JSON.parse(JSON.stringify(getDeclaredConfigEntry(entry))), name: newName };
+  const targetGroup = group !== undefined ? findOrCreateGroup(configFile, group) : findConfigurationGroup(entry, configFile)!;
+  const index = targetGroup.config.indexOf(entry);
+  targetGroup.config.splice(index === -1 ? targetGroup.config.length : index + 1, 0, copy);
+
+  return { errors: validateEditedEntry({ ...entry, name: newName }, configFile), changes: [] };
+}
@@ -0,0 +1,373 @@
+/**
+ * Minimal-diff editing of configuration files for Qwen Code Router
+ *
+ * Configuration files are shared and hand-maintained, so writing one back must
+ * not reformat it. YAML files are edited through the `yaml` Document API: the
+ * new content is applied onto the parsed document and only the nodes whose
+ * values changed are replaced, which keeps comments, anchors, key order,
+ * quoting and blank lines. Lines the edit did not change are then copied from
+ * the original file, since rendering the document would otherwise normalize
+ * the spacing of comments and flow collections. JSON files keep their
+ * indentation. Line endings and the trailing newline of the original file are
+ * kept for both.
+ */
+
+import * as yaml from 'yaml';
+
+/**
+ * Keys that identify an item of a list (configurations and default_config,
+ * providers, models), in order of preference
+ * Configuration entries also have provider and model, so name comes first.
+ * Items with the same identity are matched even if the list was reordered.
+ */
+const IDENTITY_KEYS = ['name', 'provider', 'model'];
+
+/**
+ * Layout of a YAML file
+ */
+interface YamlLayout {
+  /** Indentation of nested mappings */
+  indent: number;
+  /** Whether sequences are indented below their key */
+  indentSeq: boolean;
+}
+
+/**
+ * Checks whether a value is a plain object
+ * @param value - Value to check
+ * @returns True for objects that are not arrays or null
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Gets the identity of a list item
+ * @param value - List item
+ * @returns Identity such as "provider:openai", or null if the item has none
+ */
+function getIdentity(value: unknown): string | null {
+  if (!isPlainObject(value)) {
+    return null;
+  }
+  const key = IDENTITY_KEYS.find(name => typeof value[name] === 'string');
+  return key ? `${key}:${value[key]}` : null;
+}
+
+/**
+ * Converts a document node to its plain value
+ * @param doc - Document the node belongs to
+ * @param node - Node (or plain value)
+ * @returns Plain value
+ */
+function toValue(doc: yaml.Document, node: unknown): unknown {
+  return yaml.isNode(node) ? node.toJS(doc) : node;
+}
+
+/**
+ * Creates a node for a new value, keeping the comments of the node it replaces
+ * @param doc - Document the node belongs to
+ * @param previous - Node being replaced
+ * @param value - New value
+ * @returns New node
+ */
+function replaceNode(doc: yaml.Document, previous: unknown, value: unknown): yaml.Node {
+  const node = doc.createNode(value);
+  if (yaml.isNode(previous)) {
+    node.commentBefore = previous.commentBefore ?? null;
+    node.comment = previous.comment ?? null;
+    node.spaceBefore = previous.spaceBefore ?? false;
+  }
+  return node;
+}
+
+/**
+ * Applies a new value to a document node
+ * Nodes whose value did not change are returned untouched; changed scalars
+ * keep their quoting style.
+ * @param doc - Document the node belongs to
+ * @param node - Current node
+ * @param value - New value
+ * @returns Node to use in place of the current node
+ */
+function updateNode(doc: yaml.Document, node: unknown, value: unknown): unknown {
+  if (yaml.isAlias(node)) {
+    // An alias stays as long as it still resolves to the new value
+    return JSON.stringify(toValue(doc, node)) === JSON.stringify(value) ? node : replaceNode(doc, node, value);
+  }
+  if (yaml.isScalar(node) && !isPlainObject(value) && !Array.isArray(value)) {
+    if (node.value !== value) {
+      if (typeof node.value !== typeof value) {
+        return replaceNode(doc, node, value);
+      }
+      node.value = value;
+    }
+    return node;
+  }
+  if (yaml.isMap(node) && isPlainObject(value)) {
+    updateMap(doc, node, value);
+    return node;
+  }
+  if (yaml.isSeq(node) && Array.isArray(value)) {
+    updateSeq(doc, node, value);
+    return node;
+  }
+  return replaceNode(doc, node, value);
+}
+
+/**
+ * Applies a new object to a mapping
+ * Removed keys are deleted, existing keys keep their position and new keys
+ * are inserted after the key that precedes them in the new object.
+ * @param doc - Document the mapping belongs to
+ * @param map - Mapping to update
+ * @param value - New object
+ */
+function updateMap(doc: yaml.Document, map: yaml.YAMLMap, value: Record<string, unknown>): void {
+  const keyOf = (pair: yaml.Pair) => String(yaml.isScalar(pair.key) ? pair.key.value : pair.key);
+  const has = (key: string) => Object.prototype.hasOwnProperty.call(value, key) && value[key] !== undefined;
+
+  map.items = map.items.filter(pair => has(keyOf(pair)));
+  if (map.flow && map.items.length === 0 && Object.keys(value).length > 0) {
+    map.flow = false;
+  }
+
+  let previousIndex = -1;
+  for (const [key, child] of Object.entries(value)) {
+    if (child === undefined) {
+      continue;
+    }
+    const index = map.items.findIndex(pair => keyOf(pair) === key);
+    if (index >= 0) {
+      const pair = map.items[index]!;
+      pair.value = updateNode(doc, pair.value, child);
+      previousIndex = index;
+    } else {
+      const pair = doc.createPair(key, child) as yaml.Pair<yaml.Node, unknown>;
+      // A new first key of the document goes below the comment at its top
+      const first = map.items[0];
+      if (previousIndex === -1 && map === doc.contents && first && yaml.isNode(first.key) && first.key.commentBefore) {
+        pair.key.commentBefore = first.key.commentBefore;
+        first.key.commentBefore = null;
+      }
+      map.items.splice(previousIndex + 1, 0, pair);
+      previousIndex += 1;
+    }
+  }
+}
+
+/**
+ * Applies a new array to a sequence
+ * Items are matched by identity (name, provider or model) where they have one
+ * and by position otherwise, so a renamed item is edited in place; unmatched
+ * items are removed or created.
+ * @param doc - Document the sequence belongs to
+ * @param seq - Sequence to update
+ * @param value - New array
+ */
+function updateSeq(doc: yaml.Document, seq: yaml.YAMLSeq, value: unknown[]): void {
+  const previousItems = seq.items;
+  const previousIdentities = previousItems.map(item => getIdentity(toValue(doc, item)));
+  const identities = value.map(getIdentity);
+  const used = new Set<number>();
+
+  if (seq.flow && previousItems.length === 0 && value.length > 0) {
+    seq.flow = false;
+  }
+
+  // Items keeping their identity are matched first, so that the position
+  // fallback below only pairs up items that were renamed
+  const matches = identities.map(identity => {
+    const match = identity !== null ? previousIdentities.findIndex((previous, i) => !used.has(i) && previous === identity) : -1;
+    if (match >= 0) {
+      used.add(match);
+    }
+    return match;
+  });
+
+  seq.items = value.map((child, index) => {
+    let match = matches[index]!;
+    const previousIdentity = previousIdentities[index] ?? null;
+    if (match < 0 && index < previousItems.length && !used.has(index) &&
+        (previousIdentity === null) === (identities[index] === null) &&
+        (previousIdentity === null || !identities.includes(previousIdentity))) {
+      match = index;
+      used.add(index);
+    }
+
+    if (match < 0) {
+      return doc.createNode(child);
+    }
+    return updateNode(doc, previousItems[match], child);
+  });
+}
+
+/**
+ * Detects the indentation of a YAML file
+ * @param content - YAML content
+ * @returns YamlLayout (2 spaces and indented sequences if nothing is nested)
+ */
+function detectYamlLayout(content: string): YamlLayout {
+  let indent: number | null = null;
+  let indentSeq: boolean | null = null;
+  const lines = content.split(/\r?\n/);
+  const isSignificant = (line: string) => line.trim() !== '' && !line.trim().startsWith('#');
+
+  for (let i = 0; i < lines.length && (indent === null || indentSeq === null); i++) {
+    // A key without an inline value ("key:" or "- key:") opens a nested block
+    const match = lines[i]!.match(/^( *)(- +)?[^\s#-][^#]*:\s*(#.*)?$/);
+    if (!match) {
+      continue;
+    }
+    const keyColumn = match[1]!.length + (match[2]?.length || 0);
+    const next = lines.slice(i + 1).find(isSignificant);
+    if (!next) {
+      break;
+    }
+    const nextColumn = next.length - next.trimStart().length;
+    if (next.trimStart().startsWith('-')) {
+      indentSeq ??= nextColumn > keyColumn;
+    } else if (nextColumn > keyColumn) {
+      indent ??= nextColumn - keyColumn;
+    }
+  }
+
+  return { indent: indent ?? 2, indentSeq: indentSeq ?? true };
+}
+
+/**
+ * Gives output the line endings and trailing newline of the original content
+ * @param original - Original content
+ * @param output - New content
+ * @returns New content in the layout of the original
+ */
+function matchLineEndings(original: string, output: string): string {
+  let result = output.replace(/\r?\n$/, '');
+  if (/\n$/.test(original)) {
+    result += '\n';
+  }
+  return original.includes('\r\n') ? result.replace(/\r?\n/g, '\r\n') : result;
+}
+
+/**
+ * Aligns two lists of lines by their longest common subsequence
+ * @param from - Lines to align to
+ * @param to - Lines to align
+ * @returns For each line of `to`, the index of the equal line of `from`, or -1
+ */
+function alignLines(from: string[], to: string[]): number[] {
+  const width = to.length + 1;
+  const lengths = new Int32Array((from.length + 1) * width);
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = from[i] === to[j]
+        ? lengths[(i + 1) * width + j + 1]! + 1
+        : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+    }
+  }
+
+  const aligned = new Array<number>(to.length).fill(-1);
+  for (let i = 0, j = 0; i < from.length && j < to.length;) {
+    if (from[i] === to[j]) {
+      aligned[j++] = i++;
+    } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return aligned;
+}
+
+/**
+ * Copies the lines an edit did not change from the original file
+ * The document rendered without the edit is aligned with the original file
+ * (ignoring spacing within lines) and with the edited rendering (exactly), so
+ * each unchanged line can be traced back to the original text. Lines the
+ * rendering dropped between two unchanged lines, such as extra blank lines,
+ * are kept as well.
+ * @param original - Original content
+ * @param rendered - Original document rendered without the edit
+ * @param edited - Edited document rendered
+ * @returns Edited content with unchanged lines as written in the original
+ */
+function restoreUnchangedLines(original: string, rendered: string, edited: string): string {
+  const split = (content: string) => content.replace(/\r?\n$/, '').split(/\r?\n/);
+  const normalize = (line: string) => {
+    const indent = line.length - line.trimStart().length;
+    return line.slice(0, indent) + line.slice(indent).replace(/\s+/g, '');
+  };
+  const originalLines = split(original);
+  const renderedLines = split(rendered);
+  const editedLines = split(edited);
+  const renderedToOriginal = alignLines(originalLines.map(normalize), renderedLines.map(normalize));
+  const editedToRendered = alignLines(renderedLines, editedLines);
+
+  const output: string[] = [];
+  let previousRendered = -1;
+  let previousOriginal = -1;
+  editedLines.forEach((line, index) => {
+    const renderedIndex = editedToRendered[index]!;
+    const originalIndex = renderedIndex >= 0 ? renderedToOriginal[renderedIndex]! : -1;
+    if (originalIndex < 0) {
+      output.push(line);
+      previousRendered = -2;
+      return;
+    }
+    if (renderedIndex === previousRendered + 1) {
+      output.push(...originalLines.slice(previousOriginal + 1, originalIndex));
+    }
+    output.push(originalLines[originalIndex]!);
+    previousRendered = renderedIndex;
+    previousOriginal = originalIndex;
+  });
+  if (previousRendered === renderedLines.length - 1) {
+    output.push(...originalLines.slice(previousOriginal + 1));
+  }
+  return output.join('\n');
+}
+
+/**
+ * Applies new content to an existing YAML file
+ * @param original - Current content of the file
+ * @param value - Content to write
+ * @returns Edited content, or null if the file cannot be edited in place
+ *   (parse errors or a root that is not a mapping)
+ */
+export function updateYamlContent(original: string, value: Record<string, unknown>): string | null {
+  const doc = yaml.parseDocument(original);
+  if (doc.errors.length > 0 || !yaml.isMap(doc.contents)) {
+    return null;
+  }
+
+  const options = { ...detectYamlLayout(original), lineWidth: 0 };
+  const rendered = doc.toString(options);
+  updateMap(doc, doc.contents, value);
+  return matchLineEndings(original, restoreUnchangedLines(original, rendered, doc.toString(options)));
+}
+
+/**
+ * Detects the indentation of a JSON file
+ * @param content - JSON content
+ * @returns Tab, number of spaces, or 0 for single-line files
+ */
+function detectJsonIndent(content: string): string | number {
+  if (!content.trim().includes('\n')) {
+    return 0;
+  }
+  const match = content.match(/^[ \t]+(?=\S)/m);
+  if (!match) {
+    return 2;
+  }
+  return match[0].startsWith('\t') ? '\t' : match[0].length;
+}
+
+/**
+ * Serializes new content in the layout of an existing JSON file
+ * @param original - Current content of the file
+ * @param value - Content to write
+ * @returns JSON with the indentation and line endings of the original
+ */
+export function updateJsonContent(original: string, value: unknown): string {
+  return matchLineEndings(original, JSON.stringify(value, null, detectJsonIndent(original)));
+}
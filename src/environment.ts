@@ -8,9 +8,11 @@
 import {
   ConfigEntry,
   Provider,
+  ProviderEnv,
   EnvironmentVariables,
   ValidationResult
 } from './types';
+import { inheritRawValues, interpolateString, resolveProviderApiKey, resolveProviderBaseUrl } from './interpolation';
 
 /**
  * Required environment variable names for Qwen Code
@@ -21,6 +23,55 @@ export const REQUIRED_ENV_VARS = {
   MODEL: 'OPENAI_MODEL'
 } as const;
 
+/**
+ * Applies the api_key and base_url overrides of a configuration entry to its provider
+ * An overriding api_key also replaces the provider's api_key_cmd / api_key_file.
+ * `${VAR}` references in overrides are expanded here, when the configuration is used;
+ * unresolved references are left in place for the caller to report.
+ * @param configEntry - Configuration entry
+ * @param provider - Provider of the configuration
+ * @returns Effective provider environment (the provider's own when nothing is overridden)
+ */
+export function applyConfigOverrides(configEntry: ConfigEntry, provider: Provider): ProviderEnv {
+  const hasApiKey = typeof configEntry.api_key === 'string' && configEntry.api_key.trim() !== '';
+  const hasBaseUrl = typeof configEntry.base_url === 'string' && configEntry.base_url.trim() !== '';
+  if (!hasApiKey && !hasBaseUrl) {
+    return provider.env;
+  }
+
+  const env: ProviderEnv = { ...provider.env };
+  inheritRawValues(env, [provider.env]);
+  if (hasApiKey) {
+    delete env.api_key_cmd;
+    delete env.api_key_file;
+    env.api_key = interpolateString(configEntry.api_key!).value;
+  }
+  if (hasBaseUrl) {
+    env.base_url = interpolateString(configEntry.base_url!).value;
+  }
+  return env;
+}
+
+/**
+ * Resolves the additional environment variables of a configuration entry
+ * @param configEntry - Configuration entry
+ * @returns Variables from the entry's `env`, with `${VAR}` references expanded
+ * @throws Error if a value references an unset environment variable
+ */
+export function resolveConfigExtraEnvironment(configEntry: ConfigEntry): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const [name, raw] of Object.entries(configEntry.env || {})) {
+    const { value, unresolved } = interpolateString(String(raw));
+    if (unresolved.length > 0) {
+      throw new Error(`env.${name} references unset environment variable(s): ${unresolved.join(', ')}`);
+    }
+    variables[name] = value;
+  }
+
+  return variables;
+}
+
 /**
  * Sets environment variables based on a configuration entry and provider information
  * @param configEntry - The configuration entry containing provider and model
@@ -47,9 +98,16 @@ export function setEnvironmentVariables(configEntry: ConfigEntry, provider: Prov
     throw new Error(`Model "${configEntry.model}" is not supported by provider "${provider.provider}"`);
   }
 
+  // Resolve lazily configured values before touching the environment
+  const providerEnv = applyConfigOverrides(configEntry, provider);
+  const apiKey = resolveProviderApiKey(providerEnv);
+  const baseUrl = resolveProviderBaseUrl(providerEnv);
+  const extraVariables = resolveConfigExtraEnvironment(configEntry);
+
   // Set the environment variables
-  process.env[REQUIRED_ENV_VARS.API_KEY] = provider.env.api_key;
-  process.env[REQUIRED_ENV_VARS.BASE_URL] = provider.env.base_url;
+  Object.assign(process.env, extraVariables);
+  process.env[REQUIRED_ENV_VARS.API_KEY] = apiKey;
+  process.env[REQUIRED_ENV_VARS.BASE_URL] = baseUrl;
   process.env[REQUIRED_ENV_VARS.MODEL] = configEntry.model;
 }
 
@@ -63,6 +121,8 @@ export function setEnvironmentVariablesFromObject(envVars: EnvironmentVariables)
     throw new Error('Environment variables object is required');
   }
 
+  // Additional variables from the configuration's `env` are set as well
+  Object.assign(process.env, envVars);
   process.env[REQUIRED_ENV_VARS.API_KEY] = envVars.OPENAI_API_KEY;
   process.env[REQUIRED_ENV_VARS.BASE_URL] = envVars.OPENAI_BASE_URL;
   process.env[REQUIRED_ENV_VARS.MODEL] = envVars.OPENAI_MODEL;
@@ -322,6 +382,7 @@ export function validateEnvironmentVariablesAgainstProvider(provider: Provider):
  * @param configEntry - Configuration entry
  * @param provider - Provider information
  * @returns EnvironmentVariables object
+ * @throws Error if the API key or base URL cannot be resolved
  */
 export function createEnvironmentVariables(configEntry: ConfigEntry, provider: Provider): EnvironmentVariables {
   if (!configEntry) {
@@ -343,9 +404,12 @@ export function createEnvironmentVariables(configEntry: ConfigEntry, provider: P
     throw new Error(`Model "${configEntry.model}" is not supported by provider "${provider.provider}"`);
   }
 
+  // api_key_cmd / api_key_file are evaluated here, when a configuration is activated
+  const providerEnv = applyConfigOverrides(configEntry, provider);
   return {
-    OPENAI_API_KEY: provider.env.api_key,
-    OPENAI_BASE_URL: provider.env.base_url,
+    ...resolveConfigExtraEnvironment(configEntry),
+    OPENAI_API_KEY: resolveProviderApiKey(providerEnv),
+    OPENAI_BASE_URL: resolveProviderBaseUrl(providerEnv),
     OPENAI_MODEL: configEntry.model
   };
 }
\ No newline at end of file
@@ -112,8 +112,9 @@ export function configFileNotFoundError(searchPaths: string[]): ErrorMessage {
     message: getText(MESSAGES.CONFIG_FILE_NOT_FOUND),
     details: `Searched in the following locations:\n${searchPaths.map(path => `  - ${path}`).join('\n')}`,
     suggestions: [
+      'Run "qcr init" to create one',
       getText(SUGGESTIONS.CREATE_CONFIG_FILE),
-      'Use "config.yaml" or "config.json" as the filename',
+      'Use "config.yaml", "config.json" or "config.toml" as the filename',
       getText(SUGGESTIONS.USE_EXAMPLE_CONFIG)
     ],
     availableOptions: [
@@ -258,6 +259,41 @@ export function environmentValidationError(errors: string[], warnings: string[]
   };
 }
 
+/**
+ * Configuration exists but its values could not be resolved
+ * (unset ${VAR} references, failing api_key_cmd, unreadable api_key_file)
+ */
+export function configResolutionError(configName: string, error: string): ErrorMessage {
+  return {
+    message: `Failed to resolve configuration '${configName}'`,
+    details: error,
+    suggestions: [
+      'Set the environment variables referenced by the provider',
+      'Check that api_key_cmd runs successfully and prints the key',
+      'Check that api_key_file exists and is readable',
+      `Use "qcr chk ${configName}" to validate the configuration`
+    ],
+    category: ErrorCategory.ENVIRONMENT,
+    exitCode: EXIT_CODES.ENVIRONMENT_ERROR
+  };
+}
+
+/**
+ * Secret vault operation failed (wrong passphrase, missing secret, unreadable vault)
+ */
+export function vaultError(operation: string, error: string): ErrorMessage {
+  return {
+    message: `Failed to ${operation}`,
+    details: error,
+    suggestions: [
+      'Check the vault passphrase (QCR_VAULT_PASSPHRASE or the prompt)',
+      'Use "qcr secret list" to see the stored secrets'
+    ],
+    category: ErrorCategory.SYSTEM,
+    exitCode: EXIT_CODES.GENERAL_ERROR
+  };
+}
+
 /**
  * Command not found error
  */
@@ -377,6 +413,105 @@ export function noDefaultConfigError(availableConfigs: string[]): ErrorMessage {
   };
 }
 
+/**
+ * No configuration meets the requirements of 'use --need'
+ */
+export function noMatchingConfigError(requirements: string, selection: string[]): ErrorMessage {
+  return {
+    message: `No configuration meets the requirements '${requirements}'`,
+    details: selection.join('\n'),
+    suggestions: [
+      'Describe the capabilities and context windows of your models in the configuration file',
+      "Run 'qcr list provider <name> -v' to see what is known about a provider's models"
+    ],
+    category: ErrorCategory.CONFIG_FILE,
+    exitCode: EXIT_CODES.CONFIG_INVALID
+  };
+}
+
+/**
+ * Configuration name used by more than one group
+ */
+export function ambiguousConfigError(configName: string, qualifiedNames: string[]): ErrorMessage {
+  return {
+    message: `Configuration '${configName}' is ambiguous`,
+    availableOptions: qualifiedNames,
+    suggestions: [
+      `Use a qualified group/name reference: ${qualifiedNames.join(', ')}`,
+      "Run 'qcr list config' to see the configurations of each group"
+    ],
+    category: ErrorCategory.CONFIG_FILE,
+    exitCode: EXIT_CODES.CONFIG_INVALID
+  };
+}
+
+/**
+ * No configuration carries the tag of 'use --tag'
+ */
+export function noTaggedConfigError(tag: string, availableConfigs: string[]): ErrorMessage {
+  return {
+    message: `No configuration is tagged '${tag}'`,
+    availableOptions: availableConfigs.length > 0 ? availableConfigs : ['No configurations available'],
+    suggestions: [
+      'Add the tag to a configuration entry, e.g. tags: [local]',
+      "Run 'qcr list config -v' to see the tags of your configurations"
+    ],
+    category: ErrorCategory.CONFIG_FILE,
+    exitCode: EXIT_CODES.CONFIG_INVALID
+  };
+}
+
+/**
+ * More than one configuration carries the tag of 'use --tag'
+ */
+export function ambiguousTagError(tag: string, taggedConfigs: string[]): ErrorMessage {
+  return {
+    message: `Tag '${tag}' matches ${taggedConfigs.length} configurations`,
+    availableOptions: taggedConfigs,
+    suggestions: [
+      `Use one of the tagged configurations by name: ${taggedConfigs.join(', ')}`,
+      'Combine --tag with --need to select among the tagged configurations'
+    ],
+    category: ErrorCategory.CONFIG_FILE,
+    exitCode: EXIT_CODES.CONFIG_INVALID
+  };
+}
+
+/**
+ * Edit of 'qcr config' or 'qcr provider' that cannot be made
+ */
+export function configEditError(message: string, errors: string[]): ErrorMessage {
+  return {
+    message,
+    details: errors.map(error => `  ✗ ${error}`).join('\n'),
+    suggestions: [
+      "Run 'qcr list config -v' to see the configurations of the file",
+      "Run 'qcr list provider' to see the providers and models a configuration can use",
+      'The configuration file was not changed'
+    ],
+    category: ErrorCategory.VALIDATION,
+    exitCode: EXIT_CODES.CONFIG_VALIDATION_FAILED
+  };
+}
+
+/**
+ * Configuration file that 'qcr init' cannot create
+ */
+export function initError(errors: string[]): ErrorMessage {
+  return {
+    message: 'Cannot create the configuration file',
+    details: errors.map(error => `  ✗ ${error}`).join('\n'),
+    suggestions: [
+      "Run 'qcr list provider --builtin' to see the providers that need no base URL or models",
+      'Use --base-url and --models for a provider outside the built-in catalog',
+      'Use --provider and --key-env when no API key variable is set yet',
+      'Use --force to replace an existing file (it is backed up first)'
+    ],
+    category: ErrorCategory.VALIDATION,
+    exitCode: EXIT_CODES.CONFIG_VALIDATION_FAILED
+  };
+}
+
 /**
  * Unexpected error wrapper
  */
@@ -419,10 +554,21 @@ export function formatValidationResult(validation: { isValid: boolean; errors: s
  * Available commands for help and error messages
  */
 export const AVAILABLE_COMMANDS = [
+  'init',
   'use [config_name]',
-  'run [args...]',
+  'env [config_name]',
+  'run [config_name] [args...]',
+  'exec <config_name> -- <command>',
+  'shell <config_name>',
+  'hook <shell>',
+  'secret <subcommand>',
   'set-default <config_name>',
   'list <subcommand>',
+  'config <subcommand>',
+  'provider <subcommand>',
+  'schema',
+  'migrate',
+  'convert <src> <dest>',
   'chk [config_name]',
   '/router <provider> <model>',
   'help'
@@ -0,0 +1,103 @@
+/**
+ * Health status of configurations for Qwen Code Router
+ *
+ * `qcr chk --test-api` records whether each configuration it tested could
+ * reach its API, so that the configuration picker can show the last result
+ * without calling the APIs again. Results are kept per configuration file in
+ * health.json next to the active configuration state.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getStateFilePath } from './state';
+
+/**
+ * File name of the health status file inside the user configuration directory
+ */
+export const HEALTH_FILE_NAME = 'health.json';
+
+/**
+ * Result of the last API test of a configuration
+ */
+export interface HealthStatus {
+  /** Whether the test passed */
+  ok: boolean;
+  /** ISO 8601 timestamp of the test */
+  checkedAt: string;
+  /** First error of a failed test */
+  error?: string;
+}
+
+/**
+ * Health statuses keyed by configuration file, then by configuration reference
+ */
+type HealthRecords = Record<string, Record<string, HealthStatus>>;
+
+/**
+ * Gets the path of the health status file
+ * It is kept next to the state file, so QCR_STATE_FILE moves both.
+ * @returns Absolute path to the health status file
+ */
+export function getHealthFilePath(): string {
+  return path.join(path.dirname(getStateFilePath()), HEALTH_FILE_NAME);
+}
+
+/**
+ * Reads every recorded health status
+ * @returns Records, empty if the file does not exist or is unreadable
+ */
+function readHealthRecords(): HealthRecords {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(getHealthFilePath(), 'utf-8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as HealthRecords : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Reads the health statuses of the configurations of a file
+ * @param configFilePath - Configuration file the configurations belong to
+ * @returns Statuses keyed by configuration reference
+ */
+export function readHealthStatuses(configFilePath: string): Record<string, HealthStatus> {
+  return readHealthRecords()[path.resolve(configFilePath)] || {};
+}
+
+/**
+ * Records the results of API tests without failing the calling command
+ * @param configFilePath - Configuration file the configurations belong to
+ * @param statuses - Results keyed by configuration reference
+ * @returns Warning message if the file could not be written, otherwise null
+ */
+export function tryRecordHealthStatuses(configFilePath: string, statuses: Record<string, HealthStatus>): string | null {
+  const healthFilePath = getHealthFilePath();
+  const records = readHealthRecords();
+  const key = path.resolve(configFilePath);
+  records[key] = { ...records[key], ...statuses };
+
+  try {
+    fs.mkdirSync(path.dirname(healthFilePath), { recursive: true });
+    const tempFilePath = `${healthFilePath}.tmp.${process.pid}`;
+    fs.writeFileSync(tempFilePath, JSON.stringify(records, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    fs.renameSync(tempFilePath, healthFilePath);
+    return null;
+  } catch (error) {
+    return `Failed to record health status "${healthFilePath}": ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
+
+/**
+ * Formats a health status for lists
+ * @param status - Health status
+ * @param now - Current time (defaults to now)
+ * @returns e.g. "✓ 2h ago" or "✗ API test failed: 401 Unauthorized (3d ago)"
+ */
+export function formatHealthStatus(status: HealthStatus, now: Date = new Date()): string {
+  const minutes = Math.max(0, Math.floor((now.getTime() - new Date(status.checkedAt).getTime()) / 60000));
+  const age = minutes < 1 ? 'just now'
+    : minutes < 60 ? `${minutes}m ago`
+    : minutes < 60 * 24 ? `${Math.floor(minutes / 60)}h ago`
+    : `${Math.floor(minutes / (60 * 24))}d ago`;
+  return status.ok ? `✓ ${age}` : `✗ ${status.error || 'failed'} (${age})`;
+}
@@ -10,6 +10,7 @@ import { createSuccessResult } from './errors';
 import { listCommandHelp } from './commands/list';
 import { chkCommandHelp } from './commands/chk';
 import { routerCommandHelp } from './commands/router';
+import { CONFIG_SCHEMA_URL } from './schema';
 
 /**
  * Main help information for the application
@@ -31,10 +32,21 @@ USAGE:
   qcr <command> [options]
 
 COMMANDS:
+  init                      Create a configuration file step by step
   use [config_name]         Activate a configuration by name
-  run [args...]             Launch Qwen Code with active configuration
+  env [config_name]         Print shell statements to apply a configuration
+  run [config] [args...]    Launch Qwen Code with active or given configuration
+  exec <config> -- <cmd>    Run any command with a configuration's variables
+  shell <config_name>       Start a subshell with a configuration applied
+  hook <shell>              Print a hook that applies project .qcr pin files
+  secret <subcommand>       Manage API keys in the encrypted vault
   set-default <config_name> Set default configuration
   list <subcommand>         List configurations and providers
+  config <subcommand>       Inspect and edit configuration files
+  provider <subcommand>     Add and edit providers, their keys and models
+  schema                    Print the JSON Schema of configuration files
+  migrate                   Upgrade the configuration file to the newest version
+  convert <src> <dest>      Convert a configuration file between YAML, JSON and TOML
   chk [config_name]         Validate configuration(s)
   /router <provider> <model> Quick configuration via provider/model
   help                      Show this help message
@@ -44,10 +56,22 @@ GLOBAL OPTIONS:
   -v, --verbose            Show detailed output
 
 EXAMPLES:
+  qcr init                 # Create a configuration file step by step
   qcr use openai-gpt4      # Generate shell commands for openai-gpt4 configuration
+  eval "$(qcr env openai-gpt4)"  # Apply openai-gpt4 to the current shell
   qcr run                  # Launch Qwen Code with active configuration
   qcr run --help           # Show Qwen Code help (passes --help to qwen)
+  qcr run deepseek-r1 -- --yolo  # Launch once with deepseek-r1, passing --yolo
+  qcr exec openai-gpt4 -- npm test  # Run a command with openai-gpt4 variables
+  qcr shell deepseek-r1    # Work in a subshell that uses deepseek-r1
+  eval "$(qcr hook bash)"  # Follow project .qcr pin files in bash
+  qcr secret set deepseek  # Store an API key in the encrypted vault
   qcr list config          # List all available configurations
+  qcr config layers        # Show which file defines each provider and config
+  qcr provider set-key deepseek  # Replace a provider's API key (read from stdin or a prompt)
+  qcr schema > qcr.schema.json  # Save the JSON Schema for editor completion
+  qcr migrate --write      # Upgrade the configuration file (keeps a backup)
+  qcr convert config.yaml config.toml  # Convert the configuration file to TOML
   qcr set-default azure    # Set azure as the default configuration
   qcr chk openai-gpt4      # Validate the openai-gpt4 configuration
   /router openai gpt-4     # Quick setup for OpenAI GPT-4
@@ -57,8 +81,9 @@ CONFIGURATION:
   1. ./config.yaml or ./config.json (current directory)
   2. ~/.qcr/config.yaml or ~/.qcr/config.json (user directory)
 
-  Configuration files can be in YAML or JSON format. YAML is recommended
-  for better readability and comment support.
+  Configuration files can be in YAML, JSON or TOML format (config.toml is
+  found after config.yaml and config.json). YAML is recommended for better
+  readability and comment support; 'qcr convert' converts between formats.
 
 ENVIRONMENT VARIABLES:
   The tool manages these environment variables for Qwen Code:
@@ -67,7 +92,7 @@ ENVIRONMENT VARIABLES:
   - OPENAI_MODEL: Model identifier to use
 
 GETTING STARTED:
-  1. Create a configuration file (config.yaml or config.json)
+  1. Create a configuration file: qcr init (or copy config.example.yaml)
   2. Add your provider configurations and models
   3. Set a default configuration: qcr set-default <config_name>
   4. Activate a configuration: qcr use <config_name>
@@ -85,6 +110,63 @@ RESOURCES:
   return createSuccessResult(helpText.trim());
 }
 
+/**
+ * Help for the 'init' command
+ */
+export function getInitCommandHelp(): CommandResult {
+  const helpText = `
+qcr init - Create a configuration file step by step
+
+DESCRIPTION:
+  The 'init' command asks which providers, models and API keys to use and
+  writes a new configuration file with one configuration per model. Providers
+  of the built-in catalog (including ~/.config/qcr/builtin-providers.yaml) need
+  no base URL or model list; other OpenAI-compatible services are entered by
+  name with their base URL and models.
+
+USAGE:
+  qcr init [options]
+
+OPTIONS:
+  -y, --yes                Take the default of every question (also used
+                           when stdin is not a terminal)
+  --provider <name>        Provider to set up (name or alias)
+  --key-env <VAR>          Environment variable with the provider's API key
+  --base-url <url>         Base URL of the provider
+  --models <a,b>           Comma-separated models (default: the first catalog model)
+  --default <config>       Default configuration (default: the first one)
+  --local                  Write ./config.yaml
+  --user                   Write config.yaml in the user configuration directory
+  -f, --force              Replace an existing file (a backup is kept)
+  -v, --verbose            Show the configured providers
+  -h, --help               Show this help message
+
+API KEYS:
+  Set *_API_KEY variables (e.g. OPENAI_API_KEY, GEMINI_API_KEY) are detected
+  and offered for their providers. The file references a key as \${VAR}, so
+  the key itself is not written; in a terminal a key can also be entered
+  without echo. Without --key-env, --yes uses the detected variable or
+  <PROVIDER>_API_KEY.
+
+DEFAULTS:
+  With --yes the providers whose API key variables are set are configured
+  (or --provider), with their first catalog model, and the file is written to
+  the current directory unless --user is given.
+
+EXAMPLES:
+  qcr init
+  qcr init --yes --provider deepseek --key-env DEEPSEEK_API_KEY
+  qcr init --yes --provider together --base-url https://api.together.xyz/v1 --models llama-3-70b --user
+
+RELATED COMMANDS:
+  qcr chk              Validate the new configuration
+  qcr provider add     Add more providers later
+  qcr config add       Add more configurations later
+`;
+
+  return createSuccessResult(helpText.trim());
+}
+
 /**
  * Help for the 'use' command
  */
@@ -98,23 +180,40 @@ DESCRIPTION:
   
   If no configuration name is provided, it will use the default configuration
   if one is set. You can set a default configuration using the 'set-default'
-  command.
+  command. Without a default, a terminal shows a picker of the configurations
+  with their provider, model, tags and last 'qcr chk --test-api' result: type
+  to search, use the arrow keys to move, Enter to pick and Esc to cancel.
 
 USAGE:
   qcr use [config_name] [options]
 
 ARGUMENTS:
   config_name    Name of the configuration to activate (optional)
-                 If not provided, uses the default configuration
+                 If not provided, uses the default configuration, or
+                 offers a picker in a terminal when none is set
+                 Use group/name for a name that more than one group uses
 
 OPTIONS:
+  --tag <tag>            Activate the configuration carrying the tag; fails if
+                         several do (with --need, select among them instead)
+  --need <requirements>  Select a configuration whose model meets the requirements
+                         (capabilities tools, vision, reasoning, streaming and a
+                         minimum context window such as 128k, comma-separated)
+  --prefer <policy>      Rank the configurations that meet them: default (the
+                         default configuration, then file order), cheapest or fastest
+  --shell <shell>        Print export statements for bash, zsh, fish, powershell or cmd
   -v, --verbose          Show detailed output including environment variables
   -h, --help             Show this help message
 
 EXAMPLES:
   qcr use                    # Activate the default configuration
   qcr use openai-gpt4        # Activate the openai-gpt4 configuration
+  qcr use work/gpt4          # Activate gpt4 of the configuration group 'work'
   qcr use azure-gpt35 -v     # Activate configuration with detailed output
+  qcr use --tag local        # Activate the configuration tagged 'local'
+  qcr use --need tools,vision,128k --prefer cheapest   # Cheapest model that fits
+  eval "$(qcr use openai-gpt4 --shell bash)"   # Apply to the current bash shell
+  qcr use openai-gpt4 --shell fish | source     # Apply to the current fish shell
 
 BEHAVIOR:
   The 'use' command loads the specified configuration (or default if none
@@ -123,10 +222,25 @@ BEHAVIOR:
   
   After successful activation, you can run 'qcr run' to launch Qwen Code with
   the activated configuration.
+
+  With --need, the configuration is chosen by the metadata of its model (see
+  'qcr list provider <name> -v'). Capabilities or context windows that are not
+  known do not qualify. The candidates are listed best first, followed by the
+  configurations that were rejected and why.
   
   After setting the environment variables, you can run 'qwen' directly or
   use 'qcr run' to launch Qwen Code with the activated configuration.
 
+SHELL INTEGRATION:
+  A child process cannot change the environment of the shell that started it.
+  To apply a configuration to your terminal, evaluate the shell form of the
+  output. With --shell, or whenever stdout is not a terminal (for example
+  inside $(...)), 'use' prints quoted export statements instead of a message:
+
+    bash/zsh:    eval "$(qcr use <config_name>)"
+    fish:        qcr use <config_name> --shell fish | source
+    PowerShell:  qcr use <config_name> --shell powershell | Invoke-Expression
+
 ERROR HANDLING:
   - Configuration file not found: Create config.yaml or config.json
   - Configuration validation failed: Check file syntax and structure
@@ -136,7 +250,51 @@ ERROR HANDLING:
 RELATED COMMANDS:
   qcr list config      List all available configurations
   qcr set-default      Set default configuration
+  qcr env              Print shell statements for a configuration
+  qcr run              Launch Qwen Code with active configuration
+`;
+
+  return createSuccessResult(helpText.trim());
+}
+
+/**
+ * Help for the 'env' command
+ */
+export function getEnvCommandHelp(): CommandResult {
+  const helpText = `
+qcr env - Print shell statements for a configuration
+
+DESCRIPTION:
+  The 'env' command prints correctly quoted statements that set
+  OPENAI_API_KEY, OPENAI_BASE_URL and OPENAI_MODEL for a configuration.
+  Evaluate the output in your shell to apply the configuration to the
+  current terminal session.
+
+  If no configuration name is provided, the default configuration is used.
+
+USAGE:
+  qcr env [config_name] [options]
+
+OPTIONS:
+  --shell <shell>  Target shell: bash, zsh, fish, powershell, cmd
+                   (auto-detected from SHELL / PSModulePath if omitted)
+  --unset          Print statements that remove the variables instead,
+                   including the extra 'env' variables qcr exported
+                   (recorded in QCR_EXTRA_VARS)
+  --auto           Follow the nearest .qcr / .qcr.yaml pin file (used by
+                   'qcr hook'); prints nothing if the pin is already applied
+  -h, --help       Show this help message
+
+EXAMPLES:
+  eval "$(qcr env deepseek-r1)"                       # bash / zsh
+  qcr env deepseek-r1 --shell fish | source           # fish
+  qcr env deepseek-r1 --shell powershell | Invoke-Expression
+  eval "$(qcr env --unset)"                           # Clear the variables
+
+RELATED COMMANDS:
+  qcr use              Activate a configuration (also supports --shell)
   qcr run              Launch Qwen Code with active configuration
+  qcr hook             Apply project pin files on directory change
 `;
 
   return createSuccessResult(helpText.trim());
@@ -150,11 +308,19 @@ export function getRunCommandHelp(): CommandResult {
 qcr run - Launch Qwen Code with active configuration
 
 DESCRIPTION:
-  The 'run' command launches Qwen Code with the currently active configuration.
-  It passes through any additional arguments to the Qwen Code command.
+  The 'run' command launches Qwen Code with the currently active configuration,
+  or with the configuration named by the first argument. It passes through any
+  additional arguments to the Qwen Code command.
 
 USAGE:
-  qcr run [args...] [options]
+  qcr run [config_name] [options] [-- qwen_args...]
+
+ARGUMENTS:
+  config_name    Configuration to launch with (optional). It is applied to the
+                 Qwen Code process only; the current shell and the recorded
+                 active configuration are left unchanged. A leading argument
+                 that names no configuration is passed to qwen.
+  qwen_args      Arguments after '--' are passed to qwen unchanged
 
 OPTIONS:
   -v, --verbose  Show detailed output including environment variables
@@ -165,6 +331,8 @@ EXAMPLES:
   qcr run --help             # Show Qwen Code help
   qcr run --version          # Show Qwen Code version
   qcr run -v                 # Launch with verbose output
+  qcr run deepseek-r1 -- --yolo  # Launch once with deepseek-r1
+  qcr run -- "fix the tests" # Pass a positional argument to qwen
 
 PREREQUISITES:
   Before running this command, you must have:
@@ -173,15 +341,24 @@ PREREQUISITES:
   - Required environment variables set (API key, base URL, model)
 
 BEHAVIOR:
-  The 'run' command executes the 'qwen' command with the environment variables
-  set by the 'use' command. Any additional arguments are passed directly to
-  the qwen command, allowing you to use all Qwen Code features and options.
+  Without a configuration name, the 'run' command executes the 'qwen' command
+  with the configuration most recently activated by 'use', '/router' or 'set-default'. The activation is
+  recorded in state.json in the user configuration directory (override the
+  location with QCR_STATE_FILE), so it is shared between separate qcr
+  invocations. If no activation is recorded, the OPENAI_* variables of the
+  current environment are used. Inside a 'qcr shell' subshell or a directory
+  pinned through the shell hook (QCR_ACTIVE_CONFIG or QCR_PINNED_CONFIG is
+  set), the current environment is used and the recorded activation is
+  ignored. Any additional arguments are passed directly
+  to the qwen command, allowing you to use all Qwen Code features and options.
+  Default arguments from the configuration's 'args' are passed first.
   
   The command handles process signals (SIGINT, SIGTERM) to ensure proper
   cleanup when terminated.
 
 RELATED COMMANDS:
   qcr use              Activate a configuration
+  qcr exec             Run any command with a configuration
   qcr set-default      Set default configuration
 
 Make sure to run 'qcr use [config_name]' or set a default configuration
@@ -192,6 +369,465 @@ API configuration.
   return createSuccessResult(helpText.trim());
 }
 
+/**
+ * Help for the 'exec' command
+ */
+export function getExecCommandHelp(): CommandResult {
+  const helpText = `
+qcr exec - Run a command with a configuration's environment variables
+
+DESCRIPTION:
+  The 'exec' command resolves a configuration and runs any command with the
+  resulting OPENAI_API_KEY, OPENAI_BASE_URL and OPENAI_MODEL variables. The
+  variables are passed to that command only; the current shell and the
+  recorded active configuration are left unchanged. This is useful for
+  scripts and test harnesses that read the OpenAI-compatible variables.
+
+USAGE:
+  qcr exec <config_name> [options] -- <command> [args...]
+
+ARGUMENTS:
+  config_name    Name of the configuration to apply (required)
+  command        Command to run, followed by its arguments. Everything after
+                 '--' is passed on unchanged.
+
+OPTIONS:
+  -v, --verbose  Show the configuration and command before running it
+  -h, --help     Show this help message
+
+EXAMPLES:
+  qcr exec openai-gpt4 -- npm test
+  qcr exec deepseek-r1 -- python eval.py --suite smoke
+  qcr exec openai-gpt4 -v -- env
+
+BEHAVIOR:
+  qcr forwards SIGINT and SIGTERM to the command and exits with the
+  command's exit code.
+
+RELATED COMMANDS:
+  qcr run              Launch Qwen Code with a configuration
+  qcr env              Print shell statements to apply a configuration
+`;
+
+  return createSuccessResult(helpText.trim());
+}
+
+/**
+ * Help for the 'shell' command
+ */
+export function getShellCommandHelp(): CommandResult {
+  const helpText = `
+qcr shell - Start a subshell with a configuration applied
+
+DESCRIPTION:
+  The 'shell' command starts your interactive shell with the configuration's
+  OPENAI_API_KEY, OPENAI_BASE_URL and OPENAI_MODEL variables set. The
+  configuration only applies inside that subshell and disappears when you
+  leave it with 'exit'. The parent shell and the recorded active
+  configuration are left unchanged.
+
+USAGE:
+  qcr shell <config_name> [options]
+
+ARGUMENTS:
+  config_name    Name of the configuration to apply (required)
+
+OPTIONS:
+  -v, --verbose  Show the configuration and shell before starting it
+  -h, --help     Show this help message
+
+EXAMPLES:
+  qcr shell deepseek-r1
+  qcr shell openai-gpt4 -v
+
+BEHAVIOR:
+  The shell is taken from SHELL (COMSPEC on Windows). Inside the subshell,
+  QCR_ACTIVE_CONFIG holds the configuration name, which can be used in a
+  prompt. Starting 'qcr shell' inside another qcr shell prints a warning
+  and starts a nested shell. qcr exits with the subshell's exit code.
+
+RELATED COMMANDS:
+  qcr exec             Run a single command with a configuration
+  qcr env              Print shell statements to apply a configuration
+`;
+
+  return createSuccessResult(helpText.trim());
+}
+
+/**
+ * Help for the 'hook' command
+ */
+export function getHookCommandHelp(): CommandResult {
+  const helpText = `
+qcr hook - Apply project pin files on directory change
+
+DESCRIPTION:
+  The 'hook' command prints a shell hook that runs whenever you change
+  directory. The hook looks for the nearest .qcr or .qcr.yaml pin file in the
+  current directory or its parents and exports the pinned configuration, like
+  direnv does. Leaving the pinned project unsets the variables again.
+
+USAGE:
+  qcr hook <bash|zsh|fish>
+
+PIN FILES:
+  A pin file names one configuration, either as a bare name or as YAML:
+    .qcr         deepseek-r1
+    .qcr.yaml    config: deepseek-r1
+  The configuration is resolved against the configuration file discovered
+  from the directory containing the pin file.
+
+INSTALLATION:
+  bash (~/.bashrc):                 eval "$(qcr hook bash)"
+  zsh (~/.zshrc):                   eval "$(qcr hook zsh)"
+  fish (~/.config/fish/config.fish): qcr hook fish | source
+
+BEHAVIOR:
+  The hook calls 'qcr env --auto', which prints nothing while the applied pin
+  is current. QCR_PINNED_CONFIG and QCR_PIN_FILE record the applied pin.
+  Entering a pinned project saves the values it replaces (QCR_PREV_VARS and
+  QCR_PREV_<name>), and leaving it restores them. Moving to another pinned
+  project restores the saved variables the new pin does not set (such as
+  extra 'env' variables of the previous one). A pin that cannot be applied
+  is reported once; QCR_PIN_ERROR keeps it quiet until you leave the project.
+  Pin files are also honored by the startup flow, where they take precedence
+  over default_config.
+
+RELATED COMMANDS:
+  qcr env              Print shell statements to apply a configuration
+  qcr shell            Start a subshell with a configuration applied
+`;
+
+  return createSuccessResult(helpText.trim());
+}
+
+/**
+ * Help for the 'secret' command
+ */
+export function getSecretCommandHelp(): CommandResult {
+  const helpText = `
+qcr secret - Manage API keys in the encrypted vault
+
+DESCRIPTION:
+  The 'secret' command stores API keys in an encrypted vault in the user
+  configuration directory (~/.qcr/vault.json). Providers reference a secret
+  with 'api_key: vault:<name>'; the key is only decrypted when a
+  configuration is activated.
+
+USAGE:
+  qcr secret set <name>     Store a secret (value from stdin or a prompt)
+  qcr secret get <name>     Print a decrypted secret
+  qcr secret list           List secret names (no passphrase needed)
+  qcr secret rm <name>      Remove a secret
+  qcr secret migrate        Move plaintext api_key values of the current
+                            configuration file and the files it includes
+                            into the vault
+
+OPTIONS:
+  -v, --verbose            Show the vault and configuration file paths
+  -h, --help               Show this help message
+
+PASSPHRASE:
+  Secrets are encrypted with AES-256-GCM using a key derived from a
+  passphrase. The passphrase is read from QCR_VAULT_PASSPHRASE, or prompted
+  for when running in a terminal. The first 'set' or 'migrate' chooses the
+  passphrase of a new vault. QCR_VAULT_FILE overrides the vault location.
+
+EXAMPLES:
+  qcr secret set deepseek
+  echo "$DEEPSEEK_KEY" | QCR_VAULT_PASSPHRASE=... qcr secret set deepseek
+  qcr secret migrate -v
+
+  providers:
+    - provider: deepseek
+      env:
+        api_key: vault:deepseek
+
+RELATED COMMANDS:
+  qcr chk              Checks that referenced secrets exist in the vault
+  qcr use              Decrypts the key when activating a configuration
+`;
+
+  return createSuccessResult(helpText.trim());
+}
+
+/**
+ * Help for the 'schema' command
+ */
+export function getSchemaCommandHelp(): CommandResult {
+  const helpText = `
+qcr schema - Print the JSON Schema of configuration files
+
+DESCRIPTION:
+  The 'schema' command prints the JSON Schema that describes config.yaml,
+  config.json and config.toml. Editors use it for completion and to flag unknown keys; 'qcr chk'
+  uses the same schema to warn about unknown or misspelled keys such as
+  'base-url' or 'apikey'.
+
+USAGE:
+  qcr schema
+
+OPTIONS:
+  -h, --help     Show this help message
+
+EDITOR SETUP:
+  New configuration files reference the published schema. To add it to an
+  existing file:
+    YAML: # yaml-language-server: $schema=${CONFIG_SCHEMA_URL}
+    JSON: "$schema": "${CONFIG_SCHEMA_URL}"
+    TOML: #:schema ${CONFIG_SCHEMA_URL}
+
+EXAMPLES:
+  qcr schema                     # Print the schema
+  qcr schema > qcr.schema.json   # Save it for offline use
+
+RELATED COMMANDS:
+  qcr chk              Validate configuration(s)
+`;
+
+  return createSuccessResult(helpText.trim());
+}
+
+/**
+ * Help for the 'migrate' command
+ */
+export function getMigrateCommandHelp(): CommandResult {
+  const helpText = `
+qcr migrate - Upgrade the configuration file to the newest version
+
+DESCRIPTION:
+  Configuration files carry a top-level 'version' (files without one are
+  version 1). Older files keep working: they are upgraded in memory every time
+  they are loaded, and commands that save the file keep its version. The
+  'migrate' command lists the upgrades that apply to the
+  configuration file of the current directory and, with --write, rewrites the
+  file at the newest version after keeping a backup next to it.
+
+USAGE:
+  qcr migrate [--write] [--dry-run]
+
+OPTIONS:
+  --write        Rewrite the file (the original is kept as <file>.backup.<time>)
+  --dry-run      Print the migrated file without writing it
+  -h, --help     Show this help message
+
+VERSIONS:
+  1 → 2   'default: true' on a configuration moves to default_config
+
+EXAMPLES:
+  qcr migrate              # List the pending migrations
+  qcr migrate --dry-run    # Show the migrated file
+  qcr migrate --write      # Upgrade the file
+
+RELATED COMMANDS:
+  qcr chk              Validate configuration(s)
+  qcr schema           Print the JSON Schema of configuration files
+`;
+
+  return createSuccessResult(helpText.trim());
+}
+
+/**
+ * Help for the 'convert' command
+ */
+export function getConvertCommandHelp(): CommandResult {
+  const helpText = `
+qcr convert - Convert a configuration file between YAML, JSON and TOML
+
+DESCRIPTION:
+  The 'convert' command reads a configuration file and writes it in the format
+  given by the extension of the destination (.yaml, .yml, .json or .toml). The
+  file is converted as written: 'include' and 'extends' are kept, and \${VAR}
+  references stay references. The result is written at the newest version and
+  validated first; nothing is written if validation fails. Comments are not
+  carried over.
+
+USAGE:
+  qcr convert <src> <dest> [--force]
+
+ARGUMENTS:
+  src            Configuration file to convert
+  dest           File to write
+
+OPTIONS:
+  -f, --force    Overwrite dest if it exists
+  -h, --help     Show this help message
+
+EXAMPLES:
+  qcr convert config.yaml config.toml             # YAML to TOML
+  qcr convert config.json config.yaml --force     # Replace an existing config.yaml
+
+RELATED COMMANDS:
+  qcr migrate          Upgrade the configuration file to the newest version
+  qcr chk              Validate configuration(s)
+`;
+
+  return createSuccessResult(helpText.trim());
+}
+
+/**
+ * Help for the 'config' command
+ */
+export function getConfigCommandHelp(): CommandResult {
+  const helpText = `
+qcr config - Inspect and edit configuration files
+
+DESCRIPTION:
+  The 'config' command shows how configuration files are combined, and adds,
+  removes, renames and copies the configurations of the file in use.
+
+USAGE:
+  qcr config layers [-v|--verbose]
+  qcr config show [--resolved] <name> [-v|--verbose]
+  qcr config add <name> --provider <provider> --model <model> [--group <group>]
+                 [--description <text>] [--tags <a,b>]
+  qcr config remove <name> [--default <name> | --force]
+  qcr config rename <name> <new_name>
+  qcr config copy <name> <new_name> [--group <group>]
+
+SUBCOMMANDS:
+  layers                   List the configuration files that apply to the
+                           current directory and which file contributed each
+                           provider, configuration and the default
+  show <name>              Show a configuration (or provider) as written
+  add <name>               Add a configuration
+  remove <name>            Remove a configuration
+  rename <name> <new>      Rename a configuration; default_config and the
+                           'extends' of other configurations follow it
+  copy <name> <new>        Copy a configuration under a new name
+
+OPTIONS:
+  --resolved               With 'show': show the final values after
+                           'extends' and per-configuration overrides are
+                           applied (API keys are masked)
+  --provider <provider>    With 'add': provider of the configuration
+  --model <model>          With 'add': model of the configuration
+  --group <group>          With 'add' and 'copy': group to put the
+                           configuration in (created if needed)
+  --description <text>     With 'add': what the configuration is for
+  --tags <a,b>             With 'add': comma-separated tags
+  --default <name>         With 'remove': new default configuration when
+                           the default configuration is removed
+  --force                  With 'remove': remove the default configuration
+                           and leave the file without a default
+
+EDITING:
+  Edits are validated like 'qcr chk' before the file is written, so a
+  configuration cannot refer to an unknown provider or model. The file is
+  backed up next to itself (<file>.backup.<time>) and then replaced
+  atomically. A configuration that others extend cannot be removed.
+
+LAYERED MERGING:
+  By default the first file found is used on its own:
+    1. ./config.yaml or ./config.json (project)
+    2. user configuration directory (e.g. ~/.config/qcr)
+    3. /etc/qcr (system, Unix only)
+  Set 'merge: true' in the project file (or QCR_MERGE_CONFIGS=1) to merge all
+  of them. Providers are deep-merged by provider name, configurations are
+  merged by name, and the highest-precedence default_config wins. A project
+  can then add one configuration while reusing the user's providers and keys.
+
+INCLUDES:
+  A file can compose other files with 'include:' (relative paths, ~ and
+  globs such as ./providers/*.yaml). Included files are merged the same way,
+  with the including file taking precedence. 'qcr config layers' names the
+  included file that contributed each entry.
+
+INHERITANCE:
+  A provider can 'extends' another configured provider or a built-in one
+  (e.g. openai or deepseek, see 'qcr list provider --builtin') and inherits
+  its base_url, models and key settings; a provider extending its own name
+  extends the built-in provider. A configuration can 'extends' another
+  configuration. Cycles are reported when the file is loaded.
+
+EXAMPLES:
+  # config.yaml in a project, reusing providers from ~/.config/qcr/config.yaml
+  merge: true
+  default_config:
+    - name: project-model
+  configs:
+    - config:
+        - name: project-model
+          provider: deepseek
+          model: deepseek-chat
+
+RELATED COMMANDS:
+  qcr list config      List the (merged) configurations
+  qcr chk              Validate the (merged) configuration
+`;
+
+  return createSuccessResult(helpText.trim());
+}
+
+/**
+ * Help for the 'provider' command
+ */
+export function getProviderCommandHelp(): CommandResult {
+  const helpText = `
+qcr provider - Add and edit providers
+
+DESCRIPTION:
+  The 'provider' command adds and removes the providers of the configuration
+  file in use, replaces their API keys and adds or removes their models.
+
+USAGE:
+  qcr provider add <provider> --base-url <url> [--models <a,b>] [--key-env <VAR>]
+  qcr provider remove <provider> [--cascade [--default <name> | --force]]
+  qcr provider set-key <provider> [--key-env <VAR>]
+  qcr provider add-model <provider> <model>
+  qcr provider rm-model <provider> <model> [--cascade [--default <name> | --force]]
+
+SUBCOMMANDS:
+  add <provider>           Add a provider
+  remove <provider>        Remove a provider
+  set-key <provider>       Replace the API key of a provider
+  add-model <p> <model>    Add a model to a provider
+  rm-model <p> <model>     Remove a model from a provider
+
+OPTIONS:
+  --base-url <url>         With 'add': base URL of the provider's API
+  --models <a,b>           With 'add': comma-separated models
+  --key-env <VAR>          With 'add' and 'set-key': write api_key: \${VAR}
+                           instead of the key itself
+  --cascade                With 'remove' and 'rm-model': also remove the
+                           configurations that use the provider or model
+  --default <name>         With 'remove' and 'rm-model': new default
+                           configuration when the cascade removes the default
+  --force                  With 'remove' and 'rm-model': let the cascade
+                           remove the default configuration and leave the
+                           file without a default
+  -v, --verbose            Show the configuration file path
+  -h, --help               Show this help message
+
+API KEYS:
+  Keys are never taken from the command line, where they would end up in the
+  shell history. They are read from stdin when it is piped, and prompted for
+  (without echo) in a terminal. Use 'qcr secret' to keep keys in the vault.
+  'set-key' replaces the key in the file that defines it, e.g. a key file
+  listed under 'include:'.
+
+DEPENDENT CONFIGURATIONS:
+  Removing a provider or model that configurations use is refused and lists
+  those configurations; --cascade removes them as well. As with 'qcr config
+  remove', a cascade that removes the default configuration needs --default
+  <name> or --force. The file is checked
+  like 'qcr chk' before it is written, backed up next to itself
+  (<file>.backup.<time>) and then replaced atomically.
+
+EXAMPLES:
+  echo "$DEEPSEEK_KEY" | qcr provider add deepseek --base-url https://api.deepseek.com/v1 --models deepseek-chat
+  qcr provider add openai --base-url https://api.openai.com/v1 --key-env OPENAI_API_KEY
+  qcr provider set-key deepseek
+  qcr provider rm-model deepseek deepseek-reasoner --cascade
+
+RELATED COMMANDS:
+  qcr list provider    List the providers and their models
+  qcr config add       Add a configuration that uses a provider
+`;
+
+  return createSuccessResult(helpText.trim());
+}
+
 /**
  * Help for the 'set-default' command
  */
@@ -207,6 +843,9 @@ DESCRIPTION:
 USAGE:
   qcr set-default <config_name> [options]
 
+  In a terminal, the name can be left out to pick the configuration from a
+  searchable list (type to search, arrow keys to move, Enter to pick).
+
 OPTIONS:
   -v, --verbose  Show detailed output including configuration file path
   -h, --help     Show this help message
@@ -214,6 +853,7 @@ OPTIONS:
 EXAMPLES:
   qcr set-default openai-gpt4    # Set openai-gpt4 as default configuration
   qcr set-default azure-gpt35 -v # Set with verbose output
+  qcr set-default                # Pick the default configuration from a list
 
 DESCRIPTION:
   The 'set-default' command updates your configuration file to mark a specific
@@ -241,14 +881,36 @@ CONFIGURATION FILE:
  */
 export function getCommandHelp(command: string): CommandResult {
   switch (command.toLowerCase()) {
+    case 'init':
+      return getInitCommandHelp();
     case 'use':
       return getUseCommandHelp();
+    case 'env':
+      return getEnvCommandHelp();
     case 'run':
       return getRunCommandHelp();
+    case 'exec':
+      return getExecCommandHelp();
+    case 'shell':
+      return getShellCommandHelp();
+    case 'hook':
+      return getHookCommandHelp();
+    case 'secret':
+      return getSecretCommandHelp();
     case 'set-default':
       return getSetDefaultCommandHelp();
     case 'list':
       return listCommandHelp();
+    case 'config':
+      return getConfigCommandHelp();
+    case 'provider':
+      return getProviderCommandHelp();
+    case 'schema':
+      return getSchemaCommandHelp();
+    case 'migrate':
+      return getMigrateCommandHelp();
+    case 'convert':
+      return getConvertCommandHelp();
     case 'chk':
       return chkCommandHelp();
     case '/router':
@@ -268,16 +930,38 @@ export { listCommandHelp, chkCommandHelp, routerCommandHelp };
  */
 export function getQuickUsage(command: string): string {
   switch (command.toLowerCase()) {
+    case 'init':
+      return 'qcr init [--yes] [--provider <name>] [--key-env <VAR>] [--base-url <url>] [--models <a,b>] [--local|--user] [--force]';
     case 'use':
-      return 'qcr use [config_name] [-v|--verbose]';
+      return 'qcr use [config_name | --tag <tag>] [--need <requirements> [--prefer <policy>]] [--shell <shell>] [-v|--verbose]';
+    case 'env':
+      return 'qcr env [config_name] [--shell <shell>] [--unset|--auto]';
     case 'run':
-      return 'qcr run [additional_args...] [-v|--verbose]';
+      return 'qcr run [config_name] [-v|--verbose] [-- qwen_args...]';
+    case 'exec':
+      return 'qcr exec <config_name> [-v|--verbose] -- <command> [args...]';
+    case 'shell':
+      return 'qcr shell <config_name> [-v|--verbose]';
+    case 'hook':
+      return 'qcr hook <bash|zsh|fish>';
+    case 'secret':
+      return 'qcr secret <set|get|list|rm|migrate> [name] [-v|--verbose]';
     case 'set-default':
       return 'qcr set-default <config_name> [-v|--verbose]';
     case 'list':
       return 'qcr list <subcommand> [-v|--verbose]';
+    case 'config':
+      return 'qcr config <layers|show [--resolved] <name>|add <name> --provider <p> --model <m>|remove <name>|rename <name> <new>|copy <name> <new>> [-v|--verbose]';
+    case 'provider':
+      return 'qcr provider <add|remove|set-key|add-model|rm-model> <provider> [model] [options]';
+    case 'schema':
+      return 'qcr schema';
+    case 'migrate':
+      return 'qcr migrate [--write] [--dry-run]';
+    case 'convert':
+      return 'qcr convert <src> <dest> [--force]';
     case 'chk':
-      return 'qcr chk [config_name] [--test-api] [-v|--verbose]';
+      return 'qcr chk [config_name | --group <group>] [--tag <tag>] [--test-api] [-v|--verbose]';
     case '/router':
     case 'router':
       return '/router <provider> <model>';
@@ -291,18 +975,58 @@ export function getQuickUsage(command: string): string {
  */
 export function getCommandExamples(command: string): string[] {
   switch (command.toLowerCase()) {
+    case 'init':
+      return [
+        'qcr init',
+        'qcr init --yes --provider deepseek --key-env DEEPSEEK_API_KEY',
+        'qcr init --yes --user'
+      ];
     case 'use':
       return [
         'qcr use',
         'qcr use openai-gpt4',
-        'qcr use azure-gpt35 -v'
+        'qcr use azure-gpt35 -v',
+        'qcr use --tag local',
+        'qcr use --need tools,128k --prefer cheapest',
+        'eval "$(qcr use openai-gpt4 --shell bash)"'
+      ];
+    case 'env':
+      return [
+        'eval "$(qcr env openai-gpt4)"',
+        'qcr env openai-gpt4 --shell fish | source',
+        'eval "$(qcr env --unset)"'
       ];
     case 'run':
       return [
         'qcr run',
         'qcr run --help',
         'qcr run -v',
-        'qcr run --port 8080'
+        'qcr run --port 8080',
+        'qcr run deepseek-r1 -- --yolo'
+      ];
+    case 'exec':
+      return [
+        'qcr exec openai-gpt4 -- npm test',
+        'qcr exec deepseek-r1 -- python eval.py --suite smoke',
+        'qcr exec openai-gpt4 -v -- env'
+      ];
+    case 'shell':
+      return [
+        'qcr shell deepseek-r1',
+        'qcr shell openai-gpt4 -v'
+      ];
+    case 'hook':
+      return [
+        'eval "$(qcr hook bash)"',
+        'eval "$(qcr hook zsh)"',
+        'qcr hook fish | source'
+      ];
+    case 'secret':
+      return [
+        'qcr secret set deepseek',
+        'echo "$KEY" | qcr secret set deepseek',
+        'qcr secret list',
+        'qcr secret migrate'
       ];
     case 'set-default':
       return [
@@ -312,16 +1036,51 @@ export function getCommandExamples(command: string): string[] {
     case 'list':
       return [
         'qcr list config',
+        'qcr list config --tag cheap',
         'qcr list provider',
         'qcr list provider --tree',
         'qcr list provider openai',
         'qcr list provider --all openai'
       ];
+    case 'config':
+      return [
+        'qcr config layers',
+        'QCR_MERGE_CONFIGS=1 qcr config layers',
+        'qcr config show --resolved openai-work',
+        'qcr config add ds-chat --provider deepseek --model deepseek-chat --tags cheap',
+        'qcr config remove old-gpt4 --default ds-chat',
+        'qcr config rename ds-chat deepseek'
+      ];
+    case 'provider':
+      return [
+        'echo "$KEY" | qcr provider add deepseek --base-url https://api.deepseek.com/v1 --models deepseek-chat',
+        'qcr provider set-key deepseek',
+        'qcr provider add-model deepseek deepseek-reasoner',
+        'qcr provider remove deepseek --cascade'
+      ];
+    case 'schema':
+      return [
+        'qcr schema',
+        'qcr schema > qcr.schema.json'
+      ];
+    case 'migrate':
+      return [
+        'qcr migrate',
+        'qcr migrate --dry-run',
+        'qcr migrate --write'
+      ];
+    case 'convert':
+      return [
+        'qcr convert config.yaml config.toml',
+        'qcr convert config.json config.yaml --force'
+      ];
     case 'chk':
       return [
         'qcr chk',
         'qcr chk openai-gpt4',
         'qcr chk openai-gpt4 --test-api',
+        'qcr chk --tag prod',
+        'qcr chk --group work',
         'qcr chk -v'
       ];
     case '/router':
@@ -344,9 +1103,9 @@ export function getConfigurationHelp(): CommandResult {
 Configuration File Format
 
 DESCRIPTION:
-  Qwen Code Router uses YAML or JSON configuration files to store provider
-  configurations, model definitions, and default settings. YAML format is
-  recommended for better readability and comment support.
+  Qwen Code Router uses YAML, JSON or TOML configuration files to store
+  provider configurations, model definitions, and default settings. YAML
+  format is recommended for better readability and comment support.
 
 FILE LOCATIONS:
   The tool searches for configuration files in this order:
@@ -397,16 +1156,34 @@ STRUCTURE:
     - provider: <provider_name>    # Unique provider name
       env:
         api_key: <api_key>         # API authentication key
+        api_key_cmd: <command>     # Or: command that prints the key
+        api_key_file: <path>       # Or: file containing the key
         base_url: <base_url>       # API endpoint URL
         models:                    # Supported models
           - model: <model_name>
 
+KEEPING KEYS OUT OF THE FILE:
+  api_key and base_url may reference environment variables, which are
+  expanded when the file is loaded and written back unexpanded when qcr
+  saves the file:
+    api_key: \${DEEPSEEK_API_KEY}
+    base_url: \${DEEPSEEK_BASE_URL:-https://api.deepseek.com}
+
+  Instead of api_key, a provider can use api_key_cmd (e.g. "pass show
+  deepseek") or api_key_file (e.g. ~/.secrets/deepseek). Both are only
+  evaluated when a configuration using the provider is activated.
+  api_key_cmd only runs from the user and system configuration files; a
+  project configuration (or a file it includes from the project) cannot
+  run commands.
+  'qcr chk' reports references to unset variables separately from empty keys.
+
 VALIDATION RULES:
   - All configuration names must be unique
   - All provider names must be unique
   - Each configuration must reference an existing provider
   - Each configuration model must be in the provider's model list
-  - API keys and base URLs cannot be empty
+  - API keys and base URLs cannot be empty (unless api_key_cmd or
+    api_key_file provides the key)
   - Base URLs must be valid URL format
 
 SECURITY NOTES:
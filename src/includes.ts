@@ -0,0 +1,162 @@
+/**
+ * `include:` directive support for Qwen Code Router
+ *
+ * A configuration file can include other files (for example a shared provider
+ * catalog and a private file with keys). Include paths are resolved relative to
+ * the including file and support `~`, `${VAR}` references and `*`, `?` and `**`
+ * glob patterns.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigFile } from './types';
+import { interpolateString } from './interpolation';
+
+/**
+ * Checks whether a path segment contains glob characters
+ * @param segment - Path segment
+ * @returns True if the segment is a pattern
+ */
+function hasGlob(segment: string): boolean {
+  return /[*?]/.test(segment);
+}
+
+/**
+ * Converts a single path segment pattern into a regular expression
+ * @param segment - Segment pattern using `*` and `?`
+ * @returns RegExp matching a whole file or directory name
+ */
+function segmentToRegExp(segment: string): RegExp {
+  const source = segment
+    .split('')
+    .map(char => (char === '*' ? '[^/\\\\]*' : char === '?' ? '[^/\\\\]' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Lists a directory, treating unreadable directories as empty
+ * @param directory - Directory to list
+ * @returns Directory entries
+ */
+function readDirectory(directory: string): fs.Dirent[] {
+  try {
+    return fs.readdirSync(directory, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lists a directory and all of its subdirectories
+ * @param directory - Directory to start from
+ * @returns The directory and its descendants (hidden directories are skipped)
+ */
+function collectDirectories(directory: string): string[] {
+  const directories = [directory];
+  for (const entry of readDirectory(directory)) {
+    if (entry.isDirectory() && !entry.name.startsWith('.')) {
+      directories.push(...collectDirectories(path.join(directory, entry.name)));
+    }
+  }
+  return directories;
+}
+
+/**
+ * Expands an include entry to absolute file paths
+ * Plain paths are returned as-is (even if missing, so the caller can report
+ * them); patterns return the matching files in sorted order.
+ * @param pattern - Include entry
+ * @param baseDir - Directory of the including file
+ * @returns Absolute file paths
+ */
+export function expandIncludePattern(pattern: string, baseDir: string): string[] {
+  let value = interpolateString(pattern.trim()).value;
+  if (value === '~' || value.startsWith('~/') || value.startsWith('~\\')) {
+    value = path.join(os.homedir(), value.slice(1));
+  }
+
+  const absolute = path.resolve(baseDir, value);
+  if (!hasGlob(absolute)) {
+    return [absolute];
+  }
+
+  const root = path.parse(absolute).root;
+  const segments = absolute.slice(root.length).split(/[\\/]+/).filter(Boolean);
+  let candidates = [root];
+
+  for (const segment of segments) {
+    const next: string[] = [];
+    for (const candidate of candidates) {
+      if (segment === '**') {
+        next.push(...collectDirectories(candidate));
+      } else if (!hasGlob(segment)) {
+        const child = path.join(candidate, segment);
+        if (fs.existsSync(child)) {
+          next.push(child);
+        }
+      } else {
+        const matcher = segmentToRegExp(segment);
+        for (const entry of readDirectory(candidate)) {
+          // Like shells, wildcards do not match hidden files
+          if (!entry.name.startsWith('.') && matcher.test(entry.name)) {
+            next.push(path.join(candidate, entry.name));
+          }
+        }
+      }
+    }
+    candidates = Array.from(new Set(next));
+  }
+
+  return candidates.filter(candidate => fs.statSync(candidate).isFile()).sort();
+}
+
+/**
+ * Gets the include entries of a parsed configuration
+ * @param config - Parsed configuration
+ * @param filePath - File the configuration was read from (for error messages)
+ * @returns Include entries
+ * @throws Error if `include` is not a string or an array of strings
+ */
+export function getIncludeEntries(config: ConfigFile, filePath: string): string[] {
+  const include = config.include;
+  if (include === undefined) {
+    return [];
+  }
+  if (typeof include === 'string') {
+    return [include];
+  }
+  if (Array.isArray(include) && include.every(entry => typeof entry === 'string')) {
+    return include;
+  }
+  throw new Error(`"include" in ${filePath} must be a path or a list of paths`);
+}
+
+/**
+ * Resolves the files included by a configuration file
+ * @param config - Parsed configuration
+ * @param filePath - Path of the including file
+ * @param chain - Files currently being loaded (for cycle detection)
+ * @returns Absolute paths in include order
+ * @throws Error if an included file is missing or includes form a cycle
+ */
+export function resolveIncludedFiles(config: ConfigFile, filePath: string, chain: string[]): string[] {
+  const files: string[] = [];
+
+  for (const entry of getIncludeEntries(config, filePath)) {
+    for (const includedFile of expandIncludePattern(entry, path.dirname(filePath))) {
+      if (chain.includes(includedFile)) {
+        throw new Error(`Include cycle detected: ${[...chain, includedFile].join(' -> ')}`);
+      }
+      if (!fs.existsSync(includedFile)) {
+        throw new Error(`Included file not found: ${includedFile} (included from ${filePath})`);
+      }
+      if (!files.includes(includedFile)) {
+        files.push(includedFile);
+      }
+    }
+  }
+
+  return files;
+}
@@ -10,10 +10,21 @@ import { getMainHelp } from './help';
 // Dynamically import command handlers to reduce initial load time
 async function importCommands() {
   const commands = {
+    init: await import('./commands/init'),
     use: await import('./commands/use'),
+    env: await import('./commands/env'),
     run: await import('./commands/run'),
+    exec: await import('./commands/exec'),
+    shell: await import('./commands/shell'),
+    hook: await import('./commands/hook'),
+    secret: await import('./commands/secret'),
     setDefault: await import('./commands/set-default'),
     list: await import('./commands/list'),
+    config: await import('./commands/config'),
+    provider: await import('./commands/provider'),
+    schema: await import('./commands/schema'),
+    migrate: await import('./commands/migrate'),
+    convert: await import('./commands/convert'),
     chk: await import('./commands/chk'),
     router: await import('./commands/router')
   };
@@ -46,18 +57,51 @@ export async function main(args?: string[]): Promise<void> {
     let result: CommandResult;
 
     switch (actualArgs[0]) {
+      case 'init':
+        result = await commands.init.handleInitCommand(actualArgs.slice(1));
+        break;
       case 'use':
         result = await commands.use.handleUseCommand(actualArgs.slice(1));
         break;
+      case 'env':
+        result = await commands.env.handleEnvCommand(actualArgs.slice(1));
+        break;
       case 'run':
         result = await commands.run.handleRunCommand(actualArgs.slice(1));
         break;
+      case 'exec':
+        result = await commands.exec.handleExecCommand(actualArgs.slice(1));
+        break;
+      case 'shell':
+        result = await commands.shell.handleShellCommand(actualArgs.slice(1));
+        break;
+      case 'hook':
+        result = await commands.hook.handleHookCommand(actualArgs.slice(1));
+        break;
+      case 'secret':
+        result = await commands.secret.handleSecretCommand(actualArgs.slice(1));
+        break;
       case 'set-default':
         result = await commands.setDefault.handleSetDefaultCommand(actualArgs.slice(1));
         break;
       case 'list':
         result = await commands.list.handleListCommand(actualArgs.slice(1));
         break;
+      case 'config':
+        result = await commands.config.handleConfigCommand(actualArgs.slice(1));
+        break;
+      case 'provider':
+        result = await commands.provider.handleProviderCommand(actualArgs.slice(1));
+        break;
+      case 'schema':
+        result = await commands.schema.handleSchemaCommand(actualArgs.slice(1));
+        break;
+      case 'migrate':
+        result = await commands.migrate.handleMigrateCommand(actualArgs.slice(1));
+        break;
+      case 'convert':
+        result = await commands.convert.handleConvertCommand(actualArgs.slice(1));
+        break;
       case 'chk':
         result = await commands.chk.handleChkCommand(actualArgs.slice(1));
         break;
@@ -0,0 +1,314 @@
+/**
+ * `extends` support for Qwen Code Router
+ *
+ * A provider can extend another configured provider or a built-in one and
+ * inherit its base URL, models and key settings, overriding only what it sets
+ * itself. A configuration entry can extend another configuration entry.
+ * Inheritance is resolved once after loading, so everything that reads the
+ * configuration sees the flattened result; on save, entries that were not
+ * changed are written back as they were declared.
+ */
+
+import { Config, ConfigEntry, ConfigFile, ModelEntry, Provider, ProviderEnv } from './types';
+import { copyMergeState, mergeProvider } from './layers';
+import { inheritRawValues } from './interpolation';
+import { getBuiltInProvider } from './provider-registry';
+
+/**
+ * How a flattened provider or configuration entry was derived
+ */
+interface InheritanceState<T> {
+  /** Entry as declared in the configuration file */
+  declared: T;
+  /** Flattened entry it inherits from */
+  parent: T;
+  /** Flattened entry right after resolution */
+  snapshot: string;
+}
+
+/**
+ * Inheritance state per flattened provider
+ */
+const providerStates = new WeakMap<Provider, InheritanceState<Provider>>();
+
+/**
+ * Inheritance state per flattened configuration entry
+ */
+const configStates = new WeakMap<ConfigEntry, InheritanceState<ConfigEntry>>();
+
+/**
+ * Gets the parent name of an entry that uses `extends`
+ * @param value - Value of `extends`
+ * @param description - Entry description for error messages
+ * @returns Parent name, or null if the entry does not extend anything
+ * @throws Error if `extends` is not a name
+ */
+function getParentName(value: unknown, description: string): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`"extends" of ${description} must be a name`);
+  }
+  return value.trim();
+}
+
+/**
+ * Builds a provider from a built-in provider definition
+ * @param name - Built-in provider name
+ * @returns Provider, or null if there is no such built-in provider
+ */
+function getBuiltInParent(name: string): Provider | null {
+  const builtIn = getBuiltInProvider(name);
+  if (!builtIn) {
+    return null;
+  }
+  const aliases = (model: string) => Object.keys(builtIn.modelAliases).filter(alias => builtIn.modelAliases[alias] === model);
+  return {
+    provider: name,
+    env: {
+      base_url: builtIn.baseUrl,
+      models: builtIn.models.map(model => aliases(model).length > 0 ? { model, aliases: aliases(model) } : { model })
+    }
+  };
+}
+
+/**
+ * Flattens the providers of a configuration in place
+ * @param providers - Providers of the configuration
+ * @throws Error if a provider extends an unknown provider or inheritance forms a cycle
+ */
+function resolveProviders(providers: Provider[]): void {
+  const declared = new Map(providers.filter(p => p && typeof p.provider === 'string').map(p => [p.provider, p]));
+  const resolved = new Map<string, Provider>();
+
+  const resolve = (provider: Provider, chain: string[]): Provider => {
+    const name = provider.provider;
+    const done = resolved.get(name);
+    if (done) {
+      return done;
+    }
+
+    const parentName = getParentName(provider.extends, `provider '${name}'`);
+    if (!parentName) {
+      resolved.set(name, provider);
+      return provider;
+    }
+    if (chain.includes(name)) {
+      throw new Error(`Provider inheritance cycle detected: ${[...chain, name].join(' -> ')}`);
+    }
+
+    // A provider extending its own name refers to the built-in provider
+    const configuredParent = parentName !== name ? declared.get(parentName) : undefined;
+    const parent = configuredParent ? resolve(configuredParent, [...chain, name]) : getBuiltInParent(parentName);
+    if (!parent) {
+      throw new Error(`Provider '${name}' extends unknown provider '${parentName}'`);
+    }
+
+    // Aliases name a provider, so they are not inherited
+    const flattened = mergeProvider(parent, provider);
+    if (provider.aliases === undefined) {
+      delete flattened.aliases;
+    }
+    providerStates.set(flattened, { declared: provider, parent, snapshot: JSON.stringify(flattened) });
+    resolved.set(name, flattened);
+    return flattened;
+  };
+
+  providers.forEach((provider, index) => {
+    if (provider && typeof provider.provider === 'string') {
+      providers[index] = resolve(provider, []);
+    }
+  });
+}
+
+/**
+ * Flattens the configuration entries of a configuration in place
+ * @param configs - Configuration groups
+ * @throws Error if an entry extends an unknown entry or inheritance forms a cycle
+ */
+function resolveConfigs(configs: Config[]): void {
+  const groups = configs.filter(group => group && Array.isArray(group.config));
+  const isEntry = (entry: ConfigEntry) => entry && typeof entry.name === 'string';
+  const resolved = new Map<ConfigEntry, ConfigEntry>();
+
+  // A parent is looked up in the entry's own group first, then by name or
+  // group/name across the file
+  const findParent = (entry: ConfigEntry, group: Config, parentName: string): ConfigEntry => {
+    const sibling = group.config.find(candidate => isEntry(candidate) && candidate.name === parentName);
+    if (sibling) {
+      return sibling;
+    }
+    const matches = groups.flatMap(other => other.config
+      .filter(candidate => isEntry(candidate) &&
+        (candidate.name === parentName || (other.group !== undefined && `${other.group}/${candidate.name}` === parentName)))
+      .map(candidate => ({ candidate, other })));
+    if (matches.length > 1) {
+      throw new Error(`Configuration '${entry.name}' extends ambiguous configuration '${parentName}', use group/name`);
+    }
+    if (matches.length === 0) {
+      throw new Error(`Configuration '${entry.name}' extends unknown configuration '${parentName}'`);
+    }
+    return matches[0]!.candidate;
+  };
+  const groupOf = (entry: ConfigEntry): Config => groups.find(group => group.config.includes(entry))!;
+
+  const resolve = (entry: ConfigEntry, chain: ConfigEntry[]): ConfigEntry => {
+    const done = resolved.get(entry);
+    if (done) {
+      return done;
+    }
+
+    const parentName = getParentName(entry.extends, `configuration '${entry.name}'`);
+    if (!parentName) {
+      resolved.set(entry, entry);
+      return entry;
+    }
+    if (chain.includes(entry)) {
+      throw new Error(`Configuration inheritance cycle detected: ${[...chain, entry].map(c => c.name).join(' -> ')}`);
+    }
+
+    const declaredParent = findParent(entry, groupOf(entry), parentName);
+    const parent = resolve(declaredParent, [...chain, entry]);
+    const flattened: ConfigEntry = { ...parent, ...entry };
+    if (parent.env || entry.env) {
+      flattened.env = { ...(parent.env || {}), ...(entry.env || {}) };
+    }
+    configStates.set(flattened, { declared: entry, parent, snapshot: JSON.stringify(flattened) });
+    resolved.set(entry, flattened);
+    return flattened;
+  };
+
+  // Entries are replaced only once all are resolved, so that lookups see the
+  // entries as declared
+  const flattened = groups.map(group => group.config.map(entry => isEntry(entry) ? resolve(entry, []) : entry));
+  groups.forEach((group, index) => {
+    flattened[index]!.forEach((entry, entryIndex) => {
+      group.config[entryIndex] = entry;
+    });
+  });
+}
+
+/**
+ * Resolves `extends` of providers and configuration entries in place
+ * @param config - Loaded configuration
+ * @returns The same configuration with inherited values filled in
+ * @throws Error if an entry extends an unknown entry or inheritance forms a cycle
+ */
+export function resolveInheritance(config: ConfigFile): ConfigFile {
+  if (Array.isArray(config.providers)) {
+    resolveProviders(config.providers);
+  }
+  if (Array.isArray(config.configs)) {
+    resolveConfigs(config.configs);
+  }
+  return config;
+}
+
+/**
+ * Gets the entry a flattened provider was resolved from
+ * @param provider - Provider of a loaded configuration
+ * @returns Provider as declared in the file (the provider itself if it does not extend another)
+ */
+export function getDeclaredProvider(provider: Provider): Provider {
+  return providerStates.get(provider)?.declared || provider;
+}
+
+/**
+ * Gets the entry a flattened configuration entry was resolved from
+ * @param entry - Configuration entry of a loaded configuration
+ * @returns Entry as declared in the file (the entry itself if it does not extend another)
+ */
+export function getDeclaredConfigEntry(entry: ConfigEntry): ConfigEntry {
+  return configStates.get(entry)?.declared || entry;
+}
+
+/**
+ * Checks whether two values serialize identically
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both values are equal
+ */
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Reduces a changed flattened provider to the values that differ from its parent
+ * @param provider - Flattened provider
+ * @param parent - Flattened parent provider
+ * @returns Provider to write
+ */
+function reduceProvider(provider: Provider, parent: Provider): Provider {
+  const env: Partial<ProviderEnv> = {};
+  for (const [key, value] of Object.entries(provider.env) as Array<[keyof ProviderEnv, unknown]>) {
+    if (key !== 'models' && !isSame(value, parent.env[key])) {
+      (env as Record<string, unknown>)[key] = value;
+    }
+  }
+  const models: ModelEntry[] = (provider.env.models || []).filter(model => !parent.env.models?.some(m => isSame(m, model)));
+  if (models.length > 0) {
+    env.models = models;
+  }
+  inheritRawValues(env as ProviderEnv, [provider.env]);
+
+  return { ...provider, env: env as ProviderEnv };
+}
+
+/**
+ * Reduces a changed flattened configuration entry to the values that differ from its parent
+ * @param entry - Flattened configuration entry
+ * @param parent - Flattened parent entry
+ * @returns Entry to write
+ */
+function reduceConfigEntry(entry: ConfigEntry, parent: ConfigEntry): ConfigEntry {
+  const reduced: Record<string, unknown> = { name: entry.name };
+  for (const [key, value] of Object.entries(entry)) {
+    if (key === 'env' && entry.env) {
+      const env = Object.fromEntries(Object.entries(entry.env).filter(([name, v]) => parent.env?.[name] !== v));
+      if (Object.keys(env).length > 0) {
+        reduced['env'] = env;
+      }
+    } else if (key !== 'name' && !isSame(value, (parent as unknown as Record<string, unknown>)[key])) {
+      reduced[key] = value;
+    }
+  }
+  reduced['extends'] = entry.extends;
+  return reduced as unknown as ConfigEntry;
+}
+
+/**
+ * Returns a copy of a configuration with inherited values removed again
+ * Unchanged entries are written as they were declared; changed entries keep
+ * `extends` and only the values that differ from their parent.
+ * @param config - Configuration about to be saved
+ * @returns Configuration to write
+ */
+export function restoreInheritance(config: ConfigFile): ConfigFile {
+  const restoreProvider = (provider: Provider): Provider => {
+    const state = provider ? providerStates.get(provider) : undefined;
+    if (!state) {
+      return provider;
+    }
+    return JSON.stringify(provider) === state.snapshot ? state.declared : reduceProvider(provider, state.parent);
+  };
+  const restoreEntry = (entry: ConfigEntry): ConfigEntry => {
+    const state = entry ? configStates.get(entry) : undefined;
+    if (!state) {
+      return entry;
+    }
+    return JSON.stringify(entry) === state.snapshot ? state.declared : reduceConfigEntry(entry, state.parent);
+  };
+
+  const restored: ConfigFile = { ...config };
+  if (Array.isArray(config.providers)) {
+    restored.providers = config.providers.map(restoreProvider);
+  }
+  if (Array.isArray(config.configs)) {
+    restored.configs = config.configs.map(group => group && Array.isArray(group.config)
+      ? { ...group, config: group.config.map(restoreEntry) }
+      : group);
+  }
+  copyMergeState(config, restored);
+  return restored;
+}
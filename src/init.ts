@@ -0,0 +1,150 @@
+/**
+ * Setup wizard for Qwen Code Router
+ *
+ * `qcr init` writes a first configuration file. Providers are set up from the
+ * built-in catalog (including the user's builtin-providers.yaml), which gives
+ * their base URL and models, and API keys are referenced through environment
+ * variables that are already set where possible. This module detects the keys
+ * and builds the file; the command asks the questions and writes it.
+ */
+
+import { ConfigFile } from './types';
+import { BuiltInProvider, getBuiltInProviders } from './provider-registry';
+import { CURRENT_CONFIG_VERSION } from './persistence';
+import { CONFIG_SCHEMA_URL } from './schema';
+import { validateConfigFile } from './validation';
+import { addConfigEntry } from './config-entries';
+import { addProviderEntry } from './provider-entries';
+
+/**
+ * An API key variable found in the environment
+ */
+export interface DetectedApiKey {
+  /** Environment variable name (e.g. "GEMINI_API_KEY") */
+  variable: string;
+  /** Built-in provider the key belongs to (e.g. "google") */
+  provider: string;
+}
+
+/**
+ * A provider to set up
+ */
+export interface InitSelection {
+  /** Provider name */
+  provider: string;
+  /** Base URL of the provider's API */
+  baseUrl: string;
+  /** API key (or a ${VAR} reference) */
+  apiKey: string;
+  /** Models to create configurations for */
+  models: string[];
+}
+
+/**
+ * Finds a built-in provider by name or alias
+ * @param name - Provider name or alias (case-insensitive)
+ * @returns Built-in provider, or null if the catalog has none by that name
+ */
+export function findProviderPreset(name: string): BuiltInProvider | null {
+  const key = name.toLowerCase();
+  return Object.values(getBuiltInProviders()).find(preset => preset.provider === key || preset.aliases.includes(key)) || null;
+}
+
+/**
+ * Checks whether a preset base URL still has to be filled in
+ * (e.g. "https://[resource].openai.azure.com/openai")
+ * @param baseUrl - Base URL
+ * @returns True if the URL contains a [placeholder]
+ */
+export function isBaseUrlTemplate(baseUrl: string): boolean {
+  return /\[[^\]]+\]/.test(baseUrl);
+}
+
+/**
+ * Gets the conventional API key variable of a provider
+ * @param provider - Provider name
+ * @returns Variable name (e.g. "DEEPSEEK_API_KEY")
+ */
+export function getApiKeyVariable(provider: string): string {
+  return `${provider.toUpperCase().replace(/[^A-Z0-9_]/g, '_')}_API_KEY`;
+}
+
+/**
+ * Finds the *_API_KEY variables that belong to built-in providers
+ * A variable matches a provider by name or alias (GEMINI_API_KEY is google's),
+ * or by its first word (AZURE_OPENAI_API_KEY is azure's).
+ * @param env - Environment (defaults to process.env)
+ * @returns Detected keys, sorted by variable name
+ */
+export function detectApiKeyVariables(env: NodeJS.ProcessEnv = process.env): DetectedApiKey[] {
+  const detected: DetectedApiKey[] = [];
+  for (const variable of Object.keys(env).sort()) {
+    const match = /^([A-Z][A-Z0-9_]*?)_API_KEY$/.exec(variable);
+    if (!match || !env[variable]) {
+      continue;
+    }
+    const prefix = match[1]!;
+    const preset = findProviderPreset(prefix) || findProviderPreset(prefix.split('_')[0]!);
+    if (preset) {
+      detected.push({ variable, provider: preset.provider });
+    }
+  }
+  return detected;
+}
+
+/**
+ * Gets the name of the configuration created for a model
+ * @param provider - Provider name
+ * @param model - Model name
+ * @returns The model name if it starts with the provider name (e.g. "deepseek-chat"), otherwise "<provider>-<model>"
+ */
+export function getInitConfigName(provider: string, model: string): string {
+  return model.startsWith(`${provider}-`) ? model : `${provider}-${model}`;
+}
+
+/**
+ * Builds a new configuration file
+ * Every selected model gets a configuration of its own.
+ * @param selections - Providers to set up
+ * @param defaultConfig - Default configuration (optional, defaults to the first one)
+ * @returns The configuration file and its validation errors
+ */
+export function createInitConfig(selections: InitSelection[], defaultConfig?: string): { config: ConfigFile; errors: string[] } {
+  const config: ConfigFile = {
+    $schema: CONFIG_SCHEMA_URL,
+    version: CURRENT_CONFIG_VERSION,
+    configs: [],
+    providers: []
+  };
+  const errors: string[] = [];
+
+  for (const selection of selections) {
+    errors.push(...addProviderEntry(config, {
+      name: selection.provider,
+      baseUrl: selection.baseUrl,
+      apiKey: selection.apiKey,
+      models: selection.models
+    }).errors);
+  }
+  for (const selection of selections) {
+    for (const model of selection.models) {
+      const name = getInitConfigName(selection.provider, model);
+      errors.push(...addConfigEntry(config, { name, provider: selection.provider, model }).errors);
+    }
+  }
+
+  // default_config is written before the configurations, as in config.example.yaml
+  const { configs, providers, ...header } = config;
+  const defaultName = defaultConfig || configs[0]?.config[0]?.name;
+  const created: ConfigFile = {
+    ...header,
+    ...(defaultName !== undefined && { default_config: [{ name: defaultName }] }),
+    configs,
+    providers
+  };
+
+  if (errors.length === 0) {
+    errors.push(...validateConfigFile(created).errors);
+  }
+  return { config: created, errors: [...new Set(errors)] };
+}
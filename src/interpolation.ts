@@ -0,0 +1,366 @@
+/**
+ * Value interpolation and lazy API key sources for Qwen Code Router
+ *
+ * Provider values can reference environment variables (`${VAR}`, `${VAR:-fallback}`)
+ * so that secrets do not have to be committed to configuration files. References
+ * in api_key and base_url are expanded when the file is parsed; api_key_cmd and
+ * api_key_file are only evaluated when a configuration is activated. api_key_cmd
+ * only runs when it comes from the user or system configuration file, so a
+ * project checkout cannot run commands on activation.
+ */
+
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigFile, ProviderEnv } from './types';
+import { getConfigPaths } from './platform';
+import { parseVaultReference, resolveVaultSecret } from './vault';
+
+/**
+ * Provider fields that support `${VAR}` interpolation at parse time
+ */
+export const INTERPOLATED_PROVIDER_FIELDS = ['api_key', 'base_url'] as const;
+
+/**
+ * Provider field that supports interpolation at parse time
+ */
+export type InterpolatedProviderField = typeof INTERPOLATED_PROVIDER_FIELDS[number];
+
+/**
+ * Timeout for api_key_cmd in milliseconds
+ */
+export const API_KEY_COMMAND_TIMEOUT_MS = 30000;
+
+/**
+ * Matches `${VAR}` and `${VAR:-fallback}` references
+ */
+const REFERENCE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Result of interpolating a single value
+ */
+export interface InterpolationResult {
+  /** Value with all resolvable references expanded */
+  value: string;
+  /** Names of referenced variables that are unset and have no fallback */
+  unresolved: string[];
+}
+
+/**
+ * Original (pre-interpolation) values per provider environment, so that saving a
+ * configuration writes the references back instead of the expanded secrets
+ */
+const rawProviderValues = new WeakMap<ProviderEnv, Partial<Record<InterpolatedProviderField, { raw: string; expanded: string }>>>();
+
+/**
+ * Files outside the user and system configuration directories that provider
+ * environments got their api_key_cmd from
+ */
+const untrustedKeyCommandFiles = new WeakMap<ProviderEnv, string>();
+
+/**
+ * Keys produced by api_key_cmd, cached for the lifetime of the process
+ */
+const commandKeyCache = new Map<string, string>();
+
+/**
+ * Expands `${VAR}` and `${VAR:-fallback}` references in a string
+ * Unresolved references (unset variable, no fallback) are left in place.
+ * @param value - Value to interpolate
+ * @param env - Variables to read from (defaults to process.env)
+ * @returns InterpolationResult
+ */
+export function interpolateString(value: string, env: NodeJS.ProcessEnv = process.env): InterpolationResult {
+  const unresolved: string[] = [];
+
+  const expanded = value.replace(REFERENCE_PATTERN, (reference: string, name: string, fallback: string | undefined) => {
+    const variable = env[name];
+    if (variable !== undefined && variable !== '') {
+      return variable;
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    unresolved.push(name);
+    return reference;
+  });
+
+  return { value: expanded, unresolved };
+}
+
+/**
+ * Finds variable references that are still present in a value
+ * After parsing, remaining references are the ones that could not be resolved.
+ * @param value - Value to inspect
+ * @returns Names of referenced variables
+ */
+export function findUnresolvedReferences(value: string | undefined): string[] {
+  if (typeof value !== 'string') {
+    return [];
+  }
+
+  return Array.from(value.matchAll(REFERENCE_PATTERN), match => match[1]!);
+}
+
+/**
+ * Interpolates provider values of a parsed configuration in place
+ * @param config - Parsed configuration
+ * @returns The same configuration object
+ */
+export function interpolateConfigFile(config: ConfigFile): ConfigFile {
+  if (!config || !Array.isArray(config.providers)) {
+    return config;
+  }
+
+  for (const provider of config.providers) {
+    const env = provider?.env;
+    if (!env || typeof env !== 'object') {
+      continue;
+    }
+
+    for (const field of INTERPOLATED_PROVIDER_FIELDS) {
+      const raw = env[field];
+      if (typeof raw !== 'string' || !raw.includes('${')) {
+        continue;
+      }
+
+      const { value } = interpolateString(raw);
+      if (value !== raw) {
+        env[field] = value;
+        const values = rawProviderValues.get(env) || {};
+        values[field] = { raw, expanded: value };
+        rawProviderValues.set(env, values);
+      }
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Returns a copy of a configuration with interpolated values replaced by their
+ * original references, unless the value was changed after parsing
+ * @param config - Configuration to prepare for saving
+ * @returns Configuration safe to serialize
+ */
+export function restoreRawValues(config: ConfigFile): ConfigFile {
+  if (!config || !Array.isArray(config.providers)) {
+    return config;
+  }
+
+  return {
+    ...config,
+    providers: config.providers.map(provider => {
+      const values = provider?.env ? rawProviderValues.get(provider.env) : undefined;
+      if (!values) {
+        return provider;
+      }
+
+      const env: ProviderEnv = { ...provider.env };
+      for (const field of INTERPOLATED_PROVIDER_FIELDS) {
+        const value = values[field];
+        if (value && env[field] === value.expanded) {
+          env[field] = value.raw;
+        }
+      }
+      return { ...provider, env };
+    })
+  };
+}
+
+/**
+ * Checks whether a configuration file lies in the user or system configuration directory
+ * @param filePath - Path to the configuration file
+ * @returns True if commands from the file may be run
+ */
+function isTrustedConfigFile(filePath: string): boolean {
+  const { userConfigDir, systemConfigDir } = getConfigPaths();
+  const resolvedPath = path.resolve(filePath);
+  return [userConfigDir, systemConfigDir]
+    .filter((dir): dir is string => !!dir)
+    .some(dir => resolvedPath.startsWith(path.resolve(dir) + path.sep));
+}
+
+/**
+ * Records the file that the api_key_cmd values of a parsed configuration come from
+ * Commands from files outside the user and system configuration directories
+ * are refused by resolveProviderApiKey.
+ * @param config - Parsed configuration
+ * @param filePath - File the configuration was read from
+ * @returns void
+ */
+export function recordKeyCommandSource(config: ConfigFile, filePath: string): void {
+  if (!config || !Array.isArray(config.providers)) {
+    return;
+  }
+
+  const envs = config.providers
+    .map(provider => provider?.env)
+    .filter((env): env is ProviderEnv => !!env && typeof env === 'object' && !!env.api_key_cmd);
+  if (envs.length === 0 || isTrustedConfigFile(filePath)) {
+    return;
+  }
+  for (const env of envs) {
+    untrustedKeyCommandFiles.set(env, filePath);
+  }
+}
+
+/**
+ * Carries the original references of interpolated values, and the file an
+ * api_key_cmd comes from, over to a provider environment built from other
+ * environments (e.g. when merging layers)
+ * @param target - Environment that received the values
+ * @param sources - Environments the values were copied from
+ * @returns void
+ */
+export function inheritRawValues(target: ProviderEnv, sources: ProviderEnv[]): void {
+  for (const source of sources) {
+    const commandFile = untrustedKeyCommandFiles.get(source);
+    if (commandFile && target.api_key_cmd === source.api_key_cmd && !untrustedKeyCommandFiles.has(target)) {
+      untrustedKeyCommandFiles.set(target, commandFile);
+    }
+
+    const values = rawProviderValues.get(source);
+    if (!values) {
+      continue;
+    }
+
+    for (const field of INTERPOLATED_PROVIDER_FIELDS) {
+      const value = values[field];
+      if (value && target[field] === value.expanded) {
+        const targetValues = rawProviderValues.get(target) || {};
+        targetValues[field] = value;
+        rawProviderValues.set(target, targetValues);
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether a provider value was expanded from a `${VAR}` reference
+ * @param env - Provider environment
+ * @param field - Interpolated field
+ * @returns True if the file contains a reference rather than the current value
+ */
+export function isInterpolatedValue(env: ProviderEnv, field: InterpolatedProviderField): boolean {
+  const value = rawProviderValues.get(env)?.[field];
+  return !!value && env[field] === value.expanded;
+}
+
+/**
+ * Expands a leading "~" and variable references in a file path
+ * @param filePath - Path to expand
+ * @returns Absolute path
+ */
+export function expandPath(filePath: string): string {
+  const { value } = interpolateString(filePath.trim());
+  if (value === '~') {
+    return os.homedir();
+  }
+  if (value.startsWith('~/') || value.startsWith('~\\')) {
+    return path.join(os.homedir(), value.slice(2));
+  }
+  return path.resolve(value);
+}
+
+/**
+ * Checks whether a provider gets its API key from api_key_cmd or api_key_file
+ * @param env - Provider environment
+ * @returns True if the key is resolved lazily
+ */
+export function hasLazyApiKey(env: ProviderEnv): boolean {
+  const hasInlineKey = typeof env.api_key === 'string' && env.api_key.trim() !== '';
+  return !hasInlineKey && (!!env.api_key_file || !!env.api_key_cmd);
+}
+
+/**
+ * Resolves the API key of a provider
+ * Precedence: api_key, then api_key_file, then api_key_cmd. The file, the
+ * command and vault references (`vault:name`) are only read when this function
+ * is called.
+ * @param env - Provider environment
+ * @returns API key (empty string if none is configured)
+ * @throws Error if a reference is unresolved, the file cannot be read, the command
+ * fails or comes from a project configuration file
+ */
+export function resolveProviderApiKey(env: ProviderEnv): string {
+  if (typeof env.api_key === 'string' && env.api_key.trim() !== '') {
+    const secretName = parseVaultReference(env.api_key);
+    if (secretName) {
+      return resolveVaultSecret(secretName);
+    }
+
+    const unresolved = findUnresolvedReferences(env.api_key);
+    if (unresolved.length > 0) {
+      throw new Error(`api_key references unset environment variable(s): ${unresolved.join(', ')}`);
+    }
+    return env.api_key;
+  }
+
+  if (env.api_key_file) {
+    const keyFile = expandPath(env.api_key_file);
+    let key: string;
+    try {
+      key = fs.readFileSync(keyFile, 'utf-8').trim();
+    } catch (error) {
+      throw new Error(`Failed to read api_key_file "${keyFile}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (!key) {
+      throw new Error(`api_key_file "${keyFile}" is empty`);
+    }
+    return key;
+  }
+
+  if (env.api_key_cmd) {
+    const commandFile = untrustedKeyCommandFiles.get(env);
+    if (commandFile) {
+      throw new Error(`api_key_cmd from "${commandFile}" was not run: commands are only run from the user and system configuration files. Move it to ${getConfigPaths().userConfigDir}, or use api_key_file or \${VAR} instead`);
+    }
+
+    const cached = commandKeyCache.get(env.api_key_cmd);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let key: string;
+    try {
+      key = execSync(env.api_key_cmd, {
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        timeout: API_KEY_COMMAND_TIMEOUT_MS
+      }).trim();
+    } catch (error) {
+      throw new Error(`api_key_cmd "${env.api_key_cmd}" failed: ${error instanceof Error ? error.message.split('\n')[0] : 'Unknown error'}`);
+    }
+    if (!key) {
+      throw new Error(`api_key_cmd "${env.api_key_cmd}" produced no output`);
+    }
+    commandKeyCache.set(env.api_key_cmd, key);
+    return key;
+  }
+
+  return env.api_key || '';
+}
+
+/**
+ * Resolves the base URL of a provider
+ * @param env - Provider environment
+ * @returns Base URL
+ * @throws Error if the base URL contains unresolved references
+ */
+export function resolveProviderBaseUrl(env: ProviderEnv): string {
+  const unresolved = findUnresolvedReferences(env.base_url);
+  if (unresolved.length > 0) {
+    throw new Error(`base_url references unset environment variable(s): ${unresolved.join(', ')}`);
+  }
+  return env.base_url;
+}
+
+/**
+ * Clears cached api_key_cmd results
+ * @returns void
+ */
+export function clearApiKeyCache(): void {
+  commandKeyCache.clear();
+}
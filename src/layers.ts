@@ -0,0 +1,383 @@
+/**
+ * Layered configuration merging for Qwen Code Router
+ *
+ * By default the first configuration file found (project, then user, then
+ * system directory) is used on its own. When merging is enabled, all layers
+ * are combined: providers are deep-merged by provider name, configurations are
+ * merged by name and the highest-precedence default_config wins. Precedence is
+ * project > user > system. The same merge composes files listed under `include:`.
+ */
+
+import * as path from 'path';
+import { Config, ConfigEntry, ConfigFile, ModelEntry, Provider, ProviderEnv } from './types';
+import { inheritRawValues } from './interpolation';
+
+/**
+ * Environment variable that enables ("1", "true", "yes") or disables ("0",
+ * "false", "no") layered merging regardless of the `merge` key
+ */
+export const MERGE_CONFIGS_ENV_VAR = 'QCR_MERGE_CONFIGS';
+
+/**
+ * Where a configuration layer comes from ('include' for files composed with `include:`)
+ */
+export type ConfigLayerScope = 'project' | 'user' | 'system' | 'include';
+
+/**
+ * A loaded configuration file taking part in a merge
+ */
+export interface ConfigLayer {
+  /** Path of the configuration file */
+  filePath: string;
+  /** Directory the file was found in */
+  scope: ConfigLayerScope;
+  /** Parsed (possibly partial) configuration */
+  config: ConfigFile;
+}
+
+/**
+ * Files that contributed each part of a merged configuration
+ */
+export interface LayerOrigins {
+  /** Contributing files per provider, highest precedence first */
+  providers: Record<string, string[]>;
+  /** File defining each configuration */
+  configs: Record<string, string>;
+  /** File whose default_config is used */
+  default: string | null;
+}
+
+/**
+ * Result of merging configuration layers
+ */
+export interface MergedConfiguration {
+  /** Merged configuration */
+  config: ConfigFile;
+  /** Files that contributed each provider, configuration and default */
+  origins: LayerOrigins;
+}
+
+/**
+ * State kept for merged configurations so they can be split up again on save
+ */
+interface MergeState {
+  layers: ConfigLayer[];
+  origins: LayerOrigins;
+  providerSnapshots: Map<string, string>;
+  configSnapshots: Map<string, string>;
+  defaultSnapshot: string;
+}
+
+/**
+ * Merge state per merged configuration object
+ */
+const mergeStates = new WeakMap<ConfigFile, MergeState>();
+
+/**
+ * Provider fields that together select the API key source
+ */
+const API_KEY_FIELDS = ['api_key', 'api_key_cmd', 'api_key_file'] as const;
+
+/**
+ * Checks whether layered merging is enabled
+ * QCR_MERGE_CONFIGS takes precedence over the `merge` key of the
+ * highest-precedence configuration file.
+ * @param config - Highest-precedence configuration file
+ * @returns True if layers should be merged
+ */
+export function isLayerMergeEnabled(config: ConfigFile | null | undefined): boolean {
+  const override = process.env[MERGE_CONFIGS_ENV_VAR];
+  if (override !== undefined && override.trim() !== '') {
+    return ['1', 'true', 'yes', 'on'].includes(override.trim().toLowerCase());
+  }
+
+  return config?.merge === true;
+}
+
+/**
+ * Merges models by model name; entries of the higher layer win
+ * @param lower - Models of the lower layer
+ * @param higher - Models of the higher layer
+ * @returns Merged models
+ */
+function mergeModels(lower: ModelEntry[] | undefined, higher: ModelEntry[] | undefined): ModelEntry[] {
+  const merged = [...(higher || [])];
+  for (const model of lower || []) {
+    if (!merged.some(m => m.model === model.model)) {
+      merged.push(model);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Deep-merges two definitions of the same provider
+ * A higher layer that sets any API key source replaces all key sources of the
+ * lower layer, so an inherited api_key cannot shadow a project's api_key_cmd.
+ * Also used for providers that `extends` another provider.
+ * @param lower - Provider from the lower layer
+ * @param higher - Provider from the higher layer
+ * @returns Merged provider
+ */
+export function mergeProvider(lower: Provider, higher: Provider): Provider {
+  const lowerEnv: Partial<ProviderEnv> = { ...(lower.env || {}) };
+  const higherEnv: Partial<ProviderEnv> = higher.env || {};
+
+  if (API_KEY_FIELDS.some(field => higherEnv[field] !== undefined)) {
+    for (const field of API_KEY_FIELDS) {
+      delete lowerEnv[field];
+    }
+  }
+
+  const env = {
+    ...lowerEnv,
+    ...higherEnv,
+    models: mergeModels(lower.env?.models, higher.env?.models)
+  } as ProviderEnv;
+  inheritRawValues(env, [higher.env, lower.env].filter(Boolean));
+
+  return { ...lower, ...higher, env };
+}
+
+/**
+ * Merges configuration layers
+ * @param layers - Layers ordered from highest to lowest precedence
+ * @returns MergedConfiguration
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): MergedConfiguration {
+  const origins: LayerOrigins = { providers: {}, configs: {}, default: null };
+
+  // Providers keep the order of first appearance from the highest layer down,
+  // while values are merged from the lowest layer up
+  const providerOrder: string[] = [];
+  for (const layer of layers) {
+    for (const provider of layer.config.providers || []) {
+      if (!provider || typeof provider.provider !== 'string') continue;
+      if (!providerOrder.includes(provider.provider)) {
+        providerOrder.push(provider.provider);
+      }
+      const contributors = origins.providers[provider.provider] || [];
+      const files = mergeStates.get(layer.config)?.origins.providers[provider.provider] || [layer.filePath];
+      origins.providers[provider.provider] = [...contributors, ...files.filter(file => !contributors.includes(file))];
+    }
+  }
+
+  const mergedProviders = new Map<string, Provider>();
+  for (const layer of [...layers].reverse()) {
+    for (const provider of layer.config.providers || []) {
+      if (!provider || typeof provider.provider !== 'string') continue;
+      const existing = mergedProviders.get(provider.provider);
+      mergedProviders.set(provider.provider, existing ? mergeProvider(existing, provider) : provider);
+    }
+  }
+
+  // A configuration defined in a higher layer replaces the same name below it
+  const configs: Config[] = [];
+  for (const layer of layers) {
+    const definedHere: string[] = [];
+    for (const group of layer.config.configs || []) {
+      const entries = (group?.config || []).filter(entry => !(entry?.name in origins.configs));
+      entries.forEach(entry => definedHere.push(entry.name));
+      if (entries.length > 0) {
+        configs.push({ ...group, config: entries });
+      }
+    }
+    definedHere.forEach(name => {
+      origins.configs[name] = mergeStates.get(layer.config)?.origins.configs[name] || layer.filePath;
+    });
+  }
+
+  const defaultLayer = layers.find(layer => Array.isArray(layer.config.default_config) && layer.config.default_config.length > 0);
+  if (defaultLayer) {
+    origins.default = mergeStates.get(defaultLayer.config)?.origins.default || defaultLayer.filePath;
+  }
+
+  const config: ConfigFile = {
+    ...Object.assign({}, ...[...layers].reverse().map(layer => layer.config)),
+    configs,
+    providers: providerOrder.map(name => mergedProviders.get(name)!)
+  };
+  if (defaultLayer) {
+    config.default_config = defaultLayer.config.default_config!;
+  } else {
+    delete config.default_config;
+  }
+
+  mergeStates.set(config, {
+    layers,
+    origins,
+    providerSnapshots: new Map(config.providers.map(provider => [provider.provider, JSON.stringify(provider)])),
+    configSnapshots: new Map(configs.flatMap(group => group.config).map(entry => [entry.name, JSON.stringify(entry)])),
+    defaultSnapshot: JSON.stringify(config.default_config)
+  });
+
+  return { config, origins };
+}
+
+/**
+ * Gets the files that contributed to a merged configuration
+ * @param config - Configuration to inspect
+ * @returns LayerOrigins, or null if the configuration was not merged
+ */
+export function getLayerOrigins(config: ConfigFile): LayerOrigins | null {
+  return mergeStates.get(config)?.origins || null;
+}
+
+/**
+ * Adds the originating file to validation messages of a merged configuration
+ * Messages are matched by their "providers[i]" / "configs[i].config[j]" prefix.
+ * @param config - Validated configuration
+ * @param messages - Validation errors or warnings
+ * @returns Messages naming the file each entry came from
+ */
+export function annotateWithOrigins(config: ConfigFile, messages: string[]): string[] {
+  const origins = getLayerOrigins(config);
+  if (!origins) {
+    return messages;
+  }
+
+  return messages.map(message => {
+    let files: string[] | undefined;
+
+    const providerMatch = message.match(/^providers\[(\d+)\]/);
+    const configMatch = message.match(/^configs\[(\d+)\]\.config\[(\d+)\]/);
+    if (providerMatch) {
+      const name = config.providers?.[Number(providerMatch[1])]?.provider;
+      files = name !== undefined ? origins.providers[name] : undefined;
+    } else if (configMatch) {
+      const name = config.configs?.[Number(configMatch[1])]?.config?.[Number(configMatch[2])]?.name;
+      const file = name !== undefined ? origins.configs[name] : undefined;
+      files = file ? [file] : undefined;
+    } else if (message.startsWith('default_config') || message.startsWith('Default configuration')) {
+      files = origins.default ? [origins.default] : undefined;
+    }
+
+    return files && files.length > 0 ? `${message} (in ${files.join(', ')})` : message;
+  });
+}
+
+/**
+ * Lets a copy of a merged configuration be split up on save like the original
+ * @param source - Merged configuration
+ * @param target - Copy of the configuration
+ * @returns void
+ */
+export function copyMergeState(source: ConfigFile, target: ConfigFile): void {
+  const state = mergeStates.get(source);
+  if (state) {
+    mergeStates.set(target, state);
+  }
+}
+
+/**
+ * Checks whether a configuration was produced by mergeConfigLayers
+ * @param config - Configuration to check
+ * @returns True if the configuration is merged
+ */
+export function isMergedConfig(config: ConfigFile): boolean {
+  return mergeStates.has(config);
+}
+
+/**
+ * Finds the file that defines the API key of a provider in a merged configuration
+ * The highest layer that sets any key source replaces the key sources below it
+ * (see mergeProvider), so that layer's file is where the key is written.
+ * Included files of a layer are searched as well.
+ * @param config - Merged configuration
+ * @param providerName - Provider name
+ * @returns File path, or null if the configuration was not merged or no layer sets a key
+ */
+export function findApiKeyOrigin(config: ConfigFile, providerName: string): string | null {
+  const state = mergeStates.get(config);
+  if (!state) {
+    return null;
+  }
+
+  for (const layer of state.layers) {
+    const provider = (layer.config.providers || []).find(p => p?.provider === providerName);
+    if (provider && API_KEY_FIELDS.some(field => provider.env?.[field] !== undefined)) {
+      return findApiKeyOrigin(layer.config, providerName) || layer.filePath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Gets the part of a merged configuration that belongs in one layer's file
+ * Entries inherited from other layers are not copied into the file unless
+ * they were changed after loading; changes and new entries are written to the
+ * file being saved. Non-merged configurations are returned unchanged.
+ * @param config - Configuration about to be saved
+ * @param filePath - File it is saved to
+ * @returns Configuration to write
+ */
+export function extractLayerForSave(config: ConfigFile, filePath: string): ConfigFile {
+  const state = mergeStates.get(config);
+  const layer = state?.layers.find(l => path.resolve(l.filePath) === path.resolve(filePath));
+  if (!state || !layer) {
+    return config;
+  }
+
+  const original = layer.config;
+  const isChanged = (snapshots: Map<string, string>, name: string, value: unknown) => snapshots.get(name) !== JSON.stringify(value);
+
+  const providers: Provider[] = [];
+  for (const provider of config.providers) {
+    const own = (original.providers || []).find(p => p.provider === provider.provider);
+    if (isChanged(state.providerSnapshots, provider.provider, provider)) {
+      providers.push(provider);
+    } else if (own) {
+      providers.push(own);
+    }
+  }
+
+  const mergedEntries = new Map(config.configs.flatMap(group => group.config).map(entry => [entry.name, entry]));
+  const written = new Set<string>();
+  const pickEntry = (name: string, own: ConfigEntry): ConfigEntry => {
+    const entry = mergedEntries.get(name)!;
+    return isChanged(state.configSnapshots, name, entry) ? entry : own;
+  };
+
+  const configs: Config[] = (original.configs || []).map(group => ({
+    ...group,
+    config: (group.config || [])
+      .filter(entry => mergedEntries.has(entry.name))
+      .map(entry => {
+        written.add(entry.name);
+        return pickEntry(entry.name, entry);
+      })
+  }));
+
+  const added = Array.from(mergedEntries.values())
+    .filter(entry => !written.has(entry.name) && isChanged(state.configSnapshots, entry.name, entry));
+  if (added.length > 0) {
+    if (configs.length === 0) {
+      configs.push({ config: [] });
+    }
+    configs[configs.length - 1]!.config.push(...added);
+  }
+
+  const result: ConfigFile = { ...original, configs, providers };
+  // Partial files (provider packs, key files) keep their shape
+  if (original.configs === undefined && configs.every(group => group.config.length === 0)) {
+    delete (result as Partial<ConfigFile>).configs;
+  }
+  if (original.providers === undefined && providers.length === 0) {
+    delete (result as Partial<ConfigFile>).providers;
+  }
+  if (JSON.stringify(config.default_config) !== state.defaultSnapshot) {
+    result.default_config = config.default_config!;
+  }
+  if (!result.default_config) {
+    delete result.default_config;
+  }
+
+  // The layer was itself composed from included files: split those off as well
+  const innerState = mergeStates.get(original);
+  if (innerState) {
+    mergeStates.set(result, innerState);
+    return extractLayerForSave(result, filePath);
+  }
+
+  return result;
+}
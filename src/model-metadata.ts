@@ -0,0 +1,157 @@
+/**
+ * Model metadata for Qwen Code Router
+ *
+ * Models can describe their context window, output limit, pricing, speed and
+ * capabilities, in configuration files and in the built-in provider catalog.
+ * `list provider <name> -v` shows them as a table, chk warns about models
+ * that lack a capability Qwen Code needs and `use --need` selects by them.
+ */
+
+import { ModelCapability, ModelMetadata } from './types';
+
+/**
+ * Capabilities in display order
+ */
+export const MODEL_CAPABILITIES: ModelCapability[] = ['tools', 'vision', 'reasoning', 'streaming'];
+
+/**
+ * Capabilities Qwen Code needs, with a description for chk warnings
+ */
+export const REQUIRED_CAPABILITIES: Partial<Record<ModelCapability, string>> = {
+  tools: 'tool calling, which Qwen Code needs to read and edit files and run commands'
+};
+
+/**
+ * Numeric metadata fields
+ */
+const NUMBER_FIELDS = ['context_window', 'max_output_tokens', 'input_price', 'output_price', 'output_speed'] as const;
+
+/**
+ * Validates the metadata fields of a model entry
+ * @param entry - Model entry (from a configuration file or the catalog)
+ * @param prefix - Prefix for error messages
+ * @returns Error messages (empty if the metadata is valid or not set)
+ */
+export function validateModelMetadata(entry: Record<string, unknown>, prefix: string): string[] {
+  const errors: string[] = [];
+
+  for (const field of ['context_window', 'max_output_tokens']) {
+    const value = entry[field];
+    if (value !== undefined && !(typeof value === 'number' && Number.isInteger(value) && value > 0)) {
+      errors.push(`${prefix}: ${field} must be a positive integer`);
+    }
+  }
+  for (const field of ['input_price', 'output_price']) {
+    const value = entry[field];
+    if (value !== undefined && !(typeof value === 'number' && Number.isFinite(value) && value >= 0)) {
+      errors.push(`${prefix}: ${field} must be a number of USD per million tokens`);
+    }
+  }
+  const speed = entry['output_speed'];
+  if (speed !== undefined && !(typeof speed === 'number' && Number.isFinite(speed) && speed > 0)) {
+    errors.push(`${prefix}: output_speed must be a number of tokens per second`);
+  }
+
+  const capabilities = entry['capabilities'];
+  if (capabilities !== undefined) {
+    if (!capabilities || typeof capabilities !== 'object' || Array.isArray(capabilities) ||
+        !Object.values(capabilities).every(flag => typeof flag === 'boolean')) {
+      errors.push(`${prefix}: capabilities must map capability names (${MODEL_CAPABILITIES.join(', ')}) to true or false`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Copies the metadata fields of a model entry
+ * @param entry - Model entry
+ * @returns Metadata that is set on the entry
+ */
+export function pickModelMetadata(entry: ModelMetadata): ModelMetadata {
+  const metadata = Object.fromEntries(NUMBER_FIELDS
+    .filter(field => entry[field] !== undefined)
+    .map(field => [field, entry[field]])) as ModelMetadata;
+  if (entry.capabilities !== undefined) {
+    metadata.capabilities = { ...entry.capabilities };
+  }
+  return metadata;
+}
+
+/**
+ * Merges model metadata
+ * Fields of the override replace those of the base; capability flags are
+ * merged one by one.
+ * @param base - Base metadata (e.g. from the built-in catalog)
+ * @param override - Overriding metadata (e.g. from the configuration file)
+ * @returns Merged metadata
+ */
+export function mergeModelMetadata(base: ModelMetadata, override: ModelMetadata): ModelMetadata {
+  const merged: ModelMetadata = { ...pickModelMetadata(base), ...pickModelMetadata(override) };
+  if (base.capabilities || override.capabilities) {
+    merged.capabilities = { ...base.capabilities, ...override.capabilities };
+  }
+  return merged;
+}
+
+/**
+ * Gets the capabilities Qwen Code needs that a model is known to lack
+ * Capabilities that are not listed are unknown and not reported.
+ * @param metadata - Model metadata
+ * @returns Missing capabilities
+ */
+export function findMissingCapabilities(metadata: ModelMetadata): ModelCapability[] {
+  return MODEL_CAPABILITIES.filter(capability =>
+    REQUIRED_CAPABILITIES[capability] !== undefined && metadata.capabilities?.[capability] === false);
+}
+
+/**
+ * Formats a token count (e.g. 128000 as "128k" and 1048576 as "1M")
+ * @param tokens - Token count
+ * @returns Formatted count
+ */
+export function formatTokenCount(tokens: number): string {
+  // Counts like 32768 or 1048576 are counted in units of 1024
+  const unit = tokens % 1000 !== 0 && tokens % 1024 === 0 ? 1024 : 1000;
+  if (tokens >= unit * unit) {
+    return `${Number((tokens / (unit * unit)).toFixed(1))}M`;
+  }
+  if (tokens >= unit) {
+    return `${Math.round(tokens / unit)}k`;
+  }
+  return String(tokens);
+}
+
+/**
+ * Formats a price in USD per million tokens
+ * @param price - Price
+ * @returns Formatted price (e.g. "$0.50")
+ */
+export function formatPrice(price: number): string {
+  return `$${price.toFixed(price > 0 && price < 0.01 ? 3 : 2)}`;
+}
+
+/**
+ * Formats models and their metadata as a table
+ * Unknown values are shown as "-".
+ * @param rows - Model labels and their metadata
+ * @returns Table lines, starting with the header
+ */
+export function formatModelTable(rows: Array<{ label: string; metadata: ModelMetadata }>): string[] {
+  const optional = <T>(value: T | undefined, format: (value: T) => string) => value === undefined ? '-' : format(value);
+  const table = [
+    ['Model', 'Context', 'Max output', 'Input $/M', 'Output $/M', 'Speed', ...MODEL_CAPABILITIES.map(c => c.charAt(0).toUpperCase() + c.slice(1))],
+    ...rows.map(({ label, metadata }) => [
+      label,
+      optional(metadata.context_window, formatTokenCount),
+      optional(metadata.max_output_tokens, formatTokenCount),
+      optional(metadata.input_price, formatPrice),
+      optional(metadata.output_price, formatPrice),
+      optional(metadata.output_speed, speed => `${speed} tok/s`),
+      ...MODEL_CAPABILITIES.map(c => optional(metadata.capabilities?.[c], flag => flag ? 'yes' : 'no'))
+    ])
+  ];
+
+  const widths = table[0]!.map((_, column) => Math.max(...table.map(row => row[column]!.length)));
+  return table.map(row => row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd());
+}
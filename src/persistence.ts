@@ -2,20 +2,40 @@
  * Configuration file persistence layer for Qwen Code Router
  * 
  * This module handles loading, parsing, and discovering configuration files
- * across different platforms and formats (JSON/YAML).
+ * across different platforms and formats (JSON/YAML/TOML).
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as yaml from 'yaml';
+import * as toml from 'smol-toml';
 import {
+  ConfigEntry,
   ConfigFile,
   ConfigFileFormat,
   ConfigDiscoveryResult,
   ValidationResult
 } from './types';
 import { validateConfigFile } from './validation';
+import { interpolateConfigFile, recordKeyCommandSource, restoreRawValues } from './interpolation';
+import {
+  ConfigLayer,
+  ConfigLayerScope,
+  extractLayerForSave,
+  isLayerMergeEnabled,
+  mergeConfigLayers
+} from './layers';
+import { resolveIncludedFiles } from './includes';
+import { resolveInheritance, restoreInheritance } from './inheritance';
+import {
+  CONFIG_SCHEMA_URL,
+  formatTomlSchemaHeader,
+  formatYamlSchemaHeader,
+  readTomlSchemaHeader,
+  readYamlSchemaHeader
+} from './schema';
+import { updateJsonContent, updateYamlContent } from './document-edit';
 import { 
   getConfigPaths, 
   getPlatformInfo
@@ -24,38 +44,133 @@ import {
 /**
  * Configuration file discovery paths and names
  */
-const CONFIG_FILE_NAMES = {
+const CONFIG_FILE_NAMES: Record<ConfigFileFormat, string[]> = {
   yaml: ['config.yaml', 'config.yml'],
-  json: ['config.json']
+  json: ['config.json'],
+  toml: ['config.toml']
 };
 
+/**
+ * Configuration file formats in order of preference
+ */
+const CONFIG_FILE_FORMATS: ConfigFileFormat[] = ['yaml', 'json', 'toml'];
+
+/**
+ * All configuration file names in order of preference
+ */
+const ALL_CONFIG_FILE_NAMES = CONFIG_FILE_FORMATS.flatMap(format => CONFIG_FILE_NAMES[format]);
+
+/**
+ * Newest configuration file version
+ * Files without a `version` key are version 1.
+ */
+export const CURRENT_CONFIG_VERSION = 2;
+
+/**
+ * Upgrade of configuration documents from one version to the next
+ */
+export interface ConfigMigration {
+  /** Version the migration upgrades from (to `from + 1`) */
+  from: number;
+  /** What the migration changes, shown by `qcr migrate` */
+  description: string;
+  /** Upgrades a parsed document in place */
+  migrate: (config: ConfigFile) => void;
+}
+
+/**
+ * Migrations in version order
+ * Every version below CURRENT_CONFIG_VERSION needs exactly one entry.
+ */
+const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    from: 1,
+    description: 'Move "default: true" markers of configurations to default_config',
+    migrate: (config) => {
+      const entries = (Array.isArray(config.configs) ? config.configs : [])
+        .flatMap(group => Array.isArray(group?.config) ? group.config : [])
+        .filter(entry => entry && typeof entry === 'object' && 'default' in entry);
+
+      const hasDefault = Array.isArray(config.default_config) && config.default_config.length > 0;
+      const marked = entries.find(entry => (entry as ConfigEntry & { default?: unknown }).default === true);
+      if (!hasDefault && marked) {
+        config.default_config = [{ name: marked.name }];
+      }
+      entries.forEach(entry => delete (entry as ConfigEntry & { default?: unknown }).default);
+    }
+  }
+];
+
+/**
+ * Result of upgrading a configuration document
+ */
+export interface ConfigMigrationResult {
+  /** Upgraded document */
+  config: ConfigFile;
+  /** Version of the document before the upgrade */
+  fromVersion: number;
+  /** Migrations that were applied, in order */
+  applied: ConfigMigration[];
+}
+
+/**
+ * Gets the version of a parsed configuration document
+ * @param config - Parsed configuration
+ * @returns Version (1 if the document has no `version` key)
+ * @throws Error if the version is invalid or newer than this qcr supports
+ */
+export function getConfigFileVersion(config: ConfigFile): number {
+  const version = config.version;
+  if (version === undefined) {
+    return 1;
+  }
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('"version" must be a positive integer');
+  }
+  if (version > CURRENT_CONFIG_VERSION) {
+    throw new Error(`Configuration version ${version} is newer than this qcr supports (${CURRENT_CONFIG_VERSION}); please upgrade qcr`);
+  }
+  return version;
+}
+
+/**
+ * Upgrades a parsed configuration document to CURRENT_CONFIG_VERSION
+ * The document is changed in place; the result carries `version` first.
+ * @param config - Parsed configuration
+ * @returns ConfigMigrationResult
+ * @throws Error if the version is invalid or newer than this qcr supports
+ */
+export function migrateConfigFile(config: ConfigFile): ConfigMigrationResult {
+  const fromVersion = getConfigFileVersion(config);
+  const applied = CONFIG_MIGRATIONS.filter(migration => migration.from >= fromVersion);
+  applied.forEach(migration => migration.migrate(config));
+
+  const { $schema, version, ...content } = config;
+  const migrated: ConfigFile = {
+    ...($schema !== undefined ? { $schema } : {}),
+    version: CURRENT_CONFIG_VERSION,
+    ...content
+  };
+  return { config: migrated, fromVersion, applied };
+}
+
 /**
  * Discovers configuration files in the specified directory
  * @param directory - Directory to search for configuration files
  * @returns ConfigDiscoveryResult with file path and format information
  */
 export function discoverConfigFile(directory: string): ConfigDiscoveryResult {
-  // Check YAML files first (preferred format)
-  for (const fileName of CONFIG_FILE_NAMES.yaml) {
-    const filePath = path.join(directory, fileName);
-    if (fs.existsSync(filePath)) {
-      return {
-        filePath,
-        format: 'yaml',
-        found: true
-      };
-    }
-  }
-
-  // Check JSON files
-  for (const fileName of CONFIG_FILE_NAMES.json) {
-    const filePath = path.join(directory, fileName);
-    if (fs.existsSync(filePath)) {
-      return {
-        filePath,
-        format: 'json',
-        found: true
-      };
+  // YAML files first (preferred format), then JSON, then TOML
+  for (const format of CONFIG_FILE_FORMATS) {
+    for (const fileName of CONFIG_FILE_NAMES[format]) {
+      const filePath = path.join(directory, fileName);
+      if (fs.existsSync(filePath)) {
+        return {
+          filePath,
+          format,
+          found: true
+        };
+      }
     }
   }
 
@@ -92,6 +207,80 @@ export function discoverConfigFileHierarchical(currentDir?: string): ConfigDisco
   };
 }
 
+/**
+ * Discovers the configuration file of every search path
+ * @param currentDir - Current working directory (optional, defaults to process.cwd())
+ * @returns Files found, ordered from highest (project) to lowest (system) precedence
+ */
+export function discoverConfigLayers(currentDir?: string): Array<ConfigDiscoveryResult & { filePath: string; scope: ConfigLayerScope }> {
+  const configPaths = getConfigPaths(currentDir);
+  const layers: Array<ConfigDiscoveryResult & { filePath: string; scope: ConfigLayerScope }> = [];
+
+  for (const searchPath of configPaths.searchPaths) {
+    if (!fs.existsSync(searchPath)) {
+      continue;
+    }
+
+    const result = discoverConfigFile(searchPath);
+    // The working directory can be the user configuration directory itself
+    if (result.found && result.filePath && !layers.some(layer => path.resolve(layer.filePath) === path.resolve(result.filePath!))) {
+      const scope: ConfigLayerScope = searchPath === configPaths.systemConfigDir
+        ? 'system'
+        : searchPath === configPaths.userConfigDir ? 'user' : 'project';
+      layers.push({ ...result, filePath: result.filePath, scope });
+    }
+  }
+
+  return layers;
+}
+
+/**
+ * Loads the configuration layers that apply to a configuration file
+ * The file itself is the highest layer; the user and system files discovered
+ * from its directory follow.
+ * @param filePath - Highest-precedence configuration file
+ * @param format - Format of the file (optional, auto-detected if not provided)
+ * @returns Promise<ConfigLayer[]> ordered from highest to lowest precedence
+ */
+export async function loadConfigLayers(filePath: string, format?: ConfigFileFormat): Promise<ConfigLayer[]> {
+  const scopeRank: Record<ConfigLayerScope, number> = { project: 0, include: 0, user: 1, system: 2 };
+  const discovered = discoverConfigLayers(path.dirname(filePath));
+  const top = discovered.find(layer => path.resolve(layer.filePath) === path.resolve(filePath));
+  const topScope: ConfigLayerScope = top ? top.scope : 'project';
+
+  const layers: ConfigLayer[] = [{ filePath, scope: topScope, config: await loadConfigFile(filePath, format) }];
+  // Only lower layers take part, so a user file never pulls in a project file
+  for (const layer of discovered) {
+    if (scopeRank[layer.scope] > scopeRank[topScope]) {
+      layers.push({ filePath: layer.filePath, scope: layer.scope, config: await loadConfigFile(layer.filePath, layer.format!) });
+    }
+  }
+
+  return layers;
+}
+
+/**
+ * Loads a configuration file and, when layered merging is enabled, merges it
+ * with the user and system configuration files
+ * `extends` of providers and configurations is resolved on the final result.
+ * @param filePath - Highest-precedence configuration file
+ * @param format - Format of the file (optional, auto-detected if not provided)
+ * @returns Promise<ConfigFile> - The file itself or the merged configuration
+ * @throws Error if a file cannot be read or parsed, or inheritance cannot be resolved
+ */
+export async function loadLayeredConfigFile(filePath: string, format?: ConfigFileFormat): Promise<ConfigFile> {
+  const config = await loadConfigFile(filePath, format);
+  const layered = isLayerMergeEnabled(config)
+    ? mergeConfigLayers(await loadConfigLayers(filePath, format)).config
+    : config;
+
+  try {
+    return resolveInheritance(layered);
+  } catch (error) {
+    throw new Error(`Failed to load configuration file "${filePath}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Loads and parses a configuration file
  * @param filePath - Path to the configuration file
@@ -101,31 +290,7 @@ export function discoverConfigFileHierarchical(currentDir?: string): ConfigDisco
  */
 export async function loadConfigFile(filePath: string, format?: ConfigFileFormat): Promise<ConfigFile> {
   try {
-    // Check if file exists
-    if (!fs.existsSync(filePath)) {
-      throw new Error(`Configuration file not found: ${filePath}`);
-    }
-
-    // Read file content
-    const fileContent = fs.readFileSync(filePath, 'utf-8');
-    
-    // Auto-detect format if not provided
-    const detectedFormat = format || detectConfigFileFormat(filePath);
-    
-    // Parse based on format
-    let config: ConfigFile;
-    switch (detectedFormat) {
-      case 'yaml':
-        config = parseYamlConfig(fileContent, filePath);
-        break;
-      case 'json':
-        config = parseJsonConfig(fileContent, filePath);
-        break;
-      default:
-        throw new Error(`Unsupported configuration file format: ${detectedFormat}`);
-    }
-
-    return config;
+    return readConfigFileWithIncludes(filePath, format, []);
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to load configuration file "${filePath}": ${error.message}`);
@@ -134,6 +299,83 @@ export async function loadConfigFile(filePath: string, format?: ConfigFileFormat
   }
 }
 
+/**
+ * Loads and parses a configuration file without the files it includes
+ * Used to edit values where they are written, e.g. an API key in an included key file.
+ * @param filePath - Path to the configuration file
+ * @param format - Format of the configuration file (optional, auto-detected if not provided)
+ * @returns Promise<ConfigFile> - Parsed configuration file as written
+ * @throws Error if file cannot be read or parsed
+ */
+export async function loadConfigFileWithoutIncludes(filePath: string, format?: ConfigFileFormat): Promise<ConfigFile> {
+  try {
+    return readConfigDocument(filePath, format);
+  } catch (error) {
+    throw new Error(`Failed to load configuration file "${filePath}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Reads and parses a single configuration file
+ * @param filePath - Path to the configuration file
+ * @param format - Format of the configuration file (optional, auto-detected if not provided)
+ * @returns ConfigFile - Parsed configuration, upgraded in memory
+ * @throws Error if the file cannot be read or parsed
+ */
+function readConfigDocument(filePath: string, format: ConfigFileFormat | undefined): ConfigFile {
+  // Check if file exists
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Configuration file not found: ${filePath}`);
+  }
+
+  // Read file content
+  const fileContent = fs.readFileSync(filePath, 'utf-8');
+
+  // Older documents are upgraded in memory; only `qcr migrate` rewrites the
+  // file. The loaded document keeps the version the file declares, so saving
+  // it from another command does not bump the version
+  const parsed = parseConfigContent(fileContent, filePath, format);
+  const declaredVersion = parsed.version;
+  const config = migrateConfigFile(parsed).config;
+  if (declaredVersion === undefined) {
+    delete config.version;
+  } else {
+    config.version = declaredVersion;
+  }
+  recordKeyCommandSource(config, filePath);
+  return config;
+}
+
+/**
+ * Reads and parses a configuration file and composes the files it includes
+ * Included files have lower precedence than the including file; later
+ * includes take precedence over earlier ones.
+ * @param filePath - Path to the configuration file
+ * @param format - Format of the configuration file (optional, auto-detected if not provided)
+ * @param chain - Files currently being loaded (for cycle detection)
+ * @returns ConfigFile - Parsed (and possibly composed) configuration
+ * @throws Error if a file cannot be read or parsed, or includes form a cycle
+ */
+function readConfigFileWithIncludes(filePath: string, format: ConfigFileFormat | undefined, chain: string[]): ConfigFile {
+  const config = readConfigDocument(filePath, format);
+  if (config.include === undefined) {
+    return config;
+  }
+
+  const resolvedPath = path.resolve(filePath);
+  const currentChain = [...chain, resolvedPath];
+  const includedLayers: ConfigLayer[] = resolveIncludedFiles(config, resolvedPath, currentChain).map(includedFile => ({
+    filePath: includedFile,
+    scope: 'include',
+    config: readConfigFileWithIncludes(includedFile, undefined, currentChain)
+  }));
+
+  return mergeConfigLayers([
+    { filePath, scope: 'include', config },
+    ...includedLayers.reverse()
+  ]).config;
+}
+
 /**
  * Loads and validates a configuration file
  * @param filePath - Path to the configuration file
@@ -167,12 +409,13 @@ export async function discoverAndLoadConfig(currentDir?: string): Promise<{
     const configPaths = getConfigPaths(currentDir);
     throw new Error(
       `No configuration file found. Searched in:\n${configPaths.searchPaths.map(p => `  - ${p}`).join('\n')}\n\n` +
-      `Expected file names: ${[...CONFIG_FILE_NAMES.yaml, ...CONFIG_FILE_NAMES.json].join(', ')}\n\n` +
+      `Expected file names: ${ALL_CONFIG_FILE_NAMES.join(', ')}\n\n` +
       `Platform: ${getPlatformInfo().platform} (${getPlatformInfo().isWindows ? 'Windows' : 'Unix-like'})`
     );
   }
 
-  const { config, validation } = await loadAndValidateConfigFile(discovery.filePath, discovery.format!);
+  const config = await loadLayeredConfigFile(discovery.filePath, discovery.format!);
+  const validation = validateConfigFile(config);
   
   return {
     config,
@@ -195,14 +438,40 @@ export function detectConfigFileFormat(filePath: string): ConfigFileFormat {
       return 'yaml';
     case '.json':
       return 'json';
+    case '.toml':
+      return 'toml';
     default:
       // Default to YAML for unknown extensions
       return 'yaml';
   }
 }
 
+/**
+ * Parses configuration content without upgrading it
+ * @param content - File content
+ * @param filePath - File path for format detection and error reporting
+ * @param format - Format of the content (optional, auto-detected if not provided)
+ * @returns ConfigFile - Parsed configuration as written
+ * @throws Error if parsing fails
+ */
+export function parseConfigContent(content: string, filePath: string, format?: ConfigFileFormat): ConfigFile {
+  const detectedFormat = format || detectConfigFileFormat(filePath);
+  switch (detectedFormat) {
+    case 'yaml':
+      return parseYamlConfig(content, filePath);
+    case 'json':
+      return parseJsonConfig(content, filePath);
+    case 'toml':
+      return parseTomlConfig(content, filePath);
+    default:
+      throw new Error(`Unsupported configuration file format: ${detectedFormat}`);
+  }
+}
+
 /**
  * Parses YAML configuration content
+ * ${VAR} references in provider api_key and base_url are expanded, and a
+ * yaml-language-server schema comment is read into `$schema`.
  * @param content - YAML content as string
  * @param filePath - File path for error reporting
  * @returns ConfigFile - Parsed configuration
@@ -219,8 +488,13 @@ export function parseYamlConfig(content: string, filePath: string): ConfigFile {
     if (typeof parsed !== 'object') {
       throw new Error('Configuration file must contain an object at the root level');
     }
+
+    const schemaUrl = readYamlSchemaHeader(content);
+    if (schemaUrl && parsed.$schema === undefined) {
+      parsed.$schema = schemaUrl;
+    }
     
-    return parsed as ConfigFile;
+    return interpolateConfigFile(parsed as ConfigFile);
   } catch (error) {
     if (error instanceof yaml.YAMLParseError) {
       throw new Error(`YAML parsing error in ${filePath} at line ${error.linePos?.[0]?.line || 'unknown'}: ${error.message}`);
@@ -234,6 +508,7 @@ export function parseYamlConfig(content: string, filePath: string): ConfigFile {
 
 /**
  * Parses JSON configuration content
+ * ${VAR} references in provider api_key and base_url are expanded.
  * @param content - JSON content as string
  * @param filePath - File path for error reporting
  * @returns ConfigFile - Parsed configuration
@@ -251,7 +526,7 @@ export function parseJsonConfig(content: string, filePath: string): ConfigFile {
       throw new Error('Configuration file must contain an object at the root level');
     }
     
-    return parsed as ConfigFile;
+    return interpolateConfigFile(parsed as ConfigFile);
   } catch (error) {
     if (error instanceof SyntaxError) {
       // Try to extract line number from error message
@@ -266,6 +541,36 @@ export function parseJsonConfig(content: string, filePath: string): ConfigFile {
   }
 }
 
+/**
+ * Parses TOML configuration content
+ * ${VAR} references in provider api_key and base_url are expanded, and a
+ * `#:schema` directive is read into `$schema`.
+ * @param content - TOML content as string
+ * @param filePath - File path for error reporting
+ * @returns ConfigFile - Parsed configuration
+ * @throws Error if TOML parsing fails
+ */
+export function parseTomlConfig(content: string, filePath: string): ConfigFile {
+  try {
+    const parsed = toml.parse(content) as Record<string, unknown>;
+
+    const schemaUrl = readTomlSchemaHeader(content);
+    if (schemaUrl && parsed['$schema'] === undefined) {
+      parsed['$schema'] = schemaUrl;
+    }
+
+    return interpolateConfigFile(parsed as unknown as ConfigFile);
+  } catch (error) {
+    if (error instanceof toml.TomlError) {
+      throw new Error(`TOML parsing error in ${filePath} at line ${error.line}: ${error.message.split('\n')[0]}`);
+    }
+    if (error instanceof Error) {
+      throw new Error(`TOML parsing error in ${filePath}: ${error.message}`);
+    }
+    throw new Error(`TOML parsing error in ${filePath}: Unknown error`);
+  }
+}
+
 /**
  * Checks if a file path is accessible for reading
  * @param filePath - Path to check
@@ -321,12 +626,12 @@ export function listPotentialConfigPaths(currentDir?: string): string[] {
   const paths: string[] = [];
   
   // Local configuration files
-  for (const fileName of [...CONFIG_FILE_NAMES.yaml, ...CONFIG_FILE_NAMES.json]) {
+  for (const fileName of ALL_CONFIG_FILE_NAMES) {
     paths.push(path.join(cwd, fileName));
   }
   
   // User configuration files
-  for (const fileName of [...CONFIG_FILE_NAMES.yaml, ...CONFIG_FILE_NAMES.json]) {
+  for (const fileName of ALL_CONFIG_FILE_NAMES) {
     paths.push(path.join(userConfigDir, fileName));
   }
   
@@ -335,6 +640,8 @@ export function listPotentialConfigPaths(currentDir?: string): string[] {
 
 /**
  * Saves a configuration file to disk
+ * An existing file only has the changed values rewritten; its comments,
+ * anchors, key order, quoting and indentation are kept.
  * @param config - Configuration object to save
  * @param filePath - Path where to save the configuration file
  * @param format - Format to save in (optional, auto-detected from file extension if not provided)
@@ -343,33 +650,7 @@ export function listPotentialConfigPaths(currentDir?: string): string[] {
  */
 export async function saveConfigFile(config: ConfigFile, filePath: string, format?: ConfigFileFormat): Promise<void> {
   try {
-    // Auto-detect format if not provided
-    const saveFormat = format || detectConfigFileFormat(filePath);
-    
-    // Convert config to string based on format
-    let configContent: string;
-    switch (saveFormat) {
-      case 'yaml':
-        configContent = serializeYamlConfig(config);
-        break;
-      case 'json':
-        configContent = serializeJsonConfig(config);
-        break;
-      default:
-        throw new Error(`Unsupported configuration file format: ${saveFormat}`);
-    }
-
-    // Ensure directory exists
-    const directory = path.dirname(filePath);
-    if (!fs.existsSync(directory)) {
-      fs.mkdirSync(directory, { recursive: true });
-    }
-
-    // Write file with proper permissions
-    fs.writeFileSync(filePath, configContent, { 
-      encoding: 'utf-8',
-      mode: 0o644 // Read/write for owner, read for group and others
-    });
+    writeConfigContent(renderConfigFile(config, filePath, format), filePath);
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to save configuration file "${filePath}": ${error.message}`);
@@ -378,6 +659,82 @@ export async function saveConfigFile(config: ConfigFile, filePath: string, forma
   }
 }
 
+/**
+ * Reads the current content of a file that is about to be rewritten
+ * @param filePath - Path of the file
+ * @returns Content, or null if the file does not exist or cannot be read
+ */
+function readExistingContent(filePath: string): string | null {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    const content = fs.readFileSync(filePath, 'utf-8');
+    return typeof content === 'string' ? content : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Renders the content a configuration file is saved with
+ * An existing YAML or JSON file is edited with minimal changes (see
+ * document-edit.ts) so comments and layout survive; new files and TOML files
+ * are serialized in full. Every write of a configuration file goes through here.
+ * @param config - Configuration about to be saved
+ * @param filePath - File it is saved to
+ * @param format - Format to save in (optional, auto-detected from file extension if not provided)
+ * @returns File content
+ * @throws Error if the format is not supported or serialization fails
+ */
+function renderConfigFile(config: ConfigFile, filePath: string, format?: ConfigFileFormat): string {
+  const saveFormat = format || detectConfigFileFormat(filePath);
+
+  // A merged configuration only writes the entries that belong in this file,
+  // and inherited values are not copied into entries that use `extends`
+  const fileConfig = extractLayerForSave(restoreInheritance(config), filePath);
+  const existing = readExistingContent(filePath);
+
+  if (existing === null) {
+    return serializeConfigFile(fileConfig, saveFormat);
+  }
+
+  switch (saveFormat) {
+    case 'yaml': {
+      const { $schema, ...content } = restoreRawValues(fileConfig);
+      const edited = updateYamlContent(existing, content as Record<string, unknown>);
+      if (edited === null) {
+        return serializeYamlConfig(fileConfig);
+      }
+      return $schema && readYamlSchemaHeader(edited) === null ? `${formatYamlSchemaHeader($schema)}\n${edited}` : edited;
+    }
+    case 'json':
+      return updateJsonContent(existing, restoreRawValues(fileConfig));
+    default:
+      // TOML files are rewritten in full
+      return serializeConfigFile(fileConfig, saveFormat);
+  }
+}
+
+/**
+ * Writes rendered configuration content, creating the directory if needed
+ * @param content - File content
+ * @param filePath - Path to write to
+ */
+function writeConfigContent(content: string, filePath: string): void {
+  // Ensure directory exists
+  const directory = path.dirname(filePath);
+  if (!fs.existsSync(directory)) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  // Write file with proper permissions
+  fs.writeFileSync(filePath, content, {
+    encoding: 'utf-8',
+    mode: 0o644 // Read/write for owner, read for group and others
+  });
+}
+
 /**
  * Saves and validates a configuration file
  * @param config - Configuration object to save
@@ -399,15 +756,27 @@ export async function saveAndValidateConfigFile(config: ConfigFile, filePath: st
   return validation;
 }
 
+/**
+ * Copies a configuration file next to itself before it is rewritten
+ * @param filePath - Path of the configuration file
+ * @returns Path of the backup (<file>.backup.<time>)
+ * @throws Error if the file cannot be copied
+ */
+export function backupConfigFile(filePath: string): string {
+  const backupPath = `${filePath}.backup.${Date.now()}`;
+  fs.copyFileSync(filePath, backupPath);
+  return backupPath;
+}
+
 /**
  * Updates an existing configuration file while preserving its format
  * @param config - Updated configuration object
  * @param originalFilePath - Path to the original configuration file
  * @param backupOriginal - Whether to create a backup of the original file (default: true)
- * @returns Promise<void>
+ * @returns Promise<string | null> - Path of the backup, or null if none was created
  * @throws Error if original file doesn't exist or cannot be updated
  */
-export async function updateConfigFile(config: ConfigFile, originalFilePath: string, backupOriginal: boolean = true): Promise<void> {
+export async function updateConfigFile(config: ConfigFile, originalFilePath: string, backupOriginal: boolean = true): Promise<string | null> {
   try {
     // Check if original file exists
     if (!fs.existsSync(originalFilePath)) {
@@ -415,14 +784,12 @@ export async function updateConfigFile(config: ConfigFile, originalFilePath: str
     }
 
     // Create backup if requested
-    if (backupOriginal) {
-      const backupPath = `${originalFilePath}.backup.${Date.now()}`;
-      fs.copyFileSync(originalFilePath, backupPath);
-    }
+    const backupPath = backupOriginal ? backupConfigFile(originalFilePath) : null;
 
     // Detect original format and save in the same format
     const originalFormat = detectConfigFileFormat(originalFilePath);
     await saveConfigFile(config, originalFilePath, originalFormat);
+    return backupPath;
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to update configuration file "${originalFilePath}": ${error.message}`);
@@ -433,16 +800,20 @@ export async function updateConfigFile(config: ConfigFile, originalFilePath: str
 
 /**
  * Serializes configuration to YAML format
+ * Interpolated values are written back as their original ${VAR} references,
+ * and `$schema` as a yaml-language-server comment.
  * @param config - Configuration object to serialize
  * @returns YAML string representation
  */
 export function serializeYamlConfig(config: ConfigFile): string {
   try {
-    return yaml.stringify(config, {
+    const { $schema, ...content } = restoreRawValues(config);
+    const serialized = yaml.stringify(content, {
       indent: 2,
       lineWidth: 120,
       minContentWidth: 20
     });
+    return $schema ? `${formatYamlSchemaHeader($schema)}\n${serialized}` : serialized;
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`YAML serialization error: ${error.message}`);
@@ -453,12 +824,13 @@ export function serializeYamlConfig(config: ConfigFile): string {
 
 /**
  * Serializes configuration to JSON format
+ * Interpolated values are written back as their original ${VAR} references.
  * @param config - Configuration object to serialize
  * @returns JSON string representation
  */
 export function serializeJsonConfig(config: ConfigFile): string {
   try {
-    return JSON.stringify(config, null, 2);
+    return JSON.stringify(restoreRawValues(config), null, 2);
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`JSON serialization error: ${error.message}`);
@@ -467,6 +839,47 @@ export function serializeJsonConfig(config: ConfigFile): string {
   }
 }
 
+/**
+ * Serializes configuration to TOML format
+ * Interpolated values are written back as their original ${VAR} references,
+ * and `$schema` as a `#:schema` directive.
+ * @param config - Configuration object to serialize
+ * @returns TOML string representation
+ */
+export function serializeTomlConfig(config: ConfigFile): string {
+  try {
+    // TOML has no null; drop undefined values the same way JSON does
+    const { $schema, ...content } = JSON.parse(JSON.stringify(restoreRawValues(config))) as ConfigFile;
+    const serialized = toml.stringify(content).replace(/\n*$/, '\n');
+    return $schema ? `${formatTomlSchemaHeader($schema)}\n\n${serialized}` : serialized;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`TOML serialization error: ${error.message}`);
+    }
+    throw new Error('TOML serialization error: Unknown error');
+  }
+}
+
+/**
+ * Serializes configuration in the given format
+ * @param config - Configuration object to serialize
+ * @param format - Format to serialize to
+ * @returns File content
+ * @throws Error if the format is not supported or serialization fails
+ */
+export function serializeConfigFile(config: ConfigFile, format: ConfigFileFormat): string {
+  switch (format) {
+    case 'yaml':
+      return serializeYamlConfig(config);
+    case 'json':
+      return serializeJsonConfig(config);
+    case 'toml':
+      return serializeTomlConfig(config);
+    default:
+      throw new Error(`Unsupported configuration file format: ${format}`);
+  }
+}
+
 /**
  * Creates a configuration file with default structure
  * @param filePath - Path where to create the configuration file
@@ -474,7 +887,10 @@ export function serializeJsonConfig(config: ConfigFile): string {
  * @returns Promise<void>
  */
 export async function createDefaultConfigFile(filePath: string, format?: ConfigFileFormat): Promise<void> {
+  // Editors use the schema for completion and to flag unknown keys
   const defaultConfig: ConfigFile = {
+    $schema: CONFIG_SCHEMA_URL,
+    version: CURRENT_CONFIG_VERSION,
     configs: [],
     providers: []
   };
@@ -494,8 +910,8 @@ export async function atomicSaveConfigFile(config: ConfigFile, filePath: string,
   const tempFilePath = `${filePath}.tmp.${Date.now()}`;
   
   try {
-    // Save to temporary file first
-    await saveConfigFile(config, tempFilePath, format);
+    // Save to temporary file first, edited from the current file
+    writeConfigContent(renderConfigFile(config, filePath, format), tempFilePath);
     
     // Atomically move temporary file to final location
     fs.renameSync(tempFilePath, filePath);
@@ -545,23 +961,33 @@ export function isFileWritable(filePath: string): boolean {
 
 /**
  * Gets the recommended configuration file path for saving
+ * The user directory is the one configuration discovery searches, so a file
+ * written there is found from any directory.
  * @param preferLocal - Whether to prefer local directory over user directory (default: true)
  * @param format - Preferred format (default: 'yaml')
+ * @param currentDir - Current working directory (optional, defaults to process.cwd())
  * @returns string - Recommended file path
  */
-export function getRecommendedConfigPath(preferLocal: boolean = true, format: ConfigFileFormat = 'yaml'): string {
-  const fileName = format === 'yaml' ? 'config.yaml' : 'config.json';
-  
+export function getRecommendedConfigPath(
+  preferLocal: boolean = true,
+  format: ConfigFileFormat = 'yaml',
+  currentDir?: string
+): string {
+  const fileName = CONFIG_FILE_NAMES[format][0]!;
+  const configPaths = getConfigPaths(currentDir);
+
   if (preferLocal) {
-    const localPath = path.join(process.cwd(), fileName);
-    if (isFileWritable(localPath) || isFileWritable(process.cwd())) {
+    const localPath = path.join(configPaths.currentDir, fileName);
+    if (isFileWritable(localPath) || isFileWritable(configPaths.currentDir)) {
       return localPath;
     }
   }
-  
+
   // Fall back to user directory
-  const userConfigDir = ensureUserConfigDirectory();
-  return path.join(userConfigDir, fileName);
+  if (!fs.existsSync(configPaths.userConfigDir)) {
+    fs.mkdirSync(configPaths.userConfigDir, { recursive: true });
+  }
+  return path.join(configPaths.userConfigDir, fileName);
 }
 
 /**
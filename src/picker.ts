@@ -0,0 +1,285 @@
+/**
+ * Interactive picker for Qwen Code Router
+ *
+ * Commands that are missing a configuration, provider or model offer a list to
+ * pick from when they run in a terminal: typing narrows the list by fuzzy
+ * search, the arrow keys move the selection, Enter picks and Esc or Ctrl+C
+ * cancels. Like the prompts, the picker draws on stderr, so `eval "$(qcr use)"`
+ * can still be used. Filtering, key handling and drawing are separate from the
+ * terminal so they can be tested.
+ */
+
+import * as readline from 'readline';
+import { ConfigFile } from './types';
+import { isInteractiveInput } from './prompt';
+import { findConfigurationByName, getConfigurationReference, getCurrentDefaultConfiguration, resolveAliases } from './resolver';
+import { getBuiltInProviders } from './provider-registry';
+import { formatHealthStatus, readHealthStatuses } from './health';
+
+/**
+ * Number of items shown at once
+ */
+const PICKER_HEIGHT = 10;
+
+/**
+ * An item of a picker
+ */
+export interface PickerItem {
+  /** Value returned when the item is picked */
+  value: string;
+  /** Text shown for the item */
+  label: string;
+  /** Dimmed text shown after the label; searched as well */
+  detail?: string;
+}
+
+/**
+ * State of a picker
+ */
+export interface PickerState {
+  /** Search text */
+  query: string;
+  /** Items matching the search, best first */
+  matches: PickerItem[];
+  /** Index of the selected match */
+  cursor: number;
+}
+
+/**
+ * Scores how well a search matches a text
+ * The characters of the search have to appear in the text in order
+ * (case-insensitively); adjacent characters and characters at the start of
+ * a word score higher.
+ * @param query - Search text
+ * @param text - Text to search in
+ * @returns Score (higher is better), or null if the text does not match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let position = -1;
+
+  for (const char of needle) {
+    const found = haystack.indexOf(char, position + 1);
+    if (found === -1) {
+      return null;
+    }
+    score += found === position + 1 ? 3 : 0;
+    score += found === 0 || /[\s/_\-.:#]/.test(haystack[found - 1]!) ? 2 : 0;
+    position = found;
+  }
+  return score - position / 100;
+}
+
+/**
+ * Filters items by a search
+ * @param items - Items
+ * @param query - Search text (all items match an empty search)
+ * @returns Matching items, best first (ties keep their order)
+ */
+export function filterPickerItems(items: PickerItem[], query: string): PickerItem[] {
+  if (!query.trim()) {
+    return items;
+  }
+  return items
+    .map((item, index) => ({ item, index, score: fuzzyScore(query, `${item.label} ${item.detail || ''}`) }))
+    .filter((entry): entry is { item: PickerItem; index: number; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.item);
+}
+
+/**
+ * Applies a key press to a picker
+ * @param items - All items
+ * @param state - Current state
+ * @param key - Key as reported by readline's keypress events
+ * @returns New state, or 'pick' / 'cancel' when the picker is done
+ */
+export function updatePicker(items: PickerItem[], state: PickerState, key: readline.Key): PickerState | 'pick' | 'cancel' {
+  const move = (cursor: number): PickerState => ({
+    ...state,
+    cursor: state.matches.length === 0 ? 0 : (cursor + state.matches.length) % state.matches.length
+  });
+  const search = (query: string): PickerState => ({ query, matches: filterPickerItems(items, query), cursor: 0 });
+
+  if ((key.ctrl && key.name === 'c') || key.name === 'escape') {
+    return 'cancel';
+  }
+  if (key.name === 'return' || key.name === 'enter') {
+    return state.matches.length > 0 ? 'pick' : state;
+  }
+  if (key.name === 'up' || (key.ctrl && key.name === 'p')) {
+    return move(state.cursor - 1);
+  }
+  if (key.name === 'down' || (key.ctrl && key.name === 'n') || key.name === 'tab') {
+    return move(state.cursor + 1);
+  }
+  if (key.name === 'backspace') {
+    return search(state.query.slice(0, -1));
+  }
+  if (key.ctrl && key.name === 'u') {
+    return search('');
+  }
+  if (!key.ctrl && !key.meta && key.sequence && key.sequence.length === 1 && key.sequence >= ' ' && key.sequence !== '\x7f') {
+    return search(state.query + key.sequence);
+  }
+  return state;
+}
+
+/**
+ * Draws a picker
+ * @param title - Question shown before the search text
+ * @param state - State to draw
+ * @param width - Terminal width; longer lines are cut so that they do not wrap
+ * @returns Lines (with ANSI styles)
+ */
+export function renderPicker(title: string, state: PickerState, width: number = 80): string[] {
+  const fit = (text: string, room: number) => text.length > room ? `${text.slice(0, Math.max(0, room - 1))}…` : text;
+  const lines = [`${title}: ${state.query}`];
+
+  const start = Math.max(0, Math.min(state.cursor - PICKER_HEIGHT + 1, state.matches.length - PICKER_HEIGHT));
+  state.matches.slice(start, start + PICKER_HEIGHT).forEach((item, offset) => {
+    const selected = start + offset === state.cursor;
+    const label = fit(item.label, width - 2);
+    const detail = item.detail ? fit(item.detail, width - label.length - 4) : '';
+    const text = `${selected ? '❯' : ' '} ${label}${detail ? `  \x1b[2m${detail}\x1b[22m` : ''}`;
+    lines.push(selected ? `\x1b[1m${text}\x1b[22m` : text);
+  });
+
+  const hidden = state.matches.length - Math.min(state.matches.length, PICKER_HEIGHT);
+  if (state.matches.length === 0) {
+    lines.push('  No matches');
+  } else if (hidden > 0) {
+    lines.push(`\x1b[2m  ${hidden} more - type to narrow the list\x1b[22m`);
+  }
+  return lines;
+}
+
+/**
+ * Checks whether a picker can be shown
+ * Both stdin (for the keys) and stderr (for the list) have to be terminals.
+ * @returns True in an interactive terminal
+ */
+export function isPickerAvailable(): boolean {
+  return isInteractiveInput() && !!process.stderr.isTTY && typeof process.stdin.setRawMode === 'function';
+}
+
+/**
+ * Lets the user pick an item in the terminal
+ * @param title - Question (e.g. "Configuration")
+ * @param items - Items to pick from
+ * @returns The picked item, or null if the picker was cancelled or there is nothing to pick
+ */
+export function pickItem(title: string, items: PickerItem[]): Promise<PickerItem | null> {
+  if (items.length === 0) {
+    return Promise.resolve(null);
+  }
+
+  const input = process.stdin;
+  const output = process.stderr;
+  const wasRaw = input.isRaw;
+  let state: PickerState = { query: '', matches: items, cursor: 0 };
+
+  // The cursor is kept after the search text on the first line; each drawing
+  // replaces everything below it
+  const draw = () => {
+    const lines = renderPicker(title, state, output.columns || 80);
+    const up = lines.length > 1 ? `\x1b[${lines.length - 1}A` : '';
+    output.write(`\r\x1b[0J${lines.join('\n')}${up}\r\x1b[${title.length + 2 + state.query.length}C`);
+  };
+
+  readline.emitKeypressEvents(input);
+  input.setRawMode(true);
+  input.resume();
+
+  return new Promise(resolve => {
+    const onKeypress = (_text: string | undefined, key: readline.Key | undefined) => {
+      const next = updatePicker(items, state, key || {});
+      if (next === 'pick' || next === 'cancel') {
+        input.removeListener('keypress', onKeypress);
+        input.setRawMode(wasRaw);
+        input.pause();
+        output.write('\r\x1b[0J');
+        resolve(next === 'pick' ? state.matches[state.cursor] || null : null);
+        return;
+      }
+      state = next;
+      draw();
+    };
+
+    input.on('keypress', onKeypress);
+    draw();
+  });
+}
+
+/**
+ * Builds the picker items of the configurations of a file
+ * @param config - Configuration file
+ * @param filePath - Path of the file (for the recorded health status)
+ * @returns Items showing provider, model, tags, default and the last 'chk --test-api' result
+ */
+export function getConfigurationPickerItems(config: ConfigFile, filePath: string): PickerItem[] {
+  const health = readHealthStatuses(filePath);
+  const defaultName = getCurrentDefaultConfiguration(config);
+  const defaultEntry = defaultName ? findConfigurationByName(defaultName, config) : null;
+
+  return config.configs.flatMap(group => group.config).map(entry => {
+    const reference = getConfigurationReference(entry, config);
+    const status = health[reference];
+    const detail = [
+      `${entry.provider}/${entry.model}`,
+      ...(entry.tags || []).map(tag => `#${tag}`),
+      ...(entry === defaultEntry ? ['(default)'] : []),
+      ...(status ? [formatHealthStatus(status)] : [])
+    ].join('  ');
+    return { value: reference, label: reference, detail };
+  });
+}
+
+/**
+ * Builds the picker items of the providers of the configuration file and the built-in catalog
+ * @param config - Configuration file (merged)
+ * @returns Items of the configured providers, then the built-in ones that are not configured
+ */
+export function getProviderPickerItems(config: ConfigFile): PickerItem[] {
+  const configured = config.providers.map(provider => ({
+    value: provider.provider,
+    label: provider.provider,
+    detail: `${provider.env.models.length} models  configured`
+  }));
+  const builtIn = Object.values(getBuiltInProviders())
+    .filter(preset => !config.providers.some(provider => provider.provider.toLowerCase() === preset.provider))
+    .map(preset => ({
+      value: preset.provider,
+      label: preset.provider,
+      detail: `${preset.models.length} models  built-in (${preset.name})`
+    }));
+  return [...configured, ...builtIn];
+}
+
+/**
+ * Builds the picker items of the models of a provider
+ * Models of a configured provider come from the file, others from the catalog.
+ * @param config - Configuration file (merged)
+ * @param providerName - Provider name or alias
+ * @returns Items, with the configurations that already use a model
+ */
+export function getModelPickerItems(config: ConfigFile, providerName: string): PickerItem[] {
+  const canonical = resolveAliases(providerName, undefined, config).provider.toLowerCase();
+  const configured = config.providers.find(provider => provider.provider.toLowerCase() === canonical);
+  const models = configured
+    ? configured.env.models.map(model => model.model)
+    : getBuiltInProviders()[canonical]?.models || [];
+
+  return models.map(model => {
+    const users = config.configs
+      .flatMap(group => group.config)
+      .filter(entry => {
+        const names = resolveAliases(entry.provider, entry.model, config);
+        return names.provider.toLowerCase() === canonical && names.model.toLowerCase() === model.toLowerCase();
+      })
+      .map(entry => getConfigurationReference(entry, config));
+    return { value: model, label: model, ...(users.length > 0 && { detail: `used by ${users.join(', ')}` }) };
+  });
+}
@@ -0,0 +1,129 @@
+/**
+ * Project pin files for Qwen Code Router
+ *
+ * A pin file (.qcr or .qcr.yaml) at a project root names the configuration that
+ * applies to that directory tree. The nearest pin file wins, so nested projects
+ * can pin a different configuration than their parent.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+
+/**
+ * Pin file names in order of precedence within a single directory
+ */
+export const PIN_FILE_NAMES = ['.qcr', '.qcr.yaml'] as const;
+
+/**
+ * Environment variable that records the pinned configuration applied by the shell hook
+ */
+export const PINNED_CONFIG_ENV_VAR = 'QCR_PINNED_CONFIG';
+
+/**
+ * Environment variable that records the pin file applied by the shell hook
+ */
+export const PIN_FILE_ENV_VAR = 'QCR_PIN_FILE';
+
+/**
+ * Environment variable that lists the variables whose values from before the
+ * pin was applied are saved (in QCR_PREV_<name>), so leaving can restore them
+ */
+export const PREVIOUS_VARS_ENV_VAR = 'QCR_PREV_VARS';
+
+/**
+ * Prefix of the variables that hold the values saved when a pin was applied
+ */
+export const PREVIOUS_VALUE_PREFIX = 'QCR_PREV_';
+
+/**
+ * Environment variable that records a pin file the shell hook could not apply,
+ * so that it is reported only once
+ */
+export const PIN_ERROR_ENV_VAR = 'QCR_PIN_ERROR';
+
+/**
+ * A configuration pinned by a pin file
+ */
+export interface PinnedConfiguration {
+  /** Name of the pinned configuration */
+  configName: string;
+  /** Absolute path of the pin file */
+  pinFile: string;
+  /** Directory containing the pin file (the project root) */
+  projectDir: string;
+}
+
+/**
+ * Reads the configuration name from a pin file
+ * Accepted formats are a bare configuration name (comments allowed) or a
+ * YAML mapping with a "config" key, e.g. `config: deepseek-r1`.
+ * @param filePath - Pin file path
+ * @returns Configuration name
+ * @throws Error if the file cannot be read or does not name a configuration
+ */
+export function readPinFile(filePath: string): string {
+  let parsed: unknown;
+  try {
+    parsed = yaml.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read pin file "${filePath}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    parsed = (parsed as Record<string, unknown>)['config'];
+  }
+
+  if (typeof parsed !== 'string' || !parsed.trim()) {
+    throw new Error(`Pin file "${filePath}" does not name a configuration. Expected a configuration name or "config: <name>"`);
+  }
+
+  return parsed.trim();
+}
+
+/**
+ * Finds the nearest pin file, searching from a directory up to the filesystem root
+ * @param startDir - Directory to start from (defaults to process.cwd())
+ * @returns Absolute pin file path or null if none applies
+ */
+export function findPinFile(startDir: string = process.cwd()): string | null {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    for (const fileName of PIN_FILE_NAMES) {
+      const candidate = path.join(dir, fileName);
+      try {
+        if (fs.statSync(candidate).isFile()) {
+          return candidate;
+        }
+      } catch {
+        // Not present in this directory
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Gets the configuration pinned for a directory
+ * @param startDir - Directory to start from (defaults to process.cwd())
+ * @returns PinnedConfiguration or null if no pin file applies
+ * @throws Error if the nearest pin file is invalid
+ */
+export function findPinnedConfiguration(startDir?: string): PinnedConfiguration | null {
+  const pinFile = findPinFile(startDir);
+  if (!pinFile) {
+    return null;
+  }
+
+  return {
+    configName: readPinFile(pinFile),
+    pinFile,
+    projectDir: path.dirname(pinFile)
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Terminal input helpers for Qwen Code Router
+ *
+ * Prompts are written to stderr so that commands whose stdout is evaluated by
+ * the shell (e.g. `eval "$(qcr use x)"`) can still ask for input.
+ */
+
+import * as readline from 'readline';
+
+/**
+ * Checks whether stdin is an interactive terminal
+ * @returns True if the user can be prompted
+ */
+export function isInteractiveInput(): boolean {
+  return !!process.stdin.isTTY;
+}
+
+/**
+ * Prompts for a line of input
+ * @param question - Prompt text
+ * @returns The entered line
+ */
+export function promptLine(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr, terminal: true });
+
+  return new Promise(resolve => {
+    rl.question(question, answer => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
+
+/**
+ * Prompts for input without echoing it (passphrases, API keys)
+ * @param question - Prompt text
+ * @returns The entered value
+ */
+export function promptHidden(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr, terminal: true });
+  const output = rl as unknown as { _writeToOutput: (text: string) => void };
+  let muted = false;
+
+  // readline has no option to hide input, so echo is suppressed once the prompt is shown
+  output._writeToOutput = (text: string) => {
+    if (!muted) {
+      process.stderr.write(text);
+    }
+  };
+
+  return new Promise(resolve => {
+    rl.question(question, answer => {
+      rl.close();
+      process.stderr.write('\n');
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+/**
+ * Reads all of stdin (for piped input)
+ * @returns Stdin contents
+ */
+export function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on('data', chunk => chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)));
+    process.stdin.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    process.stdin.on('error', reject);
+  });
+}
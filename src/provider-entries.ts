@@ -0,0 +1,271 @@
+/**
+ * Provider editing for Qwen Code Router
+ *
+ * `qcr provider add|remove|set-key|add-model|rm-model` change the `providers`
+ * of a loaded configuration file in memory; the command saves the result.
+ * Configurations that would no longer resolve after a provider or model is
+ * removed are found with the cross-reference validation, and are only removed
+ * along with it when cascading.
+ */
+
+import { ConfigEntry, ConfigFile, Provider } from './types';
+import { findProviderByName, getConfigurationReference, resolveAliases } from './resolver';
+import { getDeclaredProvider } from './inheritance';
+import { ConfigEditResult, removeConfigEntries } from './config-entries';
+import {
+  validateProvider,
+  validateProviderModelCrossReferences,
+  validateUniqueAliases,
+  validateUniqueProviderNames
+} from './validation';
+
+/**
+ * Values of a new provider
+ */
+export interface NewProvider {
+  /** Provider name */
+  name: string;
+  /** Base URL of the provider's API */
+  baseUrl: string;
+  /** API key (or a ${VAR} / vault: reference) */
+  apiKey: string;
+  /** Models of the provider */
+  models?: string[];
+}
+
+/**
+ * Options for removals that may cascade to the default configuration
+ */
+export interface RemovalOptions {
+  /** Configuration that becomes the default */
+  newDefault?: string;
+  /** Remove the default configuration without naming a new one */
+  force?: boolean;
+}
+
+/**
+ * Finds the provider an edit applies to
+ * @param name - Provider name or alias
+ * @param configFile - Configuration file
+ * @returns Provider, or an error message if it does not exist
+ */
+function findEditedProvider(name: string, configFile: ConfigFile): Provider | string {
+  return findProviderByName(name, configFile) || `Provider '${name}' does not exist`;
+}
+
+/**
+ * Finds the providers that inherit from a provider, directly or through other providers
+ * @param provider - Provider
+ * @param configFile - Configuration file
+ * @returns Inheriting providers
+ */
+function findInheritingProviders(provider: Provider, configFile: ConfigFile): Provider[] {
+  return configFile.providers
+    .filter(other => other !== provider && getDeclaredProvider(other).extends === provider.provider)
+    .flatMap(child => [child, ...findInheritingProviders(child, configFile)]);
+}
+
+/**
+ * Validates an added or changed provider and the names of the file
+ * @param provider - Provider (with inherited values)
+ * @param configFile - Configuration file after the edit
+ * @returns Error messages
+ */
+function validateEditedProvider(provider: Provider, configFile: ConfigFile): string[] {
+  const index = configFile.providers.indexOf(provider);
+  const label = `Provider '${provider.provider}'`;
+  const errors = [
+    ...validateProvider(provider, index).errors.map(error => error.replace(`providers[${index}]`, label)),
+    ...validateUniqueProviderNames(configFile.providers).errors,
+    ...validateUniqueAliases(configFile.providers).errors
+  ];
+  return [...new Set(errors)];
+}
+
+/**
+ * Finds the configuration entries whose provider or model does not resolve
+ * @param configFile - Configuration file
+ * @returns Entries that fail the cross-reference validation
+ */
+function findUnresolvedEntries(configFile: ConfigFile): ConfigEntry[] {
+  return configFile.configs
+    .flatMap(group => group.config)
+    .filter(entry => !validateProviderModelCrossReferences([{ config: [entry] }], configFile.providers).isValid);
+}
+
+/**
+ * Handles the configurations a removal leaves without their provider or model
+ * @param configFile - Configuration file after the removal (changed in place)
+ * @param unresolvedBefore - Entries that did not resolve before the removal
+ * @param subject - What was removed (e.g. "Provider 'openai'")
+ * @param cascade - Whether to remove the dependent configurations
+ * @param options - New default configuration, or force to remove the default anyway
+ * @returns ConfigEditResult
+ */
+function removeDependentEntries(
+  configFile: ConfigFile,
+  unresolvedBefore: ConfigEntry[],
+  subject: string,
+  cascade: boolean,
+  options: RemovalOptions
+): ConfigEditResult {
+  const dependents = findUnresolvedEntries(configFile).filter(entry => !unresolvedBefore.includes(entry));
+  if (dependents.length === 0) {
+    return { errors: [], changes: [] };
+  }
+  if (!cascade) {
+    const names = dependents.map(entry => `'${getConfigurationReference(entry, configFile)}'`).join(', ');
+    return {
+      errors: [`${subject} is used by ${names}. Use --cascade to remove ${dependents.length === 1 ? 'this configuration' : 'these configurations'} as well`],
+      changes: []
+    };
+  }
+  return removeConfigEntries(configFile, dependents, options);
+}
+
+/**
+ * Adds a provider
+ * @param configFile - Configuration file (changed in place)
+ * @param values - Values of the new provider
+ * @returns ConfigEditResult
+ */
+export function addProviderEntry(configFile: ConfigFile, values: NewProvider): ConfigEditResult {
+  const provider: Provider = {
+    provider: values.name,
+    env: {
+      api_key: values.apiKey,
+      base_url: values.baseUrl,
+      models: (values.models || []).map(model => ({ model }))
+    }
+  };
+
+  configFile.providers.push(provider);
+  return { errors: validateEditedProvider(provider, configFile), changes: [] };
+}
+
+/**
+ * Removes a provider
+ * Providers that other providers extend cannot be removed.
+ * @param configFile - Configuration file (changed in place)
+ * @param name - Provider name or alias
+ * @param cascade - Whether to remove the configurations that use the provider
+ * @param options - New default configuration, or force to remove the default anyway
+ * @returns ConfigEditResult
+ */
+export function removeProviderEntry(
+  configFile: ConfigFile,
+  name: string,
+  cascade: boolean = false,
+  options: RemovalOptions = {}
+): ConfigEditResult {
+  const provider = findEditedProvider(name, configFile);
+  if (typeof provider === 'string') {
+    return { errors: [provider], changes: [] };
+  }
+
+  const inheriting = findInheritingProviders(provider, configFile);
+  if (inheriting.length > 0) {
+    return { errors: [`Provider '${provider.provider}' is extended by ${inheriting.map(p => `'${p.provider}'`).join(', ')}`], changes: [] };
+  }
+
+  const unresolvedBefore = findUnresolvedEntries(configFile);
+  configFile.providers.splice(configFile.providers.indexOf(provider), 1);
+  return removeDependentEntries(configFile, unresolvedBefore, `Provider '${provider.provider}'`, cascade, options);
+}
+
+/**
+ * Replaces the API key of a provider
+ * api_key_cmd and api_key_file are removed so that the new key is used.
+ * @param configFile - Configuration file (changed in place)
+ * @param name - Provider name or alias
+ * @param apiKey - New API key (or a ${VAR} / vault: reference)
+ * @returns ConfigEditResult
+ */
+export function setProviderKey(configFile: ConfigFile, name: string, apiKey: string): ConfigEditResult {
+  const provider = findEditedProvider(name, configFile);
+  if (typeof provider === 'string') {
+    return { errors: [provider], changes: [] };
+  }
+
+  const changes = replaceApiKey(provider, apiKey);
+  return { errors: validateEditedProvider(provider, configFile), changes };
+}
+
+/**
+ * Replaces the API key sources of a provider entry with a key
+ * Also used on the file that defines the key when it is not the file in use.
+ * @param provider - Provider entry (changed in place; may be a partial entry of a key file)
+ * @param apiKey - New API key (or a ${VAR} / vault: reference)
+ * @returns Changes (the key sources that were removed)
+ */
+export function replaceApiKey(provider: Provider, apiKey: string): string[] {
+  const changes: string[] = [];
+  provider.env.api_key = apiKey;
+  for (const field of ['api_key_cmd', 'api_key_file'] as const) {
+    if (provider.env[field] !== undefined) {
+      delete provider.env[field];
+      changes.push(`Removed ${field}`);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Adds a model to a provider
+ * @param configFile - Configuration file (changed in place)
+ * @param name - Provider name or alias
+ * @param model - Model name
+ * @returns ConfigEditResult
+ */
+export function addProviderModel(configFile: ConfigFile, name: string, model: string): ConfigEditResult {
+  const provider = findEditedProvider(name, configFile);
+  if (typeof provider === 'string') {
+    return { errors: [provider], changes: [] };
+  }
+  if (provider.env.models?.some(m => m.model === model)) {
+    return { errors: [`Model '${model}' already exists in provider '${provider.provider}'`], changes: [] };
+  }
+
+  provider.env.models = [...(provider.env.models || []), { model }];
+  return { errors: validateEditedProvider(provider, configFile), changes: [] };
+}
+
+/**
+ * Removes a model from a provider
+ * Providers that inherit the model lose it as well. A model the provider
+ * inherits has to be removed from the provider that declares it.
+ * @param configFile - Configuration file (changed in place)
+ * @param name - Provider name or alias
+ * @param model - Model name or alias
+ * @param cascade - Whether to remove the configurations that use the model
+ * @param options - New default configuration, or force to remove the default anyway
+ * @returns ConfigEditResult
+ */
+export function removeProviderModel(
+  configFile: ConfigFile,
+  name: string,
+  model: string,
+  cascade: boolean = false,
+  options: RemovalOptions = {}
+): ConfigEditResult {
+  const provider = findEditedProvider(name, configFile);
+  if (typeof provider === 'string') {
+    return { errors: [provider], changes: [] };
+  }
+
+  const canonical = resolveAliases(provider.provider, model, configFile).model;
+  const declares = (p: Provider) => !!getDeclaredProvider(p).env?.models?.some(m => m.model === canonical);
+  if (!provider.env.models?.some(m => m.model === canonical)) {
+    return { errors: [`Model '${model}' does not exist in provider '${provider.provider}'`], changes: [] };
+  }
+  if (!declares(provider)) {
+    return { errors: [`Model '${model}' is inherited from provider '${getDeclaredProvider(provider).extends}'`], changes: [] };
+  }
+
+  const unresolvedBefore = findUnresolvedEntries(configFile);
+  const inheriting = findInheritingProviders(provider, configFile).filter(other => !declares(other));
+  for (const target of [provider, ...inheriting]) {
+    target.env.models = target.env.models.filter(m => m.model !== canonical);
+  }
+  return removeDependentEntries(configFile, unresolvedBefore, `Model '${canonical}' of provider '${provider.provider}'`, cascade, options);
+}
@@ -0,0 +1,257 @@
+/**
+ * Built-in provider registry for Qwen Code Router
+ *
+ * Built-in providers can be used by configurations without being defined in
+ * the configuration file. They are defined in builtin-provider.yaml, which is
+ * shipped next to dist/ (and embedded in pkg executables), and can be changed
+ * or extended by a builtin-providers.yaml file in the user configuration
+ * directory. Resolution, validation, /router, chk and list all read them here.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { getConfigPaths } from './platform';
+import { pickModelMetadata, validateModelMetadata } from './model-metadata';
+import { ModelMetadata } from './types';
+
+/**
+ * File name of the user-level built-in provider overrides
+ */
+export const USER_PROVIDERS_FILE_NAME = 'builtin-providers.yaml';
+
+/**
+ * Path of the bundled catalog
+ * pkg embeds files referenced with a literal path.join(__dirname, ...), so
+ * this expression must stay literal.
+ */
+const BUNDLED_PROVIDERS_PATH = path.join(__dirname, '..', 'builtin-provider.yaml');
+
+/**
+ * A built-in provider
+ */
+export interface BuiltInProvider {
+  /** Provider identifier in lowercase (e.g. "openai") */
+  provider: string;
+  /** Display name (e.g. "OpenAI") */
+  name: string;
+  /** Other names of the provider, in lowercase (e.g. "claude") */
+  aliases: string[];
+  /** API base URL */
+  baseUrl: string;
+  /** Known models */
+  models: string[];
+  /** Model aliases, mapped to the model they select (e.g. "opus") */
+  modelAliases: Record<string, string>;
+  /** "Latest" pointers from undated model names to the current dated model */
+  latest: Record<string, string>;
+  /** Context window, pricing and capabilities of the models that describe them */
+  modelMetadata: Record<string, ModelMetadata>;
+}
+
+/**
+ * A provider as written in a catalog file; overrides may leave out fields
+ */
+interface CatalogEntry {
+  provider: string;
+  name?: string;
+  aliases?: string[];
+  baseUrl?: string;
+  models?: string[];
+  modelAliases?: Record<string, string>;
+  latest?: Record<string, string>;
+  modelMetadata?: Record<string, ModelMetadata>;
+}
+
+/**
+ * Checks whether a value is a list of non-empty strings
+ * @param value - Value to check
+ * @returns True for arrays of non-empty strings
+ */
+function isNameList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '');
+}
+
+/** Providers of the bundled catalog, parsed on first use */
+let bundledProviders: CatalogEntry[] | null = null;
+
+/** Merged registry and the override file state it was built from */
+let cachedRegistry: { key: string; providers: Record<string, BuiltInProvider> } | null = null;
+
+/**
+ * Parses a provider catalog
+ * @param content - YAML content with a "providers" list
+ * @param filePath - File path (used in error messages)
+ * @returns Catalog entries in file order
+ * @throws Error if the content is not a valid catalog
+ */
+function parseCatalog(content: string, filePath: string): CatalogEntry[] {
+  let parsed: unknown;
+  try {
+    parsed = yaml.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse provider catalog ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return [];
+  }
+  const providers = typeof parsed === 'object' && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)['providers']
+    : undefined;
+  if (!Array.isArray(providers)) {
+    throw new Error(`Provider catalog ${filePath} must have a "providers" list`);
+  }
+
+  return providers.map((item, index) => {
+    const prefix = `Provider catalog ${filePath}: providers[${index}]`;
+    const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const env = (entry['env'] && typeof entry['env'] === 'object' ? entry['env'] : {}) as Record<string, unknown>;
+
+    if (typeof entry['provider'] !== 'string' || !entry['provider'].trim()) {
+      throw new Error(`${prefix} is missing "provider"`);
+    }
+    const result: CatalogEntry = { provider: entry['provider'].trim().toLowerCase() };
+
+    if (entry['name'] !== undefined) {
+      if (typeof entry['name'] !== 'string') {
+        throw new Error(`${prefix}.name must be a string`);
+      }
+      result.name = entry['name'];
+    }
+    if (entry['aliases'] !== undefined) {
+      if (!isNameList(entry['aliases'])) {
+        throw new Error(`${prefix}.aliases must be a list of names`);
+      }
+      result.aliases = entry['aliases'].map(alias => alias.trim().toLowerCase());
+    }
+    if (entry['latest'] !== undefined) {
+      const latest = entry['latest'];
+      if (!latest || typeof latest !== 'object' || Array.isArray(latest) ||
+          !Object.values(latest).every(model => typeof model === 'string' && model.trim() !== '')) {
+        throw new Error(`${prefix}.latest must map model names to model names`);
+      }
+      result.latest = { ...(latest as Record<string, string>) };
+    }
+    if (env['base_url'] !== undefined) {
+      if (typeof env['base_url'] !== 'string') {
+        throw new Error(`${prefix}.env.base_url must be a string`);
+      }
+      result.baseUrl = env['base_url'];
+    }
+    if (env['models'] !== undefined) {
+      const models = env['models'];
+      if (!Array.isArray(models) || !models.every(model => model && typeof model === 'object' && typeof model.model === 'string' &&
+          (model.aliases === undefined || isNameList(model.aliases)))) {
+        throw new Error(`${prefix}.env.models must be a list of { model: <name>, aliases?: [<name>] } entries`);
+      }
+      result.models = models.map(model => model.model as string);
+      result.modelAliases = {};
+      result.modelMetadata = {};
+      models.forEach((model, modelIndex) => {
+        for (const alias of (model.aliases || []) as string[]) {
+          result.modelAliases![alias.trim()] = model.model;
+        }
+        const metadataErrors = validateModelMetadata(model, `${prefix}.env.models[${modelIndex}]`);
+        if (metadataErrors.length > 0) {
+          throw new Error(metadataErrors[0]);
+        }
+        const metadata = pickModelMetadata(model);
+        if (Object.keys(metadata).length > 0) {
+          result.modelMetadata![model.model] = metadata;
+        }
+      });
+    }
+    return result;
+  });
+}
+
+/**
+ * Gets the path of the user-level built-in provider overrides
+ * @returns Path of builtin-providers.yaml in the user configuration directory
+ */
+export function getUserProvidersFilePath(): string {
+  return path.join(getConfigPaths().userConfigDir, USER_PROVIDERS_FILE_NAME);
+}
+
+/**
+ * Merges override entries onto catalog entries
+ * Fields given by an override replace those of the provider with the same
+ * name (model aliases and metadata are replaced along with the models);
+ * providers that are not in the catalog are added.
+ * @param base - Catalog entries
+ * @param overrides - Override entries
+ * @param filePath - Override file path (used in error messages)
+ * @returns Registry keyed by provider name, in catalog order
+ * @throws Error if a provider ends up without a base URL or models
+ */
+function mergeCatalogs(base: CatalogEntry[], overrides: CatalogEntry[], filePath: string): Record<string, BuiltInProvider> {
+  const merged = new Map<string, CatalogEntry>();
+  for (const entry of [...base, ...overrides]) {
+    merged.set(entry.provider, { ...merged.get(entry.provider), ...entry });
+  }
+
+  const providers: Record<string, BuiltInProvider> = {};
+  for (const entry of merged.values()) {
+    if (entry.baseUrl === undefined || entry.models === undefined) {
+      throw new Error(`Provider catalog ${filePath}: new provider "${entry.provider}" needs env.base_url and env.models`);
+    }
+    providers[entry.provider] = {
+      provider: entry.provider,
+      name: entry.name ?? entry.provider,
+      aliases: entry.aliases ?? [],
+      baseUrl: entry.baseUrl,
+      models: entry.models,
+      modelAliases: entry.modelAliases ?? {},
+      latest: entry.latest ?? {},
+      modelMetadata: entry.modelMetadata ?? {}
+    };
+  }
+  return providers;
+}
+
+/**
+ * Gets all built-in providers
+ * The bundled catalog is read once; the user overrides are re-read whenever
+ * the file changes.
+ * @returns Built-in providers keyed by lowercase provider name
+ * @throws Error if the bundled catalog is missing or a catalog is invalid
+ */
+export function getBuiltInProviders(): Record<string, BuiltInProvider> {
+  if (!bundledProviders) {
+    let content: string;
+    try {
+      content = fs.readFileSync(BUNDLED_PROVIDERS_PATH, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read built-in provider catalog ${BUNDLED_PROVIDERS_PATH}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    bundledProviders = parseCatalog(content, BUNDLED_PROVIDERS_PATH);
+  }
+
+  const userFile = getUserProvidersFilePath();
+  let userStat: fs.Stats | null = null;
+  try {
+    userStat = fs.statSync(userFile);
+  } catch {
+    // No overrides
+  }
+
+  const key = userStat ? `${userFile}:${userStat.mtimeMs}:${userStat.size}` : '';
+  if (cachedRegistry?.key !== key) {
+    const overrides = userStat ? parseCatalog(fs.readFileSync(userFile, 'utf-8'), userFile) : [];
+    cachedRegistry = { key, providers: mergeCatalogs(bundledProviders, overrides, userFile) };
+  }
+  return cachedRegistry.providers;
+}
+
+/**
+ * Gets a built-in provider by name
+ * Aliases are not looked up here; resolver.resolveAliases() handles them.
+ * @param providerName - Provider name (case-insensitive)
+ * @returns Built-in provider, or null if there is none by that name
+ */
+export function getBuiltInProvider(providerName: string): BuiltInProvider | null {
+  const providers = getBuiltInProviders();
+  const key = providerName.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(providers, key) ? providers[key]! : null;
+}
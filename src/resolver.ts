@@ -6,41 +6,22 @@
  */
 
 import {
+  Config,
   ConfigFile,
   ConfigEntry,
   Provider,
   EnvironmentVariables,
+  ModelMetadata,
   ValidationResult
 } from './types';
 import {
   setEnvironmentVariablesFromObject,
-  createEnvironmentVariables
+  createEnvironmentVariables,
+  applyConfigOverrides
 } from './environment';
-
-/**
- * Built-in provider mappings for predefined providers
- */
-export const BUILT_IN_PROVIDERS: Record<string, {
-  baseUrl: string;
-  models: string[];
-}> = {
-  openai: {
-    baseUrl: 'https://api.openai.com/v1',
-    models: ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo', 'gpt-3.5-turbo-16k']
-  },
-  azure: {
-    baseUrl: 'https://[resource].openai.azure.com/openai',
-    models: ['gpt-4', 'gpt-35-turbo', 'gpt-35-turbo-16k']
-  },
-  anthropic: {
-    baseUrl: 'https://api.anthropic.com/v1',
-    models: ['claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku', 'claude-2.1', 'claude-2.0']
-  },
-  google: {
-    baseUrl: 'https://generativelanguage.googleapis.com/v1',
-    models: ['gemini-pro', 'gemini-pro-vision', 'gemini-1.5-pro']
-  }
-};
+import { findUnresolvedReferences, hasLazyApiKey } from './interpolation';
+import { getBuiltInProvider, getBuiltInProviders } from './provider-registry';
+import { mergeModelMetadata } from './model-metadata';
 
 /**
  * Configuration resolution result
@@ -72,6 +53,13 @@ export function resolveConfigurationByName(configName: string, configFile: Confi
     // Find the configuration entry
     const configEntry = findConfigurationByName(configName, configFile);
     if (!configEntry) {
+      const matches = findConfigurationMatches(configName, configFile);
+      if (matches.length > 1) {
+        return {
+          success: false,
+          error: `Configuration "${configName}" is ambiguous. Use a qualified name: ${matches.map(entry => getConfigurationReference(entry, configFile)).join(', ')}`
+        };
+      }
       const availableConfigs = getAllConfigurationNames(configFile);
       return {
         success: false,
@@ -90,7 +78,8 @@ export function resolveConfigurationByName(configName: string, configFile: Confi
     }
 
     // Validate that the model is supported by the provider
-    const modelSupported = provider.env.models.some(m => m.model === configEntry.model);
+    const resolvedEntry = withCanonicalNames(configEntry, configFile);
+    const modelSupported = provider.env.models.some(m => m.model === resolvedEntry.model);
     if (!modelSupported) {
       const supportedModels = provider.env.models.map(m => m.model);
       return {
@@ -100,7 +89,7 @@ export function resolveConfigurationByName(configName: string, configFile: Confi
     }
 
     // Create environment variables
-    const envVars = createEnvironmentVariables(configEntry, provider);
+    const envVars = createEnvironmentVariables(resolvedEntry, provider);
 
     // Set environment variables if requested
     if (setEnvironmentVariables) {
@@ -110,7 +99,7 @@ export function resolveConfigurationByName(configName: string, configFile: Confi
     return {
       success: true,
       environmentVariables: envVars,
-      configEntry,
+      configEntry: resolvedEntry,
       provider,
       usedBuiltInProvider: false
     };
@@ -134,7 +123,9 @@ export function resolveConfigurationByProviderModel(
   modelName: string,
   configFile?: ConfigFile
 ): ResolutionResult {
-  const normalizedProvider = providerName.toLowerCase();
+  const names = resolveAliases(providerName, modelName, configFile);
+  const normalizedProvider = names.provider.toLowerCase();
+  modelName = names.model;
 
   try {
     // First, try to find in configuration file if provided
@@ -211,9 +202,9 @@ function resolveFromConfiguredProvider(providerName: string, modelName: string,
  * @returns ResolutionResult
  */
 function resolveFromBuiltInProvider(providerName: string, modelName: string): ResolutionResult {
-  const builtInProvider = BUILT_IN_PROVIDERS[providerName];
+  const builtInProvider = getBuiltInProvider(providerName);
   if (!builtInProvider) {
-    const availableProviders = Object.keys(BUILT_IN_PROVIDERS);
+    const availableProviders = Object.keys(getBuiltInProviders());
     return {
       success: false,
       error: `Built-in provider "${providerName}" not found. Available built-in providers: ${availableProviders.join(', ')}`
@@ -380,34 +371,211 @@ function generateBaseUrlForProvider(providerName: string, modelName: string, tem
   return templateUrl;
 }
 
+/**
+ * Finds the configuration entries a reference names
+ * A reference is a configuration name or, to tell apart configurations of
+ * the same name in different groups, a `group/name` qualified name.
+ * @param reference - Configuration name or qualified name
+ * @param configFile - Configuration file to search in
+ * @returns Matching entries (more than one if an unqualified name is ambiguous)
+ */
+export function findConfigurationMatches(reference: string, configFile: ConfigFile): ConfigEntry[] {
+  const named = configFile.configs.flatMap(configGroup => configGroup.config).filter(c => c.name === reference);
+  const separator = reference.indexOf('/');
+  if (named.length > 0 || separator === -1) {
+    return named;
+  }
+
+  const groupName = reference.substring(0, separator);
+  const configName = reference.substring(separator + 1);
+  return configFile.configs
+    .filter(configGroup => configGroup.group === groupName)
+    .flatMap(configGroup => configGroup.config)
+    .filter(c => c.name === configName);
+}
+
 /**
  * Finds a configuration entry by name
- * @param configName - Name of the configuration to find
+ * @param configName - Name or `group/name` qualified name of the configuration to find
  * @param configFile - Configuration file to search in
- * @returns ConfigEntry or null if not found
+ * @returns ConfigEntry or null if not found or if the name is ambiguous
  */
 export function findConfigurationByName(configName: string, configFile: ConfigFile): ConfigEntry | null {
-  for (const configGroup of configFile.configs) {
-    const config = configGroup.config.find(c => c.name === configName);
-    if (config) {
-      return config;
-    }
+  const matches = findConfigurationMatches(configName, configFile);
+  return matches.length === 1 ? matches[0]! : null;
+}
+
+/**
+ * Finds the group a configuration entry belongs to
+ * @param configEntry - Configuration entry of the file
+ * @param configFile - Configuration file containing the entry
+ * @returns Config group or null if the entry is not part of the file
+ */
+export function findConfigurationGroup(configEntry: ConfigEntry, configFile: ConfigFile): Config | null {
+  return configFile.configs.find(configGroup => configGroup.config.includes(configEntry)) || null;
+}
+
+/**
+ * Gets the name that refers to a configuration entry without ambiguity
+ * @param configEntry - Configuration entry of the file
+ * @param configFile - Configuration file containing the entry
+ * @returns The entry name, or `group/name` if other groups use the same name
+ */
+export function getConfigurationReference(configEntry: ConfigEntry, configFile: ConfigFile): string {
+  const group = findConfigurationGroup(configEntry, configFile)?.group;
+  if (group && findConfigurationMatches(configEntry.name, configFile).length > 1) {
+    return `${group}/${configEntry.name}`;
   }
-  return null;
+  return configEntry.name;
 }
 
 /**
- * Finds a provider by name
- * @param providerName - Name of the provider to find
+ * Finds a provider by name or alias
+ * @param providerName - Name or alias of the provider to find
  * @param configFile - Configuration file to search in
  * @returns Provider or null if not found
  */
 export function findProviderByName(providerName: string, configFile: ConfigFile): Provider | null {
-  return configFile.providers.find(p => p.provider === providerName) || null;
+  const { provider } = resolveAliases(providerName, undefined, configFile);
+  return configFile.providers.find(p => p.provider === provider) || null;
+}
+
+/**
+ * Provider and model names after alias resolution
+ */
+export interface ResolvedNames {
+  /** Canonical provider name (configured provider name or built-in provider key) */
+  provider: string;
+  /** Canonical model identifier (empty if no model was given) */
+  model: string;
+  /** Whether the provider or model was selected by an alias or "latest" pointer */
+  aliased: boolean;
+}
+
+/**
+ * Resolves provider and model aliases to canonical names
+ * All commands resolve aliases here. Provider names are matched against the
+ * configured providers and their aliases, then the built-in providers and
+ * theirs. Model names are matched against the provider's models and model
+ * aliases, then the built-in catalog's model aliases and "latest" pointers
+ * (for a configured provider only if it has the model they point to).
+ * Matching ignores case; names that match nothing are returned unchanged so
+ * that callers report them as unknown.
+ * @param providerName - Provider name or alias
+ * @param modelName - Model name or alias (optional)
+ * @param configFile - Configuration file (optional, for configured providers)
+ * @returns ResolvedNames
+ */
+export function resolveAliases(providerName: string, modelName: string | undefined, configFile?: ConfigFile): ResolvedNames {
+  const is = (name: string) => (candidate: unknown) => typeof candidate === 'string' && candidate.toLowerCase() === name.toLowerCase();
+  const providers = (Array.isArray(configFile?.providers) ? configFile!.providers : []).filter(p => p && typeof p.provider === 'string');
+
+  const configured =
+    providers.find(p => p.provider === providerName) ||
+    providers.find(p => is(providerName)(p.provider)) ||
+    providers.find(p => Array.isArray(p.aliases) && p.aliases.some(is(providerName)));
+  // The catalog is only read when the configured providers do not answer
+  const findBuiltIn = () => configured
+    ? getBuiltInProvider(configured.provider)
+    : getBuiltInProvider(providerName) || Object.values(getBuiltInProviders()).find(p => p.aliases.some(is(providerName))) || null;
+  const builtIn = configured ? null : findBuiltIn();
+  const provider = configured?.provider ?? builtIn?.provider ?? providerName;
+
+  let model = modelName ?? '';
+  if (modelName !== undefined) {
+    const models = Array.isArray(configured?.env?.models) ? configured!.env.models.filter(m => m && typeof m.model === 'string') : null;
+    const configuredModel =
+      models?.find(m => m.model === modelName) ||
+      models?.find(m => is(modelName)(m.model)) ||
+      models?.find(m => Array.isArray(m.aliases) && m.aliases.some(is(modelName)));
+
+    if (configuredModel) {
+      model = configuredModel.model;
+    } else {
+      const catalog = configured ? findBuiltIn() : builtIn;
+      const pointer = (targets: Record<string, string>) => Object.entries(targets).find(([name]) => is(modelName)(name))?.[1];
+      const builtInModel = catalog &&
+        (catalog.models.find(is(modelName)) ?? pointer(catalog.modelAliases) ?? pointer(catalog.latest));
+      if (builtInModel && (!models || models.some(m => m.model === builtInModel))) {
+        model = builtInModel;
+      }
+    }
+  }
+
+  return {
+    provider,
+    model,
+    aliased: provider.toLowerCase() !== providerName.toLowerCase() || model.toLowerCase() !== (modelName ?? '').toLowerCase()
+  };
+}
+
+/**
+ * Gets a configuration entry with its provider and model resolved to canonical names
+ * @param configEntry - Configuration entry
+ * @param configFile - Configuration file containing its provider
+ * @returns The entry itself if it uses canonical names, otherwise a resolved copy
+ */
+export function withCanonicalNames(configEntry: ConfigEntry, configFile: ConfigFile): ConfigEntry {
+  const names = resolveAliases(configEntry.provider, configEntry.model, configFile);
+  if (names.provider === configEntry.provider && names.model === configEntry.model) {
+    return configEntry;
+  }
+  return { ...configEntry, provider: names.provider, model: names.model };
+}
+
+/**
+ * Gets the aliases of each model of a provider
+ * Includes the built-in catalog's model aliases and "latest" pointers.
+ * @param providerName - Provider name or alias
+ * @param configFile - Configuration file (optional, for configured providers)
+ * @returns Aliases keyed by model name
+ */
+export function getModelAliases(providerName: string, configFile?: ConfigFile): Record<string, string[]> {
+  const { provider } = resolveAliases(providerName, undefined, configFile);
+  const aliases: Record<string, string[]> = {};
+  const add = (model: string, alias: string) => {
+    const list = (aliases[model] ||= []);
+    if (!list.some(existing => existing.toLowerCase() === alias.toLowerCase())) {
+      list.push(alias);
+    }
+  };
+
+  const configured = configFile && findProviderByName(provider, configFile);
+  for (const model of configured?.env.models || []) {
+    (Array.isArray(model.aliases) ? model.aliases : []).forEach(alias => add(model.model, alias));
+  }
+  const builtIn = getBuiltInProvider(provider);
+  if (builtIn) {
+    const serves = (model: string) => !configured || configured.env.models.some(m => m.model === model);
+    for (const [alias, model] of [...Object.entries(builtIn.modelAliases), ...Object.entries(builtIn.latest)]) {
+      if (serves(model)) {
+        add(model, alias);
+      }
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Gets the metadata of a model
+ * The built-in catalog's metadata is the base; a configured model entry
+ * replaces the fields it sets.
+ * @param providerName - Provider name or alias
+ * @param modelName - Model name or alias
+ * @param configFile - Configuration file (optional, for configured providers)
+ * @returns Known metadata of the model (empty if nothing is known)
+ */
+export function getModelMetadata(providerName: string, modelName: string, configFile?: ConfigFile): ModelMetadata {
+  const names = resolveAliases(providerName, modelName, configFile);
+  const configured = configFile && findProviderByName(names.provider, configFile);
+  const entry = configured?.env.models?.find(m => m.model === names.model);
+  const builtIn = getBuiltInProvider(names.provider)?.modelMetadata[names.model];
+  return mergeModelMetadata(builtIn || {}, entry || {});
 }
 
 /**
  * Gets all configuration names from the configuration file
+ * Names used in more than one group are qualified as `group/name`.
  * @param configFile - Configuration file to extract names from
  * @returns Array of configuration names
  */
@@ -415,12 +583,26 @@ export function getAllConfigurationNames(configFile: ConfigFile): string[] {
   const names: string[] = [];
   for (const configGroup of configFile.configs) {
     for (const config of configGroup.config) {
-      names.push(config.name);
+      names.push(getConfigurationReference(config, configFile));
     }
   }
   return names;
 }
 
+/**
+ * Finds the configuration entries that carry a tag
+ * Tags are matched case-insensitively.
+ * @param tag - Tag to look for
+ * @param configFile - Configuration file to search in
+ * @returns Matching entries in file order
+ */
+export function findConfigurationsByTag(tag: string, configFile: ConfigFile): ConfigEntry[] {
+  const wanted = tag.trim().toLowerCase();
+  return configFile.configs
+    .flatMap(configGroup => configGroup.config)
+    .filter(config => (config.tags || []).some(t => t.toLowerCase() === wanted));
+}
+
 /**
  * Gets all provider names from the configuration file
  * @param configFile - Configuration file to extract provider names from
@@ -450,8 +632,7 @@ export function getModelsForProvider(providerName: string, configFile: ConfigFil
  * @returns Array of model names or null if provider not found
  */
 export function getModelsForBuiltInProvider(providerName: string): string[] | null {
-  const normalizedProvider = providerName.toLowerCase();
-  const builtInProvider = BUILT_IN_PROVIDERS[normalizedProvider];
+  const builtInProvider = getBuiltInProvider(providerName);
   if (!builtInProvider) {
     return null;
   }
@@ -463,7 +644,7 @@ export function getModelsForBuiltInProvider(providerName: string): string[] | nu
  * @returns Array of built-in provider names
  */
 export function getBuiltInProviderNames(): string[] {
-  return Object.keys(BUILT_IN_PROVIDERS);
+  return Object.keys(getBuiltInProviders());
 }
 
 /**
@@ -472,7 +653,7 @@ export function getBuiltInProviderNames(): string[] {
  * @returns True if provider is built-in, false otherwise
  */
 export function isBuiltInProvider(providerName: string): boolean {
-  return Object.prototype.hasOwnProperty.call(BUILT_IN_PROVIDERS, providerName.toLowerCase());
+  return getBuiltInProvider(providerName) !== null;
 }
 
 /**
@@ -527,34 +708,41 @@ export function validateConfigurationResolution(configName: string, configFile:
     }
 
     // Check if model is supported by provider
-    const modelSupported = provider.env.models.some(m => m.model === configEntry.model);
+    const modelSupported = provider.env.models.some(m => m.model === withCanonicalNames(configEntry, configFile).model);
     if (!modelSupported) {
       const supportedModels = provider.env.models.map(m => m.model);
       errors.push(`Model "${configEntry.model}" is not supported by provider "${provider.provider}". Supported models: ${supportedModels.join(', ')}`);
     }
 
-    // Validate provider configuration
-    if (!provider.env.api_key || !provider.env.api_key.trim()) {
+    // Validate provider configuration, including the configuration's own api_key / base_url
+    const providerEnv = applyConfigOverrides(configEntry, provider);
+    const unresolvedApiKey = findUnresolvedReferences(providerEnv.api_key);
+    const unresolvedBaseUrl = findUnresolvedReferences(providerEnv.base_url);
+    if (unresolvedApiKey.length > 0) {
+      errors.push(`API key for provider "${provider.provider}" references unset environment variable(s): ${unresolvedApiKey.join(', ')}`);
+    } else if (!hasLazyApiKey(providerEnv) && (!providerEnv.api_key || !providerEnv.api_key.trim())) {
       errors.push(`Provider "${provider.provider}" is missing API key`);
     }
 
-    if (!provider.env.base_url || !provider.env.base_url.trim()) {
+    if (!providerEnv.base_url || !providerEnv.base_url.trim()) {
       errors.push(`Provider "${provider.provider}" is missing base URL`);
+    } else if (unresolvedBaseUrl.length > 0) {
+      errors.push(`Base URL for provider "${provider.provider}" references unset environment variable(s): ${unresolvedBaseUrl.join(', ')}`);
     } else {
       // Validate URL format
       try {
-        new URL(provider.env.base_url);
+        new URL(providerEnv.base_url);
       } catch {
-        errors.push(`Provider "${provider.provider}" has invalid base URL: ${provider.env.base_url}`);
+        errors.push(`Provider "${provider.provider}" has invalid base URL: ${providerEnv.base_url}`);
       }
     }
 
     // Add warnings for potential issues
-    if (provider.env.api_key && provider.env.api_key.length < 10) {
+    if (providerEnv.api_key && providerEnv.api_key.length < 10) {
       warnings.push(`API key for provider "${provider.provider}" seems unusually short`);
     }
 
-    if (provider.env.base_url && !provider.env.base_url.startsWith('https://')) {
+    if (providerEnv.base_url && !providerEnv.base_url.startsWith('https://')) {
       warnings.push(`Base URL for provider "${provider.provider}" does not use HTTPS`);
     }
 
@@ -583,7 +771,9 @@ export function validateProviderModelResolution(
 ): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
-  const normalizedProvider = providerName.toLowerCase();
+  const names = resolveAliases(providerName, modelName, configFile);
+  const normalizedProvider = names.provider.toLowerCase();
+  modelName = names.model;
 
   try {
     // First check configured providers if config file is provided
@@ -597,7 +787,10 @@ export function validateProviderModelResolution(
           errors.push(`Model "${modelName}" is not supported by configured provider "${providerName}". Supported models: ${supportedModels.join(', ')}`);
         }
 
-        if (!provider.env.api_key || !provider.env.api_key.trim()) {
+        const unresolvedApiKey = findUnresolvedReferences(provider.env.api_key);
+        if (unresolvedApiKey.length > 0) {
+          errors.push(`API key for configured provider "${providerName}" references unset environment variable(s): ${unresolvedApiKey.join(', ')}`);
+        } else if (!hasLazyApiKey(provider.env) && (!provider.env.api_key || !provider.env.api_key.trim())) {
           errors.push(`Configured provider "${providerName}" is missing API key`);
         }
 
@@ -610,9 +803,9 @@ export function validateProviderModelResolution(
     }
 
     // Check built-in providers
-    const builtInProvider = BUILT_IN_PROVIDERS[normalizedProvider];
+    const builtInProvider = getBuiltInProvider(normalizedProvider);
     if (!builtInProvider) {
-      const availableBuiltIn = Object.keys(BUILT_IN_PROVIDERS);
+      const availableBuiltIn = Object.keys(getBuiltInProviders());
       const availableConfigured = configFile ? getAllProviderNames(configFile) : [];
       const allAvailable = [...availableConfigured, ...availableBuiltIn];
       errors.push(`Provider "${providerName}" not found. Available providers: ${allAvailable.join(', ')}`);
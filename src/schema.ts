@@ -0,0 +1,383 @@
+/**
+ * JSON Schema for Qwen Code Router configuration files
+ *
+ * The schema describes ConfigFile, Provider, ProviderEnv, ConfigEntry and
+ * DefaultConfig. It is printed by `qcr schema`, shipped as qcr.schema.json and
+ * referenced from new configuration files so editors can offer completion.
+ * Validation uses it to detect unknown (usually misspelled) keys.
+ */
+
+/**
+ * Public location of the schema, used in `$schema` references
+ */
+export const CONFIG_SCHEMA_URL = 'https://raw.githubusercontent.com/babeloo/qwen-code-router/main/qcr.schema.json';
+
+/**
+ * Matches the comment that points the YAML language server at a schema
+ */
+const YAML_SCHEMA_HEADER_PATTERN = /^#\s*yaml-language-server:\s*\$schema=(\S+)\s*$/;
+
+/**
+ * Formats the comment that points the YAML language server at a schema
+ * YAML files carry `$schema` in this comment instead of a key.
+ * @param schemaUrl - Schema location
+ * @returns Comment line
+ */
+export function formatYamlSchemaHeader(schemaUrl: string): string {
+  return `# yaml-language-server: $schema=${schemaUrl}`;
+}
+
+/**
+ * Reads the schema location from the leading comments of a YAML file
+ * @param content - YAML content
+ * @returns Schema location, or null if the file has no schema comment
+ */
+export function readYamlSchemaHeader(content: string): string | null {
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim().startsWith('#')) {
+      break;
+    }
+    const match = line.trim().match(YAML_SCHEMA_HEADER_PATTERN);
+    if (match) {
+      return match[1]!;
+    }
+  }
+  return null;
+}
+
+/**
+ * Matches the directive that points TOML language servers (Taplo) at a schema
+ */
+const TOML_SCHEMA_HEADER_PATTERN = /^#:schema\s+(\S+)\s*$/;
+
+/**
+ * Formats the directive that points TOML language servers at a schema
+ * TOML files carry `$schema` in this directive instead of a key.
+ * @param schemaUrl - Schema location
+ * @returns Directive line
+ */
+export function formatTomlSchemaHeader(schemaUrl: string): string {
+  return `#:schema ${schemaUrl}`;
+}
+
+/**
+ * Reads the schema location from the leading comments of a TOML file
+ * @param content - TOML content
+ * @returns Schema location, or null if the file has no schema directive
+ */
+export function readTomlSchemaHeader(content: string): string | null {
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === '') {
+      continue;
+    }
+    if (!line.trim().startsWith('#')) {
+      break;
+    }
+    const match = line.trim().match(TOML_SCHEMA_HEADER_PATTERN);
+    if (match) {
+      return match[1]!;
+    }
+  }
+  return null;
+}
+
+/**
+ * Subset of JSON Schema used by the configuration schema
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+  propertyNames?: JsonSchema;
+}
+
+/**
+ * JSON Schema of a configuration file
+ */
+const CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: CONFIG_SCHEMA_URL,
+  title: 'Qwen Code Router configuration',
+  description: 'Configuration file for qcr (config.yaml / config.json / config.toml). Included files may omit configs or providers.',
+  type: 'object',
+  properties: {
+    $schema: { type: 'string', description: 'JSON Schema of this file' },
+    version: { type: 'integer', minimum: 1, description: 'Version of the file format (1 if omitted; run qcr migrate to upgrade)' },
+    merge: { type: 'boolean', description: 'Merge this file with the user and system configuration files' },
+    include: {
+      description: 'Other configuration files to compose into this one (relative paths, ~ and globs)',
+      oneOf: [
+        { type: 'string' },
+        { type: 'array', items: { type: 'string' } }
+      ]
+    },
+    default_config: {
+      type: 'array',
+      description: 'Default configuration',
+      items: { $ref: '#/definitions/DefaultConfig' }
+    },
+    configs: {
+      type: 'array',
+      description: 'Groups of named configurations',
+      items: { $ref: '#/definitions/Config' }
+    },
+    providers: {
+      type: 'array',
+      description: 'Provider definitions',
+      items: { $ref: '#/definitions/Provider' }
+    }
+  },
+  additionalProperties: false,
+  definitions: {
+    DefaultConfig: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, description: 'Name of the configuration to use as default' }
+      },
+      required: ['name'],
+      additionalProperties: false
+    },
+    Config: {
+      type: 'object',
+      properties: {
+        group: { type: 'string', pattern: '^[^/]+$', description: "Group name; entries can be referred to as 'group/name'" },
+        description: { type: 'string', description: 'What the configurations of the group are for' },
+        config: {
+          type: 'array',
+          description: 'Named configuration entries',
+          items: { $ref: '#/definitions/ConfigEntry' }
+        }
+      },
+      required: ['config'],
+      additionalProperties: false
+    },
+    ConfigEntry: {
+      type: 'object',
+      description: 'Maps a name to a provider and model',
+      properties: {
+        name: { type: 'string', minLength: 1, description: 'Unique configuration name' },
+        provider: { type: 'string', minLength: 1, description: 'Provider to use' },
+        model: { type: 'string', minLength: 1, description: 'Model of the provider to use' },
+        extends: { type: 'string', minLength: 1, description: 'Configuration whose settings this configuration inherits' },
+        description: { type: 'string', description: 'What the configuration is for' },
+        tags: {
+          type: 'array',
+          description: 'Labels to filter configurations by (qcr list config --tag, chk --tag, use --tag)',
+          items: { type: 'string', minLength: 1 }
+        },
+        api_key: { type: 'string', minLength: 1, description: "API key to use instead of the provider's (supports ${VAR} and vault:name)" },
+        base_url: { type: 'string', minLength: 1, description: "Base URL to use instead of the provider's (supports ${VAR})" },
+        env: {
+          type: 'object',
+          description: 'Additional environment variables (e.g. OPENAI_ORG_ID)',
+          propertyNames: { pattern: '^[A-Za-z_][A-Za-z0-9_]*$' },
+          additionalProperties: { type: 'string' }
+        },
+        args: {
+          type: 'array',
+          description: 'Arguments passed to qwen by default',
+          items: { type: 'string' }
+        }
+      },
+      required: ['name'],
+      additionalProperties: false
+    },
+    Provider: {
+      type: 'object',
+      properties: {
+        provider: { type: 'string', minLength: 1, description: 'Provider name' },
+        aliases: {
+          type: 'array',
+          description: 'Other names the provider can be selected by',
+          items: { type: 'string', minLength: 1 }
+        },
+        extends: { type: 'string', minLength: 1, description: 'Provider (configured or built-in) whose settings this provider inherits' },
+        env: { $ref: '#/definitions/ProviderEnv' }
+      },
+      required: ['provider'],
+      additionalProperties: false
+    },
+    ProviderEnv: {
+      type: 'object',
+      description: 'API credentials, endpoint and models of a provider',
+      properties: {
+        api_key: { type: 'string', description: 'API key (supports ${VAR}, ${VAR:-fallback} and vault:name)' },
+        api_key_cmd: { type: 'string', description: 'Command whose output is the API key' },
+        api_key_file: { type: 'string', description: 'File containing the API key' },
+        base_url: { type: 'string', description: 'Base URL of the OpenAI-compatible API (supports ${VAR})' },
+        models: {
+          type: 'array',
+          description: 'Models supported by the provider',
+          items: { $ref: '#/definitions/ModelEntry' }
+        }
+      },
+      additionalProperties: false
+    },
+    ModelEntry: {
+      type: 'object',
+      properties: {
+        model: { type: 'string', minLength: 1, description: 'Model identifier' },
+        aliases: {
+          type: 'array',
+          description: 'Other names the model can be selected by',
+          items: { type: 'string', minLength: 1 }
+        },
+        context_window: { type: 'integer', minimum: 1, description: 'Context window in tokens' },
+        max_output_tokens: { type: 'integer', minimum: 1, description: 'Maximum number of output tokens' },
+        input_price: { type: 'number', minimum: 0, description: 'Price of input tokens in USD per million tokens' },
+        output_price: { type: 'number', minimum: 0, description: 'Price of output tokens in USD per million tokens' },
+        output_speed: { type: 'number', minimum: 0, description: 'Typical output speed in tokens per second' },
+        capabilities: {
+          type: 'object',
+          description: 'Capabilities of the model (capabilities that are not listed are unknown)',
+          properties: {
+            tools: { type: 'boolean', description: 'Tool (function) calling, which Qwen Code needs' },
+            vision: { type: 'boolean', description: 'Image input' },
+            reasoning: { type: 'boolean', description: 'Extended reasoning' },
+            streaming: { type: 'boolean', description: 'Streamed responses' }
+          },
+          additionalProperties: false
+        }
+      },
+      required: ['model'],
+      additionalProperties: false
+    }
+  }
+};
+
+/**
+ * Gets the JSON Schema of configuration files
+ * @returns A copy of the schema
+ */
+export function getConfigSchema(): JsonSchema {
+  return JSON.parse(JSON.stringify(CONFIG_SCHEMA));
+}
+
+/**
+ * Resolves a local `$ref` of the configuration schema
+ * @param schema - Schema that may be a reference
+ * @returns Referenced schema
+ */
+function resolveRef(schema: JsonSchema): JsonSchema {
+  const name = schema.$ref?.replace('#/definitions/', '');
+  return name !== undefined ? CONFIG_SCHEMA.definitions?.[name] || schema : schema;
+}
+
+/**
+ * Computes the edit distance between two strings
+ * Swapping two adjacent characters counts as a single edit.
+ * @param a - First string
+ * @param b - Second string
+ * @returns Optimal string alignment distance
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(d[i - 1]![j]! + 1, d[i]![j - 1]! + 1, d[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, d[i - 2]![j - 2]! + 1);
+      }
+      d[i]![j] = distance;
+    }
+  }
+  return d[a.length]![b.length]!;
+}
+
+/**
+ * Suggests the valid key closest to an unknown key
+ * Keys that only differ in case, "-" or "_" (base-url, apikey) match first.
+ * @param key - Unknown key
+ * @param validKeys - Keys allowed at that position
+ * @returns Suggested key, or null if none is close enough
+ */
+export function suggestKey(key: string, validKeys: string[]): string | null {
+  const normalize = (value: string) => value.toLowerCase().replace(/[-_\s]/g, '');
+  const exact = validKeys.find(valid => normalize(valid) === normalize(key));
+  if (exact) {
+    return exact;
+  }
+
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const valid of validKeys) {
+    const distance = editDistance(normalize(key), normalize(valid));
+    if (distance < bestDistance) {
+      best = valid;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= Math.max(1, Math.floor(key.length / 3)) ? best : null;
+}
+
+/**
+ * Formats an unknown key message
+ * @param path - Location of the object ('' for the root)
+ * @param key - Unknown key
+ * @param validKeys - Keys allowed at that position
+ * @returns Message in the "path: message" format of validation results
+ */
+function formatUnknownKey(path: string, key: string, validKeys: string[]): string {
+  const suggestion = suggestKey(key, validKeys);
+  const hint = suggestion ? ` (did you mean "${suggestion}"?)` : '';
+  return path ? `${path}: unknown key "${key}"${hint}` : `Unknown key "${key}"${hint}`;
+}
+
+/**
+ * Collects unknown keys of a value against a schema
+ * @param value - Value to inspect
+ * @param schema - Schema of the value
+ * @param path - Location of the value
+ * @param messages - Messages collected so far
+ */
+function collectUnknownKeys(value: unknown, schema: JsonSchema, path: string, messages: string[]): void {
+  const resolved = resolveRef(schema);
+
+  if (Array.isArray(value)) {
+    if (resolved.items) {
+      value.forEach((item, index) => collectUnknownKeys(item, resolved.items!, `${path}[${index}]`, messages));
+    }
+    return;
+  }
+
+  if (!value || typeof value !== 'object' || !resolved.properties) {
+    return;
+  }
+
+  const validKeys = Object.keys(resolved.properties);
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    const childSchema = resolved.properties[key];
+    if (childSchema) {
+      collectUnknownKeys(child, childSchema, path ? `${path}.${key}` : key, messages);
+    } else if (resolved.additionalProperties === false) {
+      messages.push(formatUnknownKey(path, key, validKeys));
+    }
+  }
+}
+
+/**
+ * Finds keys of a configuration that the schema does not know
+ * Such keys are otherwise silently ignored, which hides typos like `base-url`.
+ * @param config - Parsed configuration
+ * @returns One message per unknown key, with a suggestion where one is close
+ */
+export function findUnknownKeys(config: unknown): string[] {
+  const messages: string[] = [];
+  collectUnknownKeys(config, CONFIG_SCHEMA, '', messages);
+  return messages;
+}
@@ -0,0 +1,247 @@
+/**
+ * Capability-based configuration selection for Qwen Code Router
+ *
+ * `qcr use --need tools,vision,128k` picks among the defined configurations
+ * those whose model has the requested capabilities and context window, using
+ * the model metadata of the configuration file and the built-in catalog.
+ */
+
+import { ConfigFile, ModelCapability, ModelMetadata } from './types';
+import {
+  findConfigurationByName,
+  getConfigurationReference,
+  getCurrentDefaultConfiguration,
+  getModelMetadata,
+  withCanonicalNames
+} from './resolver';
+import { MODEL_CAPABILITIES, formatPrice, formatTokenCount } from './model-metadata';
+
+/**
+ * How qualifying configurations are ranked
+ */
+export type SelectionPolicy = 'cheapest' | 'default' | 'fastest';
+
+/**
+ * Supported selection policies
+ */
+export const SELECTION_POLICIES: SelectionPolicy[] = ['cheapest', 'default', 'fastest'];
+
+/**
+ * Requirements a configuration's model must meet
+ */
+export interface ModelRequirements {
+  /** Capabilities the model must support */
+  capabilities: ModelCapability[];
+  /** Minimum context window in tokens */
+  minContextWindow?: number;
+}
+
+/**
+ * A configuration considered by the selection
+ */
+export interface SelectionCandidate {
+  /** Configuration name (`group/name` if other groups use the name) */
+  name: string;
+  /** Canonical provider name */
+  provider: string;
+  /** Canonical model name */
+  model: string;
+  /** Known metadata of the model */
+  metadata: ModelMetadata;
+  /** Whether this is the default configuration */
+  isDefault: boolean;
+  /** Why the configuration does not qualify (empty for candidates) */
+  reasons: string[];
+}
+
+/**
+ * Result of a selection
+ */
+export interface SelectionResult {
+  /** Qualifying configurations, best first */
+  candidates: SelectionCandidate[];
+  /** Configurations that do not qualify, in file order */
+  rejected: SelectionCandidate[];
+}
+
+/**
+ * Parses a --need value such as "tools,vision,128k"
+ * @param value - Comma-separated capabilities and at most one context size
+ * @returns Parsed requirements or error
+ */
+export function parseModelRequirements(value: string | undefined): {
+  valid: boolean;
+  requirements?: ModelRequirements;
+  error?: string;
+} {
+  const items = (value || '').split(',').map(item => item.trim().toLowerCase()).filter(item => item !== '');
+  if (items.length === 0) {
+    return { valid: false, error: `--need requires a list such as tools,vision,128k` };
+  }
+
+  const requirements: ModelRequirements = { capabilities: [] };
+  for (const item of items) {
+    const size = item.match(/^(\d+(?:\.\d+)?)([km]?)$/);
+    if (MODEL_CAPABILITIES.includes(item as ModelCapability)) {
+      if (!requirements.capabilities.includes(item as ModelCapability)) {
+        requirements.capabilities.push(item as ModelCapability);
+      }
+    } else if (size) {
+      const tokens = Math.round(Number(size[1]) * (size[2] === 'm' ? 1000000 : size[2] === 'k' ? 1000 : 1));
+      requirements.minContextWindow = Math.max(requirements.minContextWindow ?? 0, tokens);
+    } else {
+      return {
+        valid: false,
+        error: `Unknown requirement '${item}'. Use ${MODEL_CAPABILITIES.join(', ')} or a context size such as 128k`
+      };
+    }
+  }
+
+  return { valid: true, requirements };
+}
+
+/**
+ * Formats requirements as they are written on the command line
+ * @param requirements - Requirements
+ * @returns Formatted requirements (e.g. "tools,vision,128k")
+ */
+export function formatModelRequirements(requirements: ModelRequirements): string {
+  const items: string[] = [...requirements.capabilities];
+  if (requirements.minContextWindow !== undefined) {
+    items.push(formatTokenCount(requirements.minContextWindow));
+  }
+  return items.join(',');
+}
+
+/**
+ * Lists why a model does not meet requirements
+ * Capabilities and context windows that are not known do not qualify.
+ * @param metadata - Model metadata
+ * @param requirements - Requirements
+ * @returns Reasons (empty if the model qualifies)
+ */
+function findUnmetRequirements(metadata: ModelMetadata, requirements: ModelRequirements): string[] {
+  const reasons: string[] = [];
+  for (const capability of requirements.capabilities) {
+    const flag = metadata.capabilities?.[capability];
+    if (flag === undefined) {
+      reasons.push(`${capability} support unknown`);
+    } else if (!flag) {
+      reasons.push(`no ${capability} support`);
+    }
+  }
+
+  if (requirements.minContextWindow !== undefined) {
+    if (metadata.context_window === undefined) {
+      reasons.push('context window unknown');
+    } else if (metadata.context_window < requirements.minContextWindow) {
+      reasons.push(`context window ${formatTokenCount(metadata.context_window)} < ${formatTokenCount(requirements.minContextWindow)}`);
+    }
+  }
+  return reasons;
+}
+
+/**
+ * Gets the value a policy ranks by; lower is better
+ * Configurations without the metadata a policy needs rank last.
+ * @param candidate - Candidate
+ * @param policy - Selection policy
+ * @returns Rank value
+ */
+function getRankValue(candidate: SelectionCandidate, policy: SelectionPolicy): number {
+  const { input_price, output_price, output_speed } = candidate.metadata;
+  switch (policy) {
+    case 'cheapest':
+      return input_price !== undefined && output_price !== undefined ? input_price + output_price : Infinity;
+    case 'fastest':
+      return output_speed !== undefined ? -output_speed : Infinity;
+    default:
+      return candidate.isDefault ? 0 : 1;
+  }
+}
+
+/**
+ * Selects the configurations whose model meets requirements
+ * Candidates are ranked by the policy; ties keep the default configuration
+ * first and then the order of the configuration file.
+ * @param configFile - Configuration file
+ * @param requirements - Requirements
+ * @param policy - Selection policy
+ * @param configNames - Configurations to consider (optional - all if not set)
+ * @returns SelectionResult
+ */
+export function selectConfigurations(
+  configFile: ConfigFile,
+  requirements: ModelRequirements,
+  policy: SelectionPolicy,
+  configNames?: string[]
+): SelectionResult {
+  const defaultName = getCurrentDefaultConfiguration(configFile);
+  const defaultEntry = defaultName ? findConfigurationByName(defaultName, configFile) : null;
+  const entries = configFile.configs
+    .flatMap(c => c.config)
+    .map(entry => ({ entry, name: getConfigurationReference(entry, configFile) }))
+    .filter(({ name }) => !configNames || configNames.includes(name));
+  const considered = entries.map(({ entry, name }): SelectionCandidate => {
+    const { provider, model } = withCanonicalNames(entry, configFile);
+    const metadata = getModelMetadata(provider, model, configFile);
+    return {
+      name,
+      provider,
+      model,
+      metadata,
+      isDefault: entry === defaultEntry,
+      reasons: findUnmetRequirements(metadata, requirements)
+    };
+  });
+
+  const candidates = considered
+    .filter(candidate => candidate.reasons.length === 0)
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) =>
+      getRankValue(a.candidate, policy) - getRankValue(b.candidate, policy) ||
+      Number(b.candidate.isDefault) - Number(a.candidate.isDefault) ||
+      a.index - b.index)
+    .map(({ candidate }) => candidate);
+
+  return { candidates, rejected: considered.filter(candidate => candidate.reasons.length > 0) };
+}
+
+/**
+ * Formats a selection as a candidate list followed by the rejected configurations
+ * @param result - Selection result
+ * @param policy - Selection policy
+ * @returns Lines to show
+ */
+export function formatSelection(result: SelectionResult, policy: SelectionPolicy): string[] {
+  const all = [...result.candidates, ...result.rejected];
+  const nameWidth = Math.max(...all.map(c => c.name.length));
+  const targetWidth = Math.max(...all.map(c => c.provider.length + c.model.length + 1));
+  const row = (mark: string, candidate: SelectionCandidate, note: string) =>
+    `  ${mark} ${candidate.name.padEnd(nameWidth)}  ${`${candidate.provider}/${candidate.model}`.padEnd(targetWidth)}  ${note}`.trimEnd();
+
+  const describe = (candidate: SelectionCandidate): string => {
+    const { input_price, output_price, output_speed } = candidate.metadata;
+    switch (policy) {
+      case 'cheapest':
+        return input_price !== undefined && output_price !== undefined
+          ? `${formatPrice(input_price)} / ${formatPrice(output_price)} per million tokens`
+          : 'price unknown';
+      case 'fastest':
+        return output_speed !== undefined ? `${output_speed} tokens/s` : 'speed unknown';
+      default:
+        return candidate.isDefault ? 'default' : '';
+    }
+  };
+
+  const lines = [`Candidates (${policy === 'default' ? 'default first' : `${policy} first`}):`];
+  lines.push(...result.candidates.map((candidate, index) => row(index === 0 ? '→' : ' ', candidate, describe(candidate))));
+  if (result.candidates.length === 0) {
+    lines.push('  (none)');
+  }
+  if (result.rejected.length > 0) {
+    lines.push('Rejected:');
+    lines.push(...result.rejected.map(candidate => row('✗', candidate, candidate.reasons.join(', '))));
+  }
+  return lines;
+}
@@ -0,0 +1,325 @@
+/**
+ * Shell integration utilities for Qwen Code Router
+ *
+ * This module renders environment variables as statements that can be evaluated
+ * by the caller's shell (bash, zsh, fish, PowerShell, cmd), so that activating a
+ * configuration can affect the parent shell and not only the short-lived qcr process.
+ */
+
+import { EnvironmentVariables } from './types';
+import { getPlatformInfo, getDefaultShell } from './platform';
+
+/**
+ * Shells that qcr can generate evaluable output for
+ */
+export const SUPPORTED_SHELLS = ['bash', 'zsh', 'fish', 'powershell', 'cmd'] as const;
+
+/**
+ * Supported shell type
+ */
+export type ShellType = typeof SUPPORTED_SHELLS[number];
+
+/**
+ * Environment variable that marks a subshell started by 'qcr shell'
+ * Its value is the name of the configuration applied to that subshell.
+ */
+export const ACTIVE_CONFIG_ENV_VAR = 'QCR_ACTIVE_CONFIG';
+
+/**
+ * Environment variable that lists the additional variables (from a
+ * configuration's `env`) that exported statements have set, so that
+ * 'qcr env --unset' can clear them as well
+ */
+export const EXTRA_VARS_ENV_VAR = 'QCR_EXTRA_VARS';
+
+/**
+ * Checks whether a string names a supported shell
+ * @param value - Shell name to check (case-insensitive)
+ * @returns True if the shell is supported
+ */
+export function isSupportedShell(value: string): value is ShellType {
+  return (SUPPORTED_SHELLS as readonly string[]).includes(value.toLowerCase());
+}
+
+/**
+ * Normalizes a shell name or shell path to a supported shell type
+ * @param value - Shell name or path (e.g. "/usr/bin/zsh", "pwsh", "cmd.exe")
+ * @returns ShellType or null if the shell is not recognized
+ */
+export function normalizeShellName(value: string): ShellType | null {
+  // Split on both separators so Windows paths are recognized on every platform
+  const baseName = (value.trim().split(/[\\/]/).pop() || '').toLowerCase().replace(/\.exe$/, '');
+
+  switch (baseName) {
+    case 'bash':
+    case 'sh':
+    case 'dash':
+    case 'ksh':
+      return 'bash';
+    case 'zsh':
+      return 'zsh';
+    case 'fish':
+      return 'fish';
+    case 'powershell':
+    case 'pwsh':
+      return 'powershell';
+    case 'cmd':
+      return 'cmd';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Detects the shell of the calling user
+ * On Windows, PowerShell is detected through PSModulePath, otherwise cmd is assumed.
+ * On Unix-like systems, the SHELL environment variable is used, falling back to bash.
+ * @returns Detected ShellType
+ */
+export function detectShellType(): ShellType {
+  const platformInfo = getPlatformInfo();
+
+  if (platformInfo.isWindows) {
+    return process.env['PSModulePath'] ? 'powershell' : 'cmd';
+  }
+
+  return normalizeShellName(getDefaultShell()) || 'bash';
+}
+
+/**
+ * Quotes a value for POSIX shells (bash, zsh) using single quotes
+ * @param value - Value to quote
+ * @returns Quoted value
+ */
+export function quotePosix(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quotes a value for fish using single quotes
+ * @param value - Value to quote
+ * @returns Quoted value
+ */
+export function quoteFish(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, `\\'`)}'`;
+}
+
+/**
+ * Quotes a value for PowerShell using single quotes
+ * @param value - Value to quote
+ * @returns Quoted value
+ */
+export function quotePowerShell(value: string): string {
+  return `'${value.replace(/'/g, `''`)}'`;
+}
+
+/**
+ * Formats a single statement that sets an environment variable
+ * @param name - Variable name
+ * @param value - Variable value
+ * @param shell - Target shell
+ * @returns Shell statement
+ */
+export function formatExportStatement(name: string, value: string, shell: ShellType): string {
+  switch (shell) {
+    case 'fish':
+      return `set -gx ${name} ${quoteFish(value)};`;
+    case 'powershell':
+      return `$env:${name} = ${quotePowerShell(value)}`;
+    case 'cmd':
+      // cmd has no escaping for double quotes inside "set", so they are dropped
+      return `set "${name}=${value.replace(/"/g, '')}"`;
+    case 'bash':
+    case 'zsh':
+    default:
+      return `export ${name}=${quotePosix(value)}`;
+  }
+}
+
+/**
+ * Formats a single statement that removes an environment variable
+ * @param name - Variable name
+ * @param shell - Target shell
+ * @returns Shell statement
+ */
+export function formatUnsetStatement(name: string, shell: ShellType): string {
+  switch (shell) {
+    case 'fish':
+      return `set -e ${name};`;
+    case 'powershell':
+      return `Remove-Item Env:${name} -ErrorAction SilentlyContinue`;
+    case 'cmd':
+      return `set ${name}=`;
+    case 'bash':
+    case 'zsh':
+    default:
+      return `unset ${name}`;
+  }
+}
+
+/**
+ * Formats a comment line for the target shell
+ * @param text - Comment text
+ * @param shell - Target shell
+ * @returns Comment line
+ */
+export function formatShellComment(text: string, shell: ShellType): string {
+  return shell === 'cmd' ? `REM ${text}` : `# ${text}`;
+}
+
+/**
+ * Formats a set of variables as evaluable shell statements
+ * Variables with an undefined value are emitted as unset statements.
+ * @param variables - Variables to set (string) or unset (undefined)
+ * @param shell - Target shell
+ * @returns Shell script with one statement per line
+ */
+export function formatShellScript(variables: Record<string, string | undefined>, shell: ShellType): string {
+  return Object.entries(variables)
+    .map(([name, value]) => value === undefined
+      ? formatUnsetStatement(name, shell)
+      : formatExportStatement(name, value, shell))
+    .join('\n');
+}
+
+/**
+ * Gets the additional variables recorded by earlier export statements
+ * @returns Variable names listed in QCR_EXTRA_VARS
+ */
+function getRecordedExtraVariables(): string[] {
+  return (process.env[EXTRA_VARS_ENV_VAR] || '').split(',').filter(name => name !== '');
+}
+
+/**
+ * Builds the statements that export the managed environment variables
+ * Additional variables from the configuration's `env` follow the OPENAI_* ones
+ * and are added to QCR_EXTRA_VARS.
+ * @param envVars - Environment variables to export
+ * @returns Variables to set
+ */
+export function getEnvironmentStatements(envVars: EnvironmentVariables): Record<string, string | undefined> {
+  const { OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_MODEL, ...extraVariables } = envVars;
+  const recorded = getRecordedExtraVariables();
+  const added = Object.keys(extraVariables).filter(name => !recorded.includes(name));
+  return {
+    OPENAI_API_KEY,
+    OPENAI_BASE_URL,
+    OPENAI_MODEL,
+    ...extraVariables,
+    ...(added.length > 0 && { [EXTRA_VARS_ENV_VAR]: [...recorded, ...added].join(',') })
+  };
+}
+
+/**
+ * Formats the managed environment variables as evaluable export statements
+ * @param envVars - Environment variables to export
+ * @param shell - Target shell
+ * @returns Shell script with one export statement per variable
+ */
+export function formatEnvironmentExports(envVars: EnvironmentVariables, shell: ShellType): string {
+  return formatShellScript(getEnvironmentStatements(envVars), shell);
+}
+
+/**
+ * Formats unset statements for the managed environment variables
+ * The additional variables listed in QCR_EXTRA_VARS are unset too.
+ * @param shell - Target shell
+ * @returns Shell script with one unset statement per variable
+ */
+export function formatEnvironmentUnsets(shell: ShellType): string {
+  const recorded = getRecordedExtraVariables();
+  return formatShellScript({
+    OPENAI_API_KEY: undefined,
+    OPENAI_BASE_URL: undefined,
+    OPENAI_MODEL: undefined,
+    ...Object.fromEntries(recorded.map(name => [name, undefined])),
+    ...(recorded.length > 0 && { [EXTRA_VARS_ENV_VAR]: undefined })
+  }, shell);
+}
+
+/**
+ * Checks whether command output is going to an interactive terminal
+ * When stdout is piped (e.g. inside `eval "$(qcr use ...)"`), shell output should be emitted.
+ * @returns True if stdout is a TTY
+ */
+export function isInteractiveOutput(): boolean {
+  return Boolean(process.stdout.isTTY);
+}
+
+/**
+ * Gets the usage hint showing how to evaluate qcr output in a given shell
+ * @param command - qcr command that produces shell output (e.g. "qcr env my-config")
+ * @param shell - Target shell
+ * @returns Usage hint string
+ */
+export function getShellEvalHint(command: string, shell: ShellType): string {
+  switch (shell) {
+    case 'fish':
+      return `${command} --shell fish | source`;
+    case 'powershell':
+      return `${command} --shell powershell | Invoke-Expression`;
+    case 'cmd':
+      return `for /f "delims=" %i in ('${command} --shell cmd') do @%i`;
+    case 'bash':
+    case 'zsh':
+    default:
+      return `eval "$(${command} --shell ${shell})"`;
+  }
+}
+
+/**
+ * Shells that 'qcr hook' can install a directory-change hook for
+ */
+export const HOOK_SHELLS = ['bash', 'zsh', 'fish'] as const;
+
+/**
+ * Shell type supported by 'qcr hook'
+ */
+export type HookShellType = typeof HOOK_SHELLS[number];
+
+/**
+ * Gets the hook script that applies project pin files on directory change
+ * The hook runs `qcr env --auto`, which prints nothing unless the pinned
+ * configuration changes, so it is cheap to run on every prompt.
+ * @param shell - Target shell
+ * @param executable - Command used to invoke qcr (defaults to "qcr")
+ * @returns Shell script to evaluate from the shell's rc file
+ */
+export function getShellHookScript(shell: HookShellType, executable: string = 'qcr'): string {
+  switch (shell) {
+    case 'zsh':
+      return [
+        '_qcr_hook() {',
+        `  eval "$(${executable} env --auto --shell zsh)"`,
+        '}',
+        'typeset -ag chpwd_functions',
+        'if (( ! ${chpwd_functions[(I)_qcr_hook]} )); then',
+        '  chpwd_functions=(_qcr_hook $chpwd_functions)',
+        'fi',
+        '_qcr_hook'
+      ].join('\n');
+    case 'fish':
+      return [
+        'function _qcr_hook --on-variable PWD',
+        `  ${executable} env --auto --shell fish | source`,
+        'end',
+        '_qcr_hook'
+      ].join('\n');
+    case 'bash':
+    default:
+      // bash has no chpwd hook, so PROMPT_COMMAND checks whether PWD changed
+      return [
+        '_qcr_hook() {',
+        '  local previous_exit_status=$?',
+        '  if [ "$PWD" != "${_QCR_LAST_PWD:-}" ]; then',
+        '    _QCR_LAST_PWD="$PWD"',
+        `    eval "$(${executable} env --auto --shell bash)"`,
+        '  fi',
+        '  return $previous_exit_status',
+        '}',
+        'if [[ ";${PROMPT_COMMAND:-};" != *";_qcr_hook;"* ]]; then',
+        '  PROMPT_COMMAND="_qcr_hook${PROMPT_COMMAND:+;$PROMPT_COMMAND}"',
+        'fi'
+      ].join('\n');
+  }
+}
@@ -3,7 +3,7 @@
  * 
  * This module implements the proper startup flow as described in desc.md:
  * 1. Check configuration file existence
- * 2. Check default configuration existence
+ * 2. Check default configuration existence (a project pin file takes precedence)
  * 3. Validate default configuration
  * 4. Set environment variables to default configuration
  * 5. Ready to launch Qwen Code
@@ -13,6 +13,7 @@ import { discoverAndLoadConfig } from './persistence';
 import { getCurrentDefaultConfiguration, resolveConfigurationByName } from './resolver';
 import { validateEnvironmentVariables, getCurrentEnvironmentVariables, REQUIRED_ENV_VARS } from './environment';
 import { ConfigFile } from './types';
+import { findPinnedConfiguration, PinnedConfiguration } from './pin';
 import {
   createSuccessResult,
   EXIT_CODES
@@ -31,8 +32,10 @@ export interface StartupFlowResult {
   configFile?: ConfigFile;
   /** Configuration file path (if found) */
   configFilePath?: string;
-  /** Default configuration name (if found) */
+  /** Configuration used for startup: the pinned one if a pin file applies, otherwise the default */
   defaultConfigName?: string;
+  /** Pin file that selected the configuration (if any) */
+  pinFile?: string | undefined;
   /** Error message if startup failed */
   errorMessage?: string;
   /** Detailed error information */
@@ -109,19 +112,19 @@ export async function executeStartupFlow(currentDir?: string): Promise<StartupFl
       };
     }
 
-    // Step 2: Check default configuration existence
-    const defaultConfigName = getCurrentDefaultConfiguration(config);
-    if (!defaultConfigName) {
+    // Step 2: Check default configuration existence, preferring a project pin file
+    const selection = selectStartupConfiguration(config, currentDir);
+    if ('errorMessage' in selection) {
       return {
         success: false,
         currentStep: StartupStep.CHECKING_DEFAULT_CONFIG,
         configFile: config,
         configFilePath: filePath,
-        errorMessage: 'No default configuration set',
-        errorDetails: 'Default configuration is required for startup flow. Use "qcr set-default [config_name]" to set one.',
+        ...selection,
         exitCode: EXIT_CODES.CONFIG_INVALID
       };
     }
+    const { configName: defaultConfigName, pinFile } = selection;
 
     // Step 3: Validate default configuration
     const resolutionResult = resolveConfigurationByName(defaultConfigName, config);
@@ -132,7 +135,10 @@ export async function executeStartupFlow(currentDir?: string): Promise<StartupFl
         configFile: config,
         configFilePath: filePath,
         defaultConfigName,
-        errorMessage: `Default configuration '${defaultConfigName}' is invalid`,
+        pinFile,
+        errorMessage: pinFile
+          ? `Pinned configuration '${defaultConfigName}' (${pinFile}) is invalid`
+          : `Default configuration '${defaultConfigName}' is invalid`,
         errorDetails: resolutionResult.error || 'Configuration resolution failed',
         exitCode: EXIT_CODES.CONFIG_INVALID
       };
@@ -150,6 +156,7 @@ export async function executeStartupFlow(currentDir?: string): Promise<StartupFl
         configFile: config,
         configFilePath: filePath,
         defaultConfigName,
+        pinFile,
         errorMessage: 'Environment variables validation failed after setting default configuration',
         errorDetails: `Errors: ${envValidation.errors.join(', ')}`,
         exitCode: EXIT_CODES.ENVIRONMENT_ERROR
@@ -163,6 +170,7 @@ export async function executeStartupFlow(currentDir?: string): Promise<StartupFl
       configFile: config,
       configFilePath: filePath,
       defaultConfigName,
+      pinFile,
       exitCode: EXIT_CODES.SUCCESS
     };
 
@@ -233,19 +241,19 @@ export async function validateStartupFlow(currentDir?: string): Promise<StartupF
       };
     }
 
-    // Step 2: Check default configuration existence
-    const defaultConfigName = getCurrentDefaultConfiguration(config);
-    if (!defaultConfigName) {
+    // Step 2: Check default configuration existence, preferring a project pin file
+    const selection = selectStartupConfiguration(config, currentDir);
+    if ('errorMessage' in selection) {
       return {
         success: false,
         currentStep: StartupStep.CHECKING_DEFAULT_CONFIG,
         configFile: config,
         configFilePath: filePath,
-        errorMessage: 'No default configuration set',
-        errorDetails: 'Default configuration is required for startup flow. Use "qcr set-default [config_name]" to set one.',
+        ...selection,
         exitCode: EXIT_CODES.CONFIG_INVALID
       };
     }
+    const { configName: defaultConfigName, pinFile } = selection;
 
     // Step 3: Validate default configuration (without setting environment variables)
     const resolutionResult = resolveConfigurationByName(defaultConfigName, config, false); // Don't set env vars
@@ -256,7 +264,10 @@ export async function validateStartupFlow(currentDir?: string): Promise<StartupF
         configFile: config,
         configFilePath: filePath,
         defaultConfigName,
-        errorMessage: `Default configuration '${defaultConfigName}' is invalid`,
+        pinFile,
+        errorMessage: pinFile
+          ? `Pinned configuration '${defaultConfigName}' (${pinFile}) is invalid`
+          : `Default configuration '${defaultConfigName}' is invalid`,
         errorDetails: resolutionResult.error || 'Configuration resolution failed',
         exitCode: EXIT_CODES.CONFIG_INVALID
       };
@@ -269,6 +280,7 @@ export async function validateStartupFlow(currentDir?: string): Promise<StartupF
       configFile: config,
       configFilePath: filePath,
       defaultConfigName,
+      pinFile,
       exitCode: EXIT_CODES.SUCCESS
     };
 
@@ -283,6 +295,42 @@ export async function validateStartupFlow(currentDir?: string): Promise<StartupF
   }
 }
 
+/**
+ * Selects the configuration used for startup
+ * The nearest .qcr / .qcr.yaml pin file wins over default_config.
+ * @param config - Loaded configuration file
+ * @param currentDir - Current working directory (optional)
+ * @returns Selected configuration name and pin file, or error information
+ */
+function selectStartupConfiguration(
+  config: ConfigFile,
+  currentDir?: string
+): { configName: string; pinFile?: string } | { errorMessage: string; errorDetails: string } {
+  let pinned: PinnedConfiguration | null;
+  try {
+    pinned = findPinnedConfiguration(currentDir);
+  } catch (error) {
+    return {
+      errorMessage: 'Invalid pin file',
+      errorDetails: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+
+  if (pinned) {
+    return { configName: pinned.configName, pinFile: pinned.pinFile };
+  }
+
+  const defaultConfigName = getCurrentDefaultConfiguration(config);
+  if (!defaultConfigName) {
+    return {
+      errorMessage: 'No default configuration set',
+      errorDetails: 'Default configuration is required for startup flow. Use "qcr set-default [config_name]" to set one.'
+    };
+  }
+
+  return { configName: defaultConfigName };
+}
+
 /**
  * Gets a human-readable description of the startup step
  * @param step - Startup step
@@ -321,7 +369,9 @@ export function formatStartupFlowResult(result: StartupFlowResult): CommandResul
       details += `\nConfiguration file: ${result.configFilePath}`;
     }
     
-    if (result.defaultConfigName) {
+    if (result.defaultConfigName && result.pinFile) {
+      details += `\nPinned configuration: ${result.defaultConfigName} (${result.pinFile})`;
+    } else if (result.defaultConfigName) {
       details += `\nDefault configuration: ${result.defaultConfigName}`;
     }
 
@@ -362,9 +412,10 @@ export function getStartupFlowSuggestions(step: StartupStep): string[] {
   switch (step) {
     case StartupStep.CHECKING_CONFIG_FILE:
       return [
-        'Create a configuration file (config.yaml or config.json)',
+        'Create a configuration file (config.yaml, config.json or config.toml)',
+        'Run "qcr init" to create one',
         'Check file permissions and accessibility',
-        'Verify file format (YAML or JSON)',
+        'Verify file format (YAML, JSON or TOML)',
         'Use example configuration files as reference'
       ];
     case StartupStep.CHECKING_DEFAULT_CONFIG:
@@ -0,0 +1,215 @@
+/**
+ * Active configuration state for Qwen Code Router
+ *
+ * This module persists which configuration was activated last, so that separate
+ * qcr invocations ('use' followed by 'run' or 'list') share the same active
+ * configuration even though each runs in its own process.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ActiveConfigState,
+  ConfigFile,
+  EnvironmentVariables
+} from './types';
+import { getConfigPaths } from './platform';
+import { loadLayeredConfigFile } from './persistence';
+import {
+  findConfigurationByName,
+  resolveConfigurationByName,
+  resolveConfigurationByProviderModel
+} from './resolver';
+import { backupEnvironmentVariables, restoreEnvironmentVariables } from './environment';
+import { unlockVaultForConfiguration } from './command-utils';
+
+/**
+ * File name of the state file inside the user configuration directory
+ */
+export const STATE_FILE_NAME = 'state.json';
+
+/**
+ * Environment variable that overrides the state file location
+ */
+export const STATE_FILE_ENV_VAR = 'QCR_STATE_FILE';
+
+/**
+ * Gets the path of the active configuration state file
+ * @returns Absolute path to the state file
+ */
+export function getStateFilePath(): string {
+  const override = process.env[STATE_FILE_ENV_VAR];
+  if (override && override.trim()) {
+    return path.resolve(override);
+  }
+
+  return path.join(getConfigPaths().userConfigDir, STATE_FILE_NAME);
+}
+
+/**
+ * Reads the active configuration state
+ * @returns ActiveConfigState or null if no state is recorded or the file is unreadable
+ */
+export function readActiveState(): ActiveConfigState | null {
+  const stateFilePath = getStateFilePath();
+
+  try {
+    if (!fs.existsSync(stateFilePath)) {
+      return null;
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(stateFilePath, 'utf-8'));
+    if (!parsed || typeof parsed.name !== 'string' || !parsed.name.trim()) {
+      return null;
+    }
+
+    return parsed as ActiveConfigState;
+  } catch {
+    // A corrupted state file is treated as "no active configuration"
+    return null;
+  }
+}
+
+/**
+ * Records a configuration as the active one
+ * @param state - State to record (activatedAt defaults to the current time)
+ * @returns The state that was written
+ * @throws Error if the state file cannot be written
+ */
+export function writeActiveState(
+  state: Omit<ActiveConfigState, 'activatedAt'> & { activatedAt?: string }
+): ActiveConfigState {
+  const stateFilePath = getStateFilePath();
+  const record: ActiveConfigState = {
+    name: state.name,
+    provider: state.provider,
+    model: state.model,
+    activatedAt: state.activatedAt || new Date().toISOString(),
+    sourceFile: state.sourceFile ? path.resolve(state.sourceFile) : null,
+    activatedBy: state.activatedBy
+  };
+
+  try {
+    fs.mkdirSync(path.dirname(stateFilePath), { recursive: true });
+
+    // Write through a temporary file so concurrent readers never see a partial file
+    const tempFilePath = `${stateFilePath}.tmp.${process.pid}`;
+    fs.writeFileSync(tempFilePath, JSON.stringify(record, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    fs.renameSync(tempFilePath, stateFilePath);
+  } catch (error) {
+    throw new Error(`Failed to write active configuration state "${stateFilePath}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return record;
+}
+
+/**
+ * Records a configuration as active without failing the calling command
+ * @param state - State to record
+ * @returns Warning message if the state could not be written, otherwise null
+ */
+export function tryWriteActiveState(
+  state: Omit<ActiveConfigState, 'activatedAt'> & { activatedAt?: string }
+): string | null {
+  try {
+    writeActiveState(state);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Failed to write active configuration state';
+  }
+}
+
+/**
+ * Removes the active configuration state
+ * @returns void
+ */
+export function clearActiveState(): void {
+  const stateFilePath = getStateFilePath();
+  if (fs.existsSync(stateFilePath)) {
+    fs.unlinkSync(stateFilePath);
+  }
+}
+
+/**
+ * Gets the active configuration name for a given configuration file
+ * State recorded from a different configuration file is ignored.
+ * @param filePath - Configuration file the caller loaded
+ * @returns Active configuration name or null
+ */
+export function getActiveConfigurationName(filePath: string): string | null {
+  const state = readActiveState();
+  if (!state || !state.sourceFile) {
+    return null;
+  }
+
+  return path.resolve(state.sourceFile) === path.resolve(filePath) ? state.name : null;
+}
+
+/**
+ * Result of resolving the recorded active configuration to environment variables
+ */
+export interface ActiveStateResolution {
+  /** Whether the state could be resolved */
+  success: boolean;
+  /** The recorded state (if any) */
+  state?: ActiveConfigState;
+  /** Resolved environment variables (if successful) */
+  environmentVariables?: EnvironmentVariables;
+  /** Default qwen arguments of the configuration (if any) */
+  args?: string[];
+  /** Reason the state could not be resolved */
+  error?: string;
+}
+
+/**
+ * Resolves the recorded active configuration to environment variables
+ * The current process environment is left untouched.
+ * @returns ActiveStateResolution
+ */
+export async function resolveActiveState(): Promise<ActiveStateResolution> {
+  const state = readActiveState();
+  if (!state) {
+    return { success: false, error: 'No active configuration recorded' };
+  }
+
+  let config: ConfigFile | undefined;
+  if (state.sourceFile) {
+    try {
+      config = await loadLayeredConfigFile(state.sourceFile);
+    } catch (error) {
+      return {
+        success: false,
+        state,
+        error: error instanceof Error ? error.message : 'Failed to load configuration file'
+      };
+    }
+  }
+
+  // Named configurations are resolved by name so later edits to the file are picked up
+  const configEntry = config ? findConfigurationByName(state.name, config) : null;
+  if (config && configEntry) {
+    await unlockVaultForConfiguration(state.name, config);
+    const resolution = resolveConfigurationByName(state.name, config, false);
+    if (!resolution.success || !resolution.environmentVariables) {
+      return { success: false, state, error: resolution.error || 'Configuration resolution failed' };
+    }
+    const result: ActiveStateResolution = { success: true, state, environmentVariables: resolution.environmentVariables };
+    if (configEntry.args) {
+      result.args = configEntry.args;
+    }
+    return result;
+  }
+
+  // Router activations are resolved by provider and model; the resolver sets
+  // process.env as a side effect, so the previous values are restored afterwards
+  const backup = backupEnvironmentVariables();
+  try {
+    const resolution = resolveConfigurationByProviderModel(state.provider, state.model, config);
+    if (!resolution.success || !resolution.environmentVariables) {
+      return { success: false, state, error: resolution.error || 'Provider/model resolution failed' };
+    }
+    return { success: true, state, environmentVariables: resolution.environmentVariables };
+  } finally {
+    restoreEnvironmentVariables(backup);
+  }
+}
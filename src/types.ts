@@ -5,12 +5,42 @@
  * used throughout the application for managing API configurations for different LLM providers.
  */
 
+/**
+ * A capability a model may support
+ */
+export type ModelCapability = 'tools' | 'vision' | 'reasoning' | 'streaming';
+
+/**
+ * Capability flags of a model; a capability that is not listed is unknown
+ */
+export type ModelCapabilities = Partial<Record<ModelCapability, boolean>>;
+
+/**
+ * Descriptive metadata of a model
+ */
+export interface ModelMetadata {
+  /** Context window in tokens */
+  context_window?: number;
+  /** Maximum number of output tokens */
+  max_output_tokens?: number;
+  /** Price of input tokens in USD per million tokens */
+  input_price?: number;
+  /** Price of output tokens in USD per million tokens */
+  output_price?: number;
+  /** Typical output speed in tokens per second */
+  output_speed?: number;
+  /** Capability flags (tool calling, image input, reasoning, streaming) */
+  capabilities?: ModelCapabilities;
+}
+
 /**
  * Represents a single model entry within a provider's supported models list
  */
-export interface ModelEntry {
+export interface ModelEntry extends ModelMetadata {
   /** The model identifier (e.g., "gpt-4", "gpt-3.5-turbo") */
   model: string;
+  /** Other names the model can be selected by (e.g., "fast", "smart") */
+  aliases?: string[];
 }
 
 /**
@@ -18,9 +48,13 @@ export interface ModelEntry {
  * Contains API credentials and endpoint information
  */
 export interface ProviderEnv {
-  /** API key for authentication with the provider */
-  api_key: string;
-  /** Base URL for the provider's API endpoint */
+  /** API key for authentication with the provider (supports ${VAR} and ${VAR:-fallback}) */
+  api_key?: string;
+  /** Command whose output is the API key, run when a configuration is activated */
+  api_key_cmd?: string;
+  /** File containing the API key (~ and ${VAR} are expanded), read when a configuration is activated */
+  api_key_file?: string;
+  /** Base URL for the provider's API endpoint (supports ${VAR} and ${VAR:-fallback}) */
   base_url: string;
   /** List of models supported by this provider */
   models: ModelEntry[];
@@ -32,6 +66,10 @@ export interface ProviderEnv {
 export interface Provider {
   /** Provider identifier (e.g., "openai", "azure", "anthropic") */
   provider: string;
+  /** Other names the provider can be selected by (e.g., "ds" for "deepseek") */
+  aliases?: string[];
+  /** Provider (configured or built-in) whose settings this provider inherits */
+  extends?: string;
   /** Environment configuration for this provider */
   env: ProviderEnv;
 }
@@ -46,12 +84,30 @@ export interface ConfigEntry {
   provider: string;
   /** The specific model to use from the provider */
   model: string;
+  /** API key to use instead of the provider's (supports ${VAR} and vault: references) */
+  api_key?: string;
+  /** Base URL to use instead of the provider's (supports ${VAR} references) */
+  base_url?: string;
+  /** Additional environment variables set with this configuration (e.g. OPENAI_ORG_ID) */
+  env?: Record<string, string>;
+  /** Arguments passed to qwen by default when running this configuration */
+  args?: string[];
+  /** Configuration whose settings this configuration inherits */
+  extends?: string;
+  /** What the configuration is for, shown by 'list config -v' */
+  description?: string;
+  /** Labels to filter configurations by (e.g. "cheap", "prod", "local") */
+  tags?: string[];
 }
 
 /**
  * A configuration group that contains multiple named configurations
  */
 export interface Config {
+  /** Group name; entries can be referred to as `group/name` */
+  group?: string;
+  /** What the configurations of the group are for */
+  description?: string;
   /** Array of named configuration entries */
   config: ConfigEntry[];
 }
@@ -69,6 +125,14 @@ export interface DefaultConfig {
  * This is the root interface for configuration files (JSON/YAML)
  */
 export interface ConfigFile {
+  /** JSON Schema of the file (a yaml-language-server comment in YAML files) */
+  $schema?: string;
+  /** Version of the file format (1 if omitted); older files are upgraded on load */
+  version?: number;
+  /** Merge this file with the user and system configuration files (opt-in layering) */
+  merge?: boolean;
+  /** Other configuration files to compose into this one (relative paths, ~ and globs) */
+  include?: string | string[];
   /** Optional default configuration settings */
   default_config?: DefaultConfig[];
   /** Array of named configurations */
@@ -87,6 +151,8 @@ export interface EnvironmentVariables {
   OPENAI_BASE_URL: string;
   /** OpenAI model environment variable */
   OPENAI_MODEL: string;
+  /** Additional variables from the configuration's `env` */
+  [variable: string]: string;
 }
 
 /**
@@ -104,7 +170,7 @@ export interface ValidationResult {
 /**
  * Configuration file format types
  */
-export type ConfigFileFormat = 'json' | 'yaml';
+export type ConfigFileFormat = 'json' | 'yaml' | 'toml';
 
 /**
  * Supported provider names (case-insensitive)
@@ -131,4 +197,23 @@ export interface ConfigDiscoveryResult {
   format: ConfigFileFormat | null;
   /** Whether a configuration file was found */
   found: boolean;
-}
\ No newline at end of file
+}
+
+/**
+ * Persisted record of the most recently activated configuration
+ * Written by 'use', '/router' and 'set-default'; read by 'run' and 'list'
+ */
+export interface ActiveConfigState {
+  /** Name of the activated configuration (or "provider/model" for router activations) */
+  name: string;
+  /** Provider of the activated configuration */
+  provider: string;
+  /** Model of the activated configuration */
+  model: string;
+  /** ISO 8601 timestamp of the activation */
+  activatedAt: string;
+  /** Configuration file the activation was resolved from (null for built-in providers) */
+  sourceFile: string | null;
+  /** Command that performed the activation */
+  activatedBy: 'use' | 'router' | 'set-default';
+}
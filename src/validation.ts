@@ -15,7 +15,29 @@ import {
   ModelEntry,
   ProviderEnv
 } from './types';
-import { BUILT_IN_PROVIDERS } from './resolver';
+import { findUnresolvedReferences } from './interpolation';
+import { annotateWithOrigins } from './layers';
+import { findUnknownKeys } from './schema';
+import { validateModelMetadata } from './model-metadata';
+import { getBuiltInProvider } from './provider-registry';
+import { findConfigurationMatches, resolveAliases } from './resolver';
+
+/**
+ * Validates a list of names (`aliases` or `tags`)
+ * @param names - Value of the key
+ * @param prefix - Prefix for error messages
+ * @param key - Key name (used in error messages)
+ * @returns Error message, or null if the value is valid or not set
+ */
+function validateNameList(names: unknown, prefix: string, key: string): string | null {
+  if (names === undefined) {
+    return null;
+  }
+  if (!Array.isArray(names) || !names.every(name => typeof name === 'string' && name.trim() !== '')) {
+    return `${prefix}: ${key} must be a list of names`;
+  }
+  return null;
+}
 
 /**
  * Validates the complete configuration file structure
@@ -41,6 +63,17 @@ export function validateConfigFile(config: ConfigFile): ValidationResult {
     errors.push('Missing or invalid "providers" array');
   }
 
+  if (config.merge !== undefined && typeof config.merge !== 'boolean') {
+    errors.push('"merge" must be true or false');
+  }
+
+  if (config.version !== undefined && (typeof config.version !== 'number' || !Number.isInteger(config.version) || config.version < 1)) {
+    errors.push('"version" must be a positive integer');
+  }
+
+  // Keys the schema does not know are otherwise silently ignored
+  warnings.push(...findUnknownKeys(config));
+
   // Validate default_config if present
   if (config.default_config !== undefined) {
     const defaultConfigResult = validateDefaultConfig(config.default_config, config.configs);
@@ -85,12 +118,17 @@ export function validateConfigFile(config: ConfigFile): ValidationResult {
     const duplicateResult = validateUniqueProviderNames(config.providers);
     errors.push(...duplicateResult.errors);
     warnings.push(...duplicateResult.warnings);
+
+    const aliasResult = validateUniqueAliases(config.providers);
+    errors.push(...aliasResult.errors);
+    warnings.push(...aliasResult.warnings);
   }
 
+  // Entries composed from several files name the file they came from
   return {
     isValid: errors.length === 0,
-    errors,
-    warnings
+    errors: annotateWithOrigins(config, errors),
+    warnings: annotateWithOrigins(config, warnings)
   };
 }
 
@@ -129,13 +167,13 @@ export function validateDefaultConfig(defaultConfig: DefaultConfig[], configs: C
     return { isValid: false, errors, warnings };
   }
 
-  // Check if the referenced configuration exists
+  // Check if the referenced configuration exists (by name or as group/name)
   if (Array.isArray(configs)) {
-    const configExists = configs.some(cfg => 
-      cfg.config && cfg.config.some(entry => entry.name === defaultCfg.name)
-    );
-    if (!configExists) {
+    const matches = findConfigurationMatches(defaultCfg.name, { configs, providers: [] });
+    if (matches.length === 0) {
       errors.push(`Default configuration "${defaultCfg.name}" does not exist in configs array`);
+    } else if (matches.length > 1) {
+      errors.push(`Default configuration "${defaultCfg.name}" is ambiguous, use group/name`);
     }
   }
 
@@ -162,6 +200,14 @@ export function validateConfig(config: Config, index: number): ValidationResult
     return { isValid: false, errors, warnings };
   }
 
+  if (config.group !== undefined && (typeof config.group !== 'string' || !config.group.trim() || config.group.includes('/'))) {
+    errors.push(`${prefix}: group must be a name without '/'`);
+  }
+
+  if (config.description !== undefined && typeof config.description !== 'string') {
+    errors.push(`${prefix}: description must be a string`);
+  }
+
   // Validate config array
   if (!Array.isArray(config.config)) {
     errors.push(`${prefix}: config must be an array`);
@@ -220,6 +266,72 @@ export function validateConfigEntry(entry: ConfigEntry, prefix: string): Validat
     errors.push(`${prefix}: model cannot be empty`);
   }
 
+  if (entry.extends !== undefined && (typeof entry.extends !== 'string' || !entry.extends.trim())) {
+    errors.push(`${prefix}: extends must be a configuration name`);
+  }
+
+  // Validate overrides of the provider's api_key / base_url
+  if (entry.api_key !== undefined) {
+    if (typeof entry.api_key !== 'string') {
+      errors.push(`${prefix}: api_key must be a string`);
+    } else if (!entry.api_key.trim()) {
+      errors.push(`${prefix}: api_key cannot be empty`);
+    } else {
+      const unresolved = findUnresolvedReferences(entry.api_key);
+      if (unresolved.length > 0) {
+        warnings.push(`${prefix}: api_key references unset environment variable(s): ${unresolved.join(', ')}`);
+      }
+    }
+  }
+
+  if (entry.base_url !== undefined) {
+    if (typeof entry.base_url !== 'string') {
+      errors.push(`${prefix}: base_url must be a string`);
+    } else if (!entry.base_url.trim()) {
+      errors.push(`${prefix}: base_url cannot be empty`);
+    } else if (entry.base_url.includes('${')) {
+      // Checked once the references are expanded on activation
+    } else {
+      try {
+        new URL(entry.base_url);
+      } catch (error) {
+        errors.push(`${prefix}: base_url is not a valid URL format`);
+      }
+    }
+  }
+
+  // Validate additional environment variables
+  if (entry.env !== undefined) {
+    if (!entry.env || typeof entry.env !== 'object' || Array.isArray(entry.env)) {
+      errors.push(`${prefix}: env must be a mapping of variable names to values`);
+    } else {
+      for (const [name, value] of Object.entries(entry.env)) {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+          errors.push(`${prefix}: env.${name} is not a valid environment variable name`);
+        } else if (name === 'OPENAI_API_KEY' || name === 'OPENAI_BASE_URL' || name === 'OPENAI_MODEL') {
+          const field = name === 'OPENAI_API_KEY' ? 'api_key' : name === 'OPENAI_BASE_URL' ? 'base_url' : 'model';
+          errors.push(`${prefix}: env cannot set ${name}; use ${field} instead`);
+        } else if (typeof value !== 'string') {
+          errors.push(`${prefix}: env.${name} must be a string`);
+        }
+      }
+    }
+  }
+
+  // Validate default qwen arguments
+  if (entry.args !== undefined && (!Array.isArray(entry.args) || !entry.args.every(arg => typeof arg === 'string'))) {
+    errors.push(`${prefix}: args must be a list of strings`);
+  }
+
+  if (entry.description !== undefined && typeof entry.description !== 'string') {
+    errors.push(`${prefix}: description must be a string`);
+  }
+
+  const tagsError = validateNameList(entry.tags, prefix, 'tags');
+  if (tagsError) {
+    errors.push(tagsError);
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -250,6 +362,15 @@ export function validateProvider(provider: Provider, index: number): ValidationR
     errors.push(`${prefix}: provider cannot be empty`);
   }
 
+  if (provider.extends !== undefined && (typeof provider.extends !== 'string' || !provider.extends.trim())) {
+    errors.push(`${prefix}: extends must be a provider name`);
+  }
+
+  const aliasesError = validateNameList(provider.aliases, prefix, 'aliases');
+  if (aliasesError) {
+    errors.push(aliasesError);
+  }
+
   // Validate env object
   if (!provider.env) {
     errors.push(`${prefix}: env object is required`);
@@ -281,18 +402,46 @@ export function validateProviderEnv(env: ProviderEnv, prefix: string): Validatio
     return { isValid: false, errors, warnings };
   }
 
+  // Validate api_key_cmd / api_key_file (evaluated lazily on activation)
+  const keySources = (['api_key_cmd', 'api_key_file'] as const).filter(field => env[field] !== undefined);
+  for (const field of keySources) {
+    if (typeof env[field] !== 'string') {
+      errors.push(`${prefix}: ${field} must be a string`);
+    } else if (!env[field]!.trim()) {
+      errors.push(`${prefix}: ${field} cannot be empty`);
+    }
+  }
+  if (keySources.length > 1) {
+    warnings.push(`${prefix}: both api_key_cmd and api_key_file are set; api_key_file takes precedence`);
+  }
+
   // Validate api_key
-  if (typeof env.api_key !== 'string') {
+  if (keySources.length > 0 && (env.api_key === undefined || env.api_key === '')) {
+    // The key comes from api_key_cmd or api_key_file
+  } else if (typeof env.api_key !== 'string') {
     errors.push(`${prefix}: api_key must be a string`);
   } else if (!env.api_key.trim()) {
     errors.push(`${prefix}: api_key cannot be empty`);
+  } else {
+    if (keySources.length > 0) {
+      warnings.push(`${prefix}: api_key takes precedence over ${keySources.join(' and ')}`);
+    }
+    // Unresolved ${VAR} references are not an error here: the file stays usable
+    // on machines where the variable is unset until the provider is activated
+    const unresolved = findUnresolvedReferences(env.api_key);
+    if (unresolved.length > 0) {
+      warnings.push(`${prefix}: api_key references unset environment variable(s): ${unresolved.join(', ')}`);
+    }
   }
 
   // Validate base_url
+  const unresolvedBaseUrl = findUnresolvedReferences(env.base_url);
   if (env.base_url !== undefined && typeof env.base_url !== 'string') {
     errors.push(`${prefix}: base_url must be a string`);
   } else if (env.base_url !== undefined && !env.base_url.trim()) {
     errors.push(`${prefix}: base_url cannot be empty`);
+  } else if (unresolvedBaseUrl.length > 0) {
+    warnings.push(`${prefix}: base_url references unset environment variable(s): ${unresolvedBaseUrl.join(', ')}`);
   } else if (env.base_url !== undefined) {
     // Validate URL format
     try {
@@ -356,6 +505,13 @@ export function validateModelEntry(model: ModelEntry, prefix: string): Validatio
     errors.push(`${prefix}: model cannot be empty`);
   }
 
+  const aliasesError = validateNameList(model.aliases, prefix, 'aliases');
+  if (aliasesError) {
+    errors.push(aliasesError);
+  }
+
+  errors.push(...validateModelMetadata(model as unknown as Record<string, unknown>, prefix));
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -387,12 +543,13 @@ export function validateProviderModelCrossReferences(configs: Config[], provider
     config.config.forEach((entry, entryIndex) => {
       const prefix = `configs[${configIndex}].config[${entryIndex}]`;
 
-      // Check if provider exists
+      // Check if provider exists (by name or alias)
       if (typeof entry.provider === 'string' && entry.provider.trim()) {
-        const provider = providerMap.get(entry.provider);
+        const names = resolveAliases(entry.provider, typeof entry.model === 'string' ? entry.model : undefined, { configs, providers });
+        const provider = providerMap.get(names.provider);
         if (!provider) {
           // Check if it's a built-in provider
-          const isBuiltInProvider = Object.keys(BUILT_IN_PROVIDERS).includes(entry.provider.toLowerCase());
+          const isBuiltInProvider = getBuiltInProvider(names.provider) !== null;
           if (!isBuiltInProvider) {
             errors.push(`${prefix}: Provider "${entry.provider}" not found in providers array`);
           }
@@ -402,7 +559,7 @@ export function validateProviderModelCrossReferences(configs: Config[], provider
           if (typeof entry.model === 'string' && entry.model.trim()) {
             // If provider has models defined, check against those
             if (provider.env?.models !== undefined) {
-              const modelExists = provider.env.models.some(m => m.model === entry.model);
+              const modelExists = provider.env.models.some(m => m.model === names.model);
               if (!modelExists) {
                 errors.push(`${prefix}: Model "${entry.model}" not found in provider "${entry.provider}" models list`);
               }
@@ -431,22 +588,33 @@ export function validateUniqueConfigNames(configs: Config[]): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
 
-  // Collect all configuration entry names from all config groups
+  // Collect all configuration entry names from all config groups; a name may
+  // repeat in other named groups, where group/name tells the entries apart
   const configNames: string[] = [];
   configs.forEach(cfg => {
     if (Array.isArray(cfg.config)) {
       cfg.config.forEach(entry => {
         if (typeof entry.name === 'string') {
-          configNames.push(entry.name);
+          configNames.push(typeof cfg.group === 'string' ? `${cfg.group}/${entry.name}` : entry.name);
         }
       });
     }
   });
 
   const duplicateNames = configNames.filter((name, index) => configNames.indexOf(name) !== index);
+  const groupedNames = configNames.filter(name => name.includes('/')).map(name => name.substring(name.indexOf('/') + 1));
+  const unqualifiedNames = configNames.filter(name => !name.includes('/'));
+  const shadowedNames = unqualifiedNames.filter(name => groupedNames.includes(name));
   
-  if (duplicateNames.length > 0) {
-    errors.push(`Duplicate configuration names found: ${[...new Set(duplicateNames)].join(', ')}`);
+  if (duplicateNames.length > 0 || shadowedNames.length > 0) {
+    const names = [...duplicateNames, ...shadowedNames].map(name => name.substring(name.indexOf('/') + 1));
+    errors.push(`Duplicate configuration names found: ${[...new Set(names)].join(', ')}`);
+  }
+
+  const groupNames = configs.map(cfg => cfg.group).filter((group): group is string => typeof group === 'string');
+  const duplicateGroups = groupNames.filter((group, index) => groupNames.indexOf(group) !== index);
+  if (duplicateGroups.length > 0) {
+    errors.push(`Duplicate configuration group names found: ${[...new Set(duplicateGroups)].join(', ')}`);
   }
 
   return {
@@ -482,6 +650,58 @@ export function validateUniqueProviderNames(providers: Provider[]): ValidationRe
   };
 }
 
+/**
+ * Validates that aliases select a single provider or model
+ * A provider alias must not be the name or alias of another provider, and a
+ * model alias must not be the name or alias of another model of the same
+ * provider; aliases are compared without case.
+ * @param providers - Array of providers
+ * @returns ValidationResult
+ */
+export function validateUniqueAliases(providers: Provider[]): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  // Names that only differ in case are left alone unless an alias is involved
+  const findClashes = (items: Array<{ name: string; aliases?: unknown }>, describe: (name: string) => string) => {
+    const owners = new Map<string, { owner: string; isAlias: boolean }>();
+    const claims = items.flatMap(item => [
+      { owner: item.name, value: item.name, isAlias: false },
+      ...(Array.isArray(item.aliases) ? item.aliases : [])
+        .filter((alias): alias is string => typeof alias === 'string')
+        .map(alias => ({ owner: item.name, value: alias, isAlias: true }))
+    ]);
+    for (const claim of claims) {
+      const key = claim.value.toLowerCase();
+      const existing = owners.get(key);
+      if (!existing) {
+        owners.set(key, claim);
+      } else if (existing.owner !== claim.owner && (existing.isAlias || claim.isAlias)) {
+        errors.push(`${describe(claim.value)} is used by both "${existing.owner}" and "${claim.owner}"`);
+      }
+    }
+  };
+
+  const namedProviders = providers.filter(provider => provider && typeof provider.provider === 'string');
+  findClashes(
+    namedProviders.map(provider => ({ name: provider.provider, aliases: provider.aliases })),
+    name => `Provider alias "${name}"`
+  );
+
+  for (const provider of namedProviders) {
+    const models = Array.isArray(provider.env?.models) ? provider.env.models.filter(model => model && typeof model.model === 'string') : [];
+    findClashes(
+      models.map(model => ({ name: model.model, aliases: model.aliases })),
+      name => `Model alias "${name}" of provider "${provider.provider}"`
+    );
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
 /**
  * Validates a specific configuration by name
  * @param configName - Name of the configuration to validate
@@ -503,7 +723,7 @@ export function validateConfigurationByName(configName: string, configFile: Conf
   
   for (const cfg of configFile.configs || []) {
     if (Array.isArray(cfg.config)) {
-      const entry = cfg.config.find(entry => entry.name === configName);
+      const entry = cfg.config.find(entry => entry.name === configName || (cfg.group !== undefined && `${cfg.group}/${entry.name}` === configName));
       if (entry) {
         foundConfigEntry = entry;
         foundConfigGroup = cfg;
@@ -0,0 +1,373 @@
+/**
+ * Encrypted secret vault for Qwen Code Router
+ *
+ * Secrets (API keys) are stored in vault.json in the user configuration directory.
+ * Each secret is encrypted with AES-256-GCM using a key derived from a passphrase
+ * with scrypt. Secret names are stored in plain text so they can be listed
+ * without the passphrase; values can only be read with it.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfigPaths } from './platform';
+import { isInteractiveInput, promptHidden } from './prompt';
+
+/**
+ * File name of the vault inside the user configuration directory
+ */
+export const VAULT_FILE_NAME = 'vault.json';
+
+/**
+ * Environment variable that overrides the vault location
+ */
+export const VAULT_FILE_ENV_VAR = 'QCR_VAULT_FILE';
+
+/**
+ * Environment variable that provides the vault passphrase
+ */
+export const VAULT_PASSPHRASE_ENV_VAR = 'QCR_VAULT_PASSPHRASE';
+
+/**
+ * Prefix of api_key values that reference a vault secret (e.g. "vault:deepseek")
+ */
+export const VAULT_REFERENCE_PREFIX = 'vault:';
+
+/**
+ * Plain text encrypted as the passphrase check value
+ */
+const CHECK_PLAINTEXT = 'qcr-vault';
+
+/**
+ * scrypt cost parameters used for new vaults
+ */
+const DEFAULT_KDF = { N: 16384, r: 8, p: 1 };
+
+/**
+ * A value encrypted with AES-256-GCM (all fields base64)
+ */
+export interface EncryptedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * On-disk vault structure
+ */
+export interface VaultFile {
+  /** Vault format version */
+  version: 1;
+  /** Key derivation parameters */
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  /** Known value encrypted with the vault key, used to verify the passphrase */
+  check: EncryptedValue;
+  /** Encrypted secrets by name */
+  secrets: Record<string, EncryptedValue & { updatedAt: string }>;
+}
+
+/**
+ * Passphrase provided for the current process (e.g. after an interactive prompt)
+ */
+let sessionPassphrase: string | undefined;
+
+/**
+ * Derived keys by passphrase and salt, so scrypt runs once per process
+ */
+const derivedKeyCache = new Map<string, Buffer>();
+
+/**
+ * Gets the path of the vault file
+ * @returns Absolute path to the vault file
+ */
+export function getVaultFilePath(): string {
+  const override = process.env[VAULT_FILE_ENV_VAR];
+  if (override && override.trim()) {
+    return path.resolve(override);
+  }
+
+  return path.join(getConfigPaths().userConfigDir, VAULT_FILE_NAME);
+}
+
+/**
+ * Checks whether a vault file exists
+ * @returns True if the vault exists
+ */
+export function vaultExists(): boolean {
+  return fs.existsSync(getVaultFilePath());
+}
+
+/**
+ * Checks whether a secret name is valid
+ * @param name - Secret name
+ * @returns True if the name only uses letters, digits, ".", "_" and "-"
+ */
+export function isValidSecretName(name: string): boolean {
+  return /^[A-Za-z0-9._-]+$/.test(name);
+}
+
+/**
+ * Gets the secret name referenced by an api_key value
+ * @param value - api_key value
+ * @returns Secret name, or null if the value is not a vault reference
+ */
+export function parseVaultReference(value: string | undefined): string | null {
+  if (typeof value !== 'string' || !value.startsWith(VAULT_REFERENCE_PREFIX)) {
+    return null;
+  }
+
+  const name = value.slice(VAULT_REFERENCE_PREFIX.length).trim();
+  return name || null;
+}
+
+/**
+ * Sets the passphrase for the rest of the process
+ * @param passphrase - Vault passphrase
+ * @returns void
+ */
+export function setSessionPassphrase(passphrase: string | undefined): void {
+  sessionPassphrase = passphrase;
+}
+
+/**
+ * Gets the vault passphrase from the session or QCR_VAULT_PASSPHRASE
+ * @returns Passphrase or undefined if none is available without prompting
+ */
+export function getAvailablePassphrase(): string | undefined {
+  return sessionPassphrase || process.env[VAULT_PASSPHRASE_ENV_VAR] || undefined;
+}
+
+/**
+ * Reads the vault file
+ * @returns VaultFile or null if no vault exists
+ * @throws Error if the vault file is unreadable or malformed
+ */
+export function readVault(): VaultFile | null {
+  const vaultPath = getVaultFilePath();
+  if (!fs.existsSync(vaultPath)) {
+    return null;
+  }
+
+  let parsed: VaultFile;
+  try {
+    parsed = JSON.parse(fs.readFileSync(vaultPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read vault "${vaultPath}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!parsed || parsed.version !== 1 || !parsed.kdf || !parsed.check || typeof parsed.secrets !== 'object') {
+    throw new Error(`Vault "${vaultPath}" is not a valid qcr vault`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Writes the vault file atomically with owner-only permissions
+ * @param vault - Vault to write
+ * @throws Error if the vault cannot be written
+ */
+function writeVault(vault: VaultFile): void {
+  const vaultPath = getVaultFilePath();
+
+  try {
+    fs.mkdirSync(path.dirname(vaultPath), { recursive: true });
+    const tempFilePath = `${vaultPath}.tmp.${process.pid}`;
+    fs.writeFileSync(tempFilePath, JSON.stringify(vault, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    fs.renameSync(tempFilePath, vaultPath);
+  } catch (error) {
+    throw new Error(`Failed to write vault "${vaultPath}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Derives the vault key from a passphrase
+ * @param passphrase - Vault passphrase
+ * @param kdf - Key derivation parameters of the vault
+ * @returns 32-byte key
+ */
+function deriveKey(passphrase: string, kdf: VaultFile['kdf']): Buffer {
+  const cacheKey = `${kdf.salt}:${kdf.N}:${kdf.r}:${kdf.p}:${passphrase}`;
+  const cached = derivedKeyCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const key = crypto.scryptSync(passphrase, Buffer.from(kdf.salt, 'base64'), 32, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: 128 * kdf.N * kdf.r * 2
+  });
+  derivedKeyCache.set(cacheKey, key);
+  return key;
+}
+
+/**
+ * Encrypts a value with AES-256-GCM
+ * @param key - 32-byte key
+ * @param plaintext - Value to encrypt
+ * @returns EncryptedValue
+ */
+function encrypt(key: Buffer, plaintext: string): EncryptedValue {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+/**
+ * Decrypts a value encrypted with AES-256-GCM
+ * @param key - 32-byte key
+ * @param value - Encrypted value
+ * @returns Plain text
+ * @throws Error if the key is wrong or the value was tampered with
+ */
+function decrypt(key: Buffer, value: EncryptedValue): string {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(value.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(value.data, 'base64')), decipher.final()]).toString('utf-8');
+}
+
+/**
+ * Verifies a passphrase against a vault and returns the vault key
+ * @param vault - Vault to unlock
+ * @param passphrase - Vault passphrase
+ * @returns 32-byte key
+ * @throws Error if the passphrase is incorrect
+ */
+function unlockVault(vault: VaultFile, passphrase: string): Buffer {
+  const key = deriveKey(passphrase, vault.kdf);
+  try {
+    if (decrypt(key, vault.check) === CHECK_PLAINTEXT) {
+      return key;
+    }
+  } catch {
+    // Authentication failure means a wrong passphrase
+  }
+  throw new Error('Incorrect vault passphrase');
+}
+
+/**
+ * Lists the names of the secrets in the vault (no passphrase required)
+ * @returns Sorted secret names
+ */
+export function listSecretNames(): string[] {
+  const vault = readVault();
+  return vault ? Object.keys(vault.secrets).sort() : [];
+}
+
+/**
+ * Checks whether the vault contains a secret
+ * @param name - Secret name
+ * @returns True if the secret exists
+ */
+export function hasSecret(name: string): boolean {
+  const vault = readVault();
+  return !!vault && Object.prototype.hasOwnProperty.call(vault.secrets, name);
+}
+
+/**
+ * Stores a secret, creating the vault if necessary
+ * @param name - Secret name
+ * @param value - Secret value
+ * @param passphrase - Vault passphrase (becomes the passphrase of a new vault)
+ * @throws Error if the name is invalid or the passphrase is incorrect
+ */
+export function setSecret(name: string, value: string, passphrase: string): void {
+  if (!isValidSecretName(name)) {
+    throw new Error(`Invalid secret name "${name}". Use letters, digits, ".", "_" and "-"`);
+  }
+  if (!passphrase) {
+    throw new Error('Vault passphrase cannot be empty');
+  }
+
+  let vault = readVault();
+  let key: Buffer;
+
+  if (vault) {
+    key = unlockVault(vault, passphrase);
+  } else {
+    const kdf = { name: 'scrypt' as const, salt: crypto.randomBytes(16).toString('base64'), ...DEFAULT_KDF };
+    key = deriveKey(passphrase, kdf);
+    vault = { version: 1, kdf, check: encrypt(key, CHECK_PLAINTEXT), secrets: {} };
+  }
+
+  vault.secrets[name] = { ...encrypt(key, value), updatedAt: new Date().toISOString() };
+  writeVault(vault);
+}
+
+/**
+ * Decrypts a secret
+ * @param name - Secret name
+ * @param passphrase - Vault passphrase
+ * @returns Secret value
+ * @throws Error if the vault or secret does not exist, or the passphrase is incorrect
+ */
+export function getSecret(name: string, passphrase: string): string {
+  const vault = readVault();
+  if (!vault) {
+    throw new Error(`Vault not found: ${getVaultFilePath()}`);
+  }
+
+  const secret = vault.secrets[name];
+  if (!secret) {
+    throw new Error(`Secret "${name}" not found in vault`);
+  }
+
+  return decrypt(unlockVault(vault, passphrase), secret);
+}
+
+/**
+ * Removes a secret from the vault
+ * @param name - Secret name
+ * @returns True if the secret existed
+ */
+export function removeSecret(name: string): boolean {
+  const vault = readVault();
+  if (!vault || !vault.secrets[name]) {
+    return false;
+  }
+
+  delete vault.secrets[name];
+  writeVault(vault);
+  return true;
+}
+
+/**
+ * Resolves a vault reference at activation time
+ * @param name - Secret name
+ * @returns Secret value
+ * @throws Error if no passphrase is available or the secret cannot be decrypted
+ */
+export function resolveVaultSecret(name: string): string {
+  const passphrase = getAvailablePassphrase();
+  if (!passphrase) {
+    throw new Error(`api_key references vault secret "${name}" but no passphrase is available. Set ${VAULT_PASSPHRASE_ENV_VAR} or run the command in a terminal`);
+  }
+
+  return getSecret(name, passphrase);
+}
+
+/**
+ * Prompts for the vault passphrase if an api_key references the vault and no
+ * passphrase is available yet. Does nothing outside a terminal; resolution then
+ * fails with a message pointing at QCR_VAULT_PASSPHRASE.
+ * @param apiKey - api_key value of the provider being activated
+ * @returns Promise that resolves once a passphrase is available (or cannot be asked for)
+ */
+export async function unlockVaultFor(apiKey: string | undefined): Promise<void> {
+  if (!parseVaultReference(apiKey) || getAvailablePassphrase() || !isInteractiveInput()) {
+    return;
+  }
+
+  const passphrase = await promptHidden('Vault passphrase: ');
+  if (passphrase) {
+    setSessionPassphrase(passphrase);
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for provider and model aliases
+ */
+
+import { getModelAliases, resolveAliases, resolveConfigurationByName } from '../src/resolver';
+import { validateConfigFile, validateUniqueAliases } from '../src/validation';
+import { resolveInheritance } from '../src/inheritance';
+import { validateConfiguration } from '../src/commands/chk';
+import { routerCommand } from '../src/commands/router';
+import { readActiveState } from '../src/state';
+import { listBuiltinProviders, listProviders } from '../src/commands/list';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Aliases', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  const createConfig = (): ConfigFile => ({
+    configs: [{
+      config: [
+        { name: 'fast', provider: 'ds', model: 'fast' },
+        { name: 'opus', provider: 'claude', model: 'claude-3-opus' }
+      ]
+    }],
+    providers: [{
+      provider: 'deepseek',
+      aliases: ['ds'],
+      env: {
+        api_key: 'sk-deepseek-key-12345',
+        base_url: 'https://api.deepseek.com/v1',
+        models: [{ model: 'deepseek-chat', aliases: ['fast'] }, { model: 'deepseek-reasoner', aliases: ['r1'] }]
+      }
+    }]
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-aliases-test-'));
+    process.env['XDG_CONFIG_HOME'] = tempDir;
+    process.env['APPDATA'] = tempDir;
+    process.env['ANTHROPIC_API_KEY'] = 'sk-ant-test-12345';
+    process.env['QCR_STATE_FILE'] = path.join(tempDir, 'state.json');
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('resolveAliases', () => {
+    it('should resolve configured provider and model aliases', () => {
+      expect(resolveAliases('ds', 'fast', createConfig())).toEqual({ provider: 'deepseek', model: 'deepseek-chat', aliased: true });
+      expect(resolveAliases('DS', 'R1', createConfig())).toEqual({ provider: 'deepseek', model: 'deepseek-reasoner', aliased: true });
+      expect(resolveAliases('DeepSeek', 'Deepseek-Chat', createConfig())).toEqual({ provider: 'deepseek', model: 'deepseek-chat', aliased: false });
+    });
+
+    it('should resolve built-in aliases and latest pointers', () => {
+      expect(resolveAliases('claude', 'opus')).toEqual({ provider: 'anthropic', model: 'claude-3-opus-20240229', aliased: true });
+      expect(resolveAliases('anthropic', 'claude-3-haiku')).toEqual({ provider: 'anthropic', model: 'claude-3-haiku-20240307', aliased: true });
+      expect(resolveAliases('gemini', undefined)).toEqual({ provider: 'google', model: '', aliased: true });
+    });
+
+    it('should leave unknown names unchanged', () => {
+      expect(resolveAliases('nobody', 'nothing', createConfig())).toEqual({ provider: 'nobody', model: 'nothing', aliased: false });
+      expect(resolveAliases('ds', 'nothing', createConfig())).toEqual({ provider: 'deepseek', model: 'nothing', aliased: true });
+    });
+
+    it('should only follow built-in pointers to models a configured provider serves', () => {
+      const config = createConfig();
+      config.providers.push({
+        provider: 'anthropic',
+        env: { api_key: 'sk-ant-12345', base_url: 'https://api.anthropic.com/v1', models: [{ model: 'claude-3-opus' }, { model: 'claude-3-haiku-20240307' }] }
+      });
+
+      expect(resolveAliases('anthropic', 'claude-3-opus', config).model).toBe('claude-3-opus');
+      expect(resolveAliases('anthropic', 'haiku', config).model).toBe('claude-3-haiku-20240307');
+      expect(resolveAliases('anthropic', 'sonnet', config).model).toBe('sonnet');
+      expect(getModelAliases('claude', config)).toEqual({ 'claude-3-haiku-20240307': ['haiku', 'claude-3-haiku'] });
+    });
+  });
+
+  describe('commands', () => {
+    it('should resolve configurations that use aliases to canonical names', () => {
+      const result = resolveConfigurationByName('fast', createConfig(), false);
+
+      expect(result.success).toBe(true);
+      expect(result.environmentVariables?.OPENAI_MODEL).toBe('deepseek-chat');
+      expect(result.environmentVariables?.OPENAI_BASE_URL).toBe('https://api.deepseek.com/v1');
+    });
+
+    it('should check configurations under their canonical names', () => {
+      const fast = validateConfiguration('fast', createConfig());
+      expect(fast.isValid).toBe(true);
+      expect(fast.resolvedFrom).toBe('ds/fast');
+      expect(fast.model?.name).toBe('deepseek-chat');
+
+      const opus = validateConfiguration('opus', createConfig());
+      expect(opus.isValid).toBe(true);
+      expect(opus.model?.name).toBe('claude-3-opus-20240229');
+    });
+
+    it('should activate aliases with /router', async () => {
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), yaml.stringify(createConfig()));
+
+      const result = await routerCommand({ provider: 'DS', model: 'r1', currentDir: tempDir });
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Successfully activated provider 'deepseek' with model 'deepseek-reasoner'");
+      expect(result.details).toContain('Resolved: DS/r1 → deepseek/deepseek-reasoner');
+    });
+
+    it('should report and record canonical names when /router matches a configuration written with aliases', async () => {
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), yaml.stringify(createConfig()));
+
+      const result = await routerCommand({ provider: 'ds', model: 'fast', currentDir: tempDir });
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Successfully activated provider 'deepseek' with model 'deepseek-chat'");
+      expect(result.details).toContain("Source: configuration 'fast'");
+      expect(result.details).toContain('Resolved: ds/fast → deepseek/deepseek-chat');
+      expect(readActiveState()).toMatchObject({ name: 'fast', provider: 'deepseek', model: 'deepseek-chat' });
+    });
+
+    it('should name the canonical provider when a model is missing', async () => {
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), yaml.stringify(createConfig()));
+
+      const result = await routerCommand({ provider: 'ds', model: 'nothing', currentDir: tempDir });
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Model 'nothing' not found in provider 'deepseek'");
+    });
+
+    it('should list providers by alias with model aliases', () => {
+      const configured = listProviders(createConfig(), { provider: 'ds' });
+      expect(configured.message).toBe("Models for provider 'deepseek':");
+      expect(configured.details).toContain('deepseek-chat (fast)');
+
+      const builtIn = listBuiltinProviders({ provider: 'claude' });
+      expect(builtIn.message).toBe("Models for built-in provider 'anthropic' (Anthropic):");
+      expect(builtIn.details).toContain('claude-3-opus-20240229 (opus, claude-3-opus)');
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject aliases that name more than one provider or model', () => {
+      const config = createConfig();
+      config.providers.push({
+        provider: 'ds',
+        env: { api_key: 'sk-other-12345', base_url: 'https://example.com/v1', models: [{ model: 'r1' }] }
+      });
+      config.providers[0]!.env.models[1]!.aliases = ['fast'];
+
+      expect(validateUniqueAliases(config.providers).errors).toEqual([
+        'Provider alias "ds" is used by both "deepseek" and "ds"',
+        'Model alias "fast" of provider "deepseek" is used by both "deepseek-chat" and "deepseek-reasoner"'
+      ]);
+      expect(validateConfigFile(config).isValid).toBe(false);
+    });
+
+    it('should not inherit aliases', () => {
+      const config = createConfig();
+      config.providers.push({ provider: 'deepseek-proxy', extends: 'deepseek', env: { base_url: 'https://proxy.example.com/v1' } } as any);
+
+      const resolved = resolveInheritance(config);
+      expect(resolved.providers[1]!.aliases).toBeUndefined();
+      expect(resolved.providers[1]!.env.models[0]!.aliases).toEqual(['fast']);
+    });
+  });
+});
@@ -5,7 +5,11 @@
 import { handleChkCommand } from '../src/commands';
 import { chkCommand, parseChkCommandArgs, validateConfiguration, validateConfigurationWithApi, ChkCommandOptions } from '../src/commands/chk';
 import * as persistence from '../src/persistence';
+import { readHealthStatuses } from '../src/health';
 import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock persistence module
 jest.mock('../src/persistence');
@@ -464,6 +468,18 @@ describe('chkCommand', () => {
     expect(result.exitCode).toBe(1);
   });
 
+  it('should mark a default written with its group', async () => {
+    mockDiscoverAndLoadConfig.mockResolvedValue({
+      config: { ...sampleConfig, default_config: [{ name: 'dev/openai-gpt4' }], configs: [{ ...sampleConfig.configs[0]!, group: 'dev' }] },
+      validation: { isValid: true, errors: [], warnings: [] },
+      filePath: '/test/config.yaml'
+    });
+
+    const result = await chkCommand({});
+
+    expect(result.details).toContain('✓ openai-gpt4 (default)');
+  });
+
   it('should validate all configurations with verbose output', async () => {
     const options: ChkCommandOptions = {
       verbose: true
@@ -693,12 +709,20 @@ describe('handleChkCommand', () => {
       })
     });
     global.fetch = mockFetch as any;
-    
-    const result = await handleChkCommand(['openai-gpt4', '--test-api']);
-
-    expect(result.success).toBe(true);
-    expect(result.message).toBe("Configuration 'openai-gpt4' is valid");
-    expect(mockFetch).toHaveBeenCalled();
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-chk-health-'));
+    process.env['QCR_STATE_FILE'] = path.join(tempDir, 'state.json');
+
+    try {
+      const result = await handleChkCommand(['openai-gpt4', '--test-api']);
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Configuration 'openai-gpt4' is valid");
+      expect(mockFetch).toHaveBeenCalled();
+      expect(readHealthStatuses('/test/config.yaml')['openai-gpt4']).toMatchObject({ ok: true });
+    } finally {
+      delete process.env['QCR_STATE_FILE'];
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
   });
 
   it('should handle help flag', async () => {
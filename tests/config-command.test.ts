@@ -0,0 +1,169 @@
+/**
+ * Unit tests for the config command
+ */
+
+import { handleConfigCommand } from '../src/commands';
+import { configCommand, parseConfigCommandArgs, configCommandHelp } from '../src/commands/config';
+import { MERGE_CONFIGS_ENV_VAR } from '../src/layers';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Config Command', () => {
+  const originalEnv = { ...process.env };
+
+  const userConfig: ConfigFile = {
+    default_config: [{ name: 'ds-chat' }],
+    configs: [{ config: [{ name: 'ds-chat', provider: 'deepseek', model: 'deepseek-chat' }] }],
+    providers: [
+      {
+        provider: 'deepseek',
+        env: { api_key: 'sk-deepseek', base_url: 'https://api.deepseek.com', models: [{ model: 'deepseek-chat' }, { model: 'deepseek-reasoner' }] }
+      }
+    ]
+  };
+
+  const projectConfig = {
+    merge: true,
+    configs: [{ config: [{ name: 'project-r1', provider: 'deepseek', model: 'deepseek-reasoner' }] }],
+    providers: []
+  };
+
+  let tempDir: string;
+  let projectDir: string;
+  let userFile: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-config-cmd-test-'));
+    projectDir = path.join(tempDir, 'project');
+    fs.mkdirSync(projectDir);
+    fs.mkdirSync(path.join(tempDir, 'xdg', 'qcr'), { recursive: true });
+    process.env['XDG_CONFIG_HOME'] = path.join(tempDir, 'xdg');
+    delete process.env[MERGE_CONFIGS_ENV_VAR];
+    userFile = path.join(tempDir, 'xdg', 'qcr', 'config.yaml');
+    fs.writeFileSync(userFile, yaml.stringify(userConfig));
+    fs.writeFileSync(path.join(projectDir, 'config.yaml'), yaml.stringify(projectConfig));
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseConfigCommandArgs', () => {
+    it('should parse the layers subcommand', () => {
+      expect(parseConfigCommandArgs(['layers', '-v'])).toEqual({
+        valid: true,
+        options: { subcommand: 'layers', verbose: true }
+      });
+    });
+
+    it('should reject missing and unknown subcommands', () => {
+      expect(parseConfigCommandArgs([]).error).toContain('Subcommand is required');
+      expect(parseConfigCommandArgs(['merge']).error).toContain('Unknown subcommand: merge');
+      expect(parseConfigCommandArgs(['layers', 'extra']).error).toContain('Too many arguments');
+    });
+
+    it('should parse the show subcommand', () => {
+      expect(parseConfigCommandArgs(['show', '--resolved', 'ds-chat']).options).toEqual({
+        subcommand: 'show', name: 'ds-chat', resolved: true, verbose: false
+      });
+      expect(parseConfigCommandArgs(['show']).error).toContain('Configuration name is required');
+      expect(parseConfigCommandArgs(['layers', '--resolved']).error).toContain("only supported by 'config show'");
+    });
+  });
+
+  describe('config show', () => {
+    beforeEach(() => {
+      fs.writeFileSync(path.join(projectDir, 'config.yaml'), yaml.stringify({
+        merge: true,
+        configs: [{
+          config: [
+            { name: 'project-r1', provider: 'deepseek', model: 'deepseek-reasoner', env: { QCR_TEST_FLAG: '1' } },
+            { name: 'project-r1-yolo', extends: 'project-r1', args: ['--yolo'] }
+          ]
+        }],
+        providers: []
+      }));
+    });
+
+    it('should show a configuration as written', async () => {
+      const result = await configCommand({ subcommand: 'show', name: 'project-r1-yolo', currentDir: projectDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Configuration 'project-r1-yolo'");
+      expect(yaml.parse(result.details!)).toEqual({ name: 'project-r1-yolo', extends: 'project-r1', args: ['--yolo'] });
+    });
+
+    it('should show the resolved values with the API key masked', async () => {
+      const result = await configCommand({ subcommand: 'show', name: 'project-r1-yolo', resolved: true, currentDir: projectDir });
+
+      expect(result.message).toBe("Configuration 'project-r1-yolo' (resolved)");
+      const view = yaml.parse(result.details!);
+      expect(view).toMatchObject({
+        name: 'project-r1-yolo',
+        provider: 'deepseek',
+        model: 'deepseek-reasoner',
+        env: { QCR_TEST_FLAG: '1' },
+        args: ['--yolo'],
+        provider_env: { api_key: 'sk-deeps...', base_url: 'https://api.deepseek.com' }
+      });
+      expect(result.details).not.toContain('sk-deepseek');
+    });
+
+    it('should show providers and report unknown names', async () => {
+      const provider = await configCommand({ subcommand: 'show', name: 'deepseek', resolved: true, currentDir: projectDir });
+      expect(provider.message).toBe("Provider 'deepseek' (resolved)");
+
+      const missing = await configCommand({ subcommand: 'show', name: 'missing', currentDir: projectDir });
+      expect(missing.success).toBe(false);
+    });
+  });
+
+  describe('config layers', () => {
+    it('should show which file contributed each provider, configuration and default', async () => {
+      const result = await configCommand({ subcommand: 'layers', currentDir: projectDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Layered merging is enabled (2 files merged)');
+      expect(result.details).toContain(`project  ${path.join(projectDir, 'config.yaml')}`);
+      expect(result.details).toContain(`user     ${userFile}`);
+      expect(result.details).toMatch(/Providers:\n {2}deepseek {2}user/);
+      expect(result.details).toMatch(/project-r1 {2}project/);
+      expect(result.details).toMatch(/Default:\n {2}ds-chat {2}user/);
+    });
+
+    it('should report that lower layers are ignored when merging is disabled', async () => {
+      process.env[MERGE_CONFIGS_ENV_VAR] = '0';
+      const result = await configCommand({ subcommand: 'layers', currentDir: projectDir });
+
+      expect(result.message).toContain('Layered merging is disabled');
+      expect(result.details).toContain(`${userFile} (not merged)`);
+      expect(result.details).toContain(`${MERGE_CONFIGS_ENV_VAR}=1`);
+      expect(result.details).toContain('Default:\n  (none)');
+    });
+
+    it('should fail when no configuration file exists', async () => {
+      fs.rmSync(userFile);
+      fs.rmSync(path.join(projectDir, 'config.yaml'));
+
+      const result = await configCommand({ subcommand: 'layers', currentDir: projectDir });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('handleConfigCommand', () => {
+    it('should reject invalid arguments with exit code 2', async () => {
+      const result = await handleConfigCommand(['unknown']);
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should show help', async () => {
+      const result = await handleConfigCommand(['--help']);
+      expect(result.message).toContain('qcr config - Inspect and edit configuration files');
+      expect(configCommandHelp().message).toBe(result.message);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for editing configuration entries (qcr config add|remove|rename|copy)
+ */
+
+import {
+  addConfigEntry,
+  copyConfigEntry,
+  removeConfigEntry,
+  renameConfigEntry
+} from '../src/config-entries';
+import { resolveInheritance } from '../src/inheritance';
+import { configCommand, parseConfigCommandArgs } from '../src/commands/config';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Configuration entry editing', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  const createConfig = (): ConfigFile => resolveInheritance({
+    default_config: [{ name: 'chat' }],
+    configs: [{
+      config: [
+        { name: 'chat', provider: 'deepseek', model: 'deepseek-chat', tags: ['cheap'] },
+        { name: 'reasoner', extends: 'chat', model: 'deepseek-reasoner' } as any
+      ]
+    }, {
+      group: 'personal',
+      config: [
+        { name: 'gpt4', provider: 'openai', model: 'gpt-4' }
+      ]
+    }, {
+      group: 'work',
+      config: [
+        { name: 'gpt4', provider: 'openai', model: 'gpt-4', env: { OPENAI_ORG: 'work' } }
+      ]
+    }],
+    providers: [{
+      provider: 'deepseek',
+      env: { api_key: 'sk-deepseek-key-12345', base_url: 'https://api.deepseek.com/v1', models: [{ model: 'deepseek-chat' }, { model: 'deepseek-reasoner' }] }
+    }, {
+      provider: 'openai',
+      env: { api_key: 'sk-openai-key-12345', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }] }
+    }]
+  });
+
+  const names = (config: ConfigFile) => config.configs.map(group => group.config.map(entry => entry.name));
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-config-entries-test-'));
+    process.env['XDG_CONFIG_HOME'] = tempDir;
+    process.env['APPDATA'] = tempDir;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('addConfigEntry', () => {
+    it('should add an entry to the first group or a named group', () => {
+      const config = createConfig();
+
+      expect(addConfigEntry(config, { name: 'reasoner-2', provider: 'deepseek', model: 'deepseek-reasoner', tags: ['slow'] }).errors).toEqual([]);
+      expect(addConfigEntry(config, { name: 'gpt4', provider: 'deepseek', model: 'deepseek-chat', group: 'home', description: 'At home' }).errors).toEqual([]);
+      expect(names(config)).toEqual([['chat', 'reasoner', 'reasoner-2'], ['gpt4'], ['gpt4'], ['gpt4']]);
+      expect(config.configs[3]).toEqual({ group: 'home', config: [{ name: 'gpt4', provider: 'deepseek', model: 'deepseek-chat', description: 'At home' }] });
+    });
+
+    it('should reject unknown models and duplicate names', () => {
+      expect(addConfigEntry(createConfig(), { name: 'new', provider: 'deepseek', model: 'deepseek-coder' }).errors)
+        .toEqual(["Configuration 'new': Model \"deepseek-coder\" not found in provider \"deepseek\" models list"]);
+      expect(addConfigEntry(createConfig(), { name: 'chat', provider: 'openai', model: 'gpt-4' }).errors)
+        .toContain('Duplicate configuration names found: chat');
+    });
+  });
+
+  describe('removeConfigEntry', () => {
+    it('should require a new default or --force to remove the default', () => {
+      expect(removeConfigEntry(createConfig(), 'gpt4').errors[0]).toContain("Configuration 'gpt4' is ambiguous");
+
+      const config = createConfig();
+      config.configs[0]!.config.splice(1, 1);
+      expect(removeConfigEntry(config, 'chat').errors[0]).toContain("'chat' is the default configuration");
+
+      expect(removeConfigEntry(config, 'chat', { newDefault: 'work/gpt4' })).toEqual({
+        errors: [],
+        changes: ['Removed the empty configuration group', 'Default configuration: work/gpt4']
+      });
+      expect(config.default_config).toEqual([{ name: 'work/gpt4' }]);
+
+      expect(removeConfigEntry(config, 'work/gpt4', { force: true })).toEqual({
+        errors: [],
+        changes: ["Removed the empty group 'work'", 'The file no longer has a default configuration']
+      });
+      expect(config.default_config).toBeUndefined();
+      expect(names(config)).toEqual([['gpt4']]);
+    });
+
+    it('should not remove an entry that others extend', () => {
+      expect(removeConfigEntry(createConfig(), 'chat', { force: true }).errors).toEqual(["Configuration 'chat' is extended by 'reasoner'"]);
+    });
+  });
+
+  describe('renameConfigEntry', () => {
+    it('should update the default configuration and extends', () => {
+      const config = createConfig();
+
+      expect(renameConfigEntry(config, 'chat', 'ds-chat')).toEqual({
+        errors: [],
+        changes: ["Updated 'extends' of 'reasoner'", 'Default configuration: ds-chat']
+      });
+      expect(config.default_config).toEqual([{ name: 'ds-chat' }]);
+      expect(config.configs[0]!.config[1]).toMatchObject({ name: 'reasoner', extends: 'ds-chat' });
+      expect(renameConfigEntry(config, 'reasoner', 'gpt4').errors).toEqual(['Duplicate configuration names found: gpt4']);
+    });
+  });
+
+  describe('copyConfigEntry', () => {
+    it('should copy the declared entry after the original', () => {
+      const config = createConfig();
+
+      expect(copyConfigEntry(config, 'reasoner', 'reasoner-copy').errors).toEqual([]);
+      expect(copyConfigEntry(config, 'work/gpt4', 'gpt4-copy', 'home').errors).toEqual([]);
+      expect(names(config)).toEqual([['chat', 'reasoner', 'reasoner-copy'], ['gpt4'], ['gpt4'], ['gpt4-copy']]);
+      expect(config.configs[0]!.config[2]).toEqual({ name: 'reasoner-copy', extends: 'chat', model: 'deepseek-reasoner' });
+      expect(config.configs[3]!.config[0]).toMatchObject({ env: { OPENAI_ORG: 'work' } });
+      expect(copyConfigEntry(config, 'missing', 'x').errors).toEqual(["Configuration 'missing' does not exist"]);
+    });
+  });
+
+  describe('qcr config add|remove|rename|copy', () => {
+    const configPath = () => path.join(tempDir, 'config.yaml');
+
+    beforeEach(() => {
+      fs.writeFileSync(configPath(), yaml.stringify({
+        default_config: [{ name: 'chat' }],
+        configs: [{
+          config: [
+            { name: 'chat', provider: 'deepseek', model: 'deepseek-chat' },
+            { name: 'reasoner', extends: 'chat', model: 'deepseek-reasoner' }
+          ]
+        }],
+        providers: [{
+          provider: 'deepseek',
+          env: { api_key: 'sk-deepseek-key-12345', base_url: 'https://api.deepseek.com/v1', models: [{ model: 'deepseek-chat' }, { model: 'deepseek-reasoner' }] }
+        }]
+      }));
+    });
+
+    it('should save the edit and keep a backup', async () => {
+      const original = fs.readFileSync(configPath(), 'utf8');
+      const result = await configCommand({ subcommand: 'rename', name: 'chat', newName: 'ds-chat', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Renamed configuration 'chat' to 'ds-chat'");
+      const saved = yaml.parse(fs.readFileSync(configPath(), 'utf8'));
+      expect(saved.default_config).toEqual([{ name: 'ds-chat' }]);
+      expect(saved.configs[0].config[1]).toEqual({ name: 'reasoner', extends: 'ds-chat', model: 'deepseek-reasoner' });
+
+      const backup = fs.readdirSync(tempDir).find(file => file.startsWith('config.yaml.backup.'));
+      expect(result.details).toContain(`Backup: ${path.join(tempDir, backup!)}`);
+      expect(fs.readFileSync(path.join(tempDir, backup!), 'utf8')).toBe(original);
+    });
+
+    it('should leave the file unchanged when the edit is invalid', async () => {
+      const original = fs.readFileSync(configPath(), 'utf8');
+      const result = await configCommand({ subcommand: 'add', name: 'local', provider: 'ollama', model: 'llama3', currentDir: tempDir });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Cannot add configuration 'local'");
+      expect(result.details).toContain('✗ Configuration \'local\': Provider "ollama" not found in providers array');
+      expect(fs.readFileSync(configPath(), 'utf8')).toBe(original);
+      expect(fs.readdirSync(tempDir).filter(file => file.includes('.backup.'))).toEqual([]);
+    });
+
+    it('should parse the edit subcommands', () => {
+      expect(parseConfigCommandArgs(['add', 'ds', '--provider', 'deepseek', '--model=deepseek-chat', '--tags', 'cheap, fast']).options).toEqual({
+        subcommand: 'add', name: 'ds', provider: 'deepseek', model: 'deepseek-chat', tags: ['cheap', 'fast'], verbose: false
+      });
+      expect(parseConfigCommandArgs(['remove', 'ds', '--force']).options).toEqual({ subcommand: 'remove', name: 'ds', force: true, verbose: false });
+      expect(parseConfigCommandArgs(['copy', 'ds', 'ds2', '--group', 'work']).options).toEqual({
+        subcommand: 'copy', name: 'ds', newName: 'ds2', group: 'work', verbose: false
+      });
+      expect(parseConfigCommandArgs(['add', 'ds', '--provider', 'deepseek']).error).toBe("--model is required for 'config add'");
+      expect(parseConfigCommandArgs(['rename', 'ds']).error).toBe("New name is required for 'config rename'");
+      expect(parseConfigCommandArgs(['rename', 'ds', 'x', '--force']).error).toBe("--force is only supported by 'config remove'");
+      expect(parseConfigCommandArgs(['show', 'ds', '--group', 'a']).error).toBe("--group is only supported by 'config add' and 'config copy'");
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Unit tests for per-configuration api_key, base_url, env and args overrides
+ */
+
+import { applyConfigOverrides, createEnvironmentVariables, setEnvironmentVariables } from '../src/environment';
+import { validateConfigEntry, validateConfigFile } from '../src/validation';
+import { validateConfigurationResolution } from '../src/resolver';
+import { validateConfiguration } from '../src/commands/chk';
+import { runCommand } from '../src/commands/run';
+import { formatEnvironmentExports } from '../src/shell';
+import { ConfigEntry, ConfigFile, Provider } from '../src/types';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+jest.mock('child_process', () => ({
+  ...jest.requireActual('child_process'),
+  spawn: jest.fn()
+}));
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+describe('Configuration overrides', () => {
+  const originalEnv = { ...process.env };
+
+  const provider: Provider = {
+    provider: 'openai',
+    env: {
+      api_key: 'sk-provider-key',
+      base_url: 'https://api.openai.com/v1',
+      models: [{ model: 'gpt-4' }]
+    }
+  };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('applyConfigOverrides', () => {
+    it('should return the provider environment when nothing is overridden', () => {
+      const entry: ConfigEntry = { name: 'gpt4', provider: 'openai', model: 'gpt-4' };
+      expect(applyConfigOverrides(entry, provider)).toBe(provider.env);
+    });
+
+    it('should replace api_key and base_url and drop lazy key sources', () => {
+      const lazyProvider: Provider = {
+        provider: 'openai',
+        env: { api_key_cmd: 'pass show openai', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }] }
+      };
+      const entry: ConfigEntry = {
+        name: 'gpt4-work',
+        provider: 'openai',
+        model: 'gpt-4',
+        api_key: 'sk-work-key',
+        base_url: 'https://proxy.example.com/v1'
+      };
+
+      const env = applyConfigOverrides(entry, lazyProvider);
+      expect(env.api_key).toBe('sk-work-key');
+      expect(env.base_url).toBe('https://proxy.example.com/v1');
+      expect(env.api_key_cmd).toBeUndefined();
+      expect(lazyProvider.env.api_key_cmd).toBe('pass show openai');
+    });
+
+    it('should expand ${VAR} references when the configuration is used', () => {
+      process.env['QCR_TEST_WORK_KEY'] = 'sk-from-env';
+      const entry: ConfigEntry = { name: 'gpt4', provider: 'openai', model: 'gpt-4', api_key: '${QCR_TEST_WORK_KEY}' };
+      expect(applyConfigOverrides(entry, provider).api_key).toBe('sk-from-env');
+    });
+  });
+
+  describe('createEnvironmentVariables', () => {
+    it('should use the overrides and add extra variables', () => {
+      process.env['QCR_TEST_ORG'] = 'org-123';
+      const entry: ConfigEntry = {
+        name: 'gpt4-work',
+        provider: 'openai',
+        model: 'gpt-4',
+        api_key: 'sk-work-key',
+        env: { OPENAI_ORG_ID: '${QCR_TEST_ORG}', HTTPS_PROXY: 'http://proxy:3128' }
+      };
+
+      expect(createEnvironmentVariables(entry, provider)).toEqual({
+        OPENAI_API_KEY: 'sk-work-key',
+        OPENAI_BASE_URL: 'https://api.openai.com/v1',
+        OPENAI_MODEL: 'gpt-4',
+        OPENAI_ORG_ID: 'org-123',
+        HTTPS_PROXY: 'http://proxy:3128'
+      });
+    });
+
+    it('should throw for extra variables referencing unset variables', () => {
+      delete process.env['QCR_TEST_UNSET'];
+      const entry: ConfigEntry = { name: 'gpt4', provider: 'openai', model: 'gpt-4', env: { OPENAI_ORG_ID: '${QCR_TEST_UNSET}' } };
+      expect(() => createEnvironmentVariables(entry, provider)).toThrow('env.OPENAI_ORG_ID references unset environment variable(s): QCR_TEST_UNSET');
+    });
+
+    it('should set extra variables in the process environment', () => {
+      const entry: ConfigEntry = { name: 'gpt4', provider: 'openai', model: 'gpt-4', env: { OPENAI_ORG_ID: 'org-456' } };
+      setEnvironmentVariables(entry, provider);
+      expect(process.env['OPENAI_ORG_ID']).toBe('org-456');
+      expect(process.env['OPENAI_API_KEY']).toBe('sk-provider-key');
+    });
+  });
+
+  describe('formatEnvironmentExports', () => {
+    it('should export extra variables after the OPENAI variables', () => {
+      const script = formatEnvironmentExports({
+        OPENAI_ORG_ID: 'org-123',
+        OPENAI_API_KEY: 'sk-key',
+        OPENAI_BASE_URL: 'https://api.openai.com/v1',
+        OPENAI_MODEL: 'gpt-4'
+      }, 'bash');
+
+      expect(script.split('\n')).toEqual([
+        "export OPENAI_API_KEY='sk-key'",
+        "export OPENAI_BASE_URL='https://api.openai.com/v1'",
+        "export OPENAI_MODEL='gpt-4'",
+        "export OPENAI_ORG_ID='org-123'",
+        "export QCR_EXTRA_VARS='OPENAI_ORG_ID'"
+      ]);
+    });
+
+    it('should keep extra variables recorded by earlier exports', () => {
+      process.env['QCR_EXTRA_VARS'] = 'OPENAI_ORG_ID';
+
+      const script = formatEnvironmentExports({
+        OPENAI_API_KEY: 'sk-key',
+        OPENAI_BASE_URL: 'https://api.openai.com/v1',
+        OPENAI_MODEL: 'gpt-4',
+        OPENAI_PROJECT_ID: 'proj-1'
+      }, 'bash');
+
+      expect(script).toContain("export QCR_EXTRA_VARS='OPENAI_ORG_ID,OPENAI_PROJECT_ID'");
+      expect(formatEnvironmentExports({ OPENAI_API_KEY: 'sk-key', OPENAI_BASE_URL: 'https://api.openai.com/v1', OPENAI_MODEL: 'gpt-4' }, 'bash'))
+        .not.toContain('QCR_EXTRA_VARS');
+    });
+  });
+
+  describe('validateConfigEntry', () => {
+    const base = { name: 'gpt4', provider: 'openai', model: 'gpt-4' };
+
+    it('should accept valid overrides', () => {
+      const result = validateConfigEntry({
+        ...base,
+        api_key: 'vault:openai-work',
+        base_url: '${QCR_TEST_PROXY_URL}',
+        env: { OPENAI_ORG_ID: 'org-123' },
+        args: ['--yolo']
+      }, 'configs[0].config[0]');
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should reject invalid overrides', () => {
+      const result = validateConfigEntry({
+        ...base,
+        api_key: '  ',
+        base_url: 'not a url',
+        env: { 'BAD-NAME': 'x', OPENAI_API_KEY: 'sk', OPENAI_ORG_ID: 42 as any },
+        args: '--yolo' as any
+      }, 'configs[0].config[0]');
+
+      expect(result.errors).toEqual([
+        'configs[0].config[0]: api_key cannot be empty',
+        'configs[0].config[0]: base_url is not a valid URL format',
+        'configs[0].config[0]: env.BAD-NAME is not a valid environment variable name',
+        'configs[0].config[0]: env cannot set OPENAI_API_KEY; use api_key instead',
+        'configs[0].config[0]: env.OPENAI_ORG_ID must be a string',
+        'configs[0].config[0]: args must be a list of strings'
+      ]);
+    });
+
+    it('should reject env that is not a mapping', () => {
+      const result = validateConfigEntry({ ...base, env: ['A=1'] as any }, 'configs[0].config[0]');
+      expect(result.errors).toContain('configs[0].config[0]: env must be a mapping of variable names to values');
+    });
+  });
+
+  describe('resolution checks', () => {
+    const config: ConfigFile = {
+      configs: [{ config: [{ name: 'gpt4-work', provider: 'openai', model: 'gpt-4', api_key: 'sk-work-key-123', base_url: 'https://proxy.example.com/v1' }] }],
+      providers: [{ provider: 'openai', env: { api_key: '${QCR_TEST_UNSET_KEY}', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }] } }]
+    };
+
+    beforeEach(() => {
+      delete process.env['QCR_TEST_UNSET_KEY'];
+    });
+
+    it('should not report the provider key when the configuration has its own', () => {
+      expect(validateConfigFile(config).errors).toEqual([]);
+      expect(validateConfigurationResolution('gpt4-work', config).errors).toEqual([]);
+    });
+
+    it('should use the overrides in chk', () => {
+      const result = validateConfiguration('gpt4-work', config);
+      expect(result.isValid).toBe(true);
+      expect(result.provider?.baseUrl).toBe('https://proxy.example.com/v1');
+      expect(result.errors).toEqual([]);
+    });
+  });
+
+  describe('run', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-overrides-test-'));
+      const config: ConfigFile = {
+        configs: [{ config: [{ name: 'gpt4-work', provider: 'openai', model: 'gpt-4', env: { OPENAI_ORG_ID: 'org-789' }, args: ['--yolo'] }] }],
+        providers: [provider]
+      };
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), require('yaml').stringify(config));
+      mockSpawn.mockReset();
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should pass the configuration args before extra args and set extra variables', async () => {
+      const child = new EventEmitter() as EventEmitter & { pid?: number };
+      mockSpawn.mockReturnValue(child as any);
+
+      const resultPromise = runCommand({ configName: 'gpt4-work', currentDir: tempDir, additionalArgs: ['-p', 'hello'] });
+      setImmediate(() => child.emit('exit', 0, null));
+      const result = await resultPromise;
+
+      expect(result.success).toBe(true);
+      const [command, args, options] = mockSpawn.mock.calls[0]!;
+      expect(`${command} ${(args || []).join(' ')}`).toContain('--yolo -p hello');
+      expect((options as any).env['OPENAI_ORG_ID']).toBe('org-789');
+      expect((options as any).env['OPENAI_API_KEY']).toBe('sk-provider-key');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for TOML configuration files and the convert command
+ */
+
+import {
+  CURRENT_CONFIG_VERSION,
+  detectConfigFileFormat,
+  discoverAndLoadConfig,
+  discoverConfigFile,
+  loadConfigFile,
+  parseTomlConfig,
+  saveConfigFile,
+  serializeTomlConfig
+} from '../src/persistence';
+import { CONFIG_SCHEMA_URL } from '../src/schema';
+import { convertCommand, parseConvertCommandArgs } from '../src/commands/convert';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('TOML configuration files', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  const createConfig = (): ConfigFile => ({
+    version: CURRENT_CONFIG_VERSION,
+    default_config: [{ name: 'gpt4' }],
+    configs: [{ config: [{ name: 'gpt4', provider: 'openai', model: 'gpt-4', env: { OPENAI_ORG_ID: 'org-123' }, args: ['--yolo'] }] }],
+    providers: [{
+      provider: 'openai',
+      env: { api_key: '${QCR_TEST_TOML_KEY}', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }] }
+    }]
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-toml-test-'));
+    process.env['XDG_CONFIG_HOME'] = path.join(tempDir, 'xdg');
+    process.env['QCR_TEST_TOML_KEY'] = 'sk-toml-key-12345';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parsing and serializing', () => {
+    it('should round-trip a configuration and keep ${VAR} references', () => {
+      const content = serializeTomlConfig({ $schema: CONFIG_SCHEMA_URL, ...createConfig() });
+
+      expect(content.split('\n')[0]).toBe(`#:schema ${CONFIG_SCHEMA_URL}`);
+      expect(content).toContain('api_key = "${QCR_TEST_TOML_KEY}"');
+      expect(content).toContain('[[configs.config]]');
+
+      const parsed = parseTomlConfig(content, 'config.toml');
+      expect(parsed.$schema).toBe(CONFIG_SCHEMA_URL);
+      expect(parsed.providers[0]!.env.api_key).toBe('sk-toml-key-12345');
+      expect(parsed.configs).toEqual(createConfig().configs);
+    });
+
+    it('should report parse errors with the line', () => {
+      expect(() => parseTomlConfig('version = 2\nconfigs = [\n', '/test/config.toml'))
+        .toThrow(/TOML parsing error in \/test\/config.toml at line \d+/);
+    });
+  });
+
+  describe('discovery and saving', () => {
+    it('should find config.toml after YAML and JSON files', () => {
+      fs.writeFileSync(path.join(tempDir, 'config.toml'), serializeTomlConfig(createConfig()));
+      expect(detectConfigFileFormat('config.toml')).toBe('toml');
+      expect(discoverConfigFile(tempDir)).toEqual({ filePath: path.join(tempDir, 'config.toml'), format: 'toml', found: true });
+
+      fs.writeFileSync(path.join(tempDir, 'config.json'), JSON.stringify(createConfig()));
+      expect(discoverConfigFile(tempDir).format).toBe('json');
+    });
+
+    it('should load and save TOML files', async () => {
+      const filePath = path.join(tempDir, 'config.toml');
+      fs.writeFileSync(filePath, serializeTomlConfig(createConfig()));
+
+      const { config, validation } = await discoverAndLoadConfig(tempDir);
+      expect(validation.errors).toEqual([]);
+      config.default_config = [{ name: 'other' }];
+      await saveConfigFile(config, filePath);
+
+      const saved = await loadConfigFile(filePath);
+      expect(saved.default_config).toEqual([{ name: 'other' }]);
+      expect(fs.readFileSync(filePath, 'utf-8')).toContain('api_key = "${QCR_TEST_TOML_KEY}"');
+    });
+  });
+
+  describe('qcr convert', () => {
+    const writeYaml = (content: unknown = createConfig()) =>
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), yaml.stringify(content));
+
+    it('should convert between YAML, TOML and JSON', async () => {
+      writeYaml();
+
+      const toToml = await convertCommand({ source: 'config.yaml', destination: 'config.toml', currentDir: tempDir });
+      expect(toToml.success).toBe(true);
+      expect(toToml.message).toBe(`Converted ${path.join(tempDir, 'config.yaml')} (YAML) to ${path.join(tempDir, 'config.toml')} (TOML)`);
+
+      const toJson = await convertCommand({ source: 'config.toml', destination: 'out/../config.json', currentDir: tempDir });
+      expect(toJson.success).toBe(true);
+      expect(JSON.parse(fs.readFileSync(path.join(tempDir, 'config.json'), 'utf-8'))).toEqual(createConfig());
+    });
+
+    it('should write older files at the newest version', async () => {
+      const { version, ...versionOne } = createConfig();
+      writeYaml(versionOne);
+
+      await convertCommand({ source: 'config.yaml', destination: 'config.json', currentDir: tempDir });
+      expect(JSON.parse(fs.readFileSync(path.join(tempDir, 'config.json'), 'utf-8')).version).toBe(CURRENT_CONFIG_VERSION);
+    });
+
+    it('should refuse to overwrite without --force', async () => {
+      writeYaml();
+      const destination = path.join(tempDir, 'config.toml');
+      fs.writeFileSync(destination, '# keep me\n');
+
+      const refused = await convertCommand({ source: 'config.yaml', destination: 'config.toml', currentDir: tempDir });
+      expect(refused.success).toBe(false);
+      expect(refused.details).toContain('use --force to overwrite it');
+      expect(fs.readFileSync(destination, 'utf-8')).toBe('# keep me\n');
+
+      const forced = await convertCommand({ source: 'config.yaml', destination: 'config.toml', force: true, currentDir: tempDir });
+      expect(forced.success).toBe(true);
+      expect(fs.readFileSync(destination, 'utf-8')).toContain('[[providers]]');
+    });
+
+    it('should not write invalid configurations', async () => {
+      writeYaml({ ...createConfig(), providers: 'openai' });
+
+      const result = await convertCommand({ source: 'config.yaml', destination: 'config.toml', currentDir: tempDir });
+      expect(result.success).toBe(false);
+      expect(result.details).toContain('Missing or invalid "providers" array');
+      expect(fs.existsSync(path.join(tempDir, 'config.toml'))).toBe(false);
+    });
+
+    it('should refuse values TOML cannot represent', async () => {
+      writeYaml({ ...createConfig(), include: [null] });
+
+      const result = await convertCommand({ source: 'config.yaml', destination: 'config.toml', currentDir: tempDir });
+      expect(result.success).toBe(false);
+      expect(fs.existsSync(path.join(tempDir, 'config.toml'))).toBe(false);
+    });
+
+    it('should reject unknown extensions and identical files', async () => {
+      writeYaml();
+
+      const unknown = await convertCommand({ source: 'config.yaml', destination: 'config.ini', currentDir: tempDir });
+      expect(unknown.success).toBe(false);
+      expect(unknown.details).toContain("Cannot tell the format of 'config.ini' from its extension (use .yaml, .yml, .json, .toml)");
+
+      const same = await convertCommand({ source: 'config.yaml', destination: './config.yaml', currentDir: tempDir });
+      expect(same.success).toBe(false);
+      expect(same.details).toContain('Source and destination are the same file');
+    });
+  });
+
+  describe('parseConvertCommandArgs', () => {
+    it('should parse source, destination and --force', () => {
+      expect(parseConvertCommandArgs(['a.yaml', 'b.toml', '--force'])).toEqual({
+        valid: true,
+        options: { source: 'a.yaml', destination: 'b.toml', force: true }
+      });
+      expect(parseConvertCommandArgs(['a.yaml'])).toEqual({ valid: false, error: 'Source and destination files are required' });
+      expect(parseConvertCommandArgs(['a.yaml', 'b.toml', 'c.json'])).toEqual({ valid: false, error: 'Unexpected argument: c.json' });
+    });
+  });
+});
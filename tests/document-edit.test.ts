@@ -0,0 +1,203 @@
+/**
+ * Unit tests for minimal-diff editing of configuration files
+ */
+
+import { updateJsonContent, updateYamlContent } from '../src/document-edit';
+import { atomicSaveConfigFile, loadConfigFile, saveConfigFile } from '../src/persistence';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Document editing', () => {
+  const teamConfig = [
+    '# Team configuration',
+    '',
+    'default_config:',
+    '  - name: gpt4 # the default',
+    '',
+    'x-models: &models',
+    '  - model: gpt-4',
+    '  - model: "gpt-3.5-turbo"',
+    '',
+    'configs:',
+    '  - config:',
+    '      # Main configuration',
+    '      - name: gpt4',
+    '        provider: openai',
+    "        model: 'gpt-4'",
+    '      - name: gpt35',
+    '        provider: openai',
+    '        model: gpt-3.5-turbo',
+    '',
+    'providers:',
+    '  # Work account',
+    '  - provider: openai',
+    '    env:',
+    '      api_key: "${OPENAI_KEY}"',
+    '      base_url: https://api.openai.com/v1',
+    '      models: *models',
+    ''
+  ].join('\n');
+
+  const parse = (content: string) => yaml.parse(content);
+
+  describe('updateYamlContent', () => {
+    it('should leave an unchanged document as it is', () => {
+      expect(updateYamlContent(teamConfig, parse(teamConfig))).toBe(teamConfig);
+    });
+
+    it('should only rewrite changed values and keep their quoting', () => {
+      const value = parse(teamConfig);
+      value.configs[0].config[0].model = 'gpt-4-turbo';
+      value.providers[0].env.api_key = '${OPENAI_WORK_KEY}';
+
+      const edited = updateYamlContent(teamConfig, value)!;
+      expect(edited).toBe(teamConfig
+        .replace("model: 'gpt-4'", "model: 'gpt-4-turbo'")
+        .replace('"${OPENAI_KEY}"', '"${OPENAI_WORK_KEY}"'));
+    });
+
+    it('should keep comments of renamed items', () => {
+      const value = parse(teamConfig);
+      value.default_config = [{ name: 'gpt35' }];
+
+      expect(updateYamlContent(teamConfig, value)).toContain('  - name: gpt35 # the default\n');
+    });
+
+    it('should match list items by identity when items are removed or reordered', () => {
+      const value = parse(teamConfig);
+      value.configs[0].config = [value.configs[0].config[1], { name: 'gpt4o', provider: 'openai', model: 'gpt-4o' }];
+
+      const edited = updateYamlContent(teamConfig, value)!;
+      expect(edited).toContain([
+        '      - name: gpt35',
+        '        provider: openai',
+        '        model: gpt-3.5-turbo',
+        '      - name: gpt4o',
+        '        provider: openai',
+        '        model: gpt-4o'
+      ].join('\n'));
+      expect(edited).not.toContain("'gpt-4'");
+      expect(parse(edited)).toEqual(value);
+    });
+
+    it('should insert new keys after the key that precedes them', () => {
+      const { default_config, ...rest } = parse(teamConfig);
+      const edited = updateYamlContent(teamConfig, { version: 2, default_config, ...rest })!;
+
+      expect(edited.split('\n').slice(0, 4)).toEqual(['# Team configuration', '', 'version: 2', 'default_config:']);
+    });
+
+    it('should insert a new first key below the comment at the top of the file', () => {
+      const content = '# Team configuration\n# Shared by the whole team\nconfigs: []\n';
+      const edited = updateYamlContent(content, { default_config: [{ name: 'gpt4' }], configs: [] })!;
+
+      expect(edited).toBe('# Team configuration\n# Shared by the whole team\ndefault_config:\n  - name: gpt4\nconfigs: []\n');
+    });
+
+    it('should keep the spacing of comments and flow collections it did not change', () => {
+      const content = [
+        'default_config:',
+        '  - name: gpt4   # the default',
+        '',
+        '',
+        'configs:',
+        '  - config:',
+        '      - name: gpt4',
+        '        provider: openai',
+        '        model: gpt-4',
+        '        tags: [cheap]',
+        '        env: {A: 1}',
+        ''
+      ].join('\n');
+      const value = parse(content);
+      value.configs[0].config[0].name = 'gpt4-main';
+      value.default_config[0].name = 'gpt4-main';
+
+      expect(updateYamlContent(content, value)).toBe(content
+        .replace('- name: gpt4   #', '- name: gpt4-main #')
+        .replace('      - name: gpt4\n', '      - name: gpt4-main\n'));
+    });
+
+    it('should replace an alias once its value changes', () => {
+      const value = parse(teamConfig);
+      value.providers[0].env.models = [{ model: 'gpt-4o' }];
+
+      const edited = updateYamlContent(teamConfig, value)!;
+      expect(edited).toContain('x-models: &models');
+      expect(edited).not.toContain('*models');
+      expect(parse(edited).providers[0].env.models).toEqual([{ model: 'gpt-4o' }]);
+    });
+
+    it('should keep the indentation and line endings of the file', () => {
+      const content = 'providers:\r\n- provider: openai\r\n  env:\r\n    base_url: https://a.example.com\r\n';
+      const value = parse(content);
+      value.providers[0].env.base_url = 'https://b.example.com';
+
+      expect(updateYamlContent(content, value)).toBe(content.replace('a.example.com', 'b.example.com'));
+    });
+
+    it('should give up on documents that cannot be edited in place', () => {
+      expect(updateYamlContent('- a\n- b\n', { configs: [] })).toBeNull();
+      expect(updateYamlContent('configs: [\n', { configs: [] })).toBeNull();
+    });
+  });
+
+  describe('updateJsonContent', () => {
+    const value = { configs: [], providers: [{ provider: 'openai' }] };
+
+    it('should keep the indentation of the file', () => {
+      expect(updateJsonContent('{\n    "configs": []\n}\n', value)).toBe(JSON.stringify(value, null, 4) + '\n');
+      expect(updateJsonContent('{\n\t"configs": []\n}', value)).toBe(JSON.stringify(value, null, '\t'));
+      expect(updateJsonContent('{"configs":[]}', value)).toBe(JSON.stringify(value));
+    });
+
+    it('should keep Windows line endings', () => {
+      expect(updateJsonContent('{\r\n  "configs": []\r\n}\r\n', { configs: [] })).toBe('{\r\n  "configs": []\r\n}\r\n');
+    });
+  });
+
+  describe('saving', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-document-edit-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should keep comments and layout when saving YAML files', async () => {
+      const filePath = path.join(tempDir, 'config.yaml');
+      fs.writeFileSync(filePath, teamConfig.replace('# Team configuration', '# Team configuration\nversion: 2'));
+
+      const config = await loadConfigFile(filePath);
+      config.default_config = [{ name: 'gpt35' }];
+      await saveConfigFile(config, filePath);
+
+      const saved = fs.readFileSync(filePath, 'utf-8');
+      expect(saved).toContain('# Work account');
+      expect(saved).toContain('api_key: "${OPENAI_KEY}"');
+      expect(saved).toContain('models: *models');
+      expect(saved).toContain('  - name: gpt35 # the default');
+    });
+
+    it('should keep the indentation of JSON files when saving atomically', async () => {
+      const filePath = path.join(tempDir, 'config.json');
+      const original = {
+        version: 2,
+        configs: [{ config: [{ name: 'gpt4', provider: 'openai', model: 'gpt-4' }] }],
+        providers: [{ provider: 'openai', env: { api_key: 'sk-test-key-12345', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }] } }]
+      };
+      fs.writeFileSync(filePath, JSON.stringify(original, null, 4) + '\n');
+
+      const config = await loadConfigFile(filePath);
+      config.default_config = [{ name: 'gpt4' }];
+      await atomicSaveConfigFile(config, filePath);
+
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe(JSON.stringify({ ...original, default_config: [{ name: 'gpt4' }] }, null, 4) + '\n');
+    });
+  });
+});
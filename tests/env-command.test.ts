@@ -0,0 +1,181 @@
+/**
+ * Unit tests for the env command and the shell mode of the use command
+ */
+
+import { handleEnvCommand } from '../src/commands';
+import { envCommand, parseEnvCommandArgs, envCommandHelp } from '../src/commands/env';
+import { useCommand, parseUseCommandArgs, parseShellOption } from '../src/commands/use';
+import { STATE_FILE_ENV_VAR, tryWriteActiveState } from '../src/state';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Env Command', () => {
+  const originalEnv = { ...process.env };
+
+  const testConfigFile: ConfigFile = {
+    default_config: [{ name: 'deepseek-r1' }],
+    configs: [
+      {
+        config: [
+          { name: 'deepseek-r1', provider: 'deepseek', model: 'deepseek-reasoner' },
+          { name: 'openai-gpt4', provider: 'openai', model: 'gpt-4' }
+        ]
+      }
+    ],
+    providers: [
+      {
+        provider: 'deepseek',
+        env: {
+          api_key: "sk-deep'seek",
+          base_url: 'https://api.deepseek.com',
+          models: [{ model: 'deepseek-reasoner' }]
+        }
+      },
+      {
+        provider: 'openai',
+        env: {
+          api_key: 'sk-openai-key',
+          base_url: 'https://api.openai.com/v1',
+          models: [{ model: 'gpt-4' }]
+        }
+      }
+    ]
+  };
+
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-env-test-'));
+    const yaml = require('yaml');
+    fs.writeFileSync(path.join(tempDir, 'config.yaml'), yaml.stringify(testConfigFile));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('parseEnvCommandArgs', () => {
+    it('should parse configuration name and shell', () => {
+      const result = parseEnvCommandArgs(['deepseek-r1', '--shell', 'fish']);
+      expect(result.valid).toBe(true);
+      expect(result.options).toEqual({ configName: 'deepseek-r1', shell: 'fish' });
+    });
+
+    it('should parse --shell=value form', () => {
+      const result = parseEnvCommandArgs(['--shell=pwsh']);
+      expect(result.valid).toBe(true);
+      expect(result.options?.shell).toBe('powershell');
+    });
+
+    it('should reject unsupported shells', () => {
+      const result = parseEnvCommandArgs(['--shell', 'tcsh']);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Unsupported shell: tcsh');
+    });
+
+    it('should reject --unset combined with a configuration name', () => {
+      const result = parseEnvCommandArgs(['deepseek-r1', '--unset']);
+      expect(result.valid).toBe(false);
+    });
+
+    it('should show help', () => {
+      expect(parseEnvCommandArgs(['--help']).showHelp).toBe(true);
+      expect(envCommandHelp().message).toContain('qcr env - Print shell statements');
+    });
+  });
+
+  describe('envCommand', () => {
+    it('should print bash export statements for a configuration', async () => {
+      const result = await envCommand({ configName: 'deepseek-r1', shell: 'bash', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toMatch(/^# Environment for 'deepseek-r1'; eval this output to apply/);
+      expect(result.details).toContain(`export OPENAI_API_KEY='sk-deep'\\''seek'`);
+      expect(result.details).toContain(`export OPENAI_BASE_URL='https://api.deepseek.com'`);
+      expect(result.details).toContain(`export OPENAI_MODEL='deepseek-reasoner'`);
+    });
+
+    it('should use the default configuration when no name is given', async () => {
+      const result = await envCommand({ shell: 'fish', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.details).toContain(`set -gx OPENAI_MODEL 'deepseek-reasoner';`);
+    });
+
+    it('should leave the recorded active configuration unchanged', async () => {
+      const stateFile = path.join(tempDir, 'state.json');
+      process.env[STATE_FILE_ENV_VAR] = stateFile;
+      expect(tryWriteActiveState({ name: 'openai-gpt4', provider: 'openai', model: 'gpt-4', sourceFile: path.join(tempDir, 'config.yaml'), activatedBy: 'use' })).toBeNull();
+      const recorded = fs.readFileSync(stateFile, 'utf8');
+
+      const result = await envCommand({ configName: 'deepseek-r1', shell: 'bash', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(stateFile, 'utf8')).toBe(recorded);
+
+      await useCommand({ configName: 'deepseek-r1', shell: 'bash', currentDir: tempDir });
+      expect(JSON.parse(fs.readFileSync(stateFile, 'utf8')).name).toBe('deepseek-r1');
+      fs.rmSync(stateFile);
+    });
+
+    it('should print unset statements with --unset', async () => {
+      const result = await envCommand({ unset: true, shell: 'powershell' });
+
+      expect(result.success).toBe(true);
+      expect(result.details).toContain('Remove-Item Env:OPENAI_API_KEY');
+    });
+
+    it('should unset the extra variables recorded by earlier exports', async () => {
+      process.env['QCR_EXTRA_VARS'] = 'OPENAI_ORG_ID,HTTPS_PROXY';
+
+      const result = await envCommand({ unset: true, shell: 'bash' });
+
+      expect(result.details!.split('\n')).toEqual([
+        'unset OPENAI_API_KEY',
+        'unset OPENAI_BASE_URL',
+        'unset OPENAI_MODEL',
+        'unset OPENAI_ORG_ID',
+        'unset HTTPS_PROXY',
+        'unset QCR_EXTRA_VARS'
+      ]);
+    });
+
+    it('should fail for unknown configurations', async () => {
+      const result = await envCommand({ configName: 'missing', shell: 'bash', currentDir: tempDir });
+      expect(result.success).toBe(false);
+    });
+
+    it('should report invalid arguments through the CLI handler', async () => {
+      const result = await handleEnvCommand(['--bogus']);
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(2);
+    });
+  });
+
+  describe('use --shell', () => {
+    it('should parse the --shell option', () => {
+      const result = parseUseCommandArgs(['openai-gpt4', '--shell', 'zsh']);
+      expect(result.valid).toBe(true);
+      expect(result.options).toEqual({ configName: 'openai-gpt4', shell: 'zsh' });
+    });
+
+    it('should require a value for --shell', () => {
+      expect(parseShellOption(undefined).valid).toBe(false);
+      expect(parseUseCommandArgs(['--shell']).valid).toBe(false);
+    });
+
+    it('should emit shell statements instead of a plain message', async () => {
+      const result = await useCommand({ configName: 'openai-gpt4', shell: 'powershell', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message.startsWith('# ')).toBe(true);
+      expect(result.details).toContain(`$env:OPENAI_API_KEY = 'sk-openai-key'`);
+    });
+  });
+});
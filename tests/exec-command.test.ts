@@ -0,0 +1,209 @@
+/**
+ * Unit tests for the exec command and one-shot 'run <config_name>'
+ */
+
+import { handleExecCommand } from '../src/commands';
+import { execCommand, parseExecCommandArgs, execCommandHelp } from '../src/commands/exec';
+import { runCommand } from '../src/commands/run';
+import { readActiveState } from '../src/state';
+import { ConfigFile } from '../src/types';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+// Mock child_process
+jest.mock('child_process');
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+describe('Exec Command', () => {
+  const originalEnv = { ...process.env };
+
+  const testConfigFile: ConfigFile = {
+    default_config: [{ name: 'openai-gpt4' }],
+    configs: [
+      {
+        config: [
+          { name: 'openai-gpt4', provider: 'openai', model: 'gpt-4' },
+          { name: 'deepseek-r1', provider: 'deepseek', model: 'deepseek-reasoner' }
+        ]
+      }
+    ],
+    providers: [
+      {
+        provider: 'openai',
+        env: {
+          api_key: 'sk-openai-key',
+          base_url: 'https://api.openai.com/v1',
+          models: [{ model: 'gpt-4' }]
+        }
+      },
+      {
+        provider: 'deepseek',
+        env: {
+          api_key: 'sk-deepseek-key',
+          base_url: 'https://api.deepseek.com',
+          models: [{ model: 'deepseek-reasoner' }]
+        }
+      }
+    ]
+  };
+
+  let tempDir: string;
+  let mockChildProcess: EventEmitter & { pid?: number };
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-exec-test-'));
+    fs.writeFileSync(path.join(tempDir, 'config.yaml'), require('yaml').stringify(testConfigFile));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockChildProcess = new EventEmitter() as EventEmitter & { pid?: number };
+    mockChildProcess.pid = 12345;
+    mockSpawn.mockReturnValue(mockChildProcess as any);
+    delete process.env['OPENAI_API_KEY'];
+    delete process.env['OPENAI_BASE_URL'];
+    delete process.env['OPENAI_MODEL'];
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  const exitChildWith = (code: number) => {
+    setTimeout(() => mockChildProcess.emit('exit', code, null), 10);
+  };
+
+  describe('parseExecCommandArgs', () => {
+    it('should parse configuration and command after --', () => {
+      const result = parseExecCommandArgs(['openai-gpt4', '--', 'npm', 'test', '--', '-v']);
+
+      expect(result.valid).toBe(true);
+      expect(result.options).toEqual({
+        configName: 'openai-gpt4',
+        command: 'npm',
+        commandArgs: ['test', '--', '-v']
+      });
+    });
+
+    it('should accept the command without --', () => {
+      const result = parseExecCommandArgs(['-v', 'openai-gpt4', 'python', '-m', 'pytest']);
+
+      expect(result.valid).toBe(true);
+      expect(result.options?.verbose).toBe(true);
+      expect(result.options?.command).toBe('python');
+      expect(result.options?.commandArgs).toEqual(['-m', 'pytest']);
+    });
+
+    it('should show help', () => {
+      expect(parseExecCommandArgs(['--help'])).toEqual({ valid: true, showHelp: true });
+    });
+
+    it('should require a configuration name and a command', () => {
+      expect(parseExecCommandArgs([]).error).toBe('Configuration name is required');
+      expect(parseExecCommandArgs(['openai-gpt4']).error).toBe('Command is required');
+      expect(parseExecCommandArgs(['openai-gpt4', '--']).error).toBe('Command is required');
+    });
+
+    it('should reject unknown options before the command', () => {
+      const result = parseExecCommandArgs(['openai-gpt4', '--debug', '--', 'env']);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Unknown option: --debug');
+    });
+  });
+
+  describe('execCommandHelp', () => {
+    it('should return help information', () => {
+      const result = execCommandHelp();
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('qcr exec - Run a command');
+      expect(result.message).toContain('USAGE:');
+    });
+  });
+
+  describe('execCommand', () => {
+    it('should inject the configuration into the child environment only', async () => {
+      const resultPromise = execCommand({ configName: 'deepseek-r1', command: 'node', commandArgs: ['script.js'], currentDir: tempDir });
+      exitChildWith(0);
+      const result = await resultPromise;
+
+      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
+      expect(result.message).toBe('');
+
+      const [command, args, spawnOptions] = mockSpawn.mock.calls[0]!;
+      expect(command).toBe('node');
+      expect(args).toEqual(['script.js']);
+      expect(spawnOptions?.env).toMatchObject({
+        OPENAI_API_KEY: 'sk-deepseek-key',
+        OPENAI_BASE_URL: 'https://api.deepseek.com',
+        OPENAI_MODEL: 'deepseek-reasoner'
+      });
+      expect(process.env['OPENAI_MODEL']).toBeUndefined();
+      expect(readActiveState()).toBeNull();
+    });
+
+    it('should propagate the exit code of the command', async () => {
+      const resultPromise = execCommand({ configName: 'openai-gpt4', command: 'false', currentDir: tempDir });
+      exitChildWith(3);
+      const result = await resultPromise;
+
+      expect(result.exitCode).toBe(3);
+    });
+
+    it('should report launch failures', async () => {
+      const resultPromise = execCommand({ configName: 'openai-gpt4', command: 'missing-tool', currentDir: tempDir });
+      setTimeout(() => mockChildProcess.emit('error', new Error('spawn missing-tool ENOENT')), 10);
+      const result = await resultPromise;
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Failed to launch missing-tool');
+    });
+
+    it('should fail for unknown configurations without spawning', async () => {
+      const result = await execCommand({ configName: 'nope', command: 'env', currentDir: tempDir });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Configuration not found: 'nope'");
+      expect(mockSpawn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleExecCommand', () => {
+    it('should return usage errors for invalid arguments', async () => {
+      const result = await handleExecCommand(['openai-gpt4']);
+
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(2);
+    });
+  });
+
+  describe('runCommand with a configuration name', () => {
+    it('should launch qwen with the named configuration', async () => {
+      const resultPromise = runCommand({ configName: 'deepseek-r1', additionalArgs: ['--yolo'], currentDir: tempDir });
+      exitChildWith(0);
+      const result = await resultPromise;
+
+      expect(result.success).toBe(true);
+      const [, args, spawnOptions] = mockSpawn.mock.calls[0]!;
+      expect(args).toEqual(['--yolo']);
+      expect(spawnOptions?.env?.['OPENAI_MODEL']).toBe('deepseek-reasoner');
+      expect(process.env['OPENAI_MODEL']).toBeUndefined();
+    });
+
+    it('should fail for unknown configurations', async () => {
+      const result = await runCommand({ configName: 'nope', currentDir: tempDir });
+
+      expect(result.success).toBe(false);
+      expect(mockSpawn).not.toHaveBeenCalled();
+    });
+  });
+});
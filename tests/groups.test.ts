@@ -0,0 +1,179 @@
+/**
+ * Unit tests for named configuration groups
+ */
+
+import {
+  findConfigurationByName,
+  findConfigurationMatches,
+  getAllConfigurationNames,
+  resolveConfigurationByName
+} from '../src/resolver';
+import { validateConfigFile } from '../src/validation';
+import { resolveInheritance } from '../src/inheritance';
+import { listConfigurations } from '../src/commands';
+import { chkCommand, parseChkCommandArgs } from '../src/commands/chk';
+import { useCommand } from '../src/commands/use';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Configuration groups', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  const createConfig = (): ConfigFile => ({
+    default_config: [{ name: 'work/gpt4' }],
+    configs: [{
+      group: 'work',
+      description: 'Company accounts',
+      config: [
+        { name: 'gpt4', provider: 'openai', model: 'gpt-4', env: { OPENAI_ORG: 'work' } },
+        { name: 'turbo', provider: 'openai', model: 'gpt-4-turbo' }
+      ]
+    }, {
+      group: 'personal',
+      config: [
+        { name: 'gpt4', provider: 'openai', model: 'gpt-4-turbo' }
+      ]
+    }, {
+      config: [
+        { name: 'chat', provider: 'openai', model: 'gpt-4' }
+      ]
+    }],
+    providers: [{
+      provider: 'openai',
+      env: { api_key: 'sk-openai-key-12345', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }, { model: 'gpt-4-turbo' }] }
+    }]
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-groups-test-'));
+    process.env['XDG_CONFIG_HOME'] = tempDir;
+    process.env['APPDATA'] = tempDir;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('references', () => {
+    it('should find configurations by name or group/name', () => {
+      const config = createConfig();
+
+      expect(findConfigurationByName('turbo', config)?.model).toBe('gpt-4-turbo');
+      expect(findConfigurationByName('work/turbo', config)?.model).toBe('gpt-4-turbo');
+      expect(findConfigurationByName('personal/gpt4', config)?.model).toBe('gpt-4-turbo');
+      expect(findConfigurationByName('gpt4', config)).toBeNull();
+      expect(findConfigurationMatches('gpt4', config)).toHaveLength(2);
+      expect(findConfigurationByName('home/gpt4', config)).toBeNull();
+    });
+
+    it('should qualify names used by more than one group', () => {
+      expect(getAllConfigurationNames(createConfig())).toEqual(['work/gpt4', 'turbo', 'personal/gpt4', 'chat']);
+    });
+
+    it('should report ambiguous names', () => {
+      const result = resolveConfigurationByName('gpt4', createConfig(), false);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Configuration "gpt4" is ambiguous. Use a qualified name: work/gpt4, personal/gpt4');
+    });
+  });
+
+  describe('validation', () => {
+    it('should allow a name in several named groups', () => {
+      expect(validateConfigFile(createConfig()).errors).toEqual([]);
+    });
+
+    it('should reject duplicates that group/name cannot tell apart', () => {
+      const config = createConfig();
+      config.configs[2]!.config.push({ name: 'turbo', provider: 'openai', model: 'gpt-4' });
+      config.configs[1]!.group = 'work';
+      config.configs[0]!.description = 7 as any;
+
+      expect(validateConfigFile(config).errors).toEqual([
+        'Default configuration "work/gpt4" is ambiguous, use group/name',
+        'configs[0]: description must be a string',
+        'Duplicate configuration names found: gpt4, turbo',
+        'Duplicate configuration group names found: work'
+      ]);
+    });
+
+    it('should reject group names with a slash and ambiguous defaults', () => {
+      const config = createConfig();
+      config.configs[1]!.group = 'a/b';
+      config.default_config = [{ name: 'gpt4' }];
+
+      expect(validateConfigFile(config).errors).toEqual([
+        'Default configuration "gpt4" is ambiguous, use group/name',
+        "configs[1]: group must be a name without '/'"
+      ]);
+    });
+  });
+
+  describe('inheritance', () => {
+    it('should prefer the entry of the same group and accept group/name', () => {
+      const config = createConfig();
+      config.configs[0]!.config.push({ name: 'child', extends: 'gpt4' } as any);
+      config.configs[1]!.config.push({ name: 'other', extends: 'work/turbo' } as any);
+      config.configs[2]!.config.push({ name: 'orphan', extends: 'gpt4' } as any);
+
+      expect(() => resolveInheritance(config)).toThrow("Configuration 'orphan' extends ambiguous configuration 'gpt4', use group/name");
+
+      config.configs[2]!.config.pop();
+      const resolved = resolveInheritance(config);
+      expect(resolved.configs[0]!.config[2]).toMatchObject({ model: 'gpt-4', env: { OPENAI_ORG: 'work' } });
+      expect(resolved.configs[1]!.config[1]).toMatchObject({ model: 'gpt-4-turbo', provider: 'openai' });
+    });
+  });
+
+  describe('commands', () => {
+    it('should list named groups as sections', () => {
+      const result = listConfigurations(createConfig());
+
+      expect(result.details).toBe([
+        '  work: Company accounts',
+        '    gpt4 (default)',
+        '    turbo',
+        '  personal:',
+        '    gpt4',
+        '  chat'
+      ].join('\n'));
+    });
+
+    it('should activate a qualified reference', async () => {
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), yaml.stringify(createConfig()));
+
+      const result = await useCommand({ configName: 'personal/gpt4', currentDir: tempDir });
+      expect(result.success).toBe(true);
+      expect(process.env['OPENAI_MODEL']).toBe('gpt-4-turbo');
+
+      const ambiguous = await useCommand({ configName: 'gpt4', currentDir: tempDir });
+      expect(ambiguous.success).toBe(false);
+      expect(ambiguous.message).toBe("Configuration 'gpt4' is ambiguous");
+      expect(ambiguous.details).toContain('work/gpt4, personal/gpt4');
+    });
+
+    it('should validate one group with chk --group', async () => {
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), yaml.stringify(createConfig()));
+
+      const result = await chkCommand({ group: 'work', currentDir: tempDir });
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("All 2 configurations in group 'work' are valid");
+      expect(result.details).toBe('  ✓ work/gpt4 (default)\n  ✓ turbo');
+
+      const unknown = await chkCommand({ group: 'home', currentDir: tempDir });
+      expect(unknown.success).toBe(false);
+      expect(unknown.message).toBe("Configuration group 'home' does not exist");
+      expect(unknown.details).toBe('Available groups: work, personal');
+    });
+
+    it('should parse --group', () => {
+      expect(parseChkCommandArgs(['--group', 'work', '--tag=prod'])).toEqual({ valid: true, options: { tag: 'prod', group: 'work' } });
+      expect(parseChkCommandArgs(['chat', '--group', 'work']).error).toBe('A configuration name cannot be combined with --group');
+    });
+  });
+});
@@ -32,7 +32,7 @@ describe('Help System', () => {
       expect(result.message).toContain('EXAMPLES:');
       expect(result.message).toContain('CONFIGURATION:');
       expect(result.message).toContain('use [config_name]');
-      expect(result.message).toContain('run [args...]');
+      expect(result.message).toContain('run [config] [args...]');
       expect(result.message).toContain('/router <provider> <model>');
     });
 
@@ -160,11 +160,11 @@ describe('Help System', () => {
 
   describe('getQuickUsage', () => {
     it('should return correct usage for each command', () => {
-      expect(getQuickUsage('use')).toBe('qcr use [config_name] [-v|--verbose]');
-      expect(getQuickUsage('run')).toBe('qcr run [additional_args...] [-v|--verbose]');
+      expect(getQuickUsage('use')).toBe('qcr use [config_name | --tag <tag>] [--need <requirements> [--prefer <policy>]] [--shell <shell>] [-v|--verbose]');
+      expect(getQuickUsage('run')).toBe('qcr run [config_name] [-v|--verbose] [-- qwen_args...]');
       expect(getQuickUsage('set-default')).toBe('qcr set-default <config_name> [-v|--verbose]');
       expect(getQuickUsage('list')).toBe('qcr list <subcommand> [-v|--verbose]');
-      expect(getQuickUsage('chk')).toBe('qcr chk [config_name] [--test-api] [-v|--verbose]');
+      expect(getQuickUsage('chk')).toBe('qcr chk [config_name | --group <group>] [--tag <tag>] [--test-api] [-v|--verbose]');
       expect(getQuickUsage('/router')).toBe('/router <provider> <model>');
       expect(getQuickUsage('router')).toBe('/router <provider> <model>');
     });
@@ -174,7 +174,7 @@ describe('Help System', () => {
     });
 
     it('should handle case insensitive commands', () => {
-      expect(getQuickUsage('USE')).toBe('qcr use [config_name] [-v|--verbose]');
+      expect(getQuickUsage('USE')).toBe('qcr use [config_name | --tag <tag>] [--need <requirements> [--prefer <policy>]] [--shell <shell>] [-v|--verbose]');
     });
   });
 
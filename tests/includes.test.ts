@@ -0,0 +1,147 @@
+/**
+ * Unit tests for the include: directive
+ */
+
+import { expandIncludePattern, getIncludeEntries } from '../src/includes';
+import { loadConfigFile, loadAndValidateConfigFile, saveConfigFile } from '../src/persistence';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Config Includes', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  const write = (relativePath: string, content: unknown) => {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, typeof content === 'string' ? content : yaml.stringify(content));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-include-test-')));
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('expandIncludePattern', () => {
+    it('should resolve plain paths relative to the including file', () => {
+      expect(expandIncludePattern('./keys.yaml', tempDir)).toEqual([path.join(tempDir, 'keys.yaml')]);
+    });
+
+    it('should expand ~ to the home directory', () => {
+      expect(expandIncludePattern('~/keys.yaml', '/elsewhere')).toEqual([path.join(os.homedir(), 'keys.yaml')]);
+    });
+
+    it('should expand globs in sorted order, skipping hidden files', () => {
+      write('providers/b.yaml', {});
+      write('providers/a.yaml', {});
+      write('providers/.hidden.yaml', {});
+      write('providers/notes.txt', 'x');
+      write('providers/nested/c.yaml', {});
+
+      expect(expandIncludePattern('providers/*.yaml', tempDir)).toEqual([
+        path.join(tempDir, 'providers', 'a.yaml'),
+        path.join(tempDir, 'providers', 'b.yaml')
+      ]);
+      expect(expandIncludePattern('providers/**/*.yaml', tempDir)).toContain(path.join(tempDir, 'providers', 'nested', 'c.yaml'));
+      expect(expandIncludePattern('missing/*.yaml', tempDir)).toEqual([]);
+    });
+  });
+
+  describe('getIncludeEntries', () => {
+    it('should accept a path or a list of paths', () => {
+      expect(getIncludeEntries({ include: 'a.yaml' } as ConfigFile, 'root.yaml')).toEqual(['a.yaml']);
+      expect(getIncludeEntries({ include: ['a.yaml', 'b.yaml'] } as ConfigFile, 'root.yaml')).toEqual(['a.yaml', 'b.yaml']);
+      expect(() => getIncludeEntries({ include: 42 } as unknown as ConfigFile, 'root.yaml')).toThrow('"include" in root.yaml must be');
+    });
+  });
+
+  describe('loading', () => {
+    beforeEach(() => {
+      write('providers/deepseek.yaml', {
+        providers: [{ provider: 'deepseek', env: { base_url: 'https://api.deepseek.com', models: [{ model: 'deepseek-chat' }] } }]
+      });
+      write('private/keys.yaml', {
+        providers: [{ provider: 'deepseek', env: { api_key: 'sk-private' } }]
+      });
+    });
+
+    it('should compose a provider catalog with a private key file', async () => {
+      const root = write('config.yaml', {
+        include: ['./providers/*.yaml', './private/keys.yaml'],
+        default_config: [{ name: 'ds' }],
+        configs: [{ config: [{ name: 'ds', provider: 'deepseek', model: 'deepseek-chat' }] }]
+      });
+
+      const { config, validation } = await loadAndValidateConfigFile(root);
+      expect(validation.isValid).toBe(true);
+      expect(config.providers).toEqual([{
+        provider: 'deepseek',
+        env: { base_url: 'https://api.deepseek.com', api_key: 'sk-private', models: [{ model: 'deepseek-chat' }] }
+      }]);
+    });
+
+    it('should give the including file precedence over included files', async () => {
+      const root = write('config.yaml', {
+        include: './private/keys.yaml',
+        configs: [],
+        providers: [{ provider: 'deepseek', env: { api_key: 'sk-root', base_url: 'https://proxy.example.com', models: [] } }]
+      });
+
+      const config = await loadConfigFile(root);
+      expect(config.providers[0]!.env.api_key).toBe('sk-root');
+    });
+
+    it('should report missing files with the including file', async () => {
+      const root = write('config.yaml', { include: './nope.yaml', configs: [], providers: [] });
+
+      await expect(loadConfigFile(root)).rejects.toThrow(`Included file not found: ${path.join(tempDir, 'nope.yaml')} (included from ${root})`);
+    });
+
+    it('should detect include cycles', async () => {
+      const root = write('config.yaml', { include: './a.yaml', configs: [], providers: [] });
+      write('a.yaml', { include: './b.yaml' });
+      write('b.yaml', { include: './config.yaml' });
+
+      await expect(loadConfigFile(root)).rejects.toThrow(`Include cycle detected: ${root} -> ${path.join(tempDir, 'a.yaml')} -> ${path.join(tempDir, 'b.yaml')} -> ${root}`);
+    });
+
+    it('should name the originating file in validation errors', async () => {
+      write('providers/broken.yaml', {
+        providers: [{ provider: 'broken', env: { api_key: 'k', base_url: 'not a url', models: [{ model: 'm' }] } }]
+      });
+      const root = write('config.yaml', {
+        include: './providers/broken.yaml',
+        configs: [{ config: [{ name: 'b', provider: 'broken', model: 'm' }] }],
+        providers: []
+      });
+
+      const { validation } = await loadAndValidateConfigFile(root);
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain(`providers[0].env: base_url is not a valid URL format (in ${path.join(tempDir, 'providers', 'broken.yaml')})`);
+    });
+
+    it('should not copy included entries into the including file on save', async () => {
+      const rootContent = {
+        version: 2,
+        include: ['./providers/*.yaml', './private/keys.yaml'],
+        configs: [{ config: [{ name: 'ds', provider: 'deepseek', model: 'deepseek-chat' }] }]
+      };
+      const root = write('config.yaml', rootContent);
+
+      const config = await loadConfigFile(root);
+      config.default_config = [{ name: 'ds' }];
+      await saveConfigFile(config, root);
+
+      const saved = yaml.parse(fs.readFileSync(root, 'utf-8'));
+      expect(saved).toEqual({ ...rootContent, default_config: [{ name: 'ds' }] });
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for `extends` between providers and configurations
+ */
+
+import { resolveInheritance, restoreInheritance, getDeclaredProvider } from '../src/inheritance';
+import { loadLayeredConfigFile, saveConfigFile, discoverAndLoadConfig } from '../src/persistence';
+import { resolveConfigurationByName, getModelsForBuiltInProvider } from '../src/resolver';
+import { MERGE_CONFIGS_ENV_VAR } from '../src/layers';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Inheritance', () => {
+  const originalEnv = { ...process.env };
+
+  const createConfig = (): ConfigFile => ({
+    configs: [{
+      config: [
+        { name: 'base', provider: 'openai-work', model: 'gpt-4', env: { OPENAI_ORG_ID: 'org-1', QCR_A: 'a' } },
+        { name: 'child', extends: 'base', env: { QCR_A: 'b' }, args: ['--yolo'] } as any
+      ]
+    }],
+    providers: [
+      { provider: 'openai-work', extends: 'openai', env: { api_key: 'sk-work-key-12345' } as any },
+      { provider: 'openai-proxy', extends: 'openai-work', env: { base_url: 'https://proxy.example.com/v1' } as any },
+      { provider: 'openai', extends: 'openai', env: { api_key: 'sk-own-key-12345', models: [{ model: 'gpt-4o' }] } as any }
+    ]
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('resolveInheritance', () => {
+    it('should inherit from built-in and configured providers', () => {
+      const config = resolveInheritance(createConfig());
+      const [work, proxy, openai] = config.providers;
+
+      expect(work!.env.base_url).toBe('https://api.openai.com/v1');
+      expect(work!.env.models.map(m => m.model)).toContain('gpt-4');
+      expect(proxy!.env).toMatchObject({ api_key: 'sk-work-key-12345', base_url: 'https://proxy.example.com/v1' });
+      expect(proxy!.provider).toBe('openai-proxy');
+      // A provider extending its own name extends the built-in provider
+      expect(openai!.env.models.map(m => m.model)).toEqual(['gpt-4o', ...getModelsForBuiltInProvider('openai')!]);
+      expect(getDeclaredProvider(work!).env).toEqual({ api_key: 'sk-work-key-12345' });
+    });
+
+    it('should inherit configuration entries and merge env', () => {
+      const config = resolveInheritance(createConfig());
+      expect(config.configs[0]!.config[1]).toEqual({
+        name: 'child',
+        extends: 'base',
+        provider: 'openai-work',
+        model: 'gpt-4',
+        env: { OPENAI_ORG_ID: 'org-1', QCR_A: 'b' },
+        args: ['--yolo']
+      });
+    });
+
+    it('should replace inherited key sources when a provider sets its own', () => {
+      const config: ConfigFile = {
+        configs: [],
+        providers: [
+          { provider: 'a', env: { api_key: 'sk-a', base_url: 'https://a.example.com', models: [{ model: 'm' }] } },
+          { provider: 'b', extends: 'a', env: { api_key_cmd: 'pass show b' } as any }
+        ]
+      };
+      const b = resolveInheritance(config).providers[1]!;
+      expect(b.env.api_key).toBeUndefined();
+      expect(b.env.api_key_cmd).toBe('pass show b');
+    });
+
+    it('should detect cycles', () => {
+      const providers: ConfigFile = {
+        configs: [],
+        providers: [
+          { provider: 'a', extends: 'b', env: {} as any },
+          { provider: 'b', extends: 'a', env: {} as any }
+        ]
+      };
+      expect(() => resolveInheritance(providers)).toThrow('Provider inheritance cycle detected: a -> b -> a');
+
+      const configs: ConfigFile = {
+        configs: [{ config: [{ name: 'x', extends: 'x' } as any] }],
+        providers: []
+      };
+      expect(() => resolveInheritance(configs)).toThrow('Configuration inheritance cycle detected: x -> x');
+    });
+
+    it('should report unknown parents', () => {
+      expect(() => resolveInheritance({
+        configs: [],
+        providers: [{ provider: 'a', extends: 'nowhere', env: {} as any }]
+      })).toThrow("Provider 'a' extends unknown provider 'nowhere'");
+      expect(() => resolveInheritance({
+        configs: [{ config: [{ name: 'x', extends: 'y' } as any] }],
+        providers: []
+      })).toThrow("Configuration 'x' extends unknown configuration 'y'");
+    });
+  });
+
+  describe('restoreInheritance', () => {
+    it('should write unchanged entries as declared', () => {
+      const declared = createConfig();
+      const expected = JSON.parse(JSON.stringify(declared));
+      expect(JSON.parse(JSON.stringify(restoreInheritance(resolveInheritance(declared))))).toEqual(expected);
+    });
+
+    it('should only write values that differ from the parent for changed entries', () => {
+      const config = resolveInheritance(createConfig());
+      config.providers[1]!.env.api_key = 'sk-proxy-key-12345';
+      config.configs[0]!.config[1]!.model = 'gpt-4-turbo';
+
+      const restored = restoreInheritance(config);
+      expect(restored.providers[1]).toEqual({
+        provider: 'openai-proxy',
+        extends: 'openai-work',
+        env: { api_key: 'sk-proxy-key-12345', base_url: 'https://proxy.example.com/v1' }
+      });
+      expect(restored.configs[0]!.config[1]).toEqual({
+        name: 'child',
+        model: 'gpt-4-turbo',
+        env: { QCR_A: 'b' },
+        args: ['--yolo'],
+        extends: 'base'
+      });
+    });
+  });
+
+  describe('loading', () => {
+    let tempDir: string;
+    let configPath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-inheritance-test-'));
+      configPath = path.join(tempDir, 'config.yaml');
+      process.env['XDG_CONFIG_HOME'] = path.join(tempDir, 'xdg');
+      delete process.env[MERGE_CONFIGS_ENV_VAR];
+      fs.writeFileSync(configPath, yaml.stringify(createConfig()));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should resolve inheritance after loading so validation and resolution see the final values', async () => {
+      const { config, validation } = await discoverAndLoadConfig(tempDir);
+
+      expect(validation.errors).toEqual([]);
+      const resolution = resolveConfigurationByName('child', config, false);
+      expect(resolution.environmentVariables).toEqual({
+        OPENAI_API_KEY: 'sk-work-key-12345',
+        OPENAI_BASE_URL: 'https://api.openai.com/v1',
+        OPENAI_MODEL: 'gpt-4',
+        OPENAI_ORG_ID: 'org-1',
+        QCR_A: 'b'
+      });
+    });
+
+    it('should report cycles as load errors', async () => {
+      fs.writeFileSync(configPath, yaml.stringify({
+        configs: [],
+        providers: [{ provider: 'a', extends: 'b', env: {} }, { provider: 'b', extends: 'a', env: {} }]
+      }));
+      await expect(loadLayeredConfigFile(configPath)).rejects.toThrow('Provider inheritance cycle detected');
+    });
+
+    it('should keep extends entries short when saving', async () => {
+      const config = await loadLayeredConfigFile(configPath);
+      config.default_config = [{ name: 'child' }];
+      await saveConfigFile(config, configPath);
+
+      const saved = yaml.parse(fs.readFileSync(configPath, 'utf-8'));
+      expect(saved.providers[0]).toEqual({ provider: 'openai-work', extends: 'openai', env: { api_key: 'sk-work-key-12345' } });
+      expect(saved.configs[0].config[1]).toEqual({ name: 'child', extends: 'base', env: { QCR_A: 'b' }, args: ['--yolo'] });
+      expect(saved.default_config).toEqual([{ name: 'child' }]);
+    });
+  });
+});
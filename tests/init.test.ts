@@ -0,0 +1,220 @@
+/**
+ * Unit tests for the setup wizard (qcr init)
+ */
+
+import { createInitConfig, detectApiKeyVariables, getInitConfigName } from '../src/init';
+import { initCommand, parseInitCommandArgs } from '../src/commands/init';
+import { isInteractiveInput, promptHidden, promptLine } from '../src/prompt';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+jest.mock('../src/prompt');
+
+const mockIsInteractiveInput = isInteractiveInput as jest.MockedFunction<typeof isInteractiveInput>;
+const mockPromptLine = promptLine as jest.MockedFunction<typeof promptLine>;
+const mockPromptHidden = promptHidden as jest.MockedFunction<typeof promptHidden>;
+
+describe('Setup wizard', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+  let projectDir: string;
+
+  const localConfig = () => path.join(projectDir, 'config.yaml');
+  const readConfig = (filePath: string) => yaml.parse(fs.readFileSync(filePath, 'utf8'));
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-init-test-'));
+    projectDir = path.join(tempDir, 'project');
+    fs.mkdirSync(projectDir);
+    process.env = { ...originalEnv, XDG_CONFIG_HOME: tempDir, APPDATA: tempDir };
+    for (const name of Object.keys(process.env).filter(name => name.endsWith('_API_KEY'))) {
+      delete process.env[name];
+    }
+    mockIsInteractiveInput.mockReturnValue(false);
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+    mockPromptLine.mockReset();
+    mockPromptHidden.mockReset();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('detectApiKeyVariables', () => {
+    it('should match key variables to built-in providers by name, alias or first word', () => {
+      expect(detectApiKeyVariables({
+        OPENAI_API_KEY: 'sk-1',
+        GEMINI_API_KEY: 'g-1',
+        AZURE_OPENAI_API_KEY: 'a-1',
+        ANTHROPIC_API_KEY: '',
+        DEEPSEEK_API_KEY: 'sk-2',
+        QWEN_API_KEY: 'q-1',
+        TOGETHER_API_KEY: 't-1',
+        OPENAI_BASE_URL: 'https://api.openai.com/v1'
+      })).toEqual([
+        { variable: 'AZURE_OPENAI_API_KEY', provider: 'azure' },
+        { variable: 'DEEPSEEK_API_KEY', provider: 'deepseek' },
+        { variable: 'GEMINI_API_KEY', provider: 'google' },
+        { variable: 'OPENAI_API_KEY', provider: 'openai' },
+        { variable: 'QWEN_API_KEY', provider: 'dashscope' }
+      ]);
+    });
+  });
+
+  describe('createInitConfig', () => {
+    it('should create one configuration per model and default to the first', () => {
+      const { config, errors } = createInitConfig([
+        { provider: 'deepseek', baseUrl: 'https://api.deepseek.com/v1', apiKey: '${DEEPSEEK_API_KEY}', models: ['deepseek-chat', 'deepseek-reasoner'] },
+        { provider: 'openai', baseUrl: 'https://api.openai.com/v1', apiKey: '${OPENAI_API_KEY}', models: ['gpt-4'] }
+      ]);
+
+      expect(errors).toEqual([]);
+      expect(config.configs).toEqual([{
+        config: [
+          { name: 'deepseek-chat', provider: 'deepseek', model: 'deepseek-chat' },
+          { name: 'deepseek-reasoner', provider: 'deepseek', model: 'deepseek-reasoner' },
+          { name: 'openai-gpt-4', provider: 'openai', model: 'gpt-4' }
+        ]
+      }]);
+      expect(config.default_config).toEqual([{ name: 'deepseek-chat' }]);
+      expect(getInitConfigName('google', 'gemini-pro')).toBe('google-gemini-pro');
+    });
+
+    it('should report an unknown default configuration', () => {
+      const { errors } = createInitConfig(
+        [{ provider: 'openai', baseUrl: 'https://api.openai.com/v1', apiKey: 'sk-1', models: ['gpt-4'] }],
+        'gpt-5'
+      );
+
+      expect(errors.some(error => error.includes('gpt-5'))).toBe(true);
+    });
+  });
+
+  describe('qcr init --yes', () => {
+    it('should set up a catalog provider with a key variable', async () => {
+      const result = await initCommand({ yes: true, provider: 'deepseek', keyEnv: 'DEEPSEEK_API_KEY', currentDir: projectDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe(`Created configuration file ${localConfig()}`);
+      expect(result.details).toContain('DEEPSEEK_API_KEY is not set');
+      const saved = readConfig(localConfig());
+      expect(saved.default_config).toEqual([{ name: 'deepseek-chat' }]);
+      expect(saved.configs).toEqual([{ config: [{ name: 'deepseek-chat', provider: 'deepseek', model: 'deepseek-chat' }] }]);
+      expect(saved.providers).toEqual([{
+        provider: 'deepseek',
+        env: { api_key: '${DEEPSEEK_API_KEY}', base_url: 'https://api.deepseek.com/v1', models: [{ model: 'deepseek-chat' }] }
+      }]);
+    });
+
+    it('should set up a provider from the user catalog', async () => {
+      fs.mkdirSync(path.join(tempDir, 'qcr'));
+      fs.writeFileSync(path.join(tempDir, 'qcr', 'builtin-providers.yaml'), yaml.stringify({
+        providers: [{ provider: 'together', name: 'Together AI', env: { base_url: 'https://api.together.xyz/v1', models: [{ model: 'llama-3-70b' }] } }]
+      }));
+      process.env['TOGETHER_API_KEY'] = 't-test-12345';
+
+      const result = await initCommand({ yes: true, currentDir: projectDir });
+
+      expect(result.success).toBe(true);
+      expect(readConfig(localConfig()).providers).toEqual([{
+        provider: 'together',
+        env: { api_key: '${TOGETHER_API_KEY}', base_url: 'https://api.together.xyz/v1', models: [{ model: 'llama-3-70b' }] }
+      }]);
+    });
+
+    it('should configure the providers of the detected keys', async () => {
+      process.env['GEMINI_API_KEY'] = 'g-test-12345';
+      process.env['OPENAI_API_KEY'] = 'sk-test-12345';
+      process.env['DEEPSEEK_API_KEY'] = 'sk-test-67890';
+
+      const result = await initCommand({ yes: true, location: 'user', currentDir: projectDir });
+
+      expect(result.success).toBe(true);
+      const saved = readConfig(path.join(tempDir, 'qcr', 'config.yaml'));
+      expect(saved.providers.map((p: any) => [p.provider, p.env.api_key])).toEqual([
+        ['deepseek', '${DEEPSEEK_API_KEY}'],
+        ['google', '${GEMINI_API_KEY}'],
+        ['openai', '${OPENAI_API_KEY}']
+      ]);
+      expect(saved.default_config).toEqual([{ name: 'deepseek-chat' }]);
+      expect(fs.existsSync(localConfig())).toBe(false);
+    });
+
+    it('should need a base URL for providers outside the catalog', async () => {
+      const missing = await initCommand({ yes: true, provider: 'together', currentDir: projectDir });
+      expect(missing.success).toBe(false);
+      expect(missing.details).toContain("Provider 'together' is not in the built-in catalog");
+      expect(missing.details).toContain('Use --base-url and --models for a provider outside the built-in catalog');
+      expect(missing.details).not.toContain('The configuration file was not changed');
+
+      const none = await initCommand({ yes: true, currentDir: projectDir });
+      expect(none.details).toContain('no API key of a built-in provider found');
+
+      const result = await initCommand({
+        yes: true, provider: 'together', baseUrl: 'https://api.together.xyz/v1', models: ['llama-3-70b'], currentDir: projectDir
+      });
+      expect(result.success).toBe(true);
+      expect(readConfig(localConfig()).providers[0].env.api_key).toBe('${TOGETHER_API_KEY}');
+    });
+
+    it('should not replace an existing file unless forced', async () => {
+      fs.writeFileSync(localConfig(), 'configs: []\n');
+      const options = { yes: true, provider: 'openai', keyEnv: 'OPENAI_API_KEY', currentDir: projectDir };
+
+      const refused = await initCommand(options);
+      expect(refused.success).toBe(false);
+      expect(refused.details).toContain('already exists. Use --force to replace it');
+      expect(fs.readFileSync(localConfig(), 'utf8')).toBe('configs: []\n');
+
+      const forced = await initCommand({ ...options, force: true });
+      expect(forced.success).toBe(true);
+      expect(readConfig(localConfig()).default_config).toEqual([{ name: 'openai-gpt-4' }]);
+      const backup = fs.readdirSync(projectDir).find(file => file.startsWith('config.yaml.backup.'));
+      expect(fs.readFileSync(path.join(projectDir, backup!), 'utf8')).toBe('configs: []\n');
+    });
+  });
+
+  describe('interactive qcr init', () => {
+    it('should ask for providers, models, keys, the default and the location', async () => {
+      process.env['ANTHROPIC_API_KEY'] = 'sk-ant-test-12345';
+      mockIsInteractiveInput.mockReturnValue(true);
+      const answers = ['3, 4', '1, 3', '', '9', '3', '', 'google-gemini-pro', 'google-gemini-1.5-pro', '1'];
+      mockPromptLine.mockImplementation(async () => answers.shift()!);
+      mockPromptHidden.mockResolvedValue('g-secret-12345\n');
+
+      const result = await initCommand({ currentDir: projectDir });
+
+      expect(result.success).toBe(true);
+      expect(answers).toEqual([]);
+      const saved = readConfig(localConfig());
+      expect(saved.providers).toEqual([{
+        provider: 'anthropic',
+        env: {
+          api_key: '${ANTHROPIC_API_KEY}',
+          base_url: expect.any(String),
+          models: [{ model: 'claude-3-opus-20240229' }, { model: 'claude-3-haiku-20240307' }]
+        }
+      }, {
+        provider: 'google',
+        env: { api_key: 'g-secret-12345', base_url: expect.any(String), models: [{ model: 'gemini-1.5-pro' }] }
+      }]);
+      expect(saved.default_config).toEqual([{ name: 'google-gemini-1.5-pro' }]);
+    });
+  });
+
+  describe('parseInitCommandArgs', () => {
+    it('should parse the options', () => {
+      expect(parseInitCommandArgs(['--yes', '--provider', 'deepseek', '--key-env=DEEPSEEK_API_KEY', '--user']).options).toEqual({
+        yes: true, force: false, verbose: false, provider: 'deepseek', keyEnv: 'DEEPSEEK_API_KEY', location: 'user'
+      });
+      expect(parseInitCommandArgs(['--models', 'a']).error).toBe('--models requires --provider');
+      expect(parseInitCommandArgs(['--local', '--user']).error).toBe('--local and --user cannot be used together');
+      expect(parseInitCommandArgs(['--provider', 'x', '--key-env', 'BAD-NAME']).error).toBe('Invalid environment variable name: BAD-NAME');
+      expect(parseInitCommandArgs(['openai']).error).toBe('Unexpected argument: openai');
+    });
+  });
+});
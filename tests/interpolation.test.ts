@@ -0,0 +1,245 @@
+/**
+ * Unit tests for value interpolation and lazy API key sources
+ */
+
+import {
+  interpolateString,
+  findUnresolvedReferences,
+  interpolateConfigFile,
+  restoreRawValues,
+  expandPath,
+  hasLazyApiKey,
+  resolveProviderApiKey,
+  resolveProviderBaseUrl,
+  clearApiKeyCache
+} from '../src/interpolation';
+import { parseYamlConfig, parseJsonConfig, serializeYamlConfig, serializeJsonConfig } from '../src/persistence';
+import { validateProviderEnv } from '../src/validation';
+import { validateConfiguration } from '../src/commands/chk';
+import { useCommand } from '../src/commands/use';
+import { ConfigFile, ProviderEnv } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Interpolation', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-interpolation-test-'));
+    process.env['QCR_TEST_KEY'] = 'sk-from-env';
+    delete process.env['QCR_TEST_UNSET'];
+    clearApiKeyCache();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const yamlWithReferences = `
+configs:
+  - config:
+      - name: ds
+        provider: deepseek
+        model: deepseek-chat
+providers:
+  - provider: deepseek
+    env:
+      api_key: \${QCR_TEST_KEY}
+      base_url: \${QCR_TEST_UNSET:-https://api.deepseek.com}
+      models:
+        - model: deepseek-chat
+`;
+
+  describe('interpolateString', () => {
+    it('should expand set variables and fallbacks', () => {
+      expect(interpolateString('${QCR_TEST_KEY}')).toEqual({ value: 'sk-from-env', unresolved: [] });
+      expect(interpolateString('${QCR_TEST_UNSET:-fallback}/v1')).toEqual({ value: 'fallback/v1', unresolved: [] });
+      expect(interpolateString('${QCR_TEST_UNSET:-}')).toEqual({ value: '', unresolved: [] });
+    });
+
+    it('should leave unresolved references in place', () => {
+      expect(interpolateString('key-${QCR_TEST_UNSET}')).toEqual({
+        value: 'key-${QCR_TEST_UNSET}',
+        unresolved: ['QCR_TEST_UNSET']
+      });
+      expect(findUnresolvedReferences('key-${QCR_TEST_UNSET}')).toEqual(['QCR_TEST_UNSET']);
+    });
+
+    it('should not touch values without references', () => {
+      expect(interpolateString('sk-$abc{1}')).toEqual({ value: 'sk-$abc{1}', unresolved: [] });
+    });
+  });
+
+  describe('parsing and saving', () => {
+    it('should expand references in api_key and base_url when parsing YAML', () => {
+      const config = parseYamlConfig(yamlWithReferences, 'config.yaml');
+
+      expect(config.providers[0]!.env.api_key).toBe('sk-from-env');
+      expect(config.providers[0]!.env.base_url).toBe('https://api.deepseek.com');
+    });
+
+    it('should expand references when parsing JSON', () => {
+      const config = parseJsonConfig(JSON.stringify({
+        configs: [],
+        providers: [{ provider: 'p', env: { api_key: '${QCR_TEST_KEY}', base_url: 'https://x', models: [] } }]
+      }), 'config.json');
+
+      expect(config.providers[0]!.env.api_key).toBe('sk-from-env');
+    });
+
+    it('should write the original references back when serializing', () => {
+      const config = parseYamlConfig(yamlWithReferences, 'config.yaml');
+
+      const yamlOutput = serializeYamlConfig(config);
+      expect(yamlOutput).toContain('${QCR_TEST_KEY}');
+      expect(yamlOutput).not.toContain('sk-from-env');
+      expect(serializeJsonConfig(config)).toContain('${QCR_TEST_UNSET:-https://api.deepseek.com}');
+      // The in-memory configuration keeps the expanded values
+      expect(config.providers[0]!.env.api_key).toBe('sk-from-env');
+    });
+
+    it('should keep values that were changed after parsing', () => {
+      const config = parseYamlConfig(yamlWithReferences, 'config.yaml');
+      config.providers[0]!.env.api_key = 'sk-new';
+
+      expect(restoreRawValues(config).providers[0]!.env.api_key).toBe('sk-new');
+    });
+
+    it('should ignore configurations without providers', () => {
+      expect(interpolateConfigFile({} as ConfigFile)).toEqual({});
+    });
+  });
+
+  describe('lazy API key sources', () => {
+    const baseEnv: ProviderEnv = { base_url: 'https://api.example.com', models: [{ model: 'm' }] };
+
+    it('should read api_key_file with ~ expansion', () => {
+      const keyFile = path.join(tempDir, 'key');
+      fs.writeFileSync(keyFile, 'sk-from-file\n');
+
+      expect(resolveProviderApiKey({ ...baseEnv, api_key_file: keyFile })).toBe('sk-from-file');
+      expect(expandPath('~/x')).toBe(path.join(os.homedir(), 'x'));
+    });
+
+    it('should run api_key_cmd and cache its output', () => {
+      const marker = path.join(tempDir, 'runs');
+      const env = { ...baseEnv, api_key_cmd: `echo run >> "${marker}" && echo sk-from-cmd` };
+
+      expect(resolveProviderApiKey(env)).toBe('sk-from-cmd');
+      expect(resolveProviderApiKey(env)).toBe('sk-from-cmd');
+      expect(fs.readFileSync(marker, 'utf-8').trim().split('\n')).toHaveLength(1);
+    });
+
+    it('should report failing sources', () => {
+      expect(() => resolveProviderApiKey({ ...baseEnv, api_key_file: path.join(tempDir, 'missing') }))
+        .toThrow('Failed to read api_key_file');
+      expect(() => resolveProviderApiKey({ ...baseEnv, api_key_cmd: 'exit 3' }))
+        .toThrow('api_key_cmd "exit 3" failed');
+      expect(() => resolveProviderApiKey({ ...baseEnv, api_key: '${QCR_TEST_UNSET}' }))
+        .toThrow('api_key references unset environment variable(s): QCR_TEST_UNSET');
+      expect(() => resolveProviderBaseUrl({ ...baseEnv, base_url: '${QCR_TEST_UNSET}/v1' }))
+        .toThrow('base_url references unset environment variable(s): QCR_TEST_UNSET');
+    });
+
+    it('should prefer an inline api_key', () => {
+      const env = { ...baseEnv, api_key: 'sk-inline', api_key_cmd: 'exit 1' };
+
+      expect(hasLazyApiKey(env)).toBe(false);
+      expect(resolveProviderApiKey(env)).toBe('sk-inline');
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept api_key_cmd and api_key_file instead of api_key', () => {
+      const result = validateProviderEnv({ api_key_cmd: 'pass show ds', base_url: 'https://x.com', models: [{ model: 'm' }] }, 'test');
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should warn about unresolved references instead of failing', () => {
+      const result = validateProviderEnv({ api_key: '${QCR_TEST_UNSET}', base_url: '${QCR_TEST_UNSET}', models: [{ model: 'm' }] }, 'test');
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toContain('test: api_key references unset environment variable(s): QCR_TEST_UNSET');
+      expect(result.warnings).toContain('test: base_url references unset environment variable(s): QCR_TEST_UNSET');
+    });
+
+    it('should still reject a missing key without alternatives', () => {
+      const result = validateProviderEnv({ base_url: 'https://x.com', models: [{ model: 'm' }] }, 'test');
+
+      expect(result.errors).toContain('test: api_key must be a string');
+    });
+  });
+
+  describe('chk and use', () => {
+    const configWith = (env: Partial<ProviderEnv>): ConfigFile => ({
+      configs: [{ config: [{ name: 'ds', provider: 'moonshot', model: 'moonshot-v1-8k' }] }],
+      providers: [{ provider: 'moonshot', env: { base_url: 'https://api.moonshot.cn/v1', models: [{ model: 'moonshot-v1-8k' }], ...env } }]
+    });
+
+    it('should report unresolved references distinctly from empty keys', () => {
+      const unresolved = validateConfiguration('ds', configWith({ api_key: '${QCR_TEST_UNSET}' }));
+      const empty = validateConfiguration('ds', configWith({ api_key: '' }));
+
+      expect(unresolved.isValid).toBe(false);
+      expect(unresolved.errors).toContain("Unresolved API key for provider 'moonshot': environment variable(s) not set: QCR_TEST_UNSET");
+      expect(empty.isValid).toBe(true);
+      expect(empty.warnings).toContain("No API key configured for provider 'moonshot'");
+    });
+
+    it('should report a missing api_key_file', () => {
+      const result = validateConfiguration('ds', configWith({ api_key_file: path.join(tempDir, 'missing') }));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('API key file for provider');
+    });
+
+    it('should not run api_key_cmd during static checks', () => {
+      const result = validateConfiguration('ds', configWith({ api_key_cmd: 'exit 1' }));
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should resolve api_key_cmd from the user configuration when a configuration is activated', async () => {
+      process.env['XDG_CONFIG_HOME'] = path.join(tempDir, 'xdg');
+      process.env['APPDATA'] = path.join(tempDir, 'xdg');
+      const userDir = path.join(tempDir, 'xdg', 'qcr');
+      const projectDir = path.join(tempDir, 'project');
+      fs.mkdirSync(userDir, { recursive: true });
+      fs.mkdirSync(projectDir);
+      fs.writeFileSync(path.join(userDir, 'config.yaml'), require('yaml').stringify(configWith({ api_key_cmd: 'echo sk-activated' })));
+
+      const result = await useCommand({ configName: 'ds', currentDir: projectDir });
+
+      expect(result.success).toBe(true);
+      expect(process.env['OPENAI_API_KEY']).toBe('sk-activated');
+    });
+
+    it('should not run api_key_cmd from a project configuration', async () => {
+      process.env['XDG_CONFIG_HOME'] = path.join(tempDir, 'xdg');
+      process.env['APPDATA'] = path.join(tempDir, 'xdg');
+      const marker = path.join(tempDir, 'ran');
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), require('yaml').stringify(configWith({ api_key_cmd: `echo ran > "${marker}" && echo sk-project` })));
+
+      const result = await useCommand({ configName: 'ds', currentDir: tempDir });
+
+      expect(result.success).toBe(false);
+      expect(result.details).toContain(`api_key_cmd from "${path.join(tempDir, 'config.yaml')}" was not run`);
+      expect(fs.existsSync(marker)).toBe(false);
+    });
+
+    it('should explain resolution failures on activation', async () => {
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), require('yaml').stringify(configWith({ api_key: '${QCR_TEST_UNSET}' })));
+
+      const result = await useCommand({ configName: 'ds', currentDir: tempDir });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Failed to resolve configuration 'ds'");
+      expect(result.details).toContain('QCR_TEST_UNSET');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for layered configuration merging
+ */
+
+import { mergeConfigLayers, extractLayerForSave, isLayerMergeEnabled, ConfigLayer, MERGE_CONFIGS_ENV_VAR } from '../src/layers';
+import { discoverAndLoadConfig, saveConfigFile } from '../src/persistence';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Layered Configuration', () => {
+  const originalEnv = { ...process.env };
+
+  const userConfig: ConfigFile = {
+    default_config: [{ name: 'ds-chat' }],
+    configs: [{ config: [{ name: 'ds-chat', provider: 'deepseek', model: 'deepseek-chat' }] }],
+    providers: [
+      {
+        provider: 'deepseek',
+        env: { api_key: 'sk-user-deepseek', base_url: 'https://api.deepseek.com', models: [{ model: 'deepseek-chat' }] }
+      },
+      {
+        provider: 'openai',
+        env: { api_key: 'sk-user-openai', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }] }
+      }
+    ]
+  };
+
+  const projectConfig = {
+    merge: true,
+    default_config: [{ name: 'project-r1' }],
+    configs: [{ config: [{ name: 'project-r1', provider: 'deepseek', model: 'deepseek-reasoner' }] }],
+    providers: [
+      { provider: 'deepseek', env: { models: [{ model: 'deepseek-reasoner' }] } }
+    ]
+  } as unknown as ConfigFile;
+
+  const systemConfig: ConfigFile = {
+    configs: [{ config: [{ name: 'ds-chat', provider: 'openai', model: 'gpt-4' }] }],
+    providers: [
+      { provider: 'openai', env: { api_key: 'sk-system', base_url: 'https://proxy.example.com/v1', models: [{ model: 'gpt-4o' }] } }
+    ]
+  };
+
+  const layers = (): ConfigLayer[] => [
+    { filePath: '/project/config.yaml', scope: 'project', config: JSON.parse(JSON.stringify(projectConfig)) },
+    { filePath: '/user/config.yaml', scope: 'user', config: JSON.parse(JSON.stringify(userConfig)) },
+    { filePath: '/etc/qcr/config.yaml', scope: 'system', config: JSON.parse(JSON.stringify(systemConfig)) }
+  ];
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('isLayerMergeEnabled', () => {
+    it('should follow the merge key unless the environment overrides it', () => {
+      delete process.env[MERGE_CONFIGS_ENV_VAR];
+      expect(isLayerMergeEnabled(projectConfig)).toBe(true);
+      expect(isLayerMergeEnabled(userConfig)).toBe(false);
+
+      process.env[MERGE_CONFIGS_ENV_VAR] = '0';
+      expect(isLayerMergeEnabled(projectConfig)).toBe(false);
+      process.env[MERGE_CONFIGS_ENV_VAR] = 'true';
+      expect(isLayerMergeEnabled(userConfig)).toBe(true);
+    });
+  });
+
+  describe('mergeConfigLayers', () => {
+    it('should deep-merge providers by name with project > user > system precedence', () => {
+      const { config } = mergeConfigLayers(layers());
+      const deepseek = config.providers.find(p => p.provider === 'deepseek')!;
+      const openai = config.providers.find(p => p.provider === 'openai')!;
+
+      expect(deepseek.env.api_key).toBe('sk-user-deepseek');
+      expect(deepseek.env.models.map(m => m.model)).toEqual(['deepseek-reasoner', 'deepseek-chat']);
+      expect(openai.env.api_key).toBe('sk-user-openai');
+      expect(openai.env.base_url).toBe('https://api.openai.com/v1');
+      expect(openai.env.models.map(m => m.model)).toEqual(['gpt-4', 'gpt-4o']);
+    });
+
+    it('should replace all inherited key sources when a higher layer sets one', () => {
+      const input = layers();
+      input[0]!.config.providers = [{ provider: 'openai', env: { api_key_cmd: 'pass show openai' } as any }];
+
+      const openai = mergeConfigLayers(input).config.providers.find(p => p.provider === 'openai')!;
+      expect(openai.env.api_key_cmd).toBe('pass show openai');
+      expect(openai.env.api_key).toBeUndefined();
+    });
+
+    it('should merge configurations by name and use the highest default', () => {
+      const { config, origins } = mergeConfigLayers(layers());
+      const entries = config.configs.flatMap(c => c.config);
+
+      expect(entries.map(e => e.name)).toEqual(['project-r1', 'ds-chat']);
+      expect(entries.find(e => e.name === 'ds-chat')!.provider).toBe('deepseek');
+      expect(config.default_config).toEqual([{ name: 'project-r1' }]);
+      expect(origins.configs).toEqual({ 'project-r1': '/project/config.yaml', 'ds-chat': '/user/config.yaml' });
+      expect(origins.providers['deepseek']).toEqual(['/project/config.yaml', '/user/config.yaml']);
+      expect(origins.providers['openai']).toEqual(['/user/config.yaml', '/etc/qcr/config.yaml']);
+      expect(origins.default).toBe('/project/config.yaml');
+    });
+  });
+
+  describe('extractLayerForSave', () => {
+    it('should not copy inherited entries into the saved file', () => {
+      const { config } = mergeConfigLayers(layers());
+      const saved = extractLayerForSave(config, '/project/config.yaml');
+
+      expect(saved.providers).toEqual(projectConfig.providers);
+      expect(saved.configs).toEqual(projectConfig.configs);
+      expect(saved.merge).toBe(true);
+    });
+
+    it('should write changed and new entries to the saved file', () => {
+      const { config } = mergeConfigLayers(layers());
+      config.default_config = [{ name: 'ds-chat' }];
+      config.configs[0]!.config.push({ name: 'gpt4', provider: 'openai', model: 'gpt-4' });
+
+      const saved = extractLayerForSave(config, '/project/config.yaml');
+      expect(saved.default_config).toEqual([{ name: 'ds-chat' }]);
+      expect(saved.configs.flatMap(c => c.config).map(e => e.name)).toEqual(['project-r1', 'gpt4']);
+      expect(saved.providers.map(p => p.provider)).toEqual(['deepseek']);
+    });
+
+    it('should return configurations that were not merged unchanged', () => {
+      expect(extractLayerForSave(userConfig, '/user/config.yaml')).toBe(userConfig);
+    });
+  });
+
+  describe('discoverAndLoadConfig', () => {
+    let tempDir: string;
+    let projectDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-layers-test-'));
+      projectDir = path.join(tempDir, 'project');
+      fs.mkdirSync(projectDir);
+      fs.mkdirSync(path.join(tempDir, 'xdg', 'qcr'), { recursive: true });
+      process.env['XDG_CONFIG_HOME'] = path.join(tempDir, 'xdg');
+      delete process.env[MERGE_CONFIGS_ENV_VAR];
+      fs.writeFileSync(path.join(tempDir, 'xdg', 'qcr', 'config.yaml'), yaml.stringify(userConfig));
+      fs.writeFileSync(path.join(projectDir, 'config.yaml'), yaml.stringify(projectConfig));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should merge the project file with the user file when merge is enabled', async () => {
+      const { config, validation, filePath } = await discoverAndLoadConfig(projectDir);
+
+      expect(filePath).toBe(path.join(projectDir, 'config.yaml'));
+      expect(validation.isValid).toBe(true);
+      expect(config.configs.flatMap(c => c.config).map(e => e.name)).toEqual(['project-r1', 'ds-chat']);
+    });
+
+    it('should use the project file alone when merging is disabled', async () => {
+      process.env[MERGE_CONFIGS_ENV_VAR] = 'false';
+      const { validation } = await discoverAndLoadConfig(projectDir);
+
+      // The project file on its own has a provider without base_url or api_key
+      expect(validation.isValid).toBe(false);
+    });
+
+    it('should save only the project layer back to the project file', async () => {
+      const { config, filePath } = await discoverAndLoadConfig(projectDir);
+      config.default_config = [{ name: 'ds-chat' }];
+      await saveConfigFile(config, filePath);
+
+      const saved = yaml.parse(fs.readFileSync(filePath, 'utf-8'));
+      expect(saved.default_config).toEqual([{ name: 'ds-chat' }]);
+      expect(JSON.stringify(saved)).not.toContain('sk-user-deepseek');
+      expect(yaml.parse(fs.readFileSync(path.join(tempDir, 'xdg', 'qcr', 'config.yaml'), 'utf-8'))).toEqual(userConfig);
+    });
+  });
+});
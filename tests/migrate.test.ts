@@ -0,0 +1,180 @@
+/**
+ * Unit tests for configuration versions, migrations and the migrate command
+ */
+
+import {
+  CURRENT_CONFIG_VERSION,
+  discoverAndLoadConfig,
+  getConfigFileVersion,
+  migrateConfigFile
+} from '../src/persistence';
+import { getCurrentDefaultConfiguration } from '../src/resolver';
+import { migrateCommand, parseMigrateCommandArgs } from '../src/commands/migrate';
+import { setDefaultCommand } from '../src/commands/set-default';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Configuration migrations', () => {
+  const originalEnv = { ...process.env };
+
+  const createVersion1Config = (): ConfigFile => ({
+    configs: [{
+      config: [
+        { name: 'gpt4', provider: 'openai', model: 'gpt-4' },
+        { name: 'gpt35', provider: 'openai', model: 'gpt-3.5-turbo', default: true } as any
+      ]
+    }],
+    providers: [{
+      provider: 'openai',
+      env: { api_key: 'sk-test-key-12345', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }, { model: 'gpt-3.5-turbo' }] }
+    }]
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('getConfigFileVersion', () => {
+    it('should treat files without a version as version 1', () => {
+      expect(getConfigFileVersion(createVersion1Config())).toBe(1);
+      expect(getConfigFileVersion({ ...createVersion1Config(), version: CURRENT_CONFIG_VERSION })).toBe(CURRENT_CONFIG_VERSION);
+    });
+
+    it('should reject invalid and newer versions', () => {
+      expect(() => getConfigFileVersion({ ...createVersion1Config(), version: '2' as any })).toThrow('"version" must be a positive integer');
+      expect(() => getConfigFileVersion({ ...createVersion1Config(), version: 0 })).toThrow('"version" must be a positive integer');
+      expect(() => getConfigFileVersion({ ...createVersion1Config(), version: CURRENT_CONFIG_VERSION + 1 }))
+        .toThrow(`Configuration version ${CURRENT_CONFIG_VERSION + 1} is newer than this qcr supports (${CURRENT_CONFIG_VERSION}); please upgrade qcr`);
+    });
+  });
+
+  describe('migrateConfigFile', () => {
+    it('should move default markers to default_config', () => {
+      const result = migrateConfigFile(createVersion1Config());
+
+      expect(result.fromVersion).toBe(1);
+      expect(result.applied.map(migration => migration.from)).toEqual([1]);
+      expect(Object.keys(result.config)[0]).toBe('version');
+      expect(result.config.version).toBe(CURRENT_CONFIG_VERSION);
+      expect(result.config.default_config).toEqual([{ name: 'gpt35' }]);
+      expect(result.config.configs[0]!.config[1]).toEqual({ name: 'gpt35', provider: 'openai', model: 'gpt-3.5-turbo' });
+    });
+
+    it('should keep an existing default_config and drop the markers', () => {
+      const config = { ...createVersion1Config(), default_config: [{ name: 'gpt4' }] };
+      const result = migrateConfigFile(config);
+
+      expect(result.config.default_config).toEqual([{ name: 'gpt4' }]);
+      expect('default' in result.config.configs[0]!.config[1]!).toBe(false);
+    });
+
+    it('should not change documents at the current version', () => {
+      const config = { version: CURRENT_CONFIG_VERSION, ...createVersion1Config() };
+      const result = migrateConfigFile(config);
+
+      expect(result.fromVersion).toBe(CURRENT_CONFIG_VERSION);
+      expect(result.applied).toEqual([]);
+      expect((result.config.configs[0]!.config[1] as any).default).toBe(true);
+    });
+  });
+
+  describe('loading and qcr migrate', () => {
+    let tempDir: string;
+    let configPath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-migrate-test-'));
+      configPath = path.join(tempDir, 'config.yaml');
+      process.env['XDG_CONFIG_HOME'] = path.join(tempDir, 'xdg');
+      fs.writeFileSync(configPath, yaml.stringify(createVersion1Config()));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should upgrade older files in memory when loading', async () => {
+      const { config, validation } = await discoverAndLoadConfig(tempDir);
+
+      expect(config.version).toBeUndefined();
+      expect(getCurrentDefaultConfiguration(config)).toBe('gpt35');
+      expect(validation.warnings).toEqual([]);
+    });
+
+    it('should not bump the version when another command saves the file', async () => {
+      fs.writeFileSync(configPath, `# Team models\n${yaml.stringify(createVersion1Config())}`);
+
+      const result = await setDefaultCommand({ configName: 'gpt4', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      const content = fs.readFileSync(configPath, 'utf-8');
+      expect(content.startsWith('# Team models\n')).toBe(true);
+      expect(yaml.parse(content).version).toBeUndefined();
+      expect(fs.readdirSync(tempDir).filter(name => name.startsWith('config.yaml.backup.'))).toEqual([]);
+    });
+
+    it('should list pending migrations without writing', async () => {
+      const before = fs.readFileSync(configPath, 'utf-8');
+      const result = await migrateCommand({ currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe(`${configPath} is at version 1 and can be migrated to version ${CURRENT_CONFIG_VERSION}`);
+      expect(result.details).toContain('1 → 2  Move "default: true" markers of configurations to default_config');
+      expect(result.details).toContain("Run 'qcr migrate --write'");
+      expect(fs.readFileSync(configPath, 'utf-8')).toBe(before);
+    });
+
+    it('should print the migrated file with --dry-run', async () => {
+      const result = await migrateCommand({ currentDir: tempDir, write: true, dryRun: true });
+
+      expect(result.success).toBe(true);
+      expect(result.details).toContain(`version: ${CURRENT_CONFIG_VERSION}\n`);
+      expect(result.details).toContain('default_config:\n  - name: gpt35');
+      expect(yaml.parse(fs.readFileSync(configPath, 'utf-8')).version).toBeUndefined();
+    });
+
+    it('should rewrite the file and keep a backup with --write', async () => {
+      const before = fs.readFileSync(configPath, 'utf-8');
+      const result = await migrateCommand({ currentDir: tempDir, write: true });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe(`Migrated ${configPath} from version 1 to version ${CURRENT_CONFIG_VERSION}`);
+      const saved = yaml.parse(fs.readFileSync(configPath, 'utf-8'));
+      expect(saved.version).toBe(CURRENT_CONFIG_VERSION);
+      expect(saved.default_config).toEqual([{ name: 'gpt35' }]);
+
+      const backups = fs.readdirSync(tempDir).filter(name => name.startsWith('config.yaml.backup.'));
+      expect(backups).toHaveLength(1);
+      expect(fs.readFileSync(path.join(tempDir, backups[0]!), 'utf-8')).toBe(before);
+      expect(result.details).toContain(`Backup: ${path.join(tempDir, backups[0]!)}`);
+
+      const again = await migrateCommand({ currentDir: tempDir, write: true });
+      expect(again.message).toBe(`${configPath} is already at version ${CURRENT_CONFIG_VERSION}`);
+    });
+
+    it('should report files written by a newer qcr', async () => {
+      fs.writeFileSync(configPath, yaml.stringify({ version: CURRENT_CONFIG_VERSION + 1, ...createVersion1Config() }));
+
+      const result = await migrateCommand({ currentDir: tempDir });
+      expect(result.success).toBe(false);
+      expect(result.details).toContain('newer than this qcr supports');
+      await expect(discoverAndLoadConfig(tempDir)).rejects.toThrow('newer than this qcr supports');
+    });
+  });
+
+  describe('parseMigrateCommandArgs', () => {
+    it('should parse flags', () => {
+      expect(parseMigrateCommandArgs([])).toEqual({ valid: true, options: { write: false, dryRun: false } });
+      expect(parseMigrateCommandArgs(['--write', '--dry-run'])).toEqual({ valid: true, options: { write: true, dryRun: true } });
+      expect(parseMigrateCommandArgs(['-h'])).toEqual({ valid: true, showHelp: true });
+    });
+
+    it('should reject unknown options and arguments', () => {
+      expect(parseMigrateCommandArgs(['--force'])).toEqual({ valid: false, error: 'Unknown option: --force' });
+      expect(parseMigrateCommandArgs(['config.yaml'])).toEqual({ valid: false, error: 'Unexpected argument: config.yaml' });
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for model metadata
+ */
+
+import { findMissingCapabilities, formatModelTable, formatTokenCount, validateModelMetadata } from '../src/model-metadata';
+import { getModelMetadata } from '../src/resolver';
+import { getBuiltInProviders, getUserProvidersFilePath } from '../src/provider-registry';
+import { validateConfigFile } from '../src/validation';
+import { validateConfiguration } from '../src/commands/chk';
+import { listBuiltinProviders, listProviders } from '../src/commands/list';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Model metadata', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  const createConfig = (): ConfigFile => ({
+    configs: [{
+      config: [
+        { name: 'chat', provider: 'deepseek', model: 'deepseek-chat' },
+        { name: 'plain', provider: 'deepseek', model: 'deepseek-plain' },
+        { name: 'claude2', provider: 'anthropic', model: 'claude-2.1' }
+      ]
+    }],
+    providers: [{
+      provider: 'deepseek',
+      env: {
+        api_key: 'sk-deepseek-key-12345',
+        base_url: 'https://api.deepseek.com/v1',
+        models: [
+          { model: 'deepseek-chat', context_window: 128000, input_price: 0.27, output_price: 1.1, capabilities: { tools: true, streaming: true } },
+          { model: 'deepseek-plain', capabilities: { tools: false } }
+        ]
+      }
+    }, {
+      provider: 'anthropic',
+      env: {
+        api_key: 'sk-ant-key-12345',
+        base_url: 'https://api.anthropic.com/v1',
+        models: [{ model: 'claude-2.1', input_price: 7 }, { model: 'claude-3-opus-20240229' }]
+      }
+    }]
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-model-metadata-test-'));
+    process.env['XDG_CONFIG_HOME'] = tempDir;
+    process.env['APPDATA'] = tempDir;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('validation', () => {
+    it('should accept valid metadata and report invalid fields', () => {
+      expect(validateModelMetadata({ model: 'm', context_window: 8192, input_price: 0, capabilities: { tools: true } }, 'm')).toEqual([]);
+      expect(validateModelMetadata({ model: 'm', context_window: 1.5, output_price: -1, capabilities: { tools: 'yes' } }, 'm')).toEqual([
+        'm: context_window must be a positive integer',
+        'm: output_price must be a number of USD per million tokens',
+        'm: capabilities must map capability names (tools, vision, reasoning, streaming) to true or false'
+      ]);
+    });
+
+    it('should validate metadata in configuration files', () => {
+      const config = createConfig();
+      (config.providers[0]!.env.models[0] as any).max_output_tokens = '8k';
+      (config.providers[0]!.env.models[1]!.capabilities as any).tool = true;
+
+      const result = validateConfigFile(config);
+      expect(result.errors).toContain('providers[0].env.models[0]: max_output_tokens must be a positive integer');
+      expect(result.warnings).toContain('providers[0].env.models[1].capabilities: unknown key "tool" (did you mean "tools"?)');
+    });
+
+    it('should report invalid metadata in provider catalogs', () => {
+      fs.mkdirSync(path.dirname(getUserProvidersFilePath()), { recursive: true });
+      fs.writeFileSync(getUserProvidersFilePath(), 'providers:\n  - provider: openai\n    env:\n      models:\n        - model: gpt-4o\n          context_window: big\n');
+
+      expect(() => getBuiltInProviders()).toThrow('providers[0].env.models[0]: context_window must be a positive integer');
+    });
+  });
+
+  describe('getModelMetadata', () => {
+    it('should merge configured metadata over the built-in catalog', () => {
+      expect(getModelMetadata('anthropic', 'claude-2.1', createConfig())).toEqual({
+        context_window: 200000,
+        max_output_tokens: 4096,
+        input_price: 7,
+        output_price: 24,
+        output_speed: 35,
+        capabilities: { tools: false, vision: false, reasoning: false, streaming: true }
+      });
+      expect(getModelMetadata('claude', 'opus').capabilities?.tools).toBe(true);
+      expect(getModelMetadata('deepseek', 'unknown', createConfig())).toEqual({});
+    });
+
+    it('should describe the speed of every built-in model', () => {
+      const withoutSpeed = Object.values(getBuiltInProviders()).flatMap(provider => provider.models
+        .filter(model => getModelMetadata(provider.provider, model).output_speed === undefined)
+        .map(model => `${provider.provider}/${model}`));
+
+      expect(withoutSpeed).toEqual([]);
+    });
+
+    it('should only report capabilities known to be missing', () => {
+      expect(findMissingCapabilities({ capabilities: { tools: false, vision: false } })).toEqual(['tools']);
+      expect(findMissingCapabilities({})).toEqual([]);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format token counts', () => {
+      expect(formatTokenCount(512)).toBe('512');
+      expect(formatTokenCount(8192)).toBe('8k');
+      expect(formatTokenCount(128000)).toBe('128k');
+      expect(formatTokenCount(1048576)).toBe('1M');
+      expect(formatTokenCount(2000000)).toBe('2M');
+    });
+
+    it('should format a table with unknown values', () => {
+      expect(formatModelTable([
+        { label: 'a', metadata: { context_window: 128000, input_price: 0.27, capabilities: { tools: true, vision: false } } },
+        { label: 'longer-name', metadata: {} }
+      ])).toEqual([
+        'Model        Context  Max output  Input $/M  Output $/M  Speed  Tools  Vision  Reasoning  Streaming',
+        'a            128k     -           $0.27      -           -      yes    no      -          -',
+        'longer-name  -        -           -          -           -      -      -       -          -'
+      ]);
+    });
+  });
+
+  describe('commands', () => {
+    it('should show a metadata table with list provider -v', () => {
+      const configured = listProviders(createConfig(), { provider: 'deepseek', verbose: true });
+      expect(configured.details).toContain('Model           Context  Max output  Input $/M  Output $/M  Speed     Tools');
+      expect(configured.details).toContain('deepseek-chat   128k     8k          $0.27      $1.10       60 tok/s  yes    no');
+      expect(configured.details).toContain('deepseek-plain  -        -           -          -           -         no');
+      expect(configured.details).toContain('Total models: 2');
+
+      const plain = listProviders(createConfig(), { provider: 'deepseek' });
+      expect(plain.details).not.toContain('Context');
+
+      const builtIn = listBuiltinProviders({ provider: 'google', verbose: true });
+      expect(builtIn.details).toContain('gemini-1.5-pro     2M');
+    });
+
+    it('should warn about models without tool calling in chk', () => {
+      const expected = 'does not support tool calling, which Qwen Code needs to read and edit files and run commands';
+
+      expect(validateConfiguration('chat', createConfig()).warnings).toEqual([]);
+      expect(validateConfiguration('plain', createConfig()).warnings).toEqual([`Model 'deepseek-plain' ${expected}`]);
+      expect(validateConfiguration('claude2', createConfig()).warnings).toEqual([`Model 'claude-2.1' ${expected}`]);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for the interactive picker and the recorded health status
+ */
+
+import {
+  PickerItem,
+  PickerState,
+  filterPickerItems,
+  fuzzyScore,
+  getConfigurationPickerItems,
+  getModelPickerItems,
+  getProviderPickerItems,
+  renderPicker,
+  updatePicker
+} from '../src/picker';
+import { formatHealthStatus, readHealthStatuses, tryRecordHealthStatuses } from '../src/health';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Picker', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  const items: PickerItem[] = [
+    { value: 'openai-gpt4', label: 'openai-gpt4', detail: 'openai/gpt-4  #prod' },
+    { value: 'azure-gpt35', label: 'azure-gpt35', detail: 'azure/gpt-35-turbo' },
+    { value: 'claude-opus', label: 'claude-opus', detail: 'anthropic/claude-3-opus-20240229  #prod' }
+  ];
+
+  const config: ConfigFile = {
+    default_config: [{ name: 'azure-gpt35' }],
+    configs: [{
+      config: [
+        { name: 'openai-gpt4', provider: 'openai', model: 'gpt-4', tags: ['prod'] },
+        { name: 'azure-gpt35', provider: 'azure', model: 'gpt-35-turbo' }
+      ]
+    }],
+    providers: [
+      { provider: 'openai', env: { api_key: 'sk-test', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }, { model: 'gpt-3.5-turbo' }] } },
+      { provider: 'azure', env: { api_key: 'az-test', base_url: 'https://test.openai.azure.com/openai', models: [{ model: 'gpt-35-turbo' }] } }
+    ]
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-picker-test-'));
+    process.env = { ...originalEnv, XDG_CONFIG_HOME: tempDir, APPDATA: tempDir, QCR_STATE_FILE: path.join(tempDir, 'state.json') };
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('fuzzyScore', () => {
+    it('should match characters in order and prefer word starts', () => {
+      expect(fuzzyScore('og4', 'openai-gpt4')).not.toBeNull();
+      expect(fuzzyScore('4go', 'openai-gpt4')).toBeNull();
+      expect(fuzzyScore('gpt', 'openai-gpt4')!).toBeGreaterThan(fuzzyScore('gpt', 'gxpxt')!);
+    });
+  });
+
+  describe('filterPickerItems', () => {
+    it('should search labels and details and keep the order of equal matches', () => {
+      expect(filterPickerItems(items, '')).toBe(items);
+      expect(filterPickerItems(items, 'claude').map(item => item.value)).toEqual(['claude-opus']);
+      expect(filterPickerItems(items, '#prod').map(item => item.value)).toEqual(['openai-gpt4', 'claude-opus']);
+      expect(filterPickerItems(items, 'zzz')).toEqual([]);
+    });
+  });
+
+  describe('updatePicker', () => {
+    const start: PickerState = { query: '', matches: items, cursor: 0 };
+
+    it('should move the cursor with wraparound', () => {
+      expect(updatePicker(items, start, { name: 'up' })).toEqual({ ...start, cursor: 2 });
+      expect(updatePicker(items, start, { name: 'down' })).toEqual({ ...start, cursor: 1 });
+      expect(updatePicker(items, { ...start, cursor: 2 }, { name: 'n', ctrl: true })).toEqual(start);
+    });
+
+    it('should edit the search', () => {
+      const typed = updatePicker(items, start, { name: 'a', sequence: 'a' }) as PickerState;
+      expect(typed.query).toBe('a');
+      expect(typed.matches.map(item => item.value)).toEqual(['azure-gpt35', 'claude-opus', 'openai-gpt4']);
+
+      const narrowed = updatePicker(items, { ...typed, cursor: 1 }, { name: 'z', sequence: 'z' }) as PickerState;
+      expect(narrowed).toEqual({ query: 'az', matches: [items[1]], cursor: 0 });
+      expect((updatePicker(items, narrowed, { name: 'backspace' }) as PickerState).query).toBe('a');
+      expect(updatePicker(items, narrowed, { name: 'u', ctrl: true })).toEqual(start);
+    });
+
+    it('should pick with Enter and cancel with Esc or Ctrl+C', () => {
+      expect(updatePicker(items, start, { name: 'return' })).toBe('pick');
+      expect(updatePicker(items, { query: 'zzz', matches: [], cursor: 0 }, { name: 'return' })).toEqual({ query: 'zzz', matches: [], cursor: 0 });
+      expect(updatePicker(items, start, { name: 'escape' })).toBe('cancel');
+      expect(updatePicker(items, start, { name: 'c', ctrl: true })).toBe('cancel');
+    });
+  });
+
+  describe('renderPicker', () => {
+    it('should mark the selection and scroll to it', () => {
+      const many = Array.from({ length: 15 }, (_, index) => ({ value: `c${index}`, label: `c${index}` }));
+      const lines = renderPicker('Configuration', { query: 'c', matches: many, cursor: 12 });
+
+      expect(lines[0]).toBe('Configuration: c');
+      expect(lines).toHaveLength(12);
+      expect(lines[1]).toBe('  c3');
+      expect(lines[10]).toContain('❯ c12');
+      expect(lines[11]).toContain('5 more - type to narrow the list');
+      expect(renderPicker('Configuration', { query: 'zzz', matches: [], cursor: 0 })).toEqual(['Configuration: zzz', '  No matches']);
+    });
+  });
+
+  describe('picker items', () => {
+    it('should show provider, model, tags, the default and the last API test of configurations', () => {
+      const filePath = path.join(tempDir, 'config.yaml');
+      const checkedAt = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+      expect(tryRecordHealthStatuses(filePath, { 'openai-gpt4': { ok: true, checkedAt } })).toBeNull();
+
+      expect(getConfigurationPickerItems(config, filePath)).toEqual([
+        { value: 'openai-gpt4', label: 'openai-gpt4', detail: 'openai/gpt-4  #prod  ✓ 2h ago' },
+        { value: 'azure-gpt35', label: 'azure-gpt35', detail: 'azure/gpt-35-turbo  (default)' }
+      ]);
+    });
+
+    it('should mark a default written with its group', () => {
+      const grouped: ConfigFile = { ...config, default_config: [{ name: 'dev/azure-gpt35' }], configs: [{ ...config.configs[0]!, group: 'dev' }] };
+
+      expect(getConfigurationPickerItems(grouped, path.join(tempDir, 'config.yaml'))[1]).toEqual(
+        { value: 'azure-gpt35', label: 'azure-gpt35', detail: 'azure/gpt-35-turbo  (default)' }
+      );
+    });
+
+    it('should list configured providers before the built-in ones', () => {
+      const providers = getProviderPickerItems(config);
+
+      expect(providers.slice(0, 2)).toEqual([
+        { value: 'openai', label: 'openai', detail: '2 models  configured' },
+        { value: 'azure', label: 'azure', detail: '1 models  configured' }
+      ]);
+      expect(providers.some(item => item.value === 'anthropic' && item.detail!.includes('built-in'))).toBe(true);
+      expect(providers.filter(item => item.value === 'openai')).toHaveLength(1);
+    });
+
+    it('should list the models of configured and built-in providers', () => {
+      expect(getModelPickerItems(config, 'openai')).toEqual([
+        { value: 'gpt-4', label: 'gpt-4', detail: 'used by openai-gpt4' },
+        { value: 'gpt-3.5-turbo', label: 'gpt-3.5-turbo' }
+      ]);
+      expect(getModelPickerItems(config, 'anthropic').map(item => item.value)).toContain('claude-3-opus-20240229');
+    });
+  });
+
+  describe('health status', () => {
+    it('should keep the results of each configuration file apart', () => {
+      const checkedAt = new Date().toISOString();
+      tryRecordHealthStatuses('/a/config.yaml', { dev: { ok: true, checkedAt } });
+      tryRecordHealthStatuses('/a/config.yaml', { prod: { ok: false, checkedAt, error: '401 Unauthorized' } });
+      tryRecordHealthStatuses('/b/config.yaml', { dev: { ok: false, checkedAt } });
+
+      expect(readHealthStatuses('/a/config.yaml')).toEqual({
+        dev: { ok: true, checkedAt },
+        prod: { ok: false, checkedAt, error: '401 Unauthorized' }
+      });
+      expect(readHealthStatuses('/c/config.yaml')).toEqual({});
+      expect(fs.existsSync(path.join(tempDir, 'health.json'))).toBe(true);
+    });
+
+    it('should format the result with its age', () => {
+      const now = new Date('2026-01-10T12:00:00Z');
+      expect(formatHealthStatus({ ok: true, checkedAt: '2026-01-10T11:59:45Z' }, now)).toBe('✓ just now');
+      expect(formatHealthStatus({ ok: true, checkedAt: '2026-01-10T11:15:00Z' }, now)).toBe('✓ 45m ago');
+      expect(formatHealthStatus({ ok: false, checkedAt: '2026-01-07T12:00:00Z', error: '401 Unauthorized' }, now)).toBe('✗ 401 Unauthorized (3d ago)');
+    });
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Unit tests for project pin files, 'env --auto' and the shell hook
+ */
+
+import {
+  readPinFile,
+  findPinFile,
+  findPinnedConfiguration,
+  PINNED_CONFIG_ENV_VAR,
+  PIN_FILE_ENV_VAR,
+  PIN_ERROR_ENV_VAR,
+  PREVIOUS_VARS_ENV_VAR,
+  PREVIOUS_VALUE_PREFIX
+} from '../src/pin';
+import { envCommand, parseEnvCommandArgs } from '../src/commands/env';
+import { hookCommand, parseHookCommandArgs } from '../src/commands/hook';
+import { getShellHookScript } from '../src/shell';
+import { executeStartupFlow, validateStartupFlow } from '../src/startup';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Project Pin Files', () => {
+  const originalEnv = { ...process.env };
+
+  const testConfigFile: ConfigFile = {
+    default_config: [{ name: 'openai-gpt4' }],
+    configs: [
+      {
+        config: [
+          { name: 'openai-gpt4', provider: 'openai', model: 'gpt-4' },
+          { name: 'deepseek-r1', provider: 'deepseek', model: 'deepseek-reasoner' }
+        ]
+      }
+    ],
+    providers: [
+      {
+        provider: 'openai',
+        env: {
+          api_key: 'sk-openai-key',
+          base_url: 'https://api.openai.com/v1',
+          models: [{ model: 'gpt-4' }]
+        }
+      },
+      {
+        provider: 'deepseek',
+        env: {
+          api_key: 'sk-deepseek-key',
+          base_url: 'https://api.deepseek.com',
+          models: [{ model: 'deepseek-reasoner' }]
+        }
+      }
+    ]
+  };
+
+  let tempDir: string;
+  let projectDir: string;
+  let nestedDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-pin-test-'));
+    projectDir = path.join(tempDir, 'project');
+    nestedDir = path.join(projectDir, 'src', 'lib');
+    fs.mkdirSync(nestedDir, { recursive: true });
+    fs.writeFileSync(path.join(projectDir, 'config.yaml'), require('yaml').stringify(testConfigFile));
+    delete process.env[PINNED_CONFIG_ENV_VAR];
+    delete process.env[PIN_FILE_ENV_VAR];
+    delete process.env[PIN_ERROR_ENV_VAR];
+    delete process.env[PREVIOUS_VARS_ENV_VAR];
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('readPinFile', () => {
+    it('should read a bare configuration name with comments', () => {
+      const pinFile = path.join(projectDir, '.qcr');
+      fs.writeFileSync(pinFile, '# team default\ndeepseek-r1\n');
+
+      expect(readPinFile(pinFile)).toBe('deepseek-r1');
+    });
+
+    it('should read a YAML mapping with a config key', () => {
+      const pinFile = path.join(projectDir, '.qcr.yaml');
+      fs.writeFileSync(pinFile, 'config: deepseek-r1\n');
+
+      expect(readPinFile(pinFile)).toBe('deepseek-r1');
+    });
+
+    it('should reject pin files that do not name a configuration', () => {
+      const pinFile = path.join(projectDir, '.qcr.yaml');
+      fs.writeFileSync(pinFile, 'model: gpt-4\n');
+
+      expect(() => readPinFile(pinFile)).toThrow('does not name a configuration');
+    });
+  });
+
+  describe('findPinFile', () => {
+    it('should find the nearest pin file in a parent directory', () => {
+      fs.writeFileSync(path.join(projectDir, '.qcr'), 'deepseek-r1');
+
+      expect(findPinFile(nestedDir)).toBe(path.join(projectDir, '.qcr'));
+      expect(findPinnedConfiguration(nestedDir)).toEqual({
+        configName: 'deepseek-r1',
+        pinFile: path.join(projectDir, '.qcr'),
+        projectDir
+      });
+    });
+
+    it('should prefer the closest pin file', () => {
+      fs.writeFileSync(path.join(projectDir, '.qcr'), 'deepseek-r1');
+      fs.writeFileSync(path.join(nestedDir, '.qcr.yaml'), 'config: openai-gpt4');
+
+      expect(findPinnedConfiguration(nestedDir)?.configName).toBe('openai-gpt4');
+    });
+
+    it('should ignore directories named like pin files', () => {
+      // ~/.qcr is the legacy user configuration directory
+      fs.mkdirSync(path.join(projectDir, '.qcr'));
+
+      expect(findPinFile(nestedDir)).toBeNull();
+    });
+  });
+
+  describe('env --auto', () => {
+    it('should parse --auto and reject combinations', () => {
+      expect(parseEnvCommandArgs(['--auto', '--shell', 'zsh']).options).toEqual({ auto: true, shell: 'zsh' });
+      expect(parseEnvCommandArgs(['--auto', 'deepseek-r1']).valid).toBe(false);
+      expect(parseEnvCommandArgs(['--auto', '--unset']).valid).toBe(false);
+    });
+
+    it('should export the pinned configuration and markers', async () => {
+      fs.writeFileSync(path.join(projectDir, '.qcr'), 'deepseek-r1');
+
+      const result = await envCommand({ auto: true, shell: 'bash', currentDir: nestedDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain(`# Using configuration 'deepseek-r1' pinned by ${path.join(projectDir, '.qcr')}`);
+      expect(result.details).toContain("export OPENAI_MODEL='deepseek-reasoner'");
+      expect(result.details).toContain(`export ${PINNED_CONFIG_ENV_VAR}='deepseek-r1'`);
+      expect(result.details).toContain(`export ${PIN_FILE_ENV_VAR}='${path.join(projectDir, '.qcr')}'`);
+    });
+
+    it('should print nothing when the pin is already applied', async () => {
+      fs.writeFileSync(path.join(projectDir, '.qcr'), 'deepseek-r1');
+      process.env[PINNED_CONFIG_ENV_VAR] = 'deepseek-r1';
+      process.env[PIN_FILE_ENV_VAR] = path.join(projectDir, '.qcr');
+
+      const result = await envCommand({ auto: true, shell: 'bash', currentDir: nestedDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('');
+      expect(result.details).toBeUndefined();
+    });
+
+    it('should unset the variables when leaving a pinned project', async () => {
+      process.env[PINNED_CONFIG_ENV_VAR] = 'deepseek-r1';
+      process.env[PIN_FILE_ENV_VAR] = path.join(projectDir, '.qcr');
+
+      const result = await envCommand({ auto: true, shell: 'fish', currentDir: tempDir });
+
+      expect(result.details).toContain('set -e OPENAI_API_KEY;');
+      expect(result.details).toContain(`set -e ${PINNED_CONFIG_ENV_VAR};`);
+    });
+
+    it('should print nothing outside pinned projects', async () => {
+      const result = await envCommand({ auto: true, shell: 'bash', currentDir: tempDir });
+
+      expect(result.message).toBe('');
+    });
+
+    it('should restore the values from before the pin when leaving', async () => {
+      fs.writeFileSync(path.join(projectDir, '.qcr'), 'deepseek-r1');
+      process.env['OPENAI_MODEL'] = 'gpt-4';
+      delete process.env['OPENAI_API_KEY'];
+
+      const entered = await envCommand({ auto: true, shell: 'bash', currentDir: projectDir });
+      expect(entered.details).toContain(`export ${PREVIOUS_VALUE_PREFIX}OPENAI_MODEL='gpt-4'`);
+      expect(entered.details).not.toContain(`${PREVIOUS_VALUE_PREFIX}OPENAI_API_KEY`);
+      expect(entered.details).toContain(`export ${PREVIOUS_VARS_ENV_VAR}='OPENAI_API_KEY,OPENAI_BASE_URL,OPENAI_MODEL'`);
+
+      process.env[PINNED_CONFIG_ENV_VAR] = 'deepseek-r1';
+      process.env[PIN_FILE_ENV_VAR] = path.join(projectDir, '.qcr');
+      process.env[PREVIOUS_VARS_ENV_VAR] = 'OPENAI_API_KEY,OPENAI_BASE_URL,OPENAI_MODEL';
+      process.env[`${PREVIOUS_VALUE_PREFIX}OPENAI_MODEL`] = 'gpt-4';
+
+      const left = await envCommand({ auto: true, shell: 'bash', currentDir: tempDir });
+      expect(left.details).toContain("export OPENAI_MODEL='gpt-4'");
+      expect(left.details).toContain('unset OPENAI_API_KEY');
+      expect(left.details).toContain(`unset ${PREVIOUS_VALUE_PREFIX}OPENAI_MODEL`);
+      expect(left.details).toContain(`unset ${PREVIOUS_VARS_ENV_VAR}`);
+    });
+
+    it('should restore the extra variables of the previous pin when moving to a pin without them', async () => {
+      const applyBash = (script: string | undefined) => {
+        for (const line of (script || '').split('\n')) {
+          const exported = /^export (\w+)='(.*)'$/.exec(line);
+          const unset = /^unset (\w+)$/.exec(line);
+          if (exported) {
+            process.env[exported[1]!] = exported[2]!;
+          } else if (unset) {
+            delete process.env[unset[1]!];
+          }
+        }
+      };
+      const proxiedConfig: ConfigFile = {
+        ...testConfigFile,
+        default_config: [{ name: 'proxied' }],
+        configs: [{ config: [{ name: 'proxied', provider: 'deepseek', model: 'deepseek-reasoner', env: { HTTPS_PROXY: 'http://proxy:3128' } }] }]
+      };
+      const otherDir = path.join(tempDir, 'other');
+      fs.mkdirSync(otherDir);
+      fs.writeFileSync(path.join(projectDir, 'config.yaml'), require('yaml').stringify(proxiedConfig));
+      fs.writeFileSync(path.join(projectDir, '.qcr'), 'proxied');
+      fs.writeFileSync(path.join(otherDir, 'config.yaml'), require('yaml').stringify(testConfigFile));
+      fs.writeFileSync(path.join(otherDir, '.qcr'), 'openai-gpt4');
+      process.env['HTTPS_PROXY'] = 'http://before:8080';
+
+      const entered = await envCommand({ auto: true, shell: 'bash', currentDir: projectDir });
+      expect(entered.details).toContain("export HTTPS_PROXY='http://proxy:3128'");
+      applyBash(entered.details);
+
+      const moved = await envCommand({ auto: true, shell: 'bash', currentDir: otherDir });
+      expect(moved.details).toContain("export HTTPS_PROXY='http://before:8080'");
+      expect(moved.details).toContain(`unset ${PREVIOUS_VALUE_PREFIX}HTTPS_PROXY`);
+      expect(moved.details).toContain("export OPENAI_MODEL='gpt-4'");
+      applyBash(moved.details);
+      expect(process.env['HTTPS_PROXY']).toBe('http://before:8080');
+      expect(process.env['QCR_EXTRA_VARS']).toBeUndefined();
+      expect(process.env[PREVIOUS_VARS_ENV_VAR]).toBe('OPENAI_API_KEY,OPENAI_BASE_URL,OPENAI_MODEL');
+
+      const left = await envCommand({ auto: true, shell: 'bash', currentDir: tempDir });
+      applyBash(left.details);
+      expect(process.env['HTTPS_PROXY']).toBe('http://before:8080');
+      expect(process.env['OPENAI_MODEL']).toBeUndefined();
+    });
+
+    it('should report pins naming unknown configurations once', async () => {
+      fs.writeFileSync(path.join(projectDir, '.qcr'), 'nope');
+      const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+      try {
+        const first = await envCommand({ auto: true, shell: 'bash', currentDir: projectDir });
+        expect(first.success).toBe(true);
+        expect(first.details).toBe(`export ${PIN_ERROR_ENV_VAR}='${path.join(projectDir, '.qcr')}'`);
+        expect(stderr).toHaveBeenCalledWith(`qcr: ${path.join(projectDir, '.qcr')} cannot be applied: Configuration not found: 'nope'\n`);
+
+        process.env[PIN_ERROR_ENV_VAR] = path.join(projectDir, '.qcr');
+        stderr.mockClear();
+        const again = await envCommand({ auto: true, shell: 'bash', currentDir: nestedDir });
+        expect(again.message).toBe('');
+        expect(again.details).toBeUndefined();
+        expect(stderr).not.toHaveBeenCalled();
+
+        const left = await envCommand({ auto: true, shell: 'bash', currentDir: tempDir });
+        expect(left.details).toBe(`unset ${PIN_ERROR_ENV_VAR}`);
+      } finally {
+        stderr.mockRestore();
+      }
+    });
+  });
+
+  describe('hook command', () => {
+    it('should print hooks that call env --auto', async () => {
+      expect(getShellHookScript('bash')).toContain('PROMPT_COMMAND="_qcr_hook');
+      expect(getShellHookScript('zsh')).toContain('chpwd_functions=(_qcr_hook $chpwd_functions)');
+      expect(getShellHookScript('fish')).toContain('function _qcr_hook --on-variable PWD');
+
+      const result = await hookCommand({ shell: 'zsh' });
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('qcr env --auto --shell zsh');
+    });
+
+    it('should validate the shell argument', () => {
+      expect(parseHookCommandArgs(['Bash']).options).toEqual({ shell: 'bash' });
+      expect(parseHookCommandArgs(['powershell']).error).toContain('Unsupported shell: powershell');
+      expect(parseHookCommandArgs([]).valid).toBe(false);
+      expect(parseHookCommandArgs(['--help']).showHelp).toBe(true);
+    });
+  });
+
+  describe('startup flow', () => {
+    it('should prefer the pinned configuration over default_config', async () => {
+      fs.writeFileSync(path.join(projectDir, '.qcr'), 'deepseek-r1');
+
+      const result = await executeStartupFlow(projectDir);
+
+      expect(result.success).toBe(true);
+      expect(result.defaultConfigName).toBe('deepseek-r1');
+      expect(result.pinFile).toBe(path.join(projectDir, '.qcr'));
+      expect(process.env['OPENAI_MODEL']).toBe('deepseek-reasoner');
+    });
+
+    it('should use default_config when no pin file applies', async () => {
+      const result = await validateStartupFlow(projectDir);
+
+      expect(result.success).toBe(true);
+      expect(result.defaultConfigName).toBe('openai-gpt4');
+      expect(result.pinFile).toBeUndefined();
+    });
+
+    it('should fail when the pinned configuration is invalid', async () => {
+      fs.writeFileSync(path.join(projectDir, '.qcr'), 'nope');
+
+      const result = await validateStartupFlow(projectDir);
+
+      expect(result.success).toBe(false);
+      expect(result.errorMessage).toContain("Pinned configuration 'nope'");
+    });
+  });
+});
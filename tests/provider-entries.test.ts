@@ -0,0 +1,267 @@
+/**
+ * Unit tests for editing providers (qcr provider add|remove|set-key|add-model|rm-model)
+ */
+
+import {
+  addProviderEntry,
+  addProviderModel,
+  removeProviderEntry,
+  removeProviderModel,
+  setProviderKey
+} from '../src/provider-entries';
+import { resolveInheritance } from '../src/inheritance';
+import { parseProviderCommandArgs, providerCommand } from '../src/commands/provider';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Provider editing', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  const createConfig = (): ConfigFile => resolveInheritance({
+    default_config: [{ name: 'chat' }],
+    configs: [{
+      config: [
+        { name: 'chat', provider: 'ds', model: 'deepseek-chat' },
+        { name: 'reasoner', extends: 'chat', model: 'deepseek-reasoner' } as any,
+        { name: 'gpt4', provider: 'openai', model: 'gpt-4' }
+      ]
+    }],
+    providers: [{
+      provider: 'deepseek',
+      aliases: ['ds'],
+      env: {
+        api_key: 'sk-deepseek-key-12345',
+        api_key_cmd: 'pass show deepseek',
+        base_url: 'https://api.deepseek.com/v1',
+        models: [{ model: 'deepseek-chat' }, { model: 'deepseek-reasoner' }]
+      }
+    }, {
+      provider: 'openai',
+      env: { api_key: 'sk-openai-key-12345', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }] }
+    }, {
+      provider: 'openai-eu',
+      extends: 'openai',
+      env: { base_url: 'https://eu.api.openai.com/v1' }
+    } as any]
+  });
+
+  const names = (config: ConfigFile) => config.configs.flatMap(group => group.config.map(entry => entry.name));
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-provider-entries-test-'));
+    process.env['XDG_CONFIG_HOME'] = tempDir;
+    process.env['APPDATA'] = tempDir;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('addProviderEntry', () => {
+    it('should add a provider with its models', () => {
+      const config = createConfig();
+
+      expect(addProviderEntry(config, { name: 'groq', baseUrl: 'https://api.groq.com/openai/v1', apiKey: '${GROQ_API_KEY}', models: ['llama3'] }).errors).toEqual([]);
+      expect(config.providers[3]).toEqual({
+        provider: 'groq',
+        env: { api_key: '${GROQ_API_KEY}', base_url: 'https://api.groq.com/openai/v1', models: [{ model: 'llama3' }] }
+      });
+    });
+
+    it('should reject invalid URLs and duplicate names', () => {
+      expect(addProviderEntry(createConfig(), { name: 'groq', baseUrl: 'groq', apiKey: 'k' }).errors)
+        .toEqual(["Provider 'groq'.env: base_url is not a valid URL format"]);
+      expect(addProviderEntry(createConfig(), { name: 'openai', baseUrl: 'https://x.example', apiKey: 'k' }).errors)
+        .toEqual(['Duplicate provider names found: openai']);
+    });
+  });
+
+  describe('removeProviderEntry', () => {
+    it('should list the configurations that use the provider', () => {
+      const config = createConfig();
+
+      expect(removeProviderEntry(config, 'ds').errors).toEqual([
+        "Provider 'deepseek' is used by 'chat', 'reasoner'. Use --cascade to remove these configurations as well"
+      ]);
+    });
+
+    it('should remove the dependent configurations with cascade', () => {
+      const config = createConfig();
+
+      expect(removeProviderEntry(config, 'deepseek', true, { newDefault: 'gpt4' })).toEqual({
+        errors: [],
+        changes: ["Removed configuration 'chat'", "Removed configuration 'reasoner'", 'Default configuration: gpt4']
+      });
+      expect(config.providers.map(p => p.provider)).toEqual(['openai', 'openai-eu']);
+      expect(names(config)).toEqual(['gpt4']);
+      expect(config.default_config).toEqual([{ name: 'gpt4' }]);
+    });
+
+    it('should not cascade to the default configuration without a new default or force', () => {
+      const config = createConfig();
+
+      expect(removeProviderEntry(config, 'deepseek', true).errors).toEqual([
+        "Configuration 'chat' is the default configuration. Name a new default with --default <name>, or use --force to remove it anyway"
+      ]);
+      expect(removeProviderEntry(createConfig(), 'deepseek', true, { newDefault: 'reasoner' }).errors).toEqual([
+        "New default configuration 'reasoner' must be another existing configuration"
+      ]);
+
+      const forced = createConfig();
+      expect(removeProviderEntry(forced, 'deepseek', true, { force: true }).changes).toContain('The file no longer has a default configuration');
+      expect(forced.default_config).toBeUndefined();
+    });
+
+    it('should not remove a provider that others extend', () => {
+      expect(removeProviderEntry(createConfig(), 'openai', true).errors).toEqual(["Provider 'openai' is extended by 'openai-eu'"]);
+      expect(removeProviderEntry(createConfig(), 'groq').errors).toEqual(["Provider 'groq' does not exist"]);
+    });
+  });
+
+  describe('setProviderKey', () => {
+    it('should replace the key and drop other key sources', () => {
+      const config = createConfig();
+
+      expect(setProviderKey(config, 'ds', 'sk-new-key-67890')).toEqual({ errors: [], changes: ['Removed api_key_cmd'] });
+      expect(config.providers[0]!.env).toMatchObject({ api_key: 'sk-new-key-67890' });
+      expect(config.providers[0]!.env.api_key_cmd).toBeUndefined();
+    });
+  });
+
+  describe('models', () => {
+    it('should add a model once', () => {
+      const config = createConfig();
+
+      expect(addProviderModel(config, 'openai', 'gpt-4o').errors).toEqual([]);
+      expect(config.providers[1]!.env.models.map(m => m.model)).toEqual(['gpt-4', 'gpt-4o']);
+      expect(addProviderModel(config, 'openai', 'gpt-4o').errors).toEqual(["Model 'gpt-4o' already exists in provider 'openai'"]);
+    });
+
+    it('should refuse to remove a model in use unless cascading', () => {
+      const config = createConfig();
+
+      expect(removeProviderModel(config, 'deepseek', 'deepseek-reasoner').errors).toEqual([
+        "Model 'deepseek-reasoner' of provider 'deepseek' is used by 'reasoner'. Use --cascade to remove this configuration as well"
+      ]);
+
+      const cascaded = createConfig();
+      expect(removeProviderModel(cascaded, 'deepseek', 'deepseek-reasoner', true).changes).toEqual(["Removed configuration 'reasoner'"]);
+      expect(cascaded.providers[0]!.env.models.map(m => m.model)).toEqual(['deepseek-chat']);
+    });
+
+    it('should not remove the parent of an extending configuration that stays', () => {
+      const config = createConfig();
+      config.configs[0]!.config[1]!.provider = 'openai';
+      config.configs[0]!.config[1]!.model = 'gpt-4';
+
+      expect(removeProviderModel(config, 'deepseek', 'deepseek-chat', true).errors).toEqual(["Configuration 'chat' is extended by 'reasoner'"]);
+    });
+
+    it('should remove a model from inheriting providers but not an inherited one', () => {
+      const config = createConfig();
+
+      expect(removeProviderModel(config, 'openai-eu', 'gpt-4').errors).toEqual(["Model 'gpt-4' is inherited from provider 'openai'"]);
+      expect(removeProviderModel(config, 'openai', 'gpt-4', true).errors).toEqual([]);
+      expect(config.providers[2]!.env.models).toEqual([]);
+      expect(names(config)).toEqual(['chat', 'reasoner']);
+    });
+  });
+
+  describe('qcr provider', () => {
+    const configPath = () => path.join(tempDir, 'config.yaml');
+
+    beforeEach(() => {
+      fs.writeFileSync(configPath(), yaml.stringify({
+        default_config: [{ name: 'chat' }],
+        configs: [{ config: [{ name: 'chat', provider: 'moonshot', model: 'moonshot-v1-8k' }] }],
+        providers: [{
+          provider: 'moonshot',
+          env: { api_key: '${MOONSHOT_API_KEY}', base_url: 'https://api.moonshot.cn/v1', models: [{ model: 'moonshot-v1-8k' }] }
+        }]
+      }));
+    });
+
+    it('should add a provider with a key reference and keep a backup', async () => {
+      const result = await providerCommand({
+        subcommand: 'add', name: 'openai', baseUrl: 'https://api.openai.com/v1', models: ['gpt-4'], keyEnv: 'OPENAI_API_KEY', currentDir: tempDir
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Added provider 'openai'");
+      const saved = yaml.parse(fs.readFileSync(configPath(), 'utf8'));
+      expect(saved.providers[0].env.api_key).toBe('${MOONSHOT_API_KEY}');
+      expect(saved.providers[1]).toEqual({
+        provider: 'openai',
+        env: { api_key: '${OPENAI_API_KEY}', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }] }
+      });
+      expect(fs.readdirSync(tempDir).some(file => file.startsWith('config.yaml.backup.'))).toBe(true);
+    });
+
+    it('should rotate a key', async () => {
+      const result = await providerCommand({ subcommand: 'set-key', name: 'moonshot', apiKey: 'sk-rotated-12345', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Updated the API key of provider 'moonshot'");
+      expect(yaml.parse(fs.readFileSync(configPath(), 'utf8')).providers[0].env.api_key).toBe('sk-rotated-12345');
+    });
+
+    it('should rotate a key in the included file that defines it', async () => {
+      const keysPath = path.join(tempDir, 'keys.yaml');
+      fs.writeFileSync(keysPath, 'providers:\n  - provider: moonshot\n    env:\n      api_key_cmd: pass show moonshot\n');
+      const config = yaml.parse(fs.readFileSync(configPath(), 'utf8'));
+      delete config.providers[0].env.api_key;
+      fs.writeFileSync(configPath(), yaml.stringify({ include: './keys.yaml', ...config }));
+      const original = fs.readFileSync(configPath(), 'utf8');
+
+      const result = await providerCommand({ subcommand: 'set-key', name: 'moonshot', apiKey: 'sk-rotated-12345', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.details).toContain(`Key file: ${keysPath}`);
+      expect(fs.readFileSync(configPath(), 'utf8')).toBe(original);
+      expect(yaml.parse(fs.readFileSync(keysPath, 'utf8'))).toEqual({
+        providers: [{ provider: 'moonshot', env: { api_key: 'sk-rotated-12345' } }]
+      });
+    });
+
+    it('should leave the file unchanged when a dependent configuration is in the way', async () => {
+      const original = fs.readFileSync(configPath(), 'utf8');
+      const result = await providerCommand({ subcommand: 'rm-model', name: 'moonshot', model: 'moonshot-v1-8k', currentDir: tempDir });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Cannot remove model 'moonshot-v1-8k' from provider 'moonshot'");
+      expect(result.details).toContain("is used by 'chat'");
+      expect(fs.readFileSync(configPath(), 'utf8')).toBe(original);
+
+      const cascaded = await providerCommand({ subcommand: 'remove', name: 'moonshot', cascade: true, currentDir: tempDir });
+      expect(cascaded.success).toBe(false);
+      expect(cascaded.details).toContain("Configuration 'chat' is the default configuration");
+      expect(fs.readFileSync(configPath(), 'utf8')).toBe(original);
+
+      const missing = await providerCommand({ subcommand: 'set-key', name: 'groq', apiKey: 'k', currentDir: tempDir });
+      expect(missing.details).toContain("✗ Provider 'groq' does not exist");
+    });
+
+    it('should parse the subcommands', () => {
+      expect(parseProviderCommandArgs(['add', 'groq', '--base-url', 'https://api.groq.com/openai/v1', '--models=llama3, mixtral']).options).toEqual({
+        subcommand: 'add', name: 'groq', baseUrl: 'https://api.groq.com/openai/v1', models: ['llama3', 'mixtral'], verbose: false
+      });
+      expect(parseProviderCommandArgs(['rm-model', 'groq', 'llama3', '--cascade']).options).toEqual({
+        subcommand: 'rm-model', name: 'groq', model: 'llama3', cascade: true, force: false, verbose: false
+      });
+      expect(parseProviderCommandArgs(['remove', 'groq', '--cascade', '--default', 'gpt4']).options).toEqual({
+        subcommand: 'remove', name: 'groq', cascade: true, force: false, newDefault: 'gpt4', verbose: false
+      });
+      expect(parseProviderCommandArgs(['add', 'groq']).error).toBe("--base-url is required for 'provider add'");
+      expect(parseProviderCommandArgs(['set-key', 'groq', 'sk-secret']).error).toBe("Too many arguments for 'provider set-key'");
+      expect(parseProviderCommandArgs(['set-key', 'groq', '--cascade']).error).toBe("--cascade is only supported by 'provider remove' and 'provider rm-model'");
+      expect(parseProviderCommandArgs(['add-model', 'groq', 'llama3', '--force']).error).toBe("--force is only supported by 'provider remove' and 'provider rm-model'");
+      expect(parseProviderCommandArgs(['set-key', 'groq', '--key-env', 'BAD-NAME']).error).toBe('Invalid environment variable name: BAD-NAME');
+      expect(parseProviderCommandArgs(['add-model', 'groq']).error).toBe("Model name is required for 'provider add-model'");
+    });
+  });
+});
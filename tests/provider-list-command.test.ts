@@ -3,7 +3,8 @@
  */
 
 import { handleListCommand } from '../src/commands';
-import { listProviders, listProviderCommand, parseListCommandArgs, ListCommandOptions, listBuiltinProviders, BUILTIN_PROVIDERS } from '../src/commands/list';
+import { listProviders, listProviderCommand, parseListCommandArgs, ListCommandOptions, listBuiltinProviders } from '../src/commands/list';
+import { getBuiltInProviders } from '../src/provider-registry';
 import * as persistence from '../src/persistence';
 import { ConfigFile } from '../src/types';
 
@@ -576,6 +577,14 @@ describe('parseListCommandArgs - Built-in Provider Commands', () => {
     expect(result.error).toBe('--all flag cannot be used with -f (built-in providers) flag');
   });
 
+  it('should parse provider --builtin like -f', () => {
+    expect(parseListCommandArgs(['provider', '--builtin']).options).toEqual({ subcommand: 'provider', builtinProviders: true });
+    expect(parseListCommandArgs(['provider', '--builtin', 'openai']).options).toEqual({
+      subcommand: 'provider', builtinProviders: true, provider: 'openai'
+    });
+    expect(parseListCommandArgs(['--builtin', 'openai']).options?.provider).toBe('openai');
+  });
+
   it('should parse complex -f command', () => {
     const result = parseListCommandArgs(['-f', 'anthropic', '-v']);
     
@@ -695,7 +704,7 @@ describe('listBuiltinProviders', () => {
     
     expect(result.success).toBe(false);
     expect(result.message).toBe("Built-in provider 'nonexistent' not found");
-    expect(result.details).toBe('Available built-in providers: openai, azure, anthropic, google');
+    expect(result.details).toBe('Available built-in providers: openai, azure, anthropic, google, deepseek, dashscope, mistral, groq');
     expect(result.exitCode).toBe(1);
   });
 
@@ -703,7 +712,7 @@ describe('listBuiltinProviders', () => {
     // This test verifies error handling in the function
     const result = listBuiltinProviders({ provider: 'openai' });
     
-    // Should still work normally since BUILTIN_PROVIDERS is a constant
+    // Should still work normally since the bundled catalog is always available
     expect(result.success).toBe(true);
   });
 });
@@ -814,11 +823,13 @@ describe('handleListCommand - Built-in Provider Integration', () => {
 
     expect(result.success).toBe(false);
     expect(result.message).toBe("Built-in provider 'invalid' not found");
-    expect(result.details).toBe('Available built-in providers: openai, azure, anthropic, google');
+    expect(result.details).toBe('Available built-in providers: openai, azure, anthropic, google, deepseek, dashscope, mistral, groq');
   });
 });
 
-describe('BUILTIN_PROVIDERS constant', () => {
+describe('Built-in provider registry', () => {
+  const BUILTIN_PROVIDERS = getBuiltInProviders();
+
   it('should have all expected providers', () => {
     expect(BUILTIN_PROVIDERS).toHaveProperty('openai');
     expect(BUILTIN_PROVIDERS).toHaveProperty('azure');
@@ -829,7 +840,7 @@ describe('BUILTIN_PROVIDERS constant', () => {
   it('should have correct structure for each provider', () => {
     Object.values(BUILTIN_PROVIDERS).forEach(provider => {
       expect(provider).toHaveProperty('name');
-      expect(provider).toHaveProperty('base_url');
+      expect(provider).toHaveProperty('baseUrl');
       expect(provider).toHaveProperty('models');
       expect(Array.isArray(provider.models)).toBe(true);
       expect(provider.models.length).toBeGreaterThan(0);
@@ -837,28 +848,28 @@ describe('BUILTIN_PROVIDERS constant', () => {
   });
 
   it('should have expected models for OpenAI', () => {
-    const openaiModels = BUILTIN_PROVIDERS.openai.models;
+    const openaiModels = BUILTIN_PROVIDERS['openai']!.models;
     expect(openaiModels).toContain('gpt-4');
     expect(openaiModels).toContain('gpt-3.5-turbo');
     expect(openaiModels).toContain('gpt-4-turbo');
   });
 
   it('should have expected models for Azure', () => {
-    const azureModels = BUILTIN_PROVIDERS.azure.models;
+    const azureModels = BUILTIN_PROVIDERS['azure']!.models;
     expect(azureModels).toContain('gpt-4');
     expect(azureModels).toContain('gpt-35-turbo');
     expect(azureModels).toContain('gpt-35-turbo-16k');
   });
 
   it('should have expected models for Anthropic', () => {
-    const anthropicModels = BUILTIN_PROVIDERS.anthropic.models;
+    const anthropicModels = BUILTIN_PROVIDERS['anthropic']!.models;
     expect(anthropicModels).toContain('claude-3-opus-20240229');
     expect(anthropicModels).toContain('claude-3-sonnet-20240229');
     expect(anthropicModels).toContain('claude-2.1');
   });
 
   it('should have expected models for Google', () => {
-    const googleModels = BUILTIN_PROVIDERS.google.models;
+    const googleModels = BUILTIN_PROVIDERS['google']!.models;
     expect(googleModels).toContain('gemini-pro');
     expect(googleModels).toContain('gemini-1.5-pro');
     expect(googleModels).toContain('gemini-1.5-flash');
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the built-in provider registry
+ */
+
+import { getBuiltInProvider, getBuiltInProviders, getUserProvidersFilePath } from '../src/provider-registry';
+import { validateProviderModelResolution } from '../src/resolver';
+import { validateConfiguration } from '../src/commands/chk';
+import { listBuiltinProviders } from '../src/commands/list';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Built-in provider registry', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  const writeOverrides = (content: string) => {
+    fs.mkdirSync(path.dirname(getUserProvidersFilePath()), { recursive: true });
+    fs.writeFileSync(getUserProvidersFilePath(), content);
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-provider-registry-test-'));
+    process.env['XDG_CONFIG_HOME'] = tempDir;
+    process.env['APPDATA'] = tempDir;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load the bundled builtin-provider.yaml', () => {
+    const bundled = yaml.parse(fs.readFileSync(path.join(__dirname, '..', 'builtin-provider.yaml'), 'utf-8'));
+    const providers = getBuiltInProviders();
+
+    expect(Object.keys(providers)).toEqual(bundled.providers.map((p: { provider: string }) => p.provider));
+    expect(providers['anthropic']).toEqual({
+      provider: 'anthropic',
+      name: 'Anthropic',
+      aliases: ['claude'],
+      baseUrl: 'https://api.anthropic.com/v1',
+      models: bundled.providers[2].env.models.map((m: { model: string }) => m.model),
+      modelAliases: { opus: 'claude-3-opus-20240229', sonnet: 'claude-3-sonnet-20240229', haiku: 'claude-3-haiku-20240307' },
+      latest: bundled.providers[2].latest,
+      modelMetadata: expect.any(Object)
+    });
+    expect(providers['anthropic']!.modelMetadata['claude-2.1']).toEqual({
+      context_window: 200000,
+      max_output_tokens: 4096,
+      input_price: 8,
+      output_price: 24,
+      output_speed: 35,
+      capabilities: { tools: false, vision: false, reasoning: false, streaming: true }
+    });
+    expect(getBuiltInProvider('OpenAI')!.name).toBe('OpenAI');
+    expect(getBuiltInProvider('unknown')).toBeNull();
+  });
+
+  it('should give resolution, chk and list the same models', () => {
+    const configFile: ConfigFile = {
+      configs: [{ config: [{ name: 'claude', provider: 'anthropic', model: 'claude-3-opus-20240229' }] }],
+      providers: []
+    };
+    process.env['ANTHROPIC_API_KEY'] = 'sk-ant-test-12345';
+
+    expect(validateProviderModelResolution('anthropic', 'claude-3-opus-20240229', configFile).isValid).toBe(true);
+    expect(validateConfiguration('claude', configFile).isValid).toBe(true);
+    expect(listBuiltinProviders({ provider: 'anthropic' }).details).toContain('claude-3-opus-20240229');
+  });
+
+  it('should apply user overrides and additions', () => {
+    writeOverrides([
+      'providers:',
+      '  - provider: OpenAI',
+      '    env:',
+      '      models:',
+      '        - model: gpt-4o',
+      '  - provider: together',
+      '    name: Together',
+      '    env:',
+      '      base_url: https://api.together.xyz/v1',
+      '      models:',
+      '        - model: llama-3-70b',
+      ''
+    ].join('\n'));
+
+    const providers = getBuiltInProviders();
+    expect(providers['openai']).toEqual({
+      provider: 'openai', name: 'OpenAI', aliases: [], baseUrl: 'https://api.openai.com/v1', models: ['gpt-4o'], modelAliases: {}, latest: {}, modelMetadata: {}
+    });
+    expect(providers['together']).toEqual({
+      provider: 'together', name: 'Together', aliases: [], baseUrl: 'https://api.together.xyz/v1', models: ['llama-3-70b'], modelAliases: {}, latest: {}, modelMetadata: {}
+    });
+    expect(Object.keys(providers).pop()).toBe('together');
+
+    process.env['TOGETHER_API_KEY'] = 'sk-together-test-12345';
+    expect(validateProviderModelResolution('together', 'llama-3-70b').isValid).toBe(true);
+  });
+
+  it('should pick up changes to the override file', () => {
+    writeOverrides('providers:\n  - provider: google\n    name: Gemini\n');
+    expect(getBuiltInProvider('google')!.name).toBe('Gemini');
+
+    writeOverrides('providers: []\n');
+    expect(getBuiltInProvider('google')!.name).toBe('Google AI');
+  });
+
+  it('should report invalid override files', () => {
+    writeOverrides('providers:\n  - provider: together\n    env:\n      models: []\n');
+    expect(() => getBuiltInProviders()).toThrow(`Provider catalog ${getUserProvidersFilePath()}: new provider "together" needs env.base_url and env.models`);
+
+    writeOverrides('providers:\n  - provider: openai\n    env:\n      models: [gpt-4o]\n');
+    expect(() => getBuiltInProviders()).toThrow('providers[0].env.models must be a list of { model: <name>, aliases?: [<name>] } entries');
+
+    writeOverrides('- openai\n');
+    expect(() => getBuiltInProviders()).toThrow('must have a "providers" list');
+  });
+});
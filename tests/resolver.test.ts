@@ -18,9 +18,9 @@ import {
   isBuiltInProvider,
   getCurrentDefaultConfiguration,
   validateConfigurationResolution,
-  validateProviderModelResolution,
-  BUILT_IN_PROVIDERS
+  validateProviderModelResolution
 } from '../src/resolver';
+import { getBuiltInProvider } from '../src/provider-registry';
 import { ConfigFile } from '../src/types';
 import { REQUIRED_ENV_VARS } from '../src/environment';
 
@@ -400,7 +400,7 @@ describe('Configuration Resolution Logic', () => {
     it('should return models for built-in provider', () => {
       const models = getModelsForBuiltInProvider('openai');
       
-      expect(models).toEqual(BUILT_IN_PROVIDERS['openai']!.models);
+      expect(models).toEqual(getBuiltInProvider('openai')!.models);
     });
 
     it('should return null for non-existent built-in provider', () => {
@@ -412,7 +412,7 @@ describe('Configuration Resolution Logic', () => {
     it('should handle case-insensitive provider names', () => {
       const models = getModelsForBuiltInProvider('OpEnAi');
       
-      expect(models).toEqual(BUILT_IN_PROVIDERS['openai']!.models);
+      expect(models).toEqual(getBuiltInProvider('openai')!.models);
     });
   });
 
@@ -420,7 +420,7 @@ describe('Configuration Resolution Logic', () => {
     it('should return all built-in provider names', () => {
       const names = getBuiltInProviderNames();
       
-      expect(names).toEqual(['openai', 'azure', 'anthropic', 'google']);
+      expect(names).toEqual(['openai', 'azure', 'anthropic', 'google', 'deepseek', 'dashscope', 'mistral', 'groq']);
     });
   });
 
@@ -13,6 +13,8 @@ jest.mock('../src/persistence');
 jest.mock('../src/resolver');
 const mockDiscoverAndLoadConfig = persistence.discoverAndLoadConfig as jest.MockedFunction<typeof persistence.discoverAndLoadConfig>;
 const mockResolveConfigurationByName = resolver.resolveConfigurationByName as jest.MockedFunction<typeof resolver.resolveConfigurationByName>;
+const mockResolveAliases = resolver.resolveAliases as jest.MockedFunction<typeof resolver.resolveAliases>;
+const mockGetConfigurationReference = resolver.getConfigurationReference as jest.MockedFunction<typeof resolver.getConfigurationReference>;
 
 // Sample configuration for testing
 const sampleConfig: ConfigFile = {
@@ -64,6 +66,8 @@ const sampleConfig: ConfigFile = {
 
 beforeEach(() => {
   jest.clearAllMocks();
+  mockResolveAliases.mockImplementation(jest.requireActual('../src/resolver').resolveAliases);
+  mockGetConfigurationReference.mockImplementation(jest.requireActual('../src/resolver').getConfigurationReference);
   // Clear environment variables
   delete process.env['OPENAI_API_KEY'];
   delete process.env['OPENAI_BASE_URL'];
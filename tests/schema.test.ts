@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the configuration JSON Schema and unknown-key warnings
+ */
+
+import { CONFIG_SCHEMA_URL, findUnknownKeys, getConfigSchema, readYamlSchemaHeader, suggestKey } from '../src/schema';
+import { validateConfigFile } from '../src/validation';
+import { createDefaultConfigFile, parseYamlConfig, serializeYamlConfig, loadConfigFile } from '../src/persistence';
+import { handleSchemaCommand, parseSchemaCommandArgs } from '../src/commands/schema';
+import { chkCommand } from '../src/commands/chk';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Configuration schema', () => {
+  const createConfig = (): ConfigFile => ({
+    default_config: [{ name: 'gpt4' }],
+    configs: [{ config: [{ name: 'gpt4', provider: 'openai', model: 'gpt-4' }] }],
+    providers: [{
+      provider: 'openai',
+      env: { api_key: 'sk-test-key-12345', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }] }
+    }]
+  });
+
+  describe('suggestKey', () => {
+    it('should match keys that only differ in case or separators', () => {
+      expect(suggestKey('base-url', ['api_key', 'base_url', 'models'])).toBe('base_url');
+      expect(suggestKey('apikey', ['api_key', 'base_url', 'models'])).toBe('api_key');
+      expect(suggestKey('Model', ['name', 'provider', 'model'])).toBe('model');
+    });
+
+    it('should suggest close typos and nothing for unrelated keys', () => {
+      expect(suggestKey('modles', ['api_key', 'base_url', 'models'])).toBe('models');
+      expect(suggestKey('timeout', ['api_key', 'base_url', 'models'])).toBeNull();
+    });
+  });
+
+  describe('findUnknownKeys', () => {
+    it('should accept a valid configuration', () => {
+      expect(findUnknownKeys(createConfig())).toEqual([]);
+    });
+
+    it('should report unknown keys with their location', () => {
+      const config: any = createConfig();
+      config.defaults = [];
+      config.providers[0].env['base-url'] = config.providers[0].env.base_url;
+      config.configs[0].config[0].modle = 'gpt-4';
+
+      expect(findUnknownKeys(config)).toEqual([
+        'configs[0].config[0]: unknown key "modle" (did you mean "model"?)',
+        'providers[0].env: unknown key "base-url" (did you mean "base_url"?)',
+        'Unknown key "defaults"'
+      ]);
+    });
+
+    it('should not treat extra environment variables as unknown keys', () => {
+      const config: any = createConfig();
+      config.configs[0].config[0].env = { OPENAI_ORG_ID: 'org-123' };
+      expect(findUnknownKeys(config)).toEqual([]);
+    });
+  });
+
+  describe('validateConfigFile', () => {
+    it('should warn about unknown keys without failing validation', () => {
+      const config: any = createConfig();
+      config.providers[0].env.apikey = 'sk-typo';
+
+      const result = validateConfigFile(config);
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toContain('providers[0].env: unknown key "apikey" (did you mean "api_key"?)');
+    });
+  });
+
+  describe('qcr chk', () => {
+    const originalEnv = { ...process.env };
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-schema-chk-test-'));
+      process.env = { ...originalEnv, XDG_CONFIG_HOME: tempDir, APPDATA: tempDir };
+    });
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should print unknown keys of the file', async () => {
+      const config: any = createConfig();
+      config.configs[0].config.push({ name: 'gpt4-copy', provider: 'openai', model: 'gpt-4', descripton: 'typo' });
+      config.providers[0].env['base-url'] = 'https://api.openai.com/v1';
+      fs.writeFileSync(path.join(tempDir, 'config.json'), JSON.stringify(config));
+
+      const all = await chkCommand({ currentDir: tempDir });
+      expect(all.message).toBe('All 2 configurations are valid');
+      expect(all.details).toContain('File warnings:');
+      expect(all.details).toContain('providers[0].env: unknown key "base-url" (did you mean "base_url"?)');
+      expect(all.details).toContain('configs[0].config[1]: unknown key "descripton" (did you mean "description"?)');
+
+      const single = await chkCommand({ configName: 'gpt4', currentDir: tempDir, verbose: true });
+      expect(single.details).toContain('unknown key "base-url"');
+    });
+  });
+
+  describe('$schema', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-schema-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should keep $schema of YAML files in the language server comment', () => {
+      const content = serializeYamlConfig({ $schema: CONFIG_SCHEMA_URL, ...createConfig() });
+
+      expect(content.split('\n')[0]).toBe(`# yaml-language-server: $schema=${CONFIG_SCHEMA_URL}`);
+      expect(content).not.toContain('$schema:');
+      expect(readYamlSchemaHeader(content)).toBe(CONFIG_SCHEMA_URL);
+      expect(parseYamlConfig(content, 'config.yaml').$schema).toBe(CONFIG_SCHEMA_URL);
+    });
+
+    it('should reference the schema from new configuration files', async () => {
+      const yamlPath = path.join(tempDir, 'config.yaml');
+      const jsonPath = path.join(tempDir, 'config.json');
+      await createDefaultConfigFile(yamlPath);
+      await createDefaultConfigFile(jsonPath);
+
+      expect(readYamlSchemaHeader(fs.readFileSync(yamlPath, 'utf-8'))).toBe(CONFIG_SCHEMA_URL);
+      expect(JSON.parse(fs.readFileSync(jsonPath, 'utf-8')).$schema).toBe(CONFIG_SCHEMA_URL);
+      expect(validateConfigFile(await loadConfigFile(jsonPath)).warnings).toEqual([]);
+    });
+  });
+
+  describe('qcr schema', () => {
+    it('should print the schema', async () => {
+      const result = await handleSchemaCommand([]);
+      expect(result.success).toBe(true);
+      expect(JSON.parse(result.message!)).toEqual(getConfigSchema());
+    });
+
+    it('should match the published qcr.schema.json', () => {
+      const published = fs.readFileSync(path.join(__dirname, '..', 'qcr.schema.json'), 'utf-8');
+      expect(published).toBe(JSON.stringify(getConfigSchema(), null, 2) + '\n');
+    });
+
+    it('should reject arguments', () => {
+      expect(parseSchemaCommandArgs(['--help'])).toEqual({ valid: true, showHelp: true });
+      expect(parseSchemaCommandArgs(['--json'])).toEqual({ valid: false, error: 'Unknown option: --json' });
+      expect(parseSchemaCommandArgs(['extra'])).toEqual({ valid: false, error: 'Unexpected argument: extra' });
+    });
+  });
+});
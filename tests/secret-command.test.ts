@@ -0,0 +1,218 @@
+/**
+ * Unit tests for the secret command
+ */
+
+import { handleSecretCommand } from '../src/commands';
+import { secretCommand, parseSecretCommandArgs, secretCommandHelp } from '../src/commands/secret';
+import { useCommand } from '../src/commands/use';
+import { getSecret, listSecretNames, setSecret, setSessionPassphrase, VAULT_FILE_ENV_VAR, VAULT_PASSPHRASE_ENV_VAR } from '../src/vault';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Secret Command', () => {
+  const originalEnv = { ...process.env };
+
+  const testConfigFile: ConfigFile = {
+    default_config: [{ name: 'deepseek-chat' }],
+    configs: [
+      {
+        config: [
+          { name: 'deepseek-chat', provider: 'deepseek', model: 'deepseek-chat' },
+          { name: 'openai-gpt4', provider: 'openai', model: 'gpt-4' }
+        ]
+      }
+    ],
+    providers: [
+      {
+        provider: 'deepseek',
+        env: {
+          api_key: 'sk-deepseek-key',
+          base_url: 'https://api.deepseek.com',
+          models: [{ model: 'deepseek-chat' }]
+        }
+      },
+      {
+        provider: 'openai',
+        env: {
+          api_key: '${QCR_TEST_OPENAI_KEY}',
+          base_url: 'https://api.openai.com/v1',
+          models: [{ model: 'gpt-4' }]
+        }
+      }
+    ]
+  };
+
+  let tempDir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-secret-test-'));
+    configPath = path.join(tempDir, 'config.yaml');
+    fs.writeFileSync(configPath, require('yaml').stringify(testConfigFile));
+    process.env[VAULT_FILE_ENV_VAR] = path.join(tempDir, 'vault.json');
+    process.env[VAULT_PASSPHRASE_ENV_VAR] = 'test-passphrase';
+    process.env['QCR_TEST_OPENAI_KEY'] = 'sk-openai-from-env';
+    setSessionPassphrase(undefined);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setSessionPassphrase(undefined);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseSecretCommandArgs', () => {
+    it('should parse subcommands and names', () => {
+      expect(parseSecretCommandArgs(['set', 'deepseek'])).toEqual({
+        valid: true,
+        options: { subcommand: 'set', name: 'deepseek', verbose: false }
+      });
+      expect(parseSecretCommandArgs(['list', '-v']).options).toEqual({ subcommand: 'list', name: undefined, verbose: true });
+    });
+
+    it('should show help', () => {
+      expect(parseSecretCommandArgs(['--help'])).toEqual({ valid: true, showHelp: true });
+    });
+
+    it('should reject missing or unknown subcommands', () => {
+      expect(parseSecretCommandArgs([]).error).toContain('Subcommand is required');
+      expect(parseSecretCommandArgs(['show']).error).toContain('Unknown subcommand: show');
+    });
+
+    it('should require a valid name for set, get and rm', () => {
+      expect(parseSecretCommandArgs(['get']).error).toContain('Secret name is required');
+      expect(parseSecretCommandArgs(['set', 'bad/name']).error).toContain('Invalid secret name');
+      expect(parseSecretCommandArgs(['list', 'extra']).error).toContain('Too many arguments');
+    });
+
+    it('should reject unknown options', () => {
+      expect(parseSecretCommandArgs(['list', '--all']).error).toBe('Unknown option: --all');
+    });
+  });
+
+  describe('set / get / list / rm', () => {
+    it('should store, read, list and remove a secret', async () => {
+      const setResult = await secretCommand({ subcommand: 'set', name: 'deepseek', value: 'sk-stored' });
+      expect(setResult.success).toBe(true);
+      expect(setResult.details).toContain('api_key: vault:deepseek');
+
+      const getResult = await secretCommand({ subcommand: 'get', name: 'deepseek' });
+      expect(getResult.message).toBe('sk-stored');
+
+      const listResult = await secretCommand({ subcommand: 'list' });
+      expect(listResult.message).toBe('deepseek');
+
+      const rmResult = await secretCommand({ subcommand: 'rm', name: 'deepseek' });
+      expect(rmResult.success).toBe(true);
+      expect(listSecretNames()).toEqual([]);
+    });
+
+    it('should report an empty vault', async () => {
+      const result = await secretCommand({ subcommand: 'list' });
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('No secrets stored in the vault');
+    });
+
+    it('should fail for unknown secrets and wrong passphrases', async () => {
+      await secretCommand({ subcommand: 'set', name: 'deepseek', value: 'sk-stored' });
+
+      const missing = await secretCommand({ subcommand: 'get', name: 'openai' });
+      expect(missing.success).toBe(false);
+      expect(missing.details).toContain('Secret "openai" not found in vault');
+
+      process.env[VAULT_PASSPHRASE_ENV_VAR] = 'wrong';
+      const wrong = await secretCommand({ subcommand: 'get', name: 'deepseek' });
+      expect(wrong.success).toBe(false);
+      expect(wrong.details).toContain('Incorrect vault passphrase');
+
+      const rm = await secretCommand({ subcommand: 'rm', name: 'openai' });
+      expect(rm.success).toBe(false);
+    });
+
+    it('should require a passphrase when stdin is not a terminal', async () => {
+      delete process.env[VAULT_PASSPHRASE_ENV_VAR];
+
+      const result = await secretCommand({ subcommand: 'set', name: 'deepseek', value: 'sk-stored' });
+      expect(result.success).toBe(false);
+      expect(result.details).toContain(VAULT_PASSPHRASE_ENV_VAR);
+    });
+  });
+
+  describe('migrate', () => {
+    it('should move plaintext keys into the vault and rewrite the file', async () => {
+      const result = await secretCommand({ subcommand: 'migrate', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Moved 1 API key into the vault');
+      expect(getSecret('deepseek', 'test-passphrase')).toBe('sk-deepseek-key');
+
+      const content = fs.readFileSync(configPath, 'utf-8');
+      expect(content).toContain('api_key: vault:deepseek');
+      expect(content).not.toContain('sk-deepseek-key');
+      // ${VAR} references are not plaintext keys and stay untouched
+      expect(content).toContain('${QCR_TEST_OPENAI_KEY}');
+      expect(content).not.toContain('sk-openai-from-env');
+    });
+
+    it('should move keys in the file where they are written, including an included key file', async () => {
+      const keysPath = path.join(tempDir, 'keys.yaml');
+      fs.writeFileSync(keysPath, 'providers:\n  - provider: deepseek\n    env:\n      api_key: sk-deepseek-included\n');
+      const { providers, ...rest } = testConfigFile;
+      fs.writeFileSync(configPath, require('yaml').stringify({
+        include: './keys.yaml',
+        ...rest,
+        providers: [{ provider: 'deepseek', env: { base_url: 'https://api.deepseek.com', models: [{ model: 'deepseek-chat' }] } }, providers[1]]
+      }));
+      const original = fs.readFileSync(configPath, 'utf-8');
+
+      const result = await secretCommand({ subcommand: 'migrate', currentDir: tempDir });
+
+      expect(result.message).toBe('Moved 1 API key into the vault');
+      expect(result.details).toBe(`deepseek → vault:deepseek (in ${keysPath})`);
+      expect(getSecret('deepseek', 'test-passphrase')).toBe('sk-deepseek-included');
+      expect(fs.readFileSync(keysPath, 'utf-8')).toBe('providers:\n  - provider: deepseek\n    env:\n      api_key: vault:deepseek\n');
+      expect(fs.readFileSync(configPath, 'utf-8')).toBe(original);
+    });
+
+    it('should skip providers whose secret name already holds a different key', async () => {
+      setSecret('deepseek', 'sk-other', 'test-passphrase');
+
+      const result = await secretCommand({ subcommand: 'migrate', currentDir: tempDir });
+      expect(result.message).toBe('Moved 0 API keys into the vault');
+      expect(result.details).toContain('Skipped deepseek');
+      expect(fs.readFileSync(configPath, 'utf-8')).toContain('sk-deepseek-key');
+    });
+
+    it('should report when there is nothing to migrate', async () => {
+      await secretCommand({ subcommand: 'migrate', currentDir: tempDir });
+
+      const result = await secretCommand({ subcommand: 'migrate', currentDir: tempDir });
+      expect(result.message).toContain('No plaintext API keys found');
+    });
+
+    it('should decrypt migrated keys when a configuration is activated', async () => {
+      await secretCommand({ subcommand: 'migrate', currentDir: tempDir });
+
+      const result = await useCommand({ configName: 'deepseek-chat', currentDir: tempDir, shell: 'bash' });
+      expect(result.success).toBe(true);
+      expect(result.details).toContain("export OPENAI_API_KEY='sk-deepseek-key'");
+    });
+  });
+
+  describe('handleSecretCommand', () => {
+    it('should reject invalid arguments with exit code 2', async () => {
+      const result = await handleSecretCommand(['unknown']);
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should show help', async () => {
+      const result = await handleSecretCommand(['-h']);
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('qcr secret - Manage API keys in the encrypted vault');
+      expect(secretCommandHelp().message).toBe(result.message);
+    });
+  });
+});
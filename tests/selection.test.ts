@@ -0,0 +1,165 @@
+/**
+ * Unit tests for capability-based configuration selection
+ */
+
+import {
+  formatModelRequirements,
+  formatSelection,
+  parseModelRequirements,
+  selectConfigurations
+} from '../src/selection';
+import { parseUseCommandArgs, useCommand } from '../src/commands/use';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Capability-based selection', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  const createConfig = (): ConfigFile => ({
+    default_config: [{ name: 'gpt4' }],
+    configs: [{
+      config: [
+        { name: 'gpt4', provider: 'openai', model: 'gpt-4' },
+        { name: 'turbo', provider: 'openai', model: 'gpt-4-turbo' },
+        { name: 'chat', provider: 'ds', model: 'deepseek-chat' },
+        { name: 'mystery', provider: 'ds', model: 'deepseek-mystery' },
+        { name: 'claude2', provider: 'anthropic', model: 'claude-2.1' }
+      ]
+    }],
+    providers: [{
+      provider: 'openai',
+      env: { api_key: 'sk-openai-key-12345', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }, { model: 'gpt-4-turbo', output_speed: 20 }] }
+    }, {
+      provider: 'deepseek',
+      aliases: ['ds'],
+      env: {
+        api_key: 'sk-deepseek-key-12345',
+        base_url: 'https://api.deepseek.com/v1',
+        models: [
+          { model: 'deepseek-chat', context_window: 128000, input_price: 0.27, output_price: 1.1, output_speed: 60, capabilities: { tools: true, vision: false } },
+          { model: 'deepseek-mystery' }
+        ]
+      }
+    }, {
+      provider: 'anthropic',
+      env: { api_key: 'sk-ant-key-12345', base_url: 'https://api.anthropic.com/v1', models: [{ model: 'claude-2.1' }] }
+    }]
+  });
+
+  const need = (value: string) => parseModelRequirements(value).requirements!;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-selection-test-'));
+    process.env['XDG_CONFIG_HOME'] = tempDir;
+    process.env['APPDATA'] = tempDir;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseModelRequirements', () => {
+    it('should parse capabilities and context sizes', () => {
+      expect(parseModelRequirements('tools, Vision,128k')).toEqual({
+        valid: true,
+        requirements: { capabilities: ['tools', 'vision'], minContextWindow: 128000 }
+      });
+      expect(need('1.5m,32000').minContextWindow).toBe(1500000);
+      expect(formatModelRequirements(need('vision,tools,tools,128k'))).toBe('vision,tools,128k');
+    });
+
+    it('should reject unknown requirements', () => {
+      expect(parseModelRequirements('tools,audio')).toEqual({
+        valid: false,
+        error: "Unknown requirement 'audio'. Use tools, vision, reasoning, streaming or a context size such as 128k"
+      });
+      expect(parseModelRequirements(' , ').valid).toBe(false);
+    });
+  });
+
+  describe('selectConfigurations', () => {
+    it('should keep the configurations whose model meets the requirements', () => {
+      const result = selectConfigurations(createConfig(), need('tools,128k'), 'default');
+
+      expect(result.candidates.map(c => c.name)).toEqual(['turbo', 'chat']);
+      expect(result.candidates[1]).toMatchObject({ provider: 'deepseek', model: 'deepseek-chat' });
+      expect(result.rejected.map(c => [c.name, c.reasons])).toEqual([
+        ['gpt4', ['context window 8k < 128k']],
+        ['mystery', ['tools support unknown', 'context window unknown']],
+        ['claude2', ['no tools support']]
+      ]);
+    });
+
+    it('should rank candidates by the policy', () => {
+      const config = createConfig();
+      const rank = (policy: 'cheapest' | 'default' | 'fastest') =>
+        selectConfigurations(config, need('tools'), policy).candidates.map(c => c.name);
+
+      expect(rank('default')).toEqual(['gpt4', 'turbo', 'chat']);
+      expect(rank('cheapest')).toEqual(['chat', 'turbo', 'gpt4']);
+      expect(rank('fastest')).toEqual(['chat', 'gpt4', 'turbo']);
+    });
+
+    it('should format candidates and rejections', () => {
+      const result = selectConfigurations(createConfig(), need('tools,vision'), 'cheapest');
+
+      expect(formatSelection(result, 'cheapest')).toEqual([
+        'Candidates (cheapest first):',
+        '  → turbo    openai/gpt-4-turbo         $10.00 / $30.00 per million tokens',
+        'Rejected:',
+        '  ✗ gpt4     openai/gpt-4               no vision support',
+        '  ✗ chat     deepseek/deepseek-chat     no vision support',
+        '  ✗ mystery  deepseek/deepseek-mystery  tools support unknown, vision support unknown',
+        '  ✗ claude2  anthropic/claude-2.1       no tools support, no vision support'
+      ]);
+    });
+  });
+
+  describe('qcr use --need', () => {
+    beforeEach(() => {
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), yaml.stringify(createConfig()));
+    });
+
+    it('should activate the best candidate', async () => {
+      const result = await useCommand({ need: need('tools,128k'), prefer: 'cheapest', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Successfully activated selected configuration 'chat'");
+      expect(result.details).toContain('Provider: deepseek, Model: deepseek-chat');
+      expect(result.details).toContain('  → chat     deepseek/deepseek-chat     $0.27 / $1.10 per million tokens');
+      expect(result.details).toContain('✗ gpt4');
+      expect(process.env['OPENAI_MODEL']).toBe('deepseek-chat');
+    });
+
+    it('should keep shell output evaluable', async () => {
+      const result = await useCommand({ need: need('tools,128k'), currentDir: tempDir, shell: 'bash' });
+
+      expect(result.success).toBe(true);
+      expect(result.details!.split('\n').filter(line => !line.startsWith('#') && !line.startsWith('export '))).toEqual([]);
+    });
+
+    it('should list the rejections when nothing qualifies', async () => {
+      const result = await useCommand({ need: need('reasoning'), currentDir: tempDir });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("No configuration meets the requirements 'reasoning'");
+      expect(result.details).toContain('✗ claude2  anthropic/claude-2.1       no reasoning support');
+    });
+
+    it('should parse --need and --prefer', () => {
+      expect(parseUseCommandArgs(['--need', 'tools,128k', '--prefer=fastest'])).toEqual({
+        valid: true,
+        options: { need: { capabilities: ['tools'], minContextWindow: 128000 }, prefer: 'fastest' }
+      });
+      expect(parseUseCommandArgs(['gpt4', '--need', 'tools']).error).toBe('A configuration name cannot be combined with --need');
+      expect(parseUseCommandArgs(['--prefer', 'cheapest']).error).toBe('--prefer requires --need');
+      expect(parseUseCommandArgs(['--need', 'tools', '--prefer', 'best']).error)
+        .toBe('Unknown --prefer policy: best. Supported policies: cheapest, default, fastest');
+    });
+  });
+});
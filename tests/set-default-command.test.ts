@@ -17,6 +17,8 @@ const mockSaveConfigFile = persistence.saveConfigFile as jest.MockedFunction<typ
 jest.mock('../src/resolver');
 const mockGetAllConfigurationNames = resolver.getAllConfigurationNames as jest.MockedFunction<typeof resolver.getAllConfigurationNames>;
 const mockGetCurrentDefaultConfiguration = resolver.getCurrentDefaultConfiguration as jest.MockedFunction<typeof resolver.getCurrentDefaultConfiguration>;
+const mockFindConfigurationByName = resolver.findConfigurationByName as jest.MockedFunction<typeof resolver.findConfigurationByName>;
+const mockGetConfigurationReference = resolver.getConfigurationReference as jest.MockedFunction<typeof resolver.getConfigurationReference>;
 
 // Sample configuration for testing
 const sampleConfig: ConfigFile = {
@@ -56,6 +58,8 @@ const sampleConfig: ConfigFile = {
 
 beforeEach(() => {
   jest.clearAllMocks();
+  mockFindConfigurationByName.mockImplementation(jest.requireActual('../src/resolver').findConfigurationByName);
+  mockGetConfigurationReference.mockImplementation(jest.requireActual('../src/resolver').getConfigurationReference);
 });
 
 describe('parseSetDefaultCommandArgs', () => {
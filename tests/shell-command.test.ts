@@ -0,0 +1,158 @@
+/**
+ * Unit tests for the shell command
+ */
+
+import { handleShellCommand } from '../src/commands';
+import { shellCommand, parseShellCommandArgs, shellCommandHelp } from '../src/commands/shell';
+import { ACTIVE_CONFIG_ENV_VAR } from '../src/shell';
+import { ConfigFile } from '../src/types';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+// Mock child_process
+jest.mock('child_process');
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+describe('Shell Command', () => {
+  const originalEnv = { ...process.env };
+  const originalConsoleLog = console.log;
+  const originalConsoleWarn = console.warn;
+
+  const testConfigFile: ConfigFile = {
+    configs: [
+      {
+        config: [
+          { name: 'deepseek-r1', provider: 'deepseek', model: 'deepseek-reasoner' }
+        ]
+      }
+    ],
+    providers: [
+      {
+        provider: 'deepseek',
+        env: {
+          api_key: 'sk-deepseek-key',
+          base_url: 'https://api.deepseek.com',
+          models: [{ model: 'deepseek-reasoner' }]
+        }
+      }
+    ]
+  };
+
+  let tempDir: string;
+  let mockChildProcess: EventEmitter & { pid?: number };
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-shell-test-'));
+    fs.writeFileSync(path.join(tempDir, 'config.yaml'), require('yaml').stringify(testConfigFile));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    console.log = jest.fn();
+    console.warn = jest.fn();
+    mockChildProcess = new EventEmitter() as EventEmitter & { pid?: number };
+    mockChildProcess.pid = 12345;
+    mockSpawn.mockReturnValue(mockChildProcess as any);
+    delete process.env[ACTIVE_CONFIG_ENV_VAR];
+    delete process.env['OPENAI_MODEL'];
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.warn = originalConsoleWarn;
+    process.env = { ...originalEnv };
+  });
+
+  const exitChildWith = (code: number) => {
+    setTimeout(() => mockChildProcess.emit('exit', code, null), 10);
+  };
+
+  describe('parseShellCommandArgs', () => {
+    it('should parse a configuration name and verbose flag', () => {
+      const result = parseShellCommandArgs(['deepseek-r1', '-v']);
+
+      expect(result.valid).toBe(true);
+      expect(result.options).toEqual({ configName: 'deepseek-r1', verbose: true });
+    });
+
+    it('should require exactly one configuration name', () => {
+      expect(parseShellCommandArgs([]).error).toBe('Configuration name is required');
+      expect(parseShellCommandArgs(['a', 'b']).valid).toBe(false);
+    });
+
+    it('should reject unknown options', () => {
+      expect(parseShellCommandArgs(['deepseek-r1', '--login']).error).toBe('Unknown option: --login');
+    });
+
+    it('should show help', () => {
+      expect(parseShellCommandArgs(['-h'])).toEqual({ valid: true, showHelp: true });
+      expect(shellCommandHelp().message).toContain('qcr shell - Start a subshell');
+    });
+  });
+
+  describe('shellCommand', () => {
+    it('should start the shell with the configuration and marker applied', async () => {
+      const resultPromise = shellCommand({ configName: 'deepseek-r1', currentDir: tempDir, shellPath: '/bin/zsh' });
+      exitChildWith(0);
+      const result = await resultPromise;
+
+      const [command, args, spawnOptions] = mockSpawn.mock.calls[0]!;
+      expect(command).toBe('/bin/zsh');
+      expect(args).toEqual([]);
+      expect(spawnOptions).toMatchObject({ stdio: 'inherit', shell: false });
+      expect(spawnOptions?.env).toMatchObject({
+        OPENAI_MODEL: 'deepseek-reasoner',
+        [ACTIVE_CONFIG_ENV_VAR]: 'deepseek-r1'
+      });
+      expect(process.env['OPENAI_MODEL']).toBeUndefined();
+
+      expect(console.log).toHaveBeenCalledWith("Entering qcr shell for configuration 'deepseek-r1' (type 'exit' to leave)");
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Left qcr shell for configuration 'deepseek-r1'");
+      expect(result.exitCode).toBe(0);
+    });
+
+    it('should return the exit code of the subshell', async () => {
+      const resultPromise = shellCommand({ configName: 'deepseek-r1', currentDir: tempDir, shellPath: '/bin/sh' });
+      exitChildWith(4);
+      const result = await resultPromise;
+
+      expect(result.exitCode).toBe(4);
+    });
+
+    it('should warn when already inside a qcr shell', async () => {
+      process.env[ACTIVE_CONFIG_ENV_VAR] = 'openai-gpt4';
+
+      const resultPromise = shellCommand({ configName: 'deepseek-r1', currentDir: tempDir, shellPath: '/bin/sh' });
+      exitChildWith(0);
+      await resultPromise;
+
+      expect(console.warn).toHaveBeenCalledWith(
+        "Warning: already inside a qcr shell for 'openai-gpt4'; starting a nested shell for 'deepseek-r1'"
+      );
+    });
+
+    it('should not start a shell for unknown configurations', async () => {
+      const result = await shellCommand({ configName: 'nope', currentDir: tempDir });
+
+      expect(result.success).toBe(false);
+      expect(mockSpawn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleShellCommand', () => {
+    it('should return usage errors for invalid arguments', async () => {
+      const result = await handleShellCommand([]);
+
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(2);
+    });
+  });
+});
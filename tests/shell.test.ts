@@ -0,0 +1,153 @@
+/**
+ * Unit tests for shell integration utilities
+ */
+
+import {
+  isSupportedShell,
+  normalizeShellName,
+  detectShellType,
+  quotePosix,
+  quoteFish,
+  quotePowerShell,
+  formatExportStatement,
+  formatUnsetStatement,
+  formatShellComment,
+  formatShellScript,
+  formatEnvironmentExports,
+  formatEnvironmentUnsets,
+  getShellEvalHint
+} from '../src/shell';
+import { execFileSync } from 'child_process';
+import * as os from 'os';
+
+describe('Shell Integration', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('isSupportedShell', () => {
+    it('should accept supported shells case-insensitively', () => {
+      expect(isSupportedShell('bash')).toBe(true);
+      expect(isSupportedShell('ZSH')).toBe(true);
+      expect(isSupportedShell('powershell')).toBe(true);
+    });
+
+    it('should reject unknown shells', () => {
+      expect(isSupportedShell('tcsh')).toBe(false);
+    });
+  });
+
+  describe('normalizeShellName', () => {
+    it('should normalize shell paths and aliases', () => {
+      expect(normalizeShellName('/usr/bin/zsh')).toBe('zsh');
+      expect(normalizeShellName('/bin/sh')).toBe('bash');
+      expect(normalizeShellName('pwsh')).toBe('powershell');
+      expect(normalizeShellName('C:\\Windows\\System32\\cmd.exe')).toBe('cmd');
+      expect(normalizeShellName('/usr/local/bin/fish')).toBe('fish');
+    });
+
+    it('should return null for unknown shells', () => {
+      expect(normalizeShellName('/bin/tcsh')).toBeNull();
+    });
+  });
+
+  describe('detectShellType', () => {
+    it('should detect the shell from SHELL on Unix', () => {
+      if (os.platform() === 'win32') return;
+      process.env['SHELL'] = '/usr/bin/fish';
+      expect(detectShellType()).toBe('fish');
+    });
+
+    it('should fall back to bash for unknown shells on Unix', () => {
+      if (os.platform() === 'win32') return;
+      process.env['SHELL'] = '/bin/tcsh';
+      expect(detectShellType()).toBe('bash');
+    });
+  });
+
+  describe('quoting', () => {
+    it('should quote single quotes for POSIX shells', () => {
+      expect(quotePosix("it's")).toBe(`'it'\\''s'`);
+    });
+
+    it('should escape backslashes and quotes for fish', () => {
+      expect(quoteFish(`a\\b'c`)).toBe(`'a\\\\b\\'c'`);
+    });
+
+    it('should double single quotes for PowerShell', () => {
+      expect(quotePowerShell("it's")).toBe(`'it''s'`);
+    });
+  });
+
+  describe('formatExportStatement', () => {
+    it('should format statements for each shell', () => {
+      expect(formatExportStatement('A', 'v', 'bash')).toBe(`export A='v'`);
+      expect(formatExportStatement('A', 'v', 'zsh')).toBe(`export A='v'`);
+      expect(formatExportStatement('A', 'v', 'fish')).toBe(`set -gx A 'v';`);
+      expect(formatExportStatement('A', 'v', 'powershell')).toBe(`$env:A = 'v'`);
+      expect(formatExportStatement('A', 'v', 'cmd')).toBe(`set "A=v"`);
+    });
+
+    it('should keep shell metacharacters literal in bash', () => {
+      if (os.platform() === 'win32') return;
+      const value = `sk-$HOME \`id\` "quoted" 'single' ; echo pwned`;
+      const script = formatExportStatement('QCR_TEST_VALUE', value, 'bash');
+      const output = execFileSync('bash', ['-c', `${script}; printf '%s' "$QCR_TEST_VALUE"`]).toString();
+      expect(output).toBe(value);
+    });
+  });
+
+  describe('formatUnsetStatement', () => {
+    it('should format unset statements for each shell', () => {
+      expect(formatUnsetStatement('A', 'bash')).toBe('unset A');
+      expect(formatUnsetStatement('A', 'fish')).toBe('set -e A;');
+      expect(formatUnsetStatement('A', 'powershell')).toBe('Remove-Item Env:A -ErrorAction SilentlyContinue');
+      expect(formatUnsetStatement('A', 'cmd')).toBe('set A=');
+    });
+  });
+
+  describe('formatShellComment', () => {
+    it('should use REM for cmd and # elsewhere', () => {
+      expect(formatShellComment('hello', 'cmd')).toBe('REM hello');
+      expect(formatShellComment('hello', 'bash')).toBe('# hello');
+    });
+  });
+
+  describe('formatShellScript', () => {
+    it('should mix export and unset statements', () => {
+      const script = formatShellScript({ A: '1', B: undefined }, 'bash');
+      expect(script).toBe(`export A='1'\nunset B`);
+    });
+  });
+
+  describe('formatEnvironmentExports', () => {
+    it('should export all managed variables', () => {
+      const script = formatEnvironmentExports({
+        OPENAI_API_KEY: 'key',
+        OPENAI_BASE_URL: 'https://api.example.com/v1',
+        OPENAI_MODEL: 'model'
+      }, 'bash');
+
+      expect(script.split('\n')).toEqual([
+        `export OPENAI_API_KEY='key'`,
+        `export OPENAI_BASE_URL='https://api.example.com/v1'`,
+        `export OPENAI_MODEL='model'`
+      ]);
+    });
+  });
+
+  describe('formatEnvironmentUnsets', () => {
+    it('should unset all managed variables', () => {
+      expect(formatEnvironmentUnsets('bash')).toBe('unset OPENAI_API_KEY\nunset OPENAI_BASE_URL\nunset OPENAI_MODEL');
+    });
+  });
+
+  describe('getShellEvalHint', () => {
+    it('should produce shell-specific hints', () => {
+      expect(getShellEvalHint('qcr env x', 'bash')).toBe('eval "$(qcr env x --shell bash)"');
+      expect(getShellEvalHint('qcr env x', 'fish')).toBe('qcr env x --shell fish | source');
+    });
+  });
+});
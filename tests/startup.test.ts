@@ -79,7 +79,7 @@ describe('Startup Flow System', () => {
 
     it('should provide appropriate suggestions for each step', () => {
       const configFileSuggestions = getStartupFlowSuggestions(StartupStep.CHECKING_CONFIG_FILE);
-      expect(configFileSuggestions).toContain('Create a configuration file (config.yaml or config.json)');
+      expect(configFileSuggestions).toContain('Create a configuration file (config.yaml, config.json or config.toml)');
       expect(configFileSuggestions).toContain('Check file permissions and accessibility');
 
       const defaultConfigSuggestions = getStartupFlowSuggestions(StartupStep.CHECKING_DEFAULT_CONFIG);
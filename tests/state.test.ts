@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the active configuration state
+ */
+
+import {
+  getStateFilePath,
+  readActiveState,
+  writeActiveState,
+  tryWriteActiveState,
+  clearActiveState,
+  getActiveConfigurationName,
+  resolveActiveState,
+  STATE_FILE_ENV_VAR
+} from '../src/state';
+import { useCommand } from '../src/commands/use';
+import { listConfigCommand } from '../src/commands/list';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Active Configuration State', () => {
+  const originalEnv = { ...process.env };
+
+  const testConfigFile: ConfigFile = {
+    default_config: [{ name: 'openai-gpt4' }],
+    configs: [
+      {
+        config: [
+          { name: 'openai-gpt4', provider: 'openai', model: 'gpt-4' },
+          { name: 'deepseek-chat', provider: 'deepseek', model: 'deepseek-chat' }
+        ]
+      }
+    ],
+    providers: [
+      {
+        provider: 'openai',
+        env: {
+          api_key: 'sk-openai-key',
+          base_url: 'https://api.openai.com/v1',
+          models: [{ model: 'gpt-4' }, { model: 'gpt-4o' }]
+        }
+      },
+      {
+        provider: 'deepseek',
+        env: {
+          api_key: 'sk-deepseek-key',
+          base_url: 'https://api.deepseek.com',
+          models: [{ model: 'deepseek-chat' }]
+        }
+      }
+    ]
+  };
+
+  let tempDir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-state-test-'));
+    configPath = path.join(tempDir, 'config.yaml');
+    fs.writeFileSync(configPath, require('yaml').stringify(testConfigFile));
+    process.env[STATE_FILE_ENV_VAR] = path.join(tempDir, 'state', 'state.json');
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('getStateFilePath', () => {
+    it('should honor the QCR_STATE_FILE override', () => {
+      expect(getStateFilePath()).toBe(path.join(tempDir, 'state', 'state.json'));
+    });
+
+    it('should default to the user configuration directory', () => {
+      delete process.env[STATE_FILE_ENV_VAR];
+      expect(path.basename(getStateFilePath())).toBe('state.json');
+      expect(getStateFilePath()).toContain('qcr');
+    });
+  });
+
+  describe('readActiveState / writeActiveState', () => {
+    it('should return null when no state is recorded', () => {
+      expect(readActiveState()).toBeNull();
+    });
+
+    it('should round-trip a recorded state', () => {
+      const written = writeActiveState({
+        name: 'openai-gpt4',
+        provider: 'openai',
+        model: 'gpt-4',
+        sourceFile: configPath,
+        activatedBy: 'use'
+      });
+
+      expect(written.activatedAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+      expect(readActiveState()).toEqual(written);
+    });
+
+    it('should treat a corrupted state file as no state', () => {
+      fs.mkdirSync(path.dirname(getStateFilePath()), { recursive: true });
+      fs.writeFileSync(getStateFilePath(), '{not json');
+      expect(readActiveState()).toBeNull();
+    });
+
+    it('should clear the recorded state', () => {
+      writeActiveState({ name: 'a', provider: 'openai', model: 'gpt-4', sourceFile: null, activatedBy: 'use' });
+      clearActiveState();
+      expect(readActiveState()).toBeNull();
+    });
+
+    it('should report a warning instead of throwing when the state cannot be written', () => {
+      // A regular file where the state directory should be makes mkdir fail
+      const blocker = path.join(tempDir, 'blocker');
+      fs.writeFileSync(blocker, '');
+      process.env[STATE_FILE_ENV_VAR] = path.join(blocker, 'state.json');
+
+      const warning = tryWriteActiveState({ name: 'a', provider: 'openai', model: 'gpt-4', sourceFile: null, activatedBy: 'use' });
+      expect(warning).toContain('Failed to write active configuration state');
+    });
+  });
+
+  describe('getActiveConfigurationName', () => {
+    it('should only report the name for the matching configuration file', () => {
+      writeActiveState({ name: 'openai-gpt4', provider: 'openai', model: 'gpt-4', sourceFile: configPath, activatedBy: 'use' });
+
+      expect(getActiveConfigurationName(configPath)).toBe('openai-gpt4');
+      expect(getActiveConfigurationName(path.join(tempDir, 'other.yaml'))).toBeNull();
+    });
+  });
+
+  describe('resolveActiveState', () => {
+    it('should fail when no state is recorded', async () => {
+      const result = await resolveActiveState();
+      expect(result.success).toBe(false);
+    });
+
+    it('should resolve a named configuration from its source file', async () => {
+      writeActiveState({ name: 'deepseek-chat', provider: 'deepseek', model: 'deepseek-chat', sourceFile: configPath, activatedBy: 'use' });
+
+      const result = await resolveActiveState();
+      expect(result.success).toBe(true);
+      expect(result.environmentVariables).toEqual({
+        OPENAI_API_KEY: 'sk-deepseek-key',
+        OPENAI_BASE_URL: 'https://api.deepseek.com',
+        OPENAI_MODEL: 'deepseek-chat'
+      });
+    });
+
+    it('should resolve a router activation by provider and model without touching process.env', async () => {
+      delete process.env['OPENAI_MODEL'];
+      writeActiveState({ name: 'openai/gpt-4o', provider: 'openai', model: 'gpt-4o', sourceFile: configPath, activatedBy: 'router' });
+
+      const result = await resolveActiveState();
+      expect(result.success).toBe(true);
+      expect(result.environmentVariables?.OPENAI_MODEL).toBe('gpt-4o');
+      expect(process.env['OPENAI_MODEL']).toBeUndefined();
+    });
+
+    it('should fail when the source file no longer exists', async () => {
+      writeActiveState({ name: 'openai-gpt4', provider: 'openai', model: 'gpt-4', sourceFile: path.join(tempDir, 'gone.yaml'), activatedBy: 'use' });
+
+      const result = await resolveActiveState();
+      expect(result.success).toBe(false);
+      expect(result.state?.name).toBe('openai-gpt4');
+    });
+  });
+
+  describe('command integration', () => {
+    it('should record the configuration activated by use', async () => {
+      const result = await useCommand({ configName: 'deepseek-chat', currentDir: tempDir });
+      expect(result.success).toBe(true);
+
+      const state = readActiveState();
+      expect(state).toMatchObject({
+        name: 'deepseek-chat',
+        provider: 'deepseek',
+        model: 'deepseek-chat',
+        sourceFile: path.resolve(configPath),
+        activatedBy: 'use'
+      });
+    });
+
+    it('should mark the active configuration in list config', async () => {
+      await useCommand({ configName: 'deepseek-chat', currentDir: tempDir });
+
+      const result = await listConfigCommand({ currentDir: tempDir });
+      expect(result.success).toBe(true);
+      expect(result.details).toContain('openai-gpt4 (default)');
+      expect(result.details).toContain('deepseek-chat (active)');
+    });
+  });
+});
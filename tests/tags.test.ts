@@ -0,0 +1,190 @@
+/**
+ * Unit tests for configuration descriptions and tags
+ */
+
+import { findConfigurationsByTag } from '../src/resolver';
+import { validateConfigFile } from '../src/validation';
+import { extractOption } from '../src/command-args';
+import { listConfigurations } from '../src/commands';
+import { chkCommand, parseChkCommandArgs } from '../src/commands/chk';
+import { parseListCommandArgs } from '../src/commands/list';
+import { parseUseCommandArgs, useCommand } from '../src/commands/use';
+import { parseModelRequirements } from '../src/selection';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'yaml';
+
+describe('Configuration tags', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  const createConfig = (): ConfigFile => ({
+    default_config: [{ name: 'chat' }],
+    configs: [{
+      config: [
+        { name: 'chat', provider: 'deepseek', model: 'deepseek-chat', description: 'Everyday coding', tags: ['cheap', 'prod'] },
+        { name: 'reasoner', provider: 'deepseek', model: 'deepseek-reasoner', tags: ['Cheap'] },
+        { name: 'gpt4', provider: 'openai', model: 'gpt-4', tags: ['prod'] },
+        { name: 'local', provider: 'openai', model: 'gpt-4o', tags: ['local'] }
+      ]
+    }],
+    providers: [{
+      provider: 'deepseek',
+      env: {
+        api_key: 'sk-deepseek-key-12345',
+        base_url: 'https://api.deepseek.com/v1',
+        models: [
+          { model: 'deepseek-chat', context_window: 128000, capabilities: { tools: true } },
+          { model: 'deepseek-reasoner', context_window: 64000, capabilities: { tools: true } }
+        ]
+      }
+    }, {
+      provider: 'openai',
+      env: { api_key: 'sk-openai-key-12345', base_url: 'https://api.openai.com/v1', models: [{ model: 'gpt-4' }, { model: 'gpt-4o' }] }
+    }]
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-tags-test-'));
+    process.env['XDG_CONFIG_HOME'] = tempDir;
+    process.env['APPDATA'] = tempDir;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('configuration file', () => {
+    it('should find configurations by tag case-insensitively', () => {
+      expect(findConfigurationsByTag('cheap', createConfig()).map(c => c.name)).toEqual(['chat', 'reasoner']);
+      expect(findConfigurationsByTag('PROD', createConfig()).map(c => c.name)).toEqual(['chat', 'gpt4']);
+      expect(findConfigurationsByTag('nothing', createConfig())).toEqual([]);
+    });
+
+    it('should validate descriptions and tags', () => {
+      const config = createConfig();
+      expect(validateConfigFile(config).isValid).toBe(true);
+
+      (config.configs[0]!.config[0] as any).description = 42;
+      (config.configs[0]!.config[1] as any).tags = 'cheap';
+      expect(validateConfigFile(config).errors).toEqual([
+        'configs[0].config[0]: description must be a string',
+        'configs[0].config[1]: tags must be a list of names'
+      ]);
+    });
+  });
+
+  describe('qcr list config', () => {
+    it('should show descriptions and tags in verbose mode', () => {
+      const result = listConfigurations(createConfig(), { verbose: true });
+
+      expect(result.details).toBe([
+        '  chat (default) - Provider: deepseek, Model: deepseek-chat',
+        '    Everyday coding',
+        '    Tags: cheap, prod',
+        '  reasoner - Provider: deepseek, Model: deepseek-reasoner',
+        '    Tags: Cheap',
+        '  gpt4 - Provider: openai, Model: gpt-4',
+        '    Tags: prod',
+        '  local - Provider: openai, Model: gpt-4o',
+        '    Tags: local'
+      ].join('\n'));
+      expect(listConfigurations(createConfig()).details).not.toContain('Tags');
+    });
+
+    it('should filter by tag', () => {
+      const result = listConfigurations(createConfig(), { tag: 'cheap' });
+      expect(result.message).toBe("Available configurations tagged 'cheap':");
+      expect(result.details).toBe('  chat (default)\n  reasoner');
+
+      const none = listConfigurations(createConfig(), { tag: 'gpu' });
+      expect(none.success).toBe(true);
+      expect(none.message).toBe("No configurations tagged 'gpu'");
+    });
+
+    it('should parse --tag only with the config subcommand', () => {
+      expect(parseListCommandArgs(['config', '--tag', 'cheap'])).toEqual({ valid: true, options: { subcommand: 'config', tag: 'cheap' } });
+      expect(parseListCommandArgs(['config', '--tag=cheap', '-v']).options).toEqual({ subcommand: 'config', tag: 'cheap', verbose: true });
+      expect(parseListCommandArgs(['provider', '--tag', 'cheap']).error).toBe('--tag can only be used with config subcommand');
+      expect(parseListCommandArgs(['config', '--tag']).error).toBe('--tag requires a value');
+    });
+  });
+
+  describe('qcr chk --tag', () => {
+    beforeEach(() => {
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), yaml.stringify(createConfig()));
+    });
+
+    it('should only validate tagged configurations', async () => {
+      const result = await chkCommand({ tag: 'cheap', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("All 2 configurations tagged 'cheap' are valid");
+      expect(result.details).toBe('  ✓ chat (default)\n  ✓ reasoner');
+    });
+
+    it('should fail when no configuration carries the tag', async () => {
+      const result = await chkCommand({ tag: 'gpu', currentDir: tempDir });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("No configurations tagged 'gpu'");
+    });
+
+    it('should parse --tag', () => {
+      expect(parseChkCommandArgs(['--tag', 'prod', '-v'])).toEqual({ valid: true, options: { verbose: true, tag: 'prod' } });
+      expect(parseChkCommandArgs(['chat', '--tag', 'prod']).error).toBe('A configuration name cannot be combined with --tag');
+    });
+  });
+
+  describe('qcr use --tag', () => {
+    beforeEach(() => {
+      fs.writeFileSync(path.join(tempDir, 'config.yaml'), yaml.stringify(createConfig()));
+    });
+
+    it('should activate the only tagged configuration', async () => {
+      const result = await useCommand({ tag: 'local', currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Successfully activated tagged configuration 'local'");
+      expect(process.env['OPENAI_MODEL']).toBe('gpt-4o');
+    });
+
+    it('should fail when the tag is ambiguous or unused', async () => {
+      const ambiguous = await useCommand({ tag: 'prod', currentDir: tempDir });
+      expect(ambiguous.success).toBe(false);
+      expect(ambiguous.message).toBe("Tag 'prod' matches 2 configurations");
+      expect(ambiguous.details).toContain('Use one of the tagged configurations by name: chat, gpt4');
+
+      const unused = await useCommand({ tag: 'gpu', currentDir: tempDir });
+      expect(unused.success).toBe(false);
+      expect(unused.message).toBe("No configuration is tagged 'gpu'");
+    });
+
+    it('should select among tagged configurations with --need', async () => {
+      const result = await useCommand({ tag: 'cheap', need: parseModelRequirements('tools,100k').requirements!, currentDir: tempDir });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Successfully activated selected configuration 'chat'");
+      expect(result.details).toContain('✗ reasoner');
+      expect(result.details).not.toContain('gpt4');
+    });
+
+    it('should parse --tag', () => {
+      expect(parseUseCommandArgs(['--tag=local'])).toEqual({ valid: true, options: { tag: 'local' } });
+      expect(parseUseCommandArgs(['chat', '--tag', 'local']).error).toBe('A configuration name cannot be combined with --tag');
+      expect(parseUseCommandArgs(['--tag']).error).toBe('--tag requires a value');
+    });
+  });
+
+  describe('extractOption', () => {
+    it('should extract the value of an option', () => {
+      expect(extractOption(['config', '--tag', 'a', '-v'], '--tag')).toEqual({ value: 'a', remainingArgs: ['config', '-v'] });
+      expect(extractOption(['--tag=b'], '--tag')).toEqual({ value: 'b', remainingArgs: [] });
+      expect(extractOption(['-v'], '--tag')).toEqual({ remainingArgs: ['-v'] });
+      expect(extractOption(['--tag='], '--tag').error).toBe('--tag requires a value');
+    });
+  });
+});
@@ -0,0 +1,13 @@
+/**
+ * Jest setup: isolates per-user state written by commands under test
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+
+// Keep 'use', '/router' and 'set-default' from recording state in the real user directory
+process.env['QCR_STATE_FILE'] = path.join(os.tmpdir(), `qcr-test-state-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+
+// Keep 'secret' from touching the real vault, and never pick up a developer's passphrase
+process.env['QCR_VAULT_FILE'] = path.join(os.tmpdir(), `qcr-test-vault-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+delete process.env['QCR_VAULT_PASSPHRASE'];
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the encrypted secret vault
+ */
+
+import {
+  getVaultFilePath,
+  setSecret,
+  getSecret,
+  removeSecret,
+  listSecretNames,
+  hasSecret,
+  readVault,
+  parseVaultReference,
+  resolveVaultSecret,
+  setSessionPassphrase,
+  VAULT_FILE_ENV_VAR,
+  VAULT_PASSPHRASE_ENV_VAR
+} from '../src/vault';
+import { resolveProviderApiKey } from '../src/interpolation';
+import { validateConfiguration } from '../src/commands/chk';
+import { ConfigFile } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Secret Vault', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qcr-vault-test-'));
+    process.env[VAULT_FILE_ENV_VAR] = path.join(tempDir, 'vault.json');
+    setSessionPassphrase(undefined);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setSessionPassphrase(undefined);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseVaultReference', () => {
+    it('should extract the secret name from vault: references', () => {
+      expect(parseVaultReference('vault:deepseek')).toBe('deepseek');
+      expect(parseVaultReference('sk-plain')).toBeNull();
+      expect(parseVaultReference('vault:')).toBeNull();
+      expect(parseVaultReference(undefined)).toBeNull();
+    });
+  });
+
+  describe('set / get / remove', () => {
+    it('should create the vault on first set and round-trip secrets', () => {
+      setSecret('deepseek', 'sk-deepseek', 'correct horse');
+
+      expect(fs.existsSync(getVaultFilePath())).toBe(true);
+      expect(getSecret('deepseek', 'correct horse')).toBe('sk-deepseek');
+      expect(listSecretNames()).toEqual(['deepseek']);
+      expect(hasSecret('deepseek')).toBe(true);
+    });
+
+    it('should not store secret values in plain text', () => {
+      setSecret('deepseek', 'sk-deepseek-plain', 'pass');
+      const content = fs.readFileSync(getVaultFilePath(), 'utf-8');
+
+      expect(content).not.toContain('sk-deepseek-plain');
+      expect(readVault()!.kdf.name).toBe('scrypt');
+    });
+
+    it('should reject an incorrect passphrase', () => {
+      setSecret('deepseek', 'sk-deepseek', 'pass');
+
+      expect(() => getSecret('deepseek', 'wrong')).toThrow('Incorrect vault passphrase');
+      expect(() => setSecret('openai', 'sk-openai', 'wrong')).toThrow('Incorrect vault passphrase');
+    });
+
+    it('should detect tampered secrets', () => {
+      setSecret('deepseek', 'sk-deepseek', 'pass');
+      const vault = readVault()!;
+      vault.secrets['deepseek']!.data = Buffer.from('tampered').toString('base64');
+      fs.writeFileSync(getVaultFilePath(), JSON.stringify(vault));
+
+      expect(() => getSecret('deepseek', 'pass')).toThrow();
+    });
+
+    it('should report missing secrets and vaults', () => {
+      expect(() => getSecret('deepseek', 'pass')).toThrow('Vault not found');
+      setSecret('openai', 'sk-openai', 'pass');
+      expect(() => getSecret('deepseek', 'pass')).toThrow('Secret "deepseek" not found in vault');
+    });
+
+    it('should remove secrets', () => {
+      setSecret('deepseek', 'sk-deepseek', 'pass');
+
+      expect(removeSecret('deepseek')).toBe(true);
+      expect(removeSecret('deepseek')).toBe(false);
+      expect(listSecretNames()).toEqual([]);
+    });
+
+    it('should reject invalid secret names', () => {
+      expect(() => setSecret('bad name', 'value', 'pass')).toThrow('Invalid secret name');
+    });
+  });
+
+  describe('activation-time resolution', () => {
+    it('should decrypt vault references with QCR_VAULT_PASSPHRASE', () => {
+      setSecret('deepseek', 'sk-deepseek', 'pass');
+      process.env[VAULT_PASSPHRASE_ENV_VAR] = 'pass';
+
+      expect(resolveProviderApiKey({ api_key: 'vault:deepseek', base_url: 'https://api.deepseek.com', models: [] })).toBe('sk-deepseek');
+    });
+
+    it('should prefer the session passphrase', () => {
+      setSecret('deepseek', 'sk-deepseek', 'pass');
+      process.env[VAULT_PASSPHRASE_ENV_VAR] = 'wrong';
+      setSessionPassphrase('pass');
+
+      expect(resolveVaultSecret('deepseek')).toBe('sk-deepseek');
+    });
+
+    it('should fail with guidance when no passphrase is available', () => {
+      setSecret('deepseek', 'sk-deepseek', 'pass');
+
+      expect(() => resolveVaultSecret('deepseek')).toThrow(VAULT_PASSPHRASE_ENV_VAR);
+    });
+  });
+
+  describe('chk integration', () => {
+    const config: ConfigFile = {
+      configs: [{ config: [{ name: 'ds', provider: 'deepseek', model: 'deepseek-chat' }] }],
+      providers: [{
+        provider: 'deepseek',
+        env: { api_key: 'vault:deepseek', base_url: 'https://api.deepseek.com', models: [{ model: 'deepseek-chat' }] }
+      }]
+    };
+
+    it('should accept references to existing secrets without decrypting them', () => {
+      setSecret('deepseek', 'sk-deepseek', 'pass');
+
+      const result = validateConfiguration('ds', config);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should report references to missing secrets', () => {
+      const result = validateConfiguration('ds', config);
+      expect(result.isValid).toBe(false);
+      expect(result.errors.join('\n')).toContain("Vault secret 'deepseek' for provider 'deepseek' not found");
+    });
+  });
+});